@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import { SysMLAnalysisChart } from './SysMLAnalysisChart';
+import type { SysMLAnalysisResult } from './analysis';
+
+const result: SysMLAnalysisResult = {
+  analysisCaseId: 'RangeStudy',
+  name: 'RangeStudy',
+  parameters: ['payload', 'capacity'],
+  points: [
+    { parameters: { payload: 100, capacity: 60 }, result: 337.5, violated: [] },
+    { parameters: { payload: 100, capacity: 90 }, result: 506.25, violated: [] },
+    { parameters: { payload: 500, capacity: 60 }, result: 270, violated: ['massLimit'] },
+    { parameters: { payload: 500, capacity: 90 }, error: "'mass' has no value", violated: [] }
+  ],
+  truncated: false
+};
+
+describe('SysMLAnalysisChart Component', () => {
+  it('should draw one series per combination of the other parameters', () => {
+    const { container, getByRole, getByText } = render(<SysMLAnalysisChart result={result} />);
+
+    expect(getByRole('img').getAttribute('aria-label')).toBe('RangeStudy over payload');
+    expect(container.querySelectorAll('.sysml-analysis-chart__series')).toHaveLength(2);
+    expect(container.querySelectorAll('.sysml-analysis-chart__point')).toHaveLength(3);
+    expect(getByText('capacity = 60')).toBeDefined();
+    expect(getByText('capacity = 90')).toBeDefined();
+  });
+
+  it('should mark points that violate a constraint', () => {
+    const { container } = render(<SysMLAnalysisChart result={result} />);
+    const violated = container.querySelectorAll('.sysml-analysis-chart__point--violated');
+
+    expect(violated).toHaveLength(1);
+    expect(violated[0].textContent).toBe('payload = 500\ncapacity = 60\nRangeStudy = 270\nviolates massLimit');
+  });
+
+  it('should say when there is nothing to plot', () => {
+    const { getByText } = render(<SysMLAnalysisChart result={{ ...result, points: [result.points[3]] }} />);
+
+    expect(getByText('No numeric results')).toBeDefined();
+  });
+});
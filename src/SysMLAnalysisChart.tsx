@@ -0,0 +1,158 @@
+import { memo, type CSSProperties } from 'react';
+
+import type { SysMLAnalysisPoint, SysMLAnalysisResult } from './analysis';
+import type { SysMLValue } from './expressions';
+
+export interface SysMLAnalysisChartProps {
+  result: SysMLAnalysisResult;
+  /** Swept parameter on the x axis; defaults to the first one. The others split the points into series. */
+  xParameter?: string;
+  width?: number;
+  height?: number;
+  className?: string;
+  style?: CSSProperties;
+}
+
+const seriesColors = ['#0f62fe', '#24a148', '#8a3ffc', '#ff832b', '#1192e8', '#ee5396'];
+const violationColor = '#da1e28';
+const margin = { top: 16, right: 16, bottom: 36, left: 56 };
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(4)));
+
+const extent = (values: number[]): [number, number] => {
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  return low === high ? [low - 1, high + 1] : [low, high];
+};
+
+interface ChartSeries {
+  label: string;
+  points: { x: number; y: number; point: SysMLAnalysisPoint }[];
+}
+
+/**
+ * Line chart of a `runAnalysis` result: the analysis result over one swept
+ * parameter, one line per combination of the other parameters. Points that
+ * violate a constraint are drawn in red, and points without a numeric result
+ * are left out.
+ */
+export const SysMLAnalysisChart = memo(
+  ({ result, xParameter = result.parameters[0], width = 480, height = 280, className, style }: SysMLAnalysisChartProps) => {
+    const others = result.parameters.filter((parameter) => parameter !== xParameter);
+    const xValues: SysMLValue[] = [];
+    const seriesByLabel = new Map<string, ChartSeries>();
+
+    result.points.forEach((point, index) => {
+      if (typeof point.result !== 'number') {
+        return;
+      }
+      const xValue = xParameter === undefined ? index : point.parameters[xParameter];
+      if (!xValues.includes(xValue)) {
+        xValues.push(xValue);
+      }
+      const label = others.map((parameter) => `${parameter} = ${point.parameters[parameter]}`).join(', ');
+      const series = seriesByLabel.get(label) ?? { label, points: [] };
+      seriesByLabel.set(label, series);
+      // Non-numeric parameter values are spread evenly in sweep order
+      series.points.push({ x: typeof xValue === 'number' ? xValue : xValues.indexOf(xValue), y: point.result, point });
+    });
+
+    const series = Array.from(seriesByLabel.values());
+    const numericX = xValues.every((value) => typeof value === 'number');
+    const plotted = series.flatMap((line) => line.points);
+    const [xMin, xMax] = extent(plotted.map(({ x }) => x));
+    const [yMin, yMax] = extent(plotted.map(({ y }) => y));
+    const plotWidth = width - margin.left - margin.right;
+    const plotHeight = height - margin.top - margin.bottom;
+    const scaleX = (x: number) => margin.left + ((x - xMin) / (xMax - xMin)) * plotWidth;
+    const scaleY = (y: number) => margin.top + plotHeight - ((y - yMin) / (yMax - yMin)) * plotHeight;
+
+    return (
+      <div
+        className={['sysml-analysis-chart', className].filter(Boolean).join(' ')}
+        style={{ fontFamily: 'sans-serif', fontSize: 12, ...style }}
+      >
+        {plotted.length === 0 ? (
+          <div style={{ padding: 8, opacity: 0.7 }}>No numeric results</div>
+        ) : (
+          <svg width={width} height={height} role="img" aria-label={`${result.name} over ${xParameter ?? 'points'}`}>
+            <g stroke="#8d8d8d">
+              <line x1={margin.left} y1={margin.top + plotHeight} x2={width - margin.right} y2={margin.top + plotHeight} />
+              <line x1={margin.left} y1={margin.top} x2={margin.left} y2={margin.top + plotHeight} />
+            </g>
+            <g fill="#525252">
+              {(numericX ? [xMin, xMax] : []).map((x) => (
+                <text key={`x${x}`} x={scaleX(x)} y={height - margin.bottom + 14} textAnchor="middle">
+                  {formatNumber(x)}
+                </text>
+              ))}
+              {!numericX &&
+                xValues.map((value, index) => (
+                  <text key={`x${index}`} x={scaleX(index)} y={height - margin.bottom + 14} textAnchor="middle">
+                    {String(value)}
+                  </text>
+                ))}
+              {[yMin, yMax].map((y) => (
+                <text key={`y${y}`} x={margin.left - 6} y={scaleY(y) + 4} textAnchor="end">
+                  {formatNumber(y)}
+                </text>
+              ))}
+              <text x={margin.left + plotWidth / 2} y={height - 4} textAnchor="middle">
+                {xParameter ?? 'point'}
+              </text>
+            </g>
+            {series.map((line, index) => {
+              const color = seriesColors[index % seriesColors.length];
+              return (
+                <g key={line.label} className="sysml-analysis-chart__series">
+                  <polyline
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={2}
+                    points={line.points.map(({ x, y }) => `${scaleX(x)},${scaleY(y)}`).join(' ')}
+                  />
+                  {line.points.map(({ x, y, point }) => (
+                    <circle
+                      key={`${x}`}
+                      className={
+                        point.violated.length > 0
+                          ? 'sysml-analysis-chart__point sysml-analysis-chart__point--violated'
+                          : 'sysml-analysis-chart__point'
+                      }
+                      cx={scaleX(x)}
+                      cy={scaleY(y)}
+                      r={point.violated.length > 0 ? 5 : 3.5}
+                      fill={point.violated.length > 0 ? violationColor : color}
+                    >
+                      <title>
+                        {[
+                          ...Object.entries(point.parameters).map(([name, value]) => `${name} = ${value}`),
+                          `${result.name} = ${formatNumber(y)}`,
+                          ...point.violated.map((name) => `violates ${name}`)
+                        ].join('\n')}
+                      </title>
+                    </circle>
+                  ))}
+                </g>
+              );
+            })}
+          </svg>
+        )}
+        {series.length > 1 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, padding: '4px 0' }}>
+            {series.map((line, index) => (
+              <span key={line.label} className="sysml-analysis-chart__legend">
+                <span style={{ color: seriesColors[index % seriesColors.length] }}>■</span> {line.label}
+              </span>
+            ))}
+          </div>
+        )}
+        {result.truncated && (
+          <div style={{ padding: '4px 0', opacity: 0.7 }}>Showing the first {result.points.length} points</div>
+        )}
+      </div>
+    );
+  }
+);
+
+SysMLAnalysisChart.displayName = 'SysMLAnalysisChart';
@@ -1,9 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { render } from '@testing-library/react';
-import { ReactFlowProvider } from 'reactflow';
+import { fireEvent, render } from '@testing-library/react';
+import { ReactFlowProvider, type NodeProps } from 'reactflow';
 import { SysMLDiagram } from './SysMLDiagram';
 import type { SysMLModel } from './viewpoints';
-import { structuralDefinitionViewpoint } from './viewpoints';
+import { structuralDefinitionViewpoint, usageStructureViewpoint } from './viewpoints';
 
 describe('SysMLDiagram Component', () => {
   const sampleNodes = [
@@ -190,6 +190,53 @@ describe('SysMLDiagram Component', () => {
     expect(container.querySelector('.react-flow')).toBeDefined();
   });
 
+  it('should dim elements outside highlightedElements', () => {
+    const nodes = [
+      ...sampleNodes,
+      { ...sampleNodes[0], id: 'node-2', data: { ...sampleNodes[0].data, id: 'node-2', name: 'Engine' } }
+    ];
+    const { container } = render(
+      <ReactFlowProvider>
+        <div style={{ width: 800, height: 600 }}>
+          <SysMLDiagram nodes={nodes} edges={sampleEdges} highlightedElements={['node-1', 'edge-1']} />
+        </div>
+      </ReactFlowProvider>
+    );
+
+    const node = (id: string) => container.querySelector<HTMLElement>(`.react-flow__node[data-id="${id}"]`);
+    expect(node('node-1')?.style.opacity).toBe('');
+    expect(node('node-2')?.style.opacity).toBe('0.2');
+  });
+
+  it('should keep decorated nodes across re-renders with the same inputs', () => {
+    const rendered: unknown[] = [];
+    const ProbeNode = ({ data }: NodeProps) => {
+      rendered.push(data);
+      return null;
+    };
+    const nodeTypes = { 'sysml.part-definition': ProbeNode };
+    const diagnostics = [{ elementId: 'node-1', severity: 'error' as const, message: 'Broken' }];
+    const diagram = (showMiniMap: boolean) => (
+      <ReactFlowProvider>
+        <div style={{ width: 800, height: 600 }}>
+          <SysMLDiagram
+            nodes={sampleNodes}
+            edges={sampleEdges}
+            nodeTypes={nodeTypes}
+            diagnostics={diagnostics}
+            showMiniMap={showMiniMap}
+          />
+        </div>
+      </ReactFlowProvider>
+    );
+
+    const { rerender } = render(diagram(true));
+    rerender(diagram(false));
+
+    expect(rendered.length).toBeGreaterThan(0);
+    expect(new Set(rendered).size).toBe(1);
+  });
+
   it('should accept children', () => {
     const { getByText } = render(
       <ReactFlowProvider>
@@ -203,4 +250,40 @@ describe('SysMLDiagram Component', () => {
 
     expect(getByText('Custom Child')).toBeDefined();
   });
+  it('should collapse and expand nested containers', () => {
+    const model: SysMLModel = {
+      nodes: [
+        { kind: 'part-usage', spec: { id: 'vehicle', name: 'vehicle', parts: ['engine'] } },
+        { kind: 'part-usage', spec: { id: 'engine', name: 'engine' } }
+      ],
+      relationships: []
+    };
+    const toggles: Array<[string, boolean]> = [];
+    const { container, getByLabelText } = render(
+      <ReactFlowProvider>
+        <div style={{ width: 800, height: 600 }}>
+          <SysMLDiagram
+            model={model}
+            viewpoint={usageStructureViewpoint}
+            viewOptions={{ nested: true }}
+            onContainerToggle={(id, collapsed) => toggles.push([id, collapsed])}
+          />
+        </div>
+      </ReactFlowProvider>
+    );
+
+    const node = (id: string) => container.querySelector(`.react-flow__node[data-id="${id}"]`);
+    expect(node('engine')).not.toBeNull();
+
+    fireEvent.click(getByLabelText('Collapse vehicle'));
+    expect(node('engine')).toBeNull();
+    expect(getByLabelText('Expand vehicle').textContent).toBe('▸ 1');
+
+    fireEvent.click(getByLabelText('Expand vehicle'));
+    expect(node('engine')).not.toBeNull();
+    expect(toggles).toEqual([
+      ['vehicle', true],
+      ['vehicle', false]
+    ]);
+  });
 });
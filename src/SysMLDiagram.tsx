@@ -1,10 +1,44 @@
-import { memo, type ComponentProps } from 'react';
-import ReactFlow, { Background, ConnectionMode, Controls, MiniMap } from 'reactflow';
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ComponentProps,
+  type CSSProperties
+} from 'react';
+import ReactFlow, { Background, ConnectionMode, Controls, MiniMap, Panel } from 'reactflow';
+import type { Connection, EdgeChange, NodeChange, XYPosition } from 'reactflow';
 
+import { collapseContainers, elevateNestedEdges, SysMLContainmentContext } from './containment';
+import { attachCoverage, type RequirementCoverageReport } from './coverage';
+import { attachDiagnostics, SysMLProblemsPanel } from './diagnostics';
 import { sysmlEdgeTypes, SysMLEdgeMarkersComponent } from './edges';
+import { SysMLEditingContext, SysMLPalette, SysMLPropertyEditor, SysMLRelationshipPicker } from './editing';
+import { createDefaultNodeSpec, createRelationshipSpec, groupModelDeltas, type SysMLModelDelta } from './modelDelta';
+import { attachDiff, diffModels, withRemovedElements } from './modelDiff';
 import { sysmlNodeTypes } from './nodes';
+import { attachEvaluation, type SysMLModelEvaluation } from './parametrics';
+import { formatPortEndpoint, portOfHandle } from './ports';
+import { isolateElements } from './query';
+import { attachSimulation } from './simulation';
+import { SysMLQueryBox, type SysMLQuerySelection } from './SysMLQueryBox';
+import { SysMLSimulationPanel, type SysMLStateMachineSimulator } from './SysMLSimulationPanel';
+import { SysMLTokenFlowPanel, type SysMLTokenFlowSimulator } from './SysMLTokenFlowPanel';
+import { attachTokenFlow } from './tokenFlow';
+import { attachUnitSystem, type SysMLUnitSystem } from './units';
+import { allowedRelationshipKinds } from './validation';
+import { attachConfiguration, getVariationPoints, type SysMLConfiguration } from './variability';
 import { realizeViewpoint } from './viewpoints';
-import type { SysMLReactFlowEdge, SysMLReactFlowNode } from './types';
+import type {
+  SysMLEdgeKind,
+  SysMLElementDiagnostic,
+  SysMLNodeKind,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode
+} from './types';
+import type { SysMLViewpointDefinition } from './viewpointDefinitions';
 import type { SysMLModel, SysMLViewpoint, ViewMaterializationOptions } from './viewpoints';
 
 type BaseReactFlowProps = ComponentProps<typeof ReactFlow>;
@@ -14,15 +48,101 @@ export interface SysMLDiagramProps
   nodes?: SysMLReactFlowNode[];
   edges?: SysMLReactFlowEdge[];
   model?: SysMLModel;
-  viewpoint?: SysMLViewpoint;
+  viewpoint?: SysMLViewpoint | SysMLViewpointDefinition;
   viewOptions?: ViewMaterializationOptions;
   nodeTypes?: BaseReactFlowProps['nodeTypes'];
   edgeTypes?: BaseReactFlowProps['edgeTypes'];
   showControls?: boolean;
   showMiniMap?: boolean;
   showBackground?: boolean;
+  /** Problems to badge on the nodes and edges they refer to, e.g. from `validateModel`. */
+  diagnostics?: SysMLElementDiagnostic[];
+  /** Show the problems panel when `diagnostics` are given (default true). */
+  showProblemsPanel?: boolean;
+  onDiagnosticSelect?: (diagnostic: SysMLElementDiagnostic) => void;
+  /** Requirement coverage to show as rings on requirement nodes, from `computeRequirementCoverage`. */
+  coverage?: RequirementCoverageReport;
+  /** Constraint results and computed values to show on parametric nodes, from `evaluateModel`. */
+  evaluation?: SysMLModelEvaluation;
+  /** Show values with units (`12 [kg]`) in the units of this system, e.g. `imperialUnitSystem`. */
+  unitSystem?: SysMLUnitSystem;
+  /**
+   * Variant selection to show with `model`: variation points without a
+   * selection are outlined as unresolved and unselected variants are greyed out.
+   */
+  configuration?: SysMLConfiguration;
+  /**
+   * Diff view: compare `model` against this earlier version of it. Added,
+   * removed and modified elements are outlined, removed ones are drawn faded,
+   * and changed fields are listed on hover.
+   */
+  diffBase?: SysMLModel;
+  /**
+   * Simulation to animate, from `useStateMachineSimulation`: active states and
+   * the transitions fired by the last step are highlighted.
+   */
+  simulator?: SysMLStateMachineSimulator;
+  /**
+   * Activity token flow to animate, from `useTokenFlowSimulation`: nodes fired
+   * by the last step are highlighted and tokens are drawn on their flows.
+   */
+  tokenFlow?: SysMLTokenFlowSimulator;
+  /** Show the simulation controls when a `simulator` or `tokenFlow` is given (default true). */
+  showSimulationPanel?: boolean;
+  /** Node and relationship ids to emphasize, e.g. a trace; every other element is dimmed. */
+  highlightedElements?: string[];
+  /**
+   * With a `model`, show a query box (see `parseQuery`) whose matches are
+   * highlighted, or shown on their own with the relationships between them.
+   */
+  showQueryBox?: boolean;
+  onQuerySelectionChange?: (selection?: SysMLQuerySelection) => void;
+  /**
+   * Editing mode: a palette to create elements, visible connection handles and
+   * a relationship picker on connect. Edits are reported through `onModelChange`.
+   */
+  editable?: boolean;
+  onModelChange?: (delta: SysMLModelDelta) => void;
+  /** Kinds offered by the palette; defaults to the viewpoint's kinds, or every kind. */
+  paletteKinds?: SysMLNodeKind[];
+  /**
+   * In editing mode with a `model`, show a property editor for the selected
+   * node (default true). Edits are reported as `update-node` deltas.
+   */
+  showPropertyEditor?: boolean;
+  /**
+   * Called when a container's collapse toggle is clicked. Containers come from
+   * `viewOptions.nested` or `nestNodes`; `viewOptions.collapsed` sets the
+   * initially collapsed ones.
+   */
+  onContainerToggle?: (id: string, collapsed: boolean) => void;
+  /** Called on Ctrl/Cmd+Z in editing mode, e.g. `undo` from `useSysMLModelEditor`. */
+  onUndo?: () => void;
+  /** Called on Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y in editing mode. */
+  onRedo?: () => void;
 }
 
+interface DiagramGraph {
+  nodes: SysMLReactFlowNode[];
+  edges: SysMLReactFlowEdge[];
+}
+
+interface NodeOverride {
+  position?: XYPosition;
+  selected?: boolean;
+}
+
+const dimmedOpacity = 0.2;
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const dimOthers = <T extends { id: string; style?: CSSProperties }>(elements: T[], highlighted: Set<string>) =>
+  elements.map((element) =>
+    highlighted.has(element.id) ? element : { ...element, style: { ...element.style, opacity: dimmedOpacity } }
+  );
+
 export const SysMLDiagram = memo(
   ({
     nodes,
@@ -33,42 +153,366 @@ export const SysMLDiagram = memo(
     showControls = true,
     showMiniMap = true,
     showBackground = true,
+    diagnostics,
+    showProblemsPanel = true,
+    onDiagnosticSelect,
+    coverage,
+    evaluation,
+    unitSystem,
+    configuration,
+    diffBase,
+    simulator,
+    tokenFlow,
+    showSimulationPanel = true,
+    highlightedElements,
+    showQueryBox = false,
+    onQuerySelectionChange,
+    editable = false,
+    onModelChange,
+    paletteKinds,
+    showPropertyEditor = true,
+    onContainerToggle,
+    onUndo,
+    onRedo,
     nodeTypes,
     edgeTypes,
     children,
     fitView = true,
     ...rest
   }: SysMLDiagramProps) => {
-    let resolvedNodes = nodes;
-    let resolvedEdges = edges;
-    const { connectionMode, ...reactFlowProps } = rest;
-
-    if (model && viewpoint) {
-      const view = realizeViewpoint(model, viewpoint, viewOptions);
-      resolvedNodes = view.nodes;
-      resolvedEdges = view.edges;
-    }
+    const [nodeOverrides, setNodeOverrides] = useState<Record<string, NodeOverride>>({});
+    const [selectedEdges, setSelectedEdges] = useState<Record<string, boolean>>({});
+    const [pendingConnection, setPendingConnection] = useState<Connection & { source: string; target: string }>();
+    const pendingRemovals = useRef<SysMLModelDelta[]>([]);
+    const [collapsedContainers, setCollapsedContainers] = useState<string[]>(viewOptions?.collapsed ?? []);
+    const [querySelection, setQuerySelection] = useState<SysMLQuerySelection>();
+
+    useEffect(() => {
+      if (!editable || (!onUndo && !onRedo)) {
+        return undefined;
+      }
+      const onKeyDown = (event: KeyboardEvent) => {
+        // Text fields keep their own undo
+        if (event.defaultPrevented || !(event.ctrlKey || event.metaKey) || isTextInput(event.target)) {
+          return;
+        }
+        const key = event.key.toLowerCase();
+        const handler = key === 'z' ? (event.shiftKey ? onRedo : onUndo) : key === 'y' ? onRedo : undefined;
+        if (handler) {
+          event.preventDefault();
+          handler();
+        }
+      };
+      document.addEventListener('keydown', onKeyDown);
+      return () => document.removeEventListener('keydown', onKeyDown);
+    }, [editable, onUndo, onRedo]);
+
+    const {
+      connectionMode,
+      onNodesChange,
+      onEdgesChange,
+      onNodeDragStop,
+      onNodesDelete,
+      onEdgesDelete,
+      onConnect,
+      isValidConnection,
+      ...reactFlowProps
+    } = rest;
 
-    if (!resolvedNodes || !resolvedEdges) {
+    // Each stage is memoized on its own inputs, so a drag or a simulation step
+    // only redoes the stages downstream of what changed.
+    const diff = useMemo(() => (model && diffBase ? diffModels(diffBase, model) : undefined), [model, diffBase]);
+
+    const view = useMemo(() => {
+      if (!model || !viewpoint) {
+        return { nodes, edges };
+      }
+      const shownModel = diff ? withRemovedElements(model, diff) : model;
+      return realizeViewpoint(shownModel, viewpoint, { ...viewOptions, collapsed: undefined });
+    }, [nodes, edges, model, viewpoint, viewOptions, diff]);
+    const { nodes: viewNodes, edges: viewEdges } = view;
+
+    if (!viewNodes || !viewEdges) {
       throw new Error('SysMLDiagram requires nodes/edges or a model+viewpoint combination.');
     }
 
+    const contained = useMemo((): DiagramGraph => {
+      const collapsed =
+        collapsedContainers.length > 0
+          ? collapseContainers(viewNodes, viewEdges, collapsedContainers)
+          : { nodes: viewNodes, edges: viewEdges };
+      // Transitions between nested states would otherwise be hidden behind their containers
+      return { nodes: collapsed.nodes, edges: elevateNestedEdges(collapsed.nodes, collapsed.edges) };
+    }, [viewNodes, viewEdges, collapsedContainers]);
+
+    const toggleContainer = (id: string) => {
+      const collapsed = !collapsedContainers.includes(id);
+      setCollapsedContainers(collapsed ? [...collapsedContainers, id] : collapsedContainers.filter((other) => other !== id));
+      onContainerToggle?.(id, collapsed);
+    };
+
+    const diagnosed = useMemo(
+      () =>
+        diagnostics && diagnostics.length > 0
+          ? attachDiagnostics(contained.nodes, contained.edges, diagnostics)
+          : contained,
+      [contained, diagnostics]
+    );
+
+    const covered = useMemo(
+      () => (coverage ? { ...diagnosed, nodes: attachCoverage(diagnosed.nodes, coverage) } : diagnosed),
+      [diagnosed, coverage]
+    );
+
+    const evaluated = useMemo(
+      () => (evaluation ? { ...covered, nodes: attachEvaluation(covered.nodes, evaluation) } : covered),
+      [covered, evaluation]
+    );
+
+    const converted = useMemo(
+      () => (unitSystem ? { ...evaluated, nodes: attachUnitSystem(evaluated.nodes, unitSystem) } : evaluated),
+      [evaluated, unitSystem]
+    );
+
+    const configured = useMemo(
+      () =>
+        configuration && model
+          ? attachConfiguration(converted.nodes, converted.edges, getVariationPoints(model), configuration)
+          : converted,
+      [converted, model, configuration]
+    );
+
+    const compared = useMemo(
+      () => (diff ? attachDiff(configured.nodes, configured.edges, diff) : configured),
+      [configured, diff]
+    );
+
+    const simulation = simulator?.simulation;
+    const simulated = useMemo(
+      () => (simulation ? attachSimulation(compared.nodes, compared.edges, simulation) : compared),
+      [compared, simulation]
+    );
+
+    const tokenFlowSimulation = tokenFlow?.simulation;
+    const animated = useMemo(
+      () => (tokenFlowSimulation ? attachTokenFlow(simulated.nodes, simulated.edges, tokenFlowSimulation) : simulated),
+      [simulated, tokenFlowSimulation]
+    );
+
+    const queried = useMemo((): DiagramGraph => {
+      if (!showQueryBox || !querySelection) {
+        return animated;
+      }
+      if (querySelection.mode === 'isolate') {
+        return isolateElements(animated.nodes, animated.edges, querySelection.ids);
+      }
+      const matched = new Set(querySelection.ids);
+      animated.edges
+        .filter((edge) => matched.has(edge.source) && matched.has(edge.target))
+        .forEach((edge) => matched.add(edge.id));
+      return { nodes: dimOthers(animated.nodes, matched), edges: dimOthers(animated.edges, matched) };
+    }, [animated, showQueryBox, querySelection]);
+
+    const highlighted = useMemo((): DiagramGraph => {
+      if (!highlightedElements) {
+        return queried;
+      }
+      const shown = new Set(highlightedElements);
+      return { nodes: dimOthers(queried.nodes, shown), edges: dimOthers(queried.edges, shown) };
+    }, [queried, highlightedElements]);
+
+    // Positions and selections come last, so dragging or selecting does not redo the decorations
+    const edited = useMemo((): DiagramGraph => {
+      if (!editable) {
+        return highlighted;
+      }
+      return {
+        nodes: highlighted.nodes.map((node) => {
+          const override = nodeOverrides[node.id];
+          return override
+            ? { ...node, position: override.position ?? node.position, selected: override.selected }
+            : node;
+        }),
+        edges: highlighted.edges.map((edge) => (selectedEdges[edge.id] ? { ...edge, selected: true } : edge))
+      };
+    }, [highlighted, editable, nodeOverrides, selectedEdges]);
+    const { nodes: resolvedNodes, edges: resolvedEdges } = edited;
+
+    const selectedNodes = editable ? resolvedNodes.filter((node) => node.selected) : [];
+    const selectedNode = selectedNodes.length === 1 ? selectedNodes[0] : undefined;
+    const selectedSpec = selectedNode && model?.nodes.find((node) => node.spec.id === selectedNode.id);
+
+    const edgeColorOverrides = Array.from(
+      new Set(resolvedEdges.flatMap((edge) => (edge.data?.color ? [edge.data.color] : [])))
+    );
+    const kindsById = new Map(resolvedNodes.map((node) => [node.id, node.data.kind]));
+    const nameOf = (id: string) => resolvedNodes.find((node) => node.id === id)?.data.name ?? id;
+    const relationshipKinds = (source: string, target: string) => {
+      const sourceKind = kindsById.get(source);
+      const targetKind = kindsById.get(target);
+      return sourceKind && targetKind ? allowedRelationshipKinds(sourceKind, targetKind) : [];
+    };
+    const emit = (delta: SysMLModelDelta) => onModelChange?.(delta);
+    const flushRemovals = () => {
+      const deltas = pendingRemovals.current;
+      pendingRemovals.current = [];
+      if (deltas.length > 0) {
+        emit(groupModelDeltas(deltas));
+      }
+    };
+
+    const editingProps: Partial<BaseReactFlowProps> = editable
+      ? {
+          onNodesChange: (changes: NodeChange[]) => {
+            setNodeOverrides((current) => {
+              const next = { ...current };
+              changes.forEach((change) => {
+                if (change.type === 'position' && change.position) {
+                  next[change.id] = { ...next[change.id], position: change.position };
+                } else if (change.type === 'select') {
+                  next[change.id] = { ...next[change.id], selected: change.selected };
+                }
+              });
+              return next;
+            });
+            onNodesChange?.(changes);
+          },
+          onEdgesChange: (changes: EdgeChange[]) => {
+            setSelectedEdges((current) => {
+              const next = { ...current };
+              changes.forEach((change) => {
+                if (change.type === 'select') {
+                  next[change.id] = change.selected;
+                }
+              });
+              return next;
+            });
+            onEdgesChange?.(changes);
+          },
+          onNodeDragStop: (event, node, draggedNodes) => {
+            // The emitted position is authoritative: drop the local drag override
+            setNodeOverrides((current) => {
+              const next = { ...current };
+              draggedNodes.forEach((dragged) => {
+                next[dragged.id] = { selected: next[dragged.id]?.selected };
+              });
+              return next;
+            });
+            draggedNodes.forEach((dragged) => emit({ type: 'move-node', id: dragged.id, position: dragged.position }));
+            onNodeDragStop?.(event, node, draggedNodes);
+          },
+          onNodesDelete: (deleted) => {
+            pendingRemovals.current.push(...deleted.map((node): SysMLModelDelta => ({ type: 'remove-node', id: node.id })));
+            flushRemovals();
+            onNodesDelete?.(deleted);
+          },
+          onEdgesDelete: (deleted) => {
+            // React Flow reports deleted edges before the nodes deleted with them:
+            // hold the edges so a single deletion is emitted as one group
+            if (pendingRemovals.current.length === 0) {
+              queueMicrotask(flushRemovals);
+            }
+            pendingRemovals.current.push(
+              ...deleted.map((edge): SysMLModelDelta => ({ type: 'remove-relationship', id: edge.id }))
+            );
+            onEdgesDelete?.(deleted);
+          },
+          onConnect: (connection: Connection) => {
+            if (connection.source && connection.target) {
+              setPendingConnection({ ...connection, source: connection.source, target: connection.target });
+            }
+            onConnect?.(connection);
+          },
+          isValidConnection: (connection: Connection) =>
+            Boolean(connection.source && connection.target) &&
+            relationshipKinds(connection.source as string, connection.target as string).length > 0 &&
+            (isValidConnection ? isValidConnection(connection) : true)
+        }
+      : { onNodesChange, onEdgesChange, onNodeDragStop, onNodesDelete, onEdgesDelete, onConnect, isValidConnection };
+
+    // Stable while the shown ids are, so the palette keeps its drop listener
+    const shownNodeIds = resolvedNodes.map((node) => node.id).join('\n');
+    const createNode = useCallback(
+      (kind: SysMLNodeKind, position: XYPosition) => {
+        const existingIds = (model?.nodes.map((node) => node.spec.id) ?? []).concat(shownNodeIds.split('\n'));
+        onModelChange?.({ type: 'add-node', node: createDefaultNodeSpec(kind, existingIds), position });
+      },
+      [model, onModelChange, shownNodeIds]
+    );
+
+    const createRelationship = (kind: SysMLEdgeKind, connection: Connection & { source: string; target: string }) => {
+      const existingIds = (model?.relationships.map((relationship) => relationship.id) ?? []).concat(
+        resolvedEdges.map((edge) => edge.id)
+      );
+      // Connections made from a port handle end at the port
+      const source = formatPortEndpoint({ node: connection.source, port: portOfHandle(connection.sourceHandle) });
+      const target = formatPortEndpoint({ node: connection.target, port: portOfHandle(connection.targetHandle) });
+      setPendingConnection(undefined);
+      emit({ type: 'add-relationship', relationship: createRelationshipSpec(kind, source, target, existingIds) });
+    };
+
     return (
-      <ReactFlow
-        {...reactFlowProps}
-        connectionMode={connectionMode ?? ConnectionMode.Loose}
-        fitView={fitView}
-        nodes={resolvedNodes}
-        edges={resolvedEdges}
-        nodeTypes={{ ...sysmlNodeTypes, ...(nodeTypes ?? {}) }}
-        edgeTypes={{ ...sysmlEdgeTypes, ...(edgeTypes ?? {}) }}
-      >
-        <SysMLEdgeMarkersComponent />
-        {showBackground && <Background gap={16} size={1} color="#393939" />}
-        {showMiniMap && <MiniMap pannable zoomable />}
-        {showControls && <Controls position="bottom-right" />}
-        {children}
-      </ReactFlow>
+      <SysMLEditingContext.Provider value={editable}>
+        <SysMLContainmentContext.Provider value={toggleContainer}>
+          <ReactFlow
+            {...reactFlowProps}
+            {...editingProps}
+            connectionMode={connectionMode ?? ConnectionMode.Loose}
+            fitView={fitView}
+            nodes={resolvedNodes}
+            edges={resolvedEdges}
+            nodeTypes={{ ...sysmlNodeTypes, ...(nodeTypes ?? {}) }}
+            edgeTypes={{ ...sysmlEdgeTypes, ...(edgeTypes ?? {}) }}
+          >
+            <SysMLEdgeMarkersComponent additionalColors={edgeColorOverrides} />
+            {showBackground && <Background gap={16} size={1} color="#393939" />}
+            {showMiniMap && <MiniMap pannable zoomable />}
+            {showControls && <Controls position="bottom-right" />}
+            {diagnostics && showProblemsPanel && (
+              <SysMLProblemsPanel diagnostics={diagnostics} onSelect={onDiagnosticSelect} />
+            )}
+            {simulator && showSimulationPanel && <SysMLSimulationPanel simulator={simulator} />}
+            {showQueryBox && model && (
+              <SysMLQueryBox
+                model={model}
+                onSelectionChange={(selection) => {
+                  setQuerySelection(selection);
+                  onQuerySelectionChange?.(selection);
+                }}
+              />
+            )}
+            {tokenFlow && showSimulationPanel && (
+              <SysMLTokenFlowPanel simulator={tokenFlow} position={simulator ? 'bottom-left' : 'top-left'} />
+            )}
+            {editable && (
+              <SysMLPalette kinds={paletteKinds ?? (model && viewpoint ? viewpoint.includeNodeKinds : undefined)} onCreate={createNode} />
+            )}
+            {editable && showPropertyEditor && selectedNode && selectedSpec && (
+              <Panel position="bottom-left">
+                <SysMLPropertyEditor
+                  key={selectedSpec.spec.id}
+                  node={selectedSpec}
+                  position={selectedNode.position}
+                  onChange={(node) => emit({ type: 'update-node', node })}
+                  onClose={() =>
+                    setNodeOverrides((current) => ({ ...current, [selectedNode.id]: { ...current[selectedNode.id], selected: false } }))
+                  }
+                />
+              </Panel>
+            )}
+            {editable && pendingConnection && (
+              <SysMLRelationshipPicker
+                sourceName={nameOf(pendingConnection.source)}
+                targetName={nameOf(pendingConnection.target)}
+                kinds={relationshipKinds(pendingConnection.source, pendingConnection.target)}
+                onSelect={(kind) => createRelationship(kind, pendingConnection)}
+                onCancel={() => setPendingConnection(undefined)}
+              />
+            )}
+            {children}
+          </ReactFlow>
+        </SysMLContainmentContext.Provider>
+      </SysMLEditingContext.Provider>
     );
   }
 );
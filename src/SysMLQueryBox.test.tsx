@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render } from '@testing-library/react';
+import { ReactFlowProvider } from 'reactflow';
+import { SysMLDiagram } from './SysMLDiagram';
+import { structuralDefinitionViewpoint } from './viewpoints';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'part-definition', spec: { id: 'Vehicle', name: 'Vehicle' } },
+    { kind: 'part-definition', spec: { id: 'Engine', name: 'Engine', stereotype: 'block' } },
+    { kind: 'part-definition', spec: { id: 'Wheel', name: 'Wheel', stereotype: 'block' } }
+  ],
+  relationships: [
+    { id: 'd1', type: 'dependency', source: 'Vehicle', target: 'Engine' },
+    { id: 'd2', type: 'dependency', source: 'Engine', target: 'Wheel' }
+  ]
+};
+
+const renderDiagram = (onQuerySelectionChange = vi.fn()) =>
+  render(
+    <ReactFlowProvider>
+      <div style={{ width: 800, height: 600 }}>
+        <SysMLDiagram
+          model={model}
+          viewpoint={structuralDefinitionViewpoint}
+          showQueryBox
+          onQuerySelectionChange={onQuerySelectionChange}
+        />
+      </div>
+    </ReactFlowProvider>
+  );
+
+const search = (getByLabelText: (label: string) => HTMLElement, query: string) => {
+  fireEvent.change(getByLabelText('Query'), { target: { value: query } });
+  fireEvent.submit(getByLabelText('Query').closest('form')!);
+};
+
+describe('Query Box', () => {
+  it('should highlight the matches and the relationships between them', () => {
+    const onQuerySelectionChange = vi.fn();
+    const { container, getByLabelText, getByText } = renderDiagram(onQuerySelectionChange);
+
+    search(getByLabelText, 'stereotype:block');
+
+    const node = (id: string) => container.querySelector<HTMLElement>(`.react-flow__node[data-id="${id}"]`);
+    expect(getByText('2 matches')).toBeDefined();
+    expect(node('Vehicle')?.style.opacity).toBe('0.2');
+    expect(node('Engine')?.style.opacity).toBe('');
+    expect(onQuerySelectionChange).toHaveBeenLastCalledWith({
+      query: { type: 'stereotype', value: 'block' },
+      ids: ['Engine', 'Wheel'],
+      mode: 'highlight'
+    });
+  });
+
+  it('should show only the matches when isolating them', () => {
+    const { container, getByLabelText, getByRole } = renderDiagram();
+
+    search(getByLabelText, 'dependency<-(id:Vehicle) or Wheel');
+    fireEvent.click(getByRole('button', { name: 'isolate' }));
+
+    const ids = Array.from(container.querySelectorAll('.react-flow__node')).map((node) => node.getAttribute('data-id'));
+    expect(ids).toEqual(['Engine', 'Wheel']);
+    expect(getByRole('button', { name: 'isolate' }).getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('should report invalid queries and clear the selection', () => {
+    const onQuerySelectionChange = vi.fn();
+    const { container, getByLabelText, getByRole } = renderDiagram(onQuerySelectionChange);
+
+    search(getByLabelText, 'colour:red');
+
+    expect(container.querySelector('.sysml-query-box__error')?.textContent).toBe("Unknown field 'colour' at 0");
+    expect(onQuerySelectionChange).toHaveBeenLastCalledWith(undefined);
+
+    search(getByLabelText, 'Engine');
+    fireEvent.click(getByRole('button', { name: 'Clear' }));
+    expect(getByLabelText('Query')).toHaveValue('');
+    expect(onQuerySelectionChange).toHaveBeenLastCalledWith(undefined);
+  });
+});
@@ -0,0 +1,162 @@
+import { memo, useState, type CSSProperties, type FormEvent } from 'react';
+import { Panel, type PanelPosition } from 'reactflow';
+
+import { parseQuery, runQuery, SysMLQueryError, type SysMLQuery } from './query';
+import type { SysMLModel } from './viewpoints';
+
+export type SysMLQueryMode = 'highlight' | 'isolate';
+
+/** Result of the query entered in a `SysMLQueryBox`. */
+export interface SysMLQuerySelection {
+  query: SysMLQuery;
+  /** Ids of the matching elements, in model order. */
+  ids: string[];
+  mode: SysMLQueryMode;
+}
+
+export interface SysMLQueryBoxProps {
+  model: SysMLModel;
+  /** Called with each new result, and without one when the query is cleared or invalid. */
+  onSelectionChange: (selection?: SysMLQuerySelection) => void;
+  defaultQuery?: string;
+  defaultMode?: SysMLQueryMode;
+  position?: PanelPosition;
+}
+
+const buttonStyle: CSSProperties = {
+  padding: '2px 8px',
+  background: '#262626',
+  border: '1px solid #525252',
+  borderRadius: 4,
+  color: 'inherit',
+  font: 'inherit',
+  cursor: 'pointer'
+};
+
+const modes: SysMLQueryMode[] = ['highlight', 'isolate'];
+
+/**
+ * Query input rendered inside a ReactFlow: the query (see `parseQuery`) runs
+ * on Enter, and its matches are reported to be highlighted or shown on their
+ * own. `SysMLDiagram` renders one with `showQueryBox`.
+ */
+export const SysMLQueryBox = memo(
+  ({
+    model,
+    onSelectionChange,
+    defaultQuery = '',
+    defaultMode = 'highlight',
+    position = 'top-center'
+  }: SysMLQueryBoxProps) => {
+    const [text, setText] = useState(defaultQuery);
+    const [mode, setMode] = useState<SysMLQueryMode>(defaultMode);
+    const [selection, setSelection] = useState<SysMLQuerySelection>();
+    const [error, setError] = useState<string>();
+
+    const update = (next?: SysMLQuerySelection) => {
+      setSelection(next);
+      onSelectionChange(next);
+    };
+
+    const submit = (submitted: FormEvent) => {
+      submitted.preventDefault();
+      if (!text.trim()) {
+        setError(undefined);
+        update(undefined);
+        return;
+      }
+      try {
+        const query = parseQuery(text);
+        setError(undefined);
+        update({ query, ids: runQuery(model, query), mode });
+      } catch (failure) {
+        if (!(failure instanceof SysMLQueryError)) {
+          throw failure;
+        }
+        setError(failure.message);
+        update(undefined);
+      }
+    };
+
+    const changeMode = (next: SysMLQueryMode) => {
+      setMode(next);
+      if (selection) {
+        update({ ...selection, mode: next });
+      }
+    };
+
+    const clear = () => {
+      setText('');
+      setError(undefined);
+      update(undefined);
+    };
+
+    return (
+      <Panel position={position}>
+        <div
+          className="sysml-query-box"
+          style={{
+            width: 420,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 6,
+            padding: '8px 10px',
+            background: 'rgba(22, 22, 22, 0.95)',
+            border: '1px solid #393939',
+            borderRadius: 6,
+            color: '#f4f4f4',
+            fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+            fontSize: 12,
+            boxShadow: '0 4px 16px rgba(0,0,0,0.35)'
+          }}
+        >
+          <form onSubmit={submit} style={{ display: 'flex', gap: 4 }}>
+            <input
+              aria-label="Query"
+              placeholder="Query, e.g. kind:part-* satisfy->(in:Requirements)"
+              value={text}
+              onChange={(changed) => setText(changed.target.value)}
+              style={{ flex: 1, minWidth: 0, ...buttonStyle, cursor: 'text', background: '#161616' }}
+            />
+            <button type="submit" style={buttonStyle}>
+              Find
+            </button>
+            <button type="button" onClick={clear} style={buttonStyle}>
+              Clear
+            </button>
+          </form>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+            {error ? (
+              <span className="sysml-query-box__error" style={{ color: '#fa4d56' }}>
+                {error}
+              </span>
+            ) : (
+              <span className="sysml-query-box__status" style={{ opacity: 0.75 }}>
+                {selection ? `${selection.ids.length} ${selection.ids.length === 1 ? 'match' : 'matches'}` : ''}
+              </span>
+            )}
+            <div role="group" aria-label="Show matches" style={{ display: 'flex', gap: 4 }}>
+              {modes.map((candidate) => (
+                <button
+                  key={candidate}
+                  type="button"
+                  aria-pressed={mode === candidate}
+                  onClick={() => changeMode(candidate)}
+                  style={{
+                    ...buttonStyle,
+                    textTransform: 'capitalize',
+                    ...(mode === candidate && { background: '#0f62fe', border: '1px solid #0f62fe' })
+                  }}
+                >
+                  {candidate}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </Panel>
+    );
+  }
+);
+
+SysMLQueryBox.displayName = 'SysMLQueryBox';
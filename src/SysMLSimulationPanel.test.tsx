@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, fireEvent, render } from '@testing-library/react';
+import { ReactFlowProvider } from 'reactflow';
+import { createStateTransitionEdge, createStateUsageNode } from './factories';
+import type { SysMLStateMachineDefinition } from './simulation';
+import { SysMLDiagram } from './SysMLDiagram';
+import { useStateMachineSimulation } from './SysMLSimulationPanel';
+
+const definition: SysMLStateMachineDefinition = {
+  states: [
+    { id: 'off', name: 'Off' },
+    { id: 'on', name: 'On', entryAction: 'count := count + 1' }
+  ],
+  transitions: [
+    { id: 'up', source: 'off', target: 'on', trigger: 'powerOn' },
+    { id: 'down', source: 'on', target: 'off', trigger: 'powerOff' }
+  ]
+};
+
+const nodes = [createStateUsageNode({ id: 'off', name: 'Off' }), createStateUsageNode({ id: 'on', name: 'On' })];
+const edges = [
+  createStateTransitionEdge({ id: 'up', source: 'off', target: 'on', trigger: 'powerOn' }),
+  createStateTransitionEdge({ id: 'down', source: 'on', target: 'off', trigger: 'powerOff' })
+];
+
+const SimulatedDiagram = ({ showSimulationPanel }: { showSimulationPanel?: boolean }) => {
+  const simulator = useStateMachineSimulation(definition, { variables: { count: 0 }, interval: 100 });
+  return (
+    <ReactFlowProvider>
+      <div style={{ width: 800, height: 600 }}>
+        <SysMLDiagram nodes={nodes} edges={edges} simulator={simulator} showSimulationPanel={showSimulationPanel} />
+      </div>
+    </ReactFlowProvider>
+  );
+};
+
+const activeText = (container: HTMLElement) => container.querySelector('.sysml-simulation-panel__active')?.textContent;
+const queueText = (container: HTMLElement) => container.querySelector('.sysml-simulation-panel__queue')?.textContent;
+
+describe('Simulation Panel', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue events and step through them', () => {
+    const { container, getByRole, getByText } = render(<SimulatedDiagram />);
+    expect(activeText(container)).toBe('Off');
+    expect(getByRole('button', { name: 'Step' })).toBeDisabled();
+
+    fireEvent.click(getByRole('button', { name: 'powerOn' }));
+    fireEvent.change(getByRole('textbox', { name: 'Event' }), { target: { value: 'powerOff' } });
+    fireEvent.submit(getByRole('textbox', { name: 'Event' }));
+    expect(queueText(container)).toBe('powerOn, powerOff');
+
+    fireEvent.click(getByRole('button', { name: 'Step' }));
+    expect(activeText(container)).toBe('On');
+    expect(queueText(container)).toBe('powerOff');
+    expect(getByText('Simulation · step 1')).toBeDefined();
+    expect(getByText('1 · entry On: count := count + 1')).toBeDefined();
+
+    fireEvent.click(getByRole('button', { name: 'Reset' }));
+    expect([activeText(container), queueText(container)]).toEqual(['Off', 'empty']);
+  });
+
+  it('should run queued events one per interval', () => {
+    vi.useFakeTimers();
+    const { container, getByRole } = render(<SimulatedDiagram />);
+    fireEvent.click(getByRole('button', { name: 'powerOn' }));
+    fireEvent.change(getByRole('textbox', { name: 'Event' }), { target: { value: 'powerOff' } });
+    fireEvent.submit(getByRole('textbox', { name: 'Event' }));
+
+    fireEvent.click(getByRole('button', { name: 'Run' }));
+    expect(getByRole('button', { name: 'Pause' })).toBeDefined();
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(activeText(container)).toBe('On');
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect([activeText(container), queueText(container)]).toEqual(['Off', 'empty']);
+    expect(getByRole('button', { name: 'Run' })).toBeDisabled();
+  });
+
+  it('should hide the panel when showSimulationPanel is false', () => {
+    const { container } = render(<SimulatedDiagram showSimulationPanel={false} />);
+
+    expect(container.querySelector('.sysml-simulation-panel')).toBeNull();
+  });
+});
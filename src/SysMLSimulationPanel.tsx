@@ -0,0 +1,231 @@
+import { memo, useCallback, useEffect, useRef, useState, type CSSProperties, type FormEvent } from 'react';
+import { Panel, type PanelPosition } from 'reactflow';
+
+import {
+  createStateMachineSimulation,
+  getAvailableEvents,
+  queueSimulationEvent,
+  sendSimulationEvent,
+  simulationHighlightColor,
+  stepSimulation,
+  type SysMLSimulationOptions,
+  type SysMLSimulationTraceEntry,
+  type SysMLStateMachineDefinition,
+  type SysMLStateMachineSimulation
+} from './simulation';
+
+export interface SysMLSimulatorOptions extends SysMLSimulationOptions {
+  /** Delay between steps while running, in milliseconds (default 600). */
+  interval?: number;
+}
+
+export interface SysMLStateMachineSimulator {
+  simulation: SysMLStateMachineSimulation;
+  /** Queued events are being processed one per `interval`. */
+  running: boolean;
+  /** Process the next queued event. */
+  step: () => void;
+  /** Process the queued events one per `interval`, until the queue is empty or `pause` is called. */
+  run: () => void;
+  pause: () => void;
+  /** Restart from the initial state of the current definition. */
+  reset: () => void;
+  /** Add an event to the queue. */
+  queue: (event: string) => void;
+  /** Process an event right away, after the queued ones. */
+  send: (event: string) => void;
+}
+
+/**
+ * Keep a state machine simulation in state, with step/run controls for
+ * `SysMLDiagram` (`simulator` prop) or a `SysMLSimulationPanel`.
+ *
+ * @example
+ * ```tsx
+ * const simulator = useStateMachineSimulation(getStateMachineDefinition(model), { variables: { charge: 80 } });
+ *
+ * <SysMLDiagram model={model} viewpoint={stateViewpoint} simulator={simulator} />
+ * ```
+ */
+export const useStateMachineSimulation = (
+  definition: SysMLStateMachineDefinition,
+  { interval = 600, ...options }: SysMLSimulatorOptions = {}
+): SysMLStateMachineSimulator => {
+  const [simulation, setSimulation] = useState(() => createStateMachineSimulation(definition, options));
+  const [running, setRunning] = useState(false);
+  // Reset starts from the latest definition, not the one the hook was first called with
+  const latest = useRef({ definition, options });
+  latest.current = { definition, options };
+
+  useEffect(() => {
+    if (!running) {
+      return undefined;
+    }
+    if (simulation.queue.length === 0) {
+      setRunning(false);
+      return undefined;
+    }
+    const timer = setTimeout(() => setSimulation(stepSimulation), interval);
+    return () => clearTimeout(timer);
+  }, [running, simulation, interval]);
+
+  const step = useCallback(() => setSimulation(stepSimulation), []);
+  const run = useCallback(() => setRunning(true), []);
+  const pause = useCallback(() => setRunning(false), []);
+  const reset = useCallback(() => {
+    setRunning(false);
+    setSimulation(createStateMachineSimulation(latest.current.definition, latest.current.options));
+  }, []);
+  const queue = useCallback((event: string) => setSimulation((current) => queueSimulationEvent(current, event)), []);
+  const send = useCallback((event: string) => setSimulation((current) => sendSimulationEvent(current, event)), []);
+
+  return { simulation, running, step, run, pause, reset, queue, send };
+};
+
+const buttonStyle: CSSProperties = {
+  padding: '2px 8px',
+  background: '#262626',
+  border: '1px solid #525252',
+  borderRadius: 4,
+  color: 'inherit',
+  font: 'inherit',
+  cursor: 'pointer'
+};
+
+const sectionLabelStyle: CSSProperties = { fontSize: 10, textTransform: 'uppercase', letterSpacing: 1, opacity: 0.6 };
+
+export interface SysMLSimulationPanelProps {
+  simulator: SysMLStateMachineSimulator;
+  position?: PanelPosition;
+  /** Number of most recent trace entries to list (default 8). */
+  traceLength?: number;
+}
+
+/**
+ * Controls of a state machine simulation, rendered inside a ReactFlow: active
+ * states, the event queue with an input to add events, step, run/pause and
+ * reset buttons, and the latest trace entries.
+ */
+export const SysMLSimulationPanel = memo(
+  ({ simulator, position = 'top-left', traceLength = 8 }: SysMLSimulationPanelProps) => {
+    const [event, setEvent] = useState('');
+    const { simulation, running, step, run, pause, reset, queue } = simulator;
+    const names = new Map(simulation.definition.states.map((state) => [state.id, state.name]));
+    const nameOf = (id: string) => names.get(id) ?? id;
+    // Innermost active states; their active owners are implied
+    const activeParents = new Set(
+      simulation.definition.states.filter((state) => simulation.active.includes(state.id)).map((state) => state.parent)
+    );
+    const leaves = simulation.active.filter((id) => !activeParents.has(id));
+    const availableEvents = getAvailableEvents(simulation);
+
+    const submit = (submitted: FormEvent) => {
+      submitted.preventDefault();
+      if (event.trim()) {
+        queue(event.trim());
+        setEvent('');
+      }
+    };
+
+    const formatEntry = (entry: SysMLSimulationTraceEntry) =>
+      `${entry.type} ${entry.type === 'event' || entry.type === 'unhandled' ? entry.element : nameOf(entry.element)}${
+        entry.detail ? `: ${entry.detail}` : ''
+      }`;
+
+    return (
+      <Panel position={position}>
+        <div
+          className="sysml-simulation-panel"
+          style={{
+            width: 300,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 8,
+            padding: '8px 10px',
+            background: 'rgba(22, 22, 22, 0.95)',
+            border: '1px solid #393939',
+            borderRadius: 6,
+            color: '#f4f4f4',
+            fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+            fontSize: 12,
+            boxShadow: '0 4px 16px rgba(0,0,0,0.35)'
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 600 }}>
+            <span>Simulation · step {simulation.step}</span>
+            {simulation.completed && <span style={{ color: simulationHighlightColor }}>completed</span>}
+          </div>
+          <div>
+            <div style={sectionLabelStyle}>Active</div>
+            <div className="sysml-simulation-panel__active" style={{ color: simulationHighlightColor }}>
+              {leaves.length > 0 ? leaves.map(nameOf).join(', ') : 'none'}
+            </div>
+          </div>
+          <div>
+            <div style={sectionLabelStyle}>Queue</div>
+            <div className="sysml-simulation-panel__queue">
+              {simulation.queue.length > 0 ? simulation.queue.join(', ') : 'empty'}
+            </div>
+          </div>
+          <form onSubmit={submit} style={{ display: 'flex', gap: 4 }}>
+            <input
+              aria-label="Event"
+              placeholder="Event, e.g. powerOn"
+              value={event}
+              onChange={(changed) => setEvent(changed.target.value)}
+              style={{ flex: 1, minWidth: 0, ...buttonStyle, cursor: 'text', background: '#161616' }}
+            />
+            <button type="submit" style={buttonStyle}>
+              Queue
+            </button>
+          </form>
+          {availableEvents.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+              {availableEvents.map((available) => (
+                <button
+                  key={available}
+                  type="button"
+                  title={`Queue ${available}`}
+                  onClick={() => queue(available)}
+                  style={{ ...buttonStyle, borderColor: simulationHighlightColor }}
+                >
+                  {available}
+                </button>
+              ))}
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: 4 }}>
+            <button type="button" onClick={step} disabled={running || simulation.queue.length === 0} style={buttonStyle}>
+              Step
+            </button>
+            <button
+              type="button"
+              onClick={running ? pause : run}
+              disabled={!running && simulation.queue.length === 0}
+              style={buttonStyle}
+            >
+              {running ? 'Pause' : 'Run'}
+            </button>
+            <button type="button" onClick={reset} style={buttonStyle}>
+              Reset
+            </button>
+          </div>
+          {simulation.trace.length > 0 && (
+            <ol
+              className="sysml-simulation-panel__trace"
+              style={{ margin: 0, padding: '4px 0 0', listStyle: 'none', borderTop: '1px solid #393939', fontFamily: 'monospace' }}
+            >
+              {simulation.trace.slice(-traceLength).map((entry, index) => (
+                <li key={index} style={{ color: entry.type === 'error' || entry.type === 'unhandled' ? '#fa4d56' : undefined }}>
+                  {entry.step} · {formatEntry(entry)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </Panel>
+    );
+  }
+);
+
+SysMLSimulationPanel.displayName = 'SysMLSimulationPanel';
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { fireEvent, render } from '@testing-library/react';
+import { ReactFlowProvider } from 'reactflow';
+import { createActionUsageNode, createActivityControlNode, createEdgesFromRelationships } from './factories';
+import { SysMLDiagram } from './SysMLDiagram';
+import { useTokenFlowSimulation } from './SysMLTokenFlowPanel';
+import { getActivityDefinition } from './tokenFlow';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'activity-control', spec: { id: 'start', name: 'start', controlType: 'initial' } },
+    { kind: 'activity-control', spec: { id: 'split', name: 'split', controlType: 'fork' } },
+    { kind: 'action-usage', spec: { id: 'heat', name: 'heat' } },
+    { kind: 'accept-action', spec: { id: 'ready', name: 'Ready' } },
+    { kind: 'activity-control', spec: { id: 'sync', name: 'sync', controlType: 'join' } },
+    { kind: 'action-usage', spec: { id: 'orphan', name: 'orphan' } }
+  ],
+  relationships: [
+    { id: 'f1', type: 'control-flow', source: 'start', target: 'split' },
+    { id: 'f2', type: 'control-flow', source: 'split', target: 'heat' },
+    { id: 'f3', type: 'control-flow', source: 'split', target: 'ready' },
+    { id: 'f4', type: 'control-flow', source: 'heat', target: 'sync' },
+    { id: 'f5', type: 'control-flow', source: 'ready', target: 'sync' }
+  ]
+};
+
+const definition = getActivityDefinition(model);
+const nodes = [
+  createActivityControlNode({ id: 'start', name: 'start', controlType: 'initial' }),
+  createActivityControlNode({ id: 'split', name: 'split', controlType: 'fork' }),
+  createActionUsageNode({ id: 'heat', name: 'heat' })
+];
+const edges = createEdgesFromRelationships(model.relationships);
+
+const TokenFlowDiagram = () => {
+  const tokenFlow = useTokenFlowSimulation(definition);
+  return (
+    <ReactFlowProvider>
+      <div style={{ width: 800, height: 600 }}>
+        <SysMLDiagram nodes={nodes} edges={edges} tokenFlow={tokenFlow} />
+      </div>
+    </ReactFlowProvider>
+  );
+};
+
+const statusText = (container: HTMLElement) => container.querySelector('.sysml-token-flow-panel__status')?.textContent;
+
+describe('Token Flow Panel', () => {
+  it('should step until an accept action waits and continue on a signal', () => {
+    const { container, getByRole, getByText } = render(<TokenFlowDiagram />);
+    expect(getByText('1 token')).toBeDefined();
+    expect(getByText('Unreachable: orphan')).toBeDefined();
+
+    fireEvent.click(getByRole('button', { name: 'Step' }));
+    fireEvent.click(getByRole('button', { name: 'Step' }));
+    expect(statusText(container)).toBe('waiting for signals');
+    expect(getByText('Ready waits for signal Ready')).toBeDefined();
+    expect(getByRole('button', { name: 'Step' })).toBeDisabled();
+
+    fireEvent.change(getByRole('textbox', { name: 'Signal' }), { target: { value: 'Ready' } });
+    fireEvent.submit(getByRole('textbox', { name: 'Signal' }));
+    expect(statusText(container)).toBe('ready');
+
+    fireEvent.click(getByRole('button', { name: 'Step' }));
+    fireEvent.click(getByRole('button', { name: 'Step' }));
+    expect(statusText(container)).toBe('completed');
+
+    fireEvent.click(getByRole('button', { name: 'Reset' }));
+    expect(statusText(container)).toBe('ready');
+    expect(getByText('Token flow · step 0')).toBeDefined();
+  });
+});
@@ -0,0 +1,230 @@
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type CSSProperties, type FormEvent } from 'react';
+import { Panel, type PanelPosition } from 'reactflow';
+
+import { simulationHighlightColor } from './simulation';
+import {
+  analyzeActivity,
+  createTokenFlowSimulation,
+  sendTokenFlowSignal,
+  stepTokenFlow,
+  type SysMLActivityAnalysis,
+  type SysMLActivityDefinition,
+  type SysMLTokenFlowOptions,
+  type SysMLTokenFlowSimulation
+} from './tokenFlow';
+
+export interface SysMLTokenFlowSimulatorOptions extends SysMLTokenFlowOptions {
+  /** Delay between steps while running, in milliseconds (default 600). */
+  interval?: number;
+}
+
+export interface SysMLTokenFlowSimulator {
+  simulation: SysMLTokenFlowSimulation;
+  /** Unreachable nodes and possible deadlocks over all runs of the definition. */
+  analysis: SysMLActivityAnalysis;
+  /** Steps are taken one per `interval`. */
+  running: boolean;
+  step: () => void;
+  /** Step one per `interval` until the flow completes or blocks, or `pause` is called. */
+  run: () => void;
+  pause: () => void;
+  /** Restart with the initial tokens of the current definition. */
+  reset: () => void;
+  /** Send a signal from outside the activity. */
+  signal: (name: string) => void;
+}
+
+/**
+ * Keep a token-flow simulation of an activity in state, with step/run
+ * controls for `SysMLDiagram` (`tokenFlow` prop) or a `SysMLTokenFlowPanel`.
+ * Pass a memoized definition: the analysis is recomputed when it changes.
+ *
+ * @example
+ * ```tsx
+ * const definition = useMemo(() => getActivityDefinition(model), [model]);
+ * const tokenFlow = useTokenFlowSimulation(definition, { variables: { beans: 3 } });
+ *
+ * <SysMLDiagram model={model} viewpoint={behaviorControlViewpoint} tokenFlow={tokenFlow} />
+ * ```
+ */
+export const useTokenFlowSimulation = (
+  definition: SysMLActivityDefinition,
+  { interval = 600, ...options }: SysMLTokenFlowSimulatorOptions = {}
+): SysMLTokenFlowSimulator => {
+  const [simulation, setSimulation] = useState(() => createTokenFlowSimulation(definition, options));
+  const [running, setRunning] = useState(false);
+  const analysis = useMemo(() => analyzeActivity(definition), [definition]);
+  // Reset starts from the latest definition, not the one the hook was first called with
+  const latest = useRef({ definition, options });
+  latest.current = { definition, options };
+
+  useEffect(() => {
+    if (!running) {
+      return undefined;
+    }
+    if (simulation.completed || simulation.blocked.length > 0) {
+      setRunning(false);
+      return undefined;
+    }
+    const timer = setTimeout(() => {
+      const next = stepTokenFlow(simulation);
+      // A step firing nothing leaves the simulation as it was
+      if (next === simulation) {
+        setRunning(false);
+      } else {
+        setSimulation(next);
+      }
+    }, interval);
+    return () => clearTimeout(timer);
+  }, [running, simulation, interval]);
+
+  const step = useCallback(() => setSimulation(stepTokenFlow), []);
+  const run = useCallback(() => setRunning(true), []);
+  const pause = useCallback(() => setRunning(false), []);
+  const reset = useCallback(() => {
+    setRunning(false);
+    setSimulation(createTokenFlowSimulation(latest.current.definition, latest.current.options));
+  }, []);
+  const signal = useCallback((name: string) => setSimulation((current) => sendTokenFlowSignal(current, name)), []);
+
+  return { simulation, analysis, running, step, run, pause, reset, signal };
+};
+
+const buttonStyle: CSSProperties = {
+  padding: '2px 8px',
+  background: '#262626',
+  border: '1px solid #525252',
+  borderRadius: 4,
+  color: 'inherit',
+  font: 'inherit',
+  cursor: 'pointer'
+};
+
+const sectionLabelStyle: CSSProperties = { fontSize: 10, textTransform: 'uppercase', letterSpacing: 1, opacity: 0.6 };
+
+export interface SysMLTokenFlowPanelProps {
+  simulator: SysMLTokenFlowSimulator;
+  position?: PanelPosition;
+}
+
+/**
+ * Controls of an activity token-flow simulation, rendered inside a ReactFlow:
+ * token count and status, blocked nodes, a signal input, step, run/pause and
+ * reset buttons, and the unreachable nodes and possible deadlocks found by
+ * `analyzeActivity`.
+ */
+export const SysMLTokenFlowPanel = memo(({ simulator, position = 'top-left' }: SysMLTokenFlowPanelProps) => {
+  const [signal, setSignal] = useState('');
+  const { simulation, analysis, running, step, run, pause, reset } = simulator;
+  const names = new Map(simulation.definition.nodes.map((node) => [node.id, node.name]));
+  const nameOf = (id: string) => names.get(id) ?? id;
+  const tokenCount = Object.values(simulation.tokens).reduce((total, count) => total + count, 0);
+  const stopped = simulation.completed || simulation.blocked.length > 0;
+  // Blocked nodes are deadlocked unless a signal can still set the flow going
+  const awaitsSignal = simulation.blocked.some((blockage) => blockage.signal !== undefined);
+  const status = simulation.completed
+    ? 'completed'
+    : simulation.blocked.length > 0
+      ? awaitsSignal
+        ? 'waiting for signals'
+        : 'deadlock'
+      : running
+        ? 'running'
+        : 'ready';
+
+  const submit = (submitted: FormEvent) => {
+    submitted.preventDefault();
+    if (signal.trim()) {
+      simulator.signal(signal.trim());
+      setSignal('');
+    }
+  };
+
+  return (
+    <Panel position={position}>
+      <div
+        className="sysml-token-flow-panel"
+        style={{
+          width: 300,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 8,
+          padding: '8px 10px',
+          background: 'rgba(22, 22, 22, 0.95)',
+          border: '1px solid #393939',
+          borderRadius: 6,
+          color: '#f4f4f4',
+          fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+          fontSize: 12,
+          boxShadow: '0 4px 16px rgba(0,0,0,0.35)'
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 600 }}>
+          <span>Token flow · step {simulation.step}</span>
+          <span
+            className="sysml-token-flow-panel__status"
+            style={{ color: status === 'deadlock' ? '#fa4d56' : simulationHighlightColor }}
+          >
+            {status}
+          </span>
+        </div>
+        <div>
+          {tokenCount} {tokenCount === 1 ? 'token' : 'tokens'}
+          {simulation.signals.length > 0 && ` · pending signals: ${simulation.signals.join(', ')}`}
+        </div>
+        {simulation.blocked.length > 0 && (
+          <ul className="sysml-token-flow-panel__blocked" style={{ margin: 0, paddingLeft: 16 }}>
+            {simulation.blocked.map((blockage) => (
+              <li key={blockage.nodeId}>
+                {nameOf(blockage.nodeId)} waits for{' '}
+                {blockage.signal !== undefined
+                  ? `signal ${blockage.signal}`
+                  : blockage.guards !== undefined
+                    ? `one of the guards ${blockage.guards.join(', ')} to hold`
+                    : blockage.missing.join(', ')}
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={submit} style={{ display: 'flex', gap: 4 }}>
+          <input
+            aria-label="Signal"
+            placeholder="Signal, e.g. Alert"
+            value={signal}
+            onChange={(changed) => setSignal(changed.target.value)}
+            style={{ flex: 1, minWidth: 0, ...buttonStyle, cursor: 'text', background: '#161616' }}
+          />
+          <button type="submit" style={buttonStyle}>
+            Send
+          </button>
+        </form>
+        <div style={{ display: 'flex', gap: 4 }}>
+          <button type="button" onClick={step} disabled={running || stopped} style={buttonStyle}>
+            Step
+          </button>
+          <button type="button" onClick={running ? pause : run} disabled={!running && stopped} style={buttonStyle}>
+            {running ? 'Pause' : 'Run'}
+          </button>
+          <button type="button" onClick={reset} style={buttonStyle}>
+            Reset
+          </button>
+        </div>
+        {(analysis.unreachable.length > 0 || analysis.deadlocks.length > 0) && (
+          <div className="sysml-token-flow-panel__analysis" style={{ borderTop: '1px solid #393939', paddingTop: 4 }}>
+            <div style={sectionLabelStyle}>Analysis{analysis.truncated ? ' (incomplete)' : ''}</div>
+            {analysis.unreachable.length > 0 && (
+              <div>Unreachable: {analysis.unreachable.map(nameOf).join(', ')}</div>
+            )}
+            {analysis.deadlocks.length > 0 && (
+              <div style={{ color: '#fa4d56' }}>
+                Possible deadlock: {analysis.deadlocks.map((deadlock) => nameOf(deadlock.nodeId)).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+});
+
+SysMLTokenFlowPanel.displayName = 'SysMLTokenFlowPanel';
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, within } from '@testing-library/react';
+import { SysMLTraceabilityMatrix } from './SysMLTraceabilityMatrix';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'requirement-usage', spec: { id: 'REQ-B', name: 'Braking', status: 'approved' } },
+    { kind: 'requirement-usage', spec: { id: 'REQ-A', name: 'Acceleration', status: 'draft' } },
+    { kind: 'part-definition', spec: { id: 'brakes', name: 'Brakes' } },
+    { kind: 'verification-case-usage', spec: { id: 'test', name: 'Brake Test' } }
+  ],
+  relationships: [
+    { id: 's1', type: 'satisfy', source: 'brakes', target: 'REQ-B' },
+    { id: 'v1', type: 'verify', source: 'test', target: 'REQ-B' }
+  ]
+};
+
+const rowNames = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('.sysml-traceability-matrix__row th')).map((cell) => cell.textContent);
+
+describe('SysMLTraceabilityMatrix Component', () => {
+  it('should render requirements, columns and coverage', () => {
+    const { container, getByText } = render(<SysMLTraceabilityMatrix model={model} />);
+
+    expect(rowNames(container)).toEqual(['Acceleration', 'Braking']);
+    expect(getByText('Brakes')).toBeDefined();
+    expect(getByText('Brake Test')).toBeDefined();
+    expect(getByText('unsatisfied, unverified')).toBeDefined();
+    expect(getByText('covered')).toBeDefined();
+  });
+
+  it('should sort rows when a header is clicked', () => {
+    const { container, getByText } = render(<SysMLTraceabilityMatrix model={model} />);
+
+    fireEvent.click(getByText('Requirement ▲'));
+    expect(rowNames(container)).toEqual(['Braking', 'Acceleration']);
+
+    fireEvent.click(getByText('Coverage'));
+    expect(rowNames(container)).toEqual(['Braking', 'Acceleration']);
+  });
+
+  it('should filter rows by status and by gaps', () => {
+    const { container, getByLabelText } = render(<SysMLTraceabilityMatrix model={model} />);
+
+    fireEvent.change(getByLabelText('Status'), { target: { value: 'approved' } });
+    expect(rowNames(container)).toEqual(['Braking']);
+
+    fireEvent.change(getByLabelText('Status'), { target: { value: 'all' } });
+    fireEvent.click(getByLabelText('Gaps only'));
+    expect(rowNames(container)).toEqual(['Acceleration']);
+  });
+
+  it('should report the trace of a clicked cell', () => {
+    const onTraceSelect = vi.fn();
+    const { container } = render(<SysMLTraceabilityMatrix model={model} onTraceSelect={onTraceSelect} />);
+
+    const braking = container.querySelectorAll('.sysml-traceability-matrix__row')[1] as HTMLElement;
+    fireEvent.click(within(braking).getByTitle('satisfy'));
+
+    expect(onTraceSelect).toHaveBeenCalledWith({ requirementId: 'REQ-B', elementId: 'brakes', elementIds: ['REQ-B', 'brakes', 's1'] });
+  });
+});
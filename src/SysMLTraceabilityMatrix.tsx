@@ -0,0 +1,275 @@
+import { memo, useMemo, useState, type CSSProperties } from 'react';
+
+import {
+  buildTraceabilityMatrix,
+  getTraceSelection,
+  type SysMLTraceKind,
+  type TraceabilityCell,
+  type TraceabilityMatrix,
+  type TraceabilityMatrixOptions,
+  type TraceabilityRow,
+  type TraceSelection
+} from './traceability';
+import type { SysMLModel } from './viewpoints';
+
+export type TraceabilitySortKey = 'name' | 'reqId' | 'status' | 'coverage';
+
+export interface SysMLTraceabilityMatrixProps {
+  /** Model to compute the matrix from; ignored when `matrix` is given. */
+  model?: SysMLModel;
+  matrix?: TraceabilityMatrix;
+  options?: TraceabilityMatrixOptions;
+  /** Called with the nodes and relationships of a clicked cell or requirement. */
+  onTraceSelect?: (selection: TraceSelection) => void;
+  /** Initial status filter; `'all'` shows every requirement. */
+  defaultStatusFilter?: string;
+  defaultSort?: { key: TraceabilitySortKey; direction: 'asc' | 'desc' };
+  className?: string;
+  style?: CSSProperties;
+}
+
+const traceSymbols: Record<SysMLTraceKind, string> = {
+  satisfy: 'S',
+  verify: 'V',
+  refine: 'R',
+  allocate: 'A'
+};
+
+const traceColors: Record<SysMLTraceKind, string> = {
+  satisfy: '#0f62fe',
+  verify: '#24a148',
+  refine: '#ff832b',
+  allocate: '#ee5396'
+};
+
+const gapColor = '#da1e28';
+
+const sortValue = (row: TraceabilityRow, key: TraceabilitySortKey): string | number => {
+  switch (key) {
+    case 'coverage':
+      return row.gaps.length;
+    case 'reqId':
+      return row.reqId ?? '';
+    case 'status':
+      return row.status ?? '';
+    default:
+      return row.name;
+  }
+};
+
+const describeCell = (cell: TraceabilityCell) =>
+  cell.links
+    .map((link) => (link.via.length > 0 ? `${link.kind} via ${link.via.join(' > ')}` : link.kind))
+    .join(', ');
+
+const cellStyle: CSSProperties = {
+  padding: '4px 8px',
+  borderBottom: '1px solid #393939',
+  borderRight: '1px solid #262626',
+  textAlign: 'center',
+  whiteSpace: 'nowrap'
+};
+
+const headerButtonStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: 'inherit',
+  font: 'inherit',
+  fontWeight: 600,
+  cursor: 'pointer',
+  padding: 0
+};
+
+/**
+ * Requirements traceability matrix: requirements as rows, traced elements as
+ * columns. Rows can be sorted and filtered by status; clicking a cell or a
+ * requirement reports the trace through `onTraceSelect`, which can be passed
+ * to `SysMLDiagram` as `highlightedElements`.
+ */
+export const SysMLTraceabilityMatrix = memo(
+  ({
+    model,
+    matrix,
+    options,
+    onTraceSelect,
+    defaultStatusFilter = 'all',
+    defaultSort = { key: 'name', direction: 'asc' },
+    className,
+    style
+  }: SysMLTraceabilityMatrixProps) => {
+    const [statusFilter, setStatusFilter] = useState(defaultStatusFilter);
+    const [gapsOnly, setGapsOnly] = useState(false);
+    const [sort, setSort] = useState(defaultSort);
+    const [selection, setSelection] = useState<TraceSelection>();
+
+    const resolvedMatrix = useMemo(() => {
+      if (matrix) {
+        return matrix;
+      }
+      if (!model) {
+        throw new Error('SysMLTraceabilityMatrix requires a model or a matrix.');
+      }
+      return buildTraceabilityMatrix(model, options);
+    }, [matrix, model, options]);
+
+    const statuses = useMemo(
+      () => Array.from(new Set(resolvedMatrix.rows.map((row) => row.status).filter((s): s is string => Boolean(s)))),
+      [resolvedMatrix]
+    );
+
+    const rows = useMemo(() => {
+      const filtered = resolvedMatrix.rows.filter(
+        (row) => (statusFilter === 'all' || row.status === statusFilter) && (!gapsOnly || row.gaps.length > 0)
+      );
+      const factor = sort.direction === 'asc' ? 1 : -1;
+      return filtered.sort((a, b) => {
+        const left = sortValue(a, sort.key);
+        const right = sortValue(b, sort.key);
+        const order = typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right));
+        return order * factor;
+      });
+    }, [resolvedMatrix, statusFilter, gapsOnly, sort]);
+
+    const toggleSort = (key: TraceabilitySortKey) =>
+      setSort((current) => ({
+        key,
+        direction: current.key === key && current.direction === 'asc' ? 'desc' : 'asc'
+      }));
+
+    const sortIndicator = (key: TraceabilitySortKey) =>
+      sort.key === key ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : '';
+
+    const select = (requirementId: string, elementId?: string) => {
+      const trace = getTraceSelection(resolvedMatrix, requirementId, elementId);
+      setSelection(trace);
+      onTraceSelect?.(trace);
+    };
+
+    const isSelected = (requirementId: string, elementId?: string) =>
+      selection?.requirementId === requirementId && selection.elementId === elementId;
+
+    return (
+      <div
+        className={['sysml-traceability-matrix', className].filter(Boolean).join(' ')}
+        style={{
+          background: '#161616',
+          color: '#f4f4f4',
+          fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+          fontSize: 12,
+          ...style
+        }}
+      >
+        <div style={{ display: 'flex', gap: 16, alignItems: 'center', padding: '8px 0' }}>
+          <label>
+            Status{' '}
+            <select value={statusFilter} onChange={(event) => setStatusFilter(event.target.value)}>
+              <option value="all">All</option>
+              {statuses.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <input type="checkbox" checked={gapsOnly} onChange={(event) => setGapsOnly(event.target.checked)} /> Gaps only
+          </label>
+          <span style={{ opacity: 0.7 }}>
+            {resolvedMatrix.gaps.length} {resolvedMatrix.gaps.length === 1 ? 'gap' : 'gaps'}
+          </span>
+        </div>
+        <div style={{ overflow: 'auto' }}>
+          <table style={{ borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>
+                  <button type="button" style={headerButtonStyle} onClick={() => toggleSort('name')}>
+                    Requirement{sortIndicator('name')}
+                  </button>
+                </th>
+                <th style={cellStyle}>
+                  <button type="button" style={headerButtonStyle} onClick={() => toggleSort('reqId')}>
+                    Id{sortIndicator('reqId')}
+                  </button>
+                </th>
+                <th style={cellStyle}>
+                  <button type="button" style={headerButtonStyle} onClick={() => toggleSort('status')}>
+                    Status{sortIndicator('status')}
+                  </button>
+                </th>
+                <th style={cellStyle}>
+                  <button type="button" style={headerButtonStyle} onClick={() => toggleSort('coverage')}>
+                    Coverage{sortIndicator('coverage')}
+                  </button>
+                </th>
+                {resolvedMatrix.columns.map((column) => (
+                  <th key={column.id} style={cellStyle} title={column.kind}>
+                    {column.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id} className="sysml-traceability-matrix__row">
+                  <th
+                    scope="row"
+                    style={{
+                      ...cellStyle,
+                      textAlign: 'left',
+                      background: isSelected(row.id) ? 'rgba(15,98,254,0.3)' : undefined
+                    }}
+                  >
+                    <button type="button" style={headerButtonStyle} onClick={() => select(row.id)}>
+                      {row.name}
+                    </button>
+                  </th>
+                  <td style={cellStyle}>{row.reqId}</td>
+                  <td style={cellStyle}>{row.status}</td>
+                  <td style={{ ...cellStyle, color: row.gaps.length > 0 ? gapColor : '#24a148' }}>
+                    {row.gaps.length > 0 ? row.gaps.join(', ') : 'covered'}
+                  </td>
+                  {resolvedMatrix.columns.map((column) => {
+                    const cell = resolvedMatrix.cells[row.id]?.[column.id];
+                    if (!cell) {
+                      return <td key={column.id} style={cellStyle} />;
+                    }
+                    const kinds = Array.from(new Set(cell.links.map((link) => link.kind)));
+                    const inherited = cell.links.every((link) => link.via.length > 0);
+                    return (
+                      <td
+                        key={column.id}
+                        style={{
+                          ...cellStyle,
+                          background: isSelected(row.id, column.id) ? 'rgba(15,98,254,0.3)' : undefined
+                        }}
+                      >
+                        <button
+                          type="button"
+                          className="sysml-traceability-matrix__cell"
+                          title={describeCell(cell)}
+                          onClick={() => select(row.id, column.id)}
+                          style={{ ...headerButtonStyle, fontStyle: inherited ? 'italic' : 'normal', opacity: inherited ? 0.7 : 1 }}
+                        >
+                          {kinds.map((kind) => (
+                            <span key={kind} style={{ color: traceColors[kind], marginRight: 2 }}>
+                              {traceSymbols[kind]}
+                            </span>
+                          ))}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+);
+
+SysMLTraceabilityMatrix.displayName = 'SysMLTraceabilityMatrix';
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { runAnalysis, sweepRange, SysMLAnalysisError } from './analysis';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'package', spec: { id: 'vehicles', name: 'Vehicles', members: ['car', 'massLimit', 'RangeStudy'] } },
+    {
+      kind: 'part-usage',
+      spec: {
+        id: 'car',
+        name: 'car',
+        attributes: [
+          { name: 'dryMass', value: '1500' },
+          { name: 'payload', value: '300' },
+          { name: 'totalMass', value: 'dryMass + payload' },
+          { name: 'battery', value: '60' }
+        ]
+      }
+    },
+    { kind: 'constraint-usage', spec: { id: 'massLimit', name: 'massLimit', expression: 'car.totalMass <= 2000' } },
+    {
+      kind: 'analysis-case-definition',
+      spec: {
+        id: 'RangeStudy',
+        name: 'RangeStudy',
+        inputs: [
+          { name: 'mass', value: 'car.totalMass' },
+          { name: 'capacity', value: 'car.battery' },
+          { name: 'efficiency', value: '0.9' }
+        ],
+        resultExpression: 'capacity * efficiency * 10000 / mass'
+      }
+    }
+  ],
+  relationships: []
+};
+
+describe('Analysis Runner', () => {
+  it('should space sweep values evenly', () => {
+    expect(sweepRange(0, 1, 5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(sweepRange(3, 9, 1)).toEqual([3]);
+    expect(() => sweepRange(0, 1, 0)).toThrow(SysMLAnalysisError);
+  });
+
+  it('should evaluate the result for every combination of the swept values', () => {
+    const result = runAnalysis(model, 'RangeStudy', {
+      sweeps: [
+        { parameter: 'Vehicles::car.payload', values: [100, 500] },
+        { parameter: 'capacity', values: [60, 90] }
+      ]
+    });
+
+    expect(result.parameters).toEqual(['Vehicles::car.payload', 'capacity']);
+    expect(result.truncated).toBe(false);
+    expect(result.points.map((point) => [point.parameters, point.result, point.violated])).toEqual([
+      [{ 'Vehicles::car.payload': 100, capacity: 60 }, 337.5, []],
+      [{ 'Vehicles::car.payload': 100, capacity: 90 }, 506.25, []],
+      [{ 'Vehicles::car.payload': 500, capacity: 60 }, 270, []],
+      [{ 'Vehicles::car.payload': 500, capacity: 90 }, 405, []]
+    ]);
+  });
+
+  it('should bind swept inputs to the model attribute they reference', () => {
+    const result = runAnalysis(model, 'RangeStudy', {
+      sweeps: [{ parameter: 'mass', values: [1800, 2400] }]
+    });
+
+    expect(result.points).toEqual([
+      { parameters: { mass: 1800 }, result: 300, violated: [] },
+      { parameters: { mass: 2400 }, result: 225, violated: ['massLimit'] }
+    ]);
+  });
+
+  it('should sweep unbound inputs, keep fixed values and stop at the point limit', () => {
+    const result = runAnalysis(model, 'RangeStudy', {
+      sweeps: [{ parameter: 'efficiency', values: sweepRange(0.5, 1, 6) }],
+      values: { 'Vehicles::car.dryMass': 1700 },
+      maxPoints: 2
+    });
+
+    expect(result.truncated).toBe(true);
+    expect(result.points.map((point) => point.result)).toEqual([150, 180]);
+  });
+
+  it('should report evaluation errors per point and reject unknown cases and parameters', () => {
+    const result = runAnalysis(model, 'RangeStudy', { sweeps: [{ parameter: 'efficiency', values: ['high'] }] });
+
+    expect(result.points[0].error).toBe("'*' cannot combine a number and a string");
+    expect(() => runAnalysis(model, 'car')).toThrow("'car' is not an analysis case");
+    expect(() => runAnalysis(model, 'RangeStudy', { sweeps: [{ parameter: 'speed', values: [1] }] })).toThrow(
+      "'speed' is neither an input of the analysis nor a model value"
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { parseExpression, type SysMLValue } from './expressions';
+import { evaluateModel, getEvaluatedValue, type SysMLModelEvaluation } from './parametrics';
+import type { SysMLPropertySpec } from './types';
+import type { SysMLModel } from './viewpoints';
+
+export interface SysMLParameterSweep {
+  /** Input of the analysis case (`payload`) or qualified name of a model attribute (`Vehicles::car.payload`). */
+  parameter: string;
+  values: SysMLValue[];
+}
+
+export interface SysMLAnalysisOptions {
+  /** Parameters to vary; every combination of their values is evaluated. */
+  sweeps?: SysMLParameterSweep[];
+  /** Values fixed for every point, by qualified name, as in `evaluateModel`. */
+  values?: Record<string, SysMLValue>;
+  /** Largest number of points to evaluate. Defaults to 1000. */
+  maxPoints?: number;
+}
+
+export interface SysMLAnalysisPoint {
+  /** Value of each swept parameter at this point. */
+  parameters: Record<string, SysMLValue>;
+  /** Value of the result expression; unset when it failed to evaluate. */
+  result?: SysMLValue;
+  error?: string;
+  /** Names of the constraints of the model violated at this point. */
+  violated: string[];
+}
+
+export interface SysMLAnalysisResult {
+  analysisCaseId: string;
+  name: string;
+  /** Swept parameters, in sweep order. */
+  parameters: string[];
+  points: SysMLAnalysisPoint[];
+  /** True when the sweep had more combinations than `maxPoints`. */
+  truncated: boolean;
+}
+
+export class SysMLAnalysisError extends Error {}
+
+/** `steps` evenly spaced numbers from `from` to `to`, both included. */
+export const sweepRange = (from: number, to: number, steps: number): number[] => {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new SysMLAnalysisError(`A sweep needs a whole number of steps, got ${steps}`);
+  }
+  if (steps === 1) {
+    return [from];
+  }
+  return Array.from({ length: steps }, (_, index) => from + ((to - from) * index) / (steps - 1));
+};
+
+/** The attribute an input is bound to when its value is a plain reference (`in payload = car.payload;`). */
+const boundReference = (input: SysMLPropertySpec) => {
+  if (input.value === undefined) {
+    return undefined;
+  }
+  try {
+    const expression = parseExpression(input.value);
+    return expression.type === 'reference' ? expression.name : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Qualified name to override when sweeping `parameter`: the attribute a bound
+ * input refers to, so that every use of it follows the sweep, otherwise the
+ * input itself or the named model attribute.
+ */
+const resolveParameter = (
+  parameter: string,
+  inputs: SysMLPropertySpec[],
+  base: SysMLModelEvaluation,
+  scope: string
+) => {
+  const input = inputs.find((candidate) => candidate.name === parameter);
+  if (input) {
+    const reference = boundReference(input);
+    const bound = reference === undefined ? undefined : getEvaluatedValue(base, reference, scope);
+    return bound?.qualifiedName ?? `${scope}.${parameter}`;
+  }
+  const value = getEvaluatedValue(base, parameter);
+  if (!value) {
+    throw new SysMLAnalysisError(`'${parameter}' is neither an input of the analysis nor a model value`);
+  }
+  return value.qualifiedName;
+};
+
+/**
+ * Run an analysis case over a parameter sweep: every combination of the swept
+ * values is bound into the model with `evaluateModel`, and the analysis result
+ * and violated constraints are recorded for each point. Sweeping an input
+ * bound to a model attribute varies that attribute, so derived values that
+ * use it follow.
+ */
+export const runAnalysis = (
+  model: SysMLModel,
+  analysisCaseId: string,
+  options: SysMLAnalysisOptions = {}
+): SysMLAnalysisResult => {
+  const node = model.nodes.find((candidate) => candidate.spec.id === analysisCaseId);
+  if (node?.kind !== 'analysis-case-definition' && node?.kind !== 'analysis-case-usage') {
+    throw new SysMLAnalysisError(`'${analysisCaseId}' is not an analysis case`);
+  }
+
+  const { sweeps = [], values = {}, maxPoints = 1000 } = options;
+  const base = evaluateModel(model, { values });
+  const caseValue = Object.values(base.values).find((value) => value.elementId === analysisCaseId);
+  if (!caseValue) {
+    throw new SysMLAnalysisError(`'${node.spec.name}' has no result expression`);
+  }
+
+  const definition =
+    node.kind === 'analysis-case-usage'
+      ? model.nodes.find(
+          (candidate) =>
+            candidate.kind === 'analysis-case-definition' &&
+            (candidate.spec.id === node.spec.definition || candidate.spec.name === node.spec.definition)
+        )
+      : undefined;
+  const inputs = [
+    ...(node.spec.inputs ?? []),
+    ...(definition?.kind === 'analysis-case-definition' ? (definition.spec.inputs ?? []) : [])
+  ];
+  const targets = sweeps.map((sweep) => resolveParameter(sweep.parameter, inputs, base, caseValue.qualifiedName));
+
+  let combinations: Record<string, SysMLValue>[] = [{}];
+  sweeps.forEach((sweep) => {
+    combinations = combinations.flatMap((combination) =>
+      sweep.values.map((value) => ({ ...combination, [sweep.parameter]: value }))
+    );
+  });
+  const truncated = combinations.length > maxPoints;
+
+  const points = combinations.slice(0, maxPoints).map((parameters): SysMLAnalysisPoint => {
+    const overrides = { ...values };
+    sweeps.forEach((sweep, index) => {
+      overrides[targets[index]] = parameters[sweep.parameter];
+    });
+    const evaluation = evaluateModel(model, { values: overrides });
+    const result = evaluation.values[caseValue.qualifiedName];
+    return {
+      parameters,
+      ...(result.value !== undefined && { result: result.value }),
+      ...(result.error !== undefined && { error: result.error }),
+      violated: evaluation.constraints
+        .filter((constraint) => constraint.satisfied === false)
+        .map((constraint) => constraint.name)
+    };
+  });
+
+  return {
+    analysisCaseId,
+    name: node.spec.name,
+    parameters: sweeps.map((sweep) => sweep.parameter),
+    points,
+    truncated
+  };
+};
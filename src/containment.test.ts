@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collapseContainers,
+  elevateNestedEdges,
+  getContainment,
+  getRegionSeparators,
+  nestNodes
+} from './containment';
+import { createEdgesFromRelationships, createNodesFromSpecs } from './factories';
+import { realizeViewpoint, stateViewpoint } from './viewpoints';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'package', spec: { id: 'vehicles', name: 'Vehicles', members: ['vehicle', 'engine', 'drivetrain'] } },
+    { kind: 'package', spec: { id: 'drivetrain', name: 'Drivetrain', members: ['gearbox'] } },
+    { kind: 'part-usage', spec: { id: 'vehicle', name: 'vehicle', parts: ['wheel'] } },
+    { kind: 'part-definition', spec: { id: 'engine', name: 'Engine' } },
+    { kind: 'part-definition', spec: { id: 'gearbox', name: 'Gearbox' } },
+    { kind: 'part-usage', spec: { id: 'wheel', name: 'wheel' } },
+    { kind: 'part-definition', spec: { id: 'fuel', name: 'Fuel' } }
+  ],
+  relationships: [
+    { id: 'e1', type: 'dependency', source: 'engine', target: 'gearbox' },
+    { id: 'e2', type: 'dependency', source: 'fuel', target: 'engine' },
+    { id: 'e3', type: 'dependency', source: 'vehicle', target: 'engine' }
+  ]
+};
+
+const nestedView = () => {
+  const nodes = createNodesFromSpecs(model.nodes);
+  return { nodes: nestNodes(nodes, getContainment(model)), edges: createEdgesFromRelationships(model.relationships) };
+};
+
+describe('Containment', () => {
+  it('should collect owners from members, parts, substates and states', () => {
+    expect(
+      getContainment({
+        nodes: [
+          ...model.nodes,
+          { kind: 'package', spec: { id: 'other', name: 'Other', members: ['engine', 'vehicles'] } },
+          { kind: 'state-machine', spec: { id: 'sm', name: 'SM', states: [{ id: 'idle', name: 'Idle' }] } },
+          { kind: 'state-definition', spec: { id: 'on', name: 'On', substates: ['on'] } }
+        ]
+      })
+    ).toEqual({
+      vehicle: 'vehicles',
+      engine: 'vehicles',
+      drivetrain: 'vehicles',
+      gearbox: 'drivetrain',
+      wheel: 'vehicle',
+      vehicles: 'other',
+      idle: 'sm'
+    });
+  });
+
+  it('should nest children inside their owners with parents first', () => {
+    const { nodes } = nestedView();
+
+    expect(nodes.map((node) => [node.id, node.parentId])).toEqual([
+      ['vehicles', undefined],
+      ['drivetrain', 'vehicles'],
+      ['gearbox', 'drivetrain'],
+      ['vehicle', 'vehicles'],
+      ['wheel', 'vehicle'],
+      ['engine', 'vehicles'],
+      ['fuel', undefined]
+    ]);
+
+    const vehicles = nodes[0];
+    expect(vehicles.data.container).toEqual({ childCount: 3, collapsed: false });
+    expect(vehicles.data.compartments).toEqual([]);
+    nodes
+      .filter((node) => node.parentId === 'vehicles')
+      .forEach((child) => {
+        expect(child.extent).toBe('parent');
+        expect(child.position.x + 240).toBeLessThanOrEqual(vehicles.style?.width as number);
+        expect(child.position.y + 160).toBeLessThanOrEqual(vehicles.style?.height as number);
+      });
+  });
+
+  it('should keep explicit positions of nested nodes', () => {
+    const nodes = nestNodes(createNodesFromSpecs(model.nodes), getContainment(model), {
+      positions: { engine: { x: 400, y: 300 } }
+    });
+
+    expect(nodes.find((node) => node.id === 'engine')?.position).toEqual({ x: 400, y: 300 });
+    expect(nodes[0].style).toMatchObject({ width: 664, height: 484 });
+  });
+
+  it('should place the regions of a parallel state side by side with separators', () => {
+    const states: SysMLModel['nodes'] = [
+      { kind: 'state-usage', spec: { id: 'driving', name: 'Driving', isParallel: true, substates: ['lights', 'motion'] } },
+      { kind: 'state-usage', spec: { id: 'lights', name: 'Lights' } },
+      { kind: 'state-usage', spec: { id: 'motion', name: 'Motion' } }
+    ];
+    const nodes = nestNodes(createNodesFromSpecs(states), getContainment({ nodes: states }));
+
+    expect(nodes.slice(1).map((node) => node.position)).toEqual([
+      { x: 24, y: 88 },
+      { x: 296, y: 88 }
+    ]);
+    expect(nodes[0].style).toMatchObject({ width: 560, height: 272 });
+    expect(nodes[0].data.container?.regions).toEqual([{ orientation: 'vertical', x: 280, y: 88 }]);
+  });
+
+  it('should separate stacked regions horizontally and skip overlapping ones', () => {
+    const region = (x: number, y: number) => ({ x, y, width: 100, height: 50 });
+
+    expect(getRegionSeparators(40, [region(0, 120), region(0, 40)])).toEqual([
+      { orientation: 'horizontal', x: 0, y: 105 }
+    ]);
+    expect(getRegionSeparators(40, [region(0, 40), region(50, 60)])).toEqual([]);
+  });
+
+  it('should hide collapsed content and reroute its edges to the container', () => {
+    const { nodes, edges } = nestedView();
+    const collapsed = collapseContainers(nodes, edges, ['drivetrain', 'vehicles']);
+
+    expect(collapsed.nodes.filter((node) => node.hidden).map((node) => node.id)).toEqual([
+      'drivetrain',
+      'gearbox',
+      'vehicle',
+      'wheel',
+      'engine'
+    ]);
+    expect(collapsed.nodes[0].data.container?.collapsed).toBe(true);
+    expect(collapsed.nodes[0].style?.width).toBeUndefined();
+    expect(collapsed.edges.map((edge) => [edge.source, edge.target, edge.hidden])).toEqual([
+      ['engine', 'gearbox', true],
+      ['fuel', 'vehicles', undefined],
+      ['vehicle', 'engine', true]
+    ]);
+  });
+
+  it('should raise edges that touch nested nodes above their containers', () => {
+    const { nodes, edges } = nestedView();
+
+    expect(elevateNestedEdges(nodes, edges).map((edge) => edge.zIndex)).toEqual([1, 1, 1]);
+    expect(elevateNestedEdges(nodes, [{ ...edges[1], source: 'fuel', target: 'vehicles' }])[0].zIndex).toBeUndefined();
+  });
+
+  it('should realize nested views with inline states as child nodes', () => {
+    const view = realizeViewpoint(
+      {
+        nodes: [
+          {
+            kind: 'state-machine',
+            spec: { id: 'sm', name: 'Controller', states: [{ id: 'idle', name: 'Idle' }, { id: 'run', name: 'Running' }] }
+          }
+        ],
+        relationships: [{ id: 't1', type: 'transition', source: 'idle', target: 'run' }]
+      },
+      stateViewpoint,
+      { nested: true, collapsed: [] }
+    );
+
+    expect(view.nodes.map((node) => [node.id, node.parentId])).toEqual([
+      ['sm', undefined],
+      ['idle', 'sm'],
+      ['run', 'sm']
+    ]);
+    expect(view.nodes[0].data.compartments).toEqual([]);
+    expect(view.edges).toHaveLength(1);
+  });
+});
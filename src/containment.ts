@@ -0,0 +1,273 @@
+import { createContext } from 'react';
+import type { XYPosition } from 'reactflow';
+
+import type {
+  SysMLNodeKind,
+  SysMLNodeSpec,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode,
+  SysMLRegionSeparator
+} from './types';
+import type { SysMLModel } from './viewpoints';
+
+/** Owning element id by contained element id. */
+export type SysMLContainment = Record<string, string>;
+
+export interface NestingOptions {
+  /** Positions of nested nodes relative to their owner; others are arranged in a grid. */
+  positions?: Record<string, Partial<XYPosition>>;
+}
+
+/** Toggles a container between collapsed and expanded. Provided by `SysMLDiagram`. */
+export const SysMLContainmentContext = createContext<((id: string) => void) | undefined>(undefined);
+
+// Compartments listing the contained elements, dropped once they are rendered inside the owner
+const containmentCompartments: Partial<Record<SysMLNodeKind, string>> = {
+  package: 'members',
+  'library-package': 'members',
+  'state-definition': 'substates',
+  'state-usage': 'substates',
+  'state-machine': 'states'
+};
+
+export const containerPadding = 24;
+const childGap = 32;
+const defaultNodeSize = { width: 240, height: 160 };
+
+/** Ids of the elements a spec owns: package members, parts, substates and states. */
+export const getContainedIds = (node: SysMLNodeSpec): string[] => {
+  switch (node.kind) {
+    case 'package':
+    case 'library-package':
+      return node.spec.members ?? [];
+    case 'part-usage':
+      return node.spec.parts ?? [];
+    case 'state-definition':
+    case 'state-usage':
+      return node.spec.substates ?? [];
+    case 'state-machine':
+      return node.spec.states.map((state) => state.id);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Owner of every contained element of a model. An element listed by several
+ * owners belongs to the first; ownership cycles are ignored.
+ */
+export const getContainment = (model: Pick<SysMLModel, 'nodes'>): SysMLContainment => {
+  const containment: SysMLContainment = {};
+  const isOwnedBy = (id: string, ownerId: string) => {
+    for (let current: string | undefined = id; current !== undefined; current = containment[current]) {
+      if (current === ownerId) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  model.nodes.forEach((node) => {
+    getContainedIds(node).forEach((childId) => {
+      if (childId in containment || isOwnedBy(node.spec.id, childId)) {
+        return;
+      }
+      containment[childId] = node.spec.id;
+    });
+  });
+  return containment;
+};
+
+const sizeOf = (node: SysMLReactFlowNode) => ({
+  width: node.width ?? (typeof node.style?.width === 'number' ? node.style.width : defaultNodeSize.width),
+  height: node.height ?? (typeof node.style?.height === 'number' ? node.style.height : defaultNodeSize.height)
+});
+
+/** Room for a container's header, name, documentation and remaining compartments above its children. */
+export const containerHeaderHeight = (node: SysMLReactFlowNode) =>
+  88 +
+  (node.data.documentation ? 24 : 0) +
+  (node.data.compartments ?? []).reduce((total, compartment) => total + 24 + compartment.items.length * 26, 0);
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Separators between the regions of a parallel state, one region per child.
+ * Regions side by side are split by vertical lines below the header at `top`,
+ * stacked regions by horizontal lines; overlapping regions get none.
+ */
+export const getRegionSeparators = (top: number, regions: Bounds[]): SysMLRegionSeparator[] => {
+  const between = (sorted: Bounds[], start: 'x' | 'y', extent: 'width' | 'height') =>
+    sorted.slice(1).every((region, index) => sorted[index][start] + sorted[index][extent] <= region[start])
+      ? sorted.slice(1).map((region, index) => (sorted[index][start] + sorted[index][extent] + region[start]) / 2)
+      : undefined;
+
+  const columns = between([...regions].sort((a, b) => a.x - b.x), 'x', 'width');
+  if (columns) {
+    return columns.map((x) => ({ orientation: 'vertical', x, y: top }));
+  }
+  const rows = between([...regions].sort((a, b) => a.y - b.y), 'y', 'height');
+  return rows?.map((y) => ({ orientation: 'horizontal', x: 0, y })) ?? [];
+};
+
+/**
+ * Render contained nodes inside their owners as React Flow child nodes.
+ * Children get `parentId` and positions relative to the owner, owners are
+ * sized to fit them and are marked with `data.container`, and parents are
+ * ordered before their children as React Flow requires. The substates of a
+ * parallel state are its orthogonal regions: they are placed in a single row
+ * with region separators between them.
+ */
+export const nestNodes = (
+  nodes: SysMLReactFlowNode[],
+  containment: SysMLContainment,
+  options: NestingOptions = {}
+): SysMLReactFlowNode[] => {
+  const ids = new Set(nodes.map((node) => node.id));
+  const parentOf = (id: string) => {
+    const parentId = containment[id];
+    return parentId !== undefined && parentId !== id && ids.has(parentId) ? parentId : undefined;
+  };
+  const children = new Map<string, SysMLReactFlowNode[]>();
+  nodes.forEach((node) => {
+    const parentId = parentOf(node.id);
+    if (parentId) {
+      children.set(parentId, [...(children.get(parentId) ?? []), node]);
+    }
+  });
+
+  const visited = new Set<string>();
+  const nest = (node: SysMLReactFlowNode): { nodes: SysMLReactFlowNode[]; size: { width: number; height: number } } => {
+    visited.add(node.id);
+    const childNodes = (children.get(node.id) ?? []).filter((child) => !visited.has(child.id));
+    if (childNodes.length === 0) {
+      return { nodes: [node], size: sizeOf(node) };
+    }
+
+    const compartmentTitle = containmentCompartments[node.data.kind];
+    const compartments = node.data.compartments?.filter((compartment) => compartment.title !== compartmentTitle);
+    const top = containerHeaderHeight({ ...node, data: { ...node.data, compartments } });
+    const columns = node.data.isParallel ? childNodes.length : Math.ceil(Math.sqrt(childNodes.length));
+    const cursor = { x: containerPadding, y: top };
+    let rowHeight = 0;
+    let right = defaultNodeSize.width - containerPadding;
+    let bottom = top;
+    const nested: SysMLReactFlowNode[] = [];
+    const regions: Bounds[] = [];
+
+    childNodes.forEach((child, index) => {
+      const result = nest(child);
+      if (index > 0 && index % columns === 0) {
+        cursor.x = containerPadding;
+        cursor.y += rowHeight + childGap;
+        rowHeight = 0;
+      }
+      const explicit = options.positions?.[child.id];
+      const position = explicit
+        ? { x: explicit.x ?? cursor.x, y: explicit.y ?? cursor.y }
+        : { x: cursor.x, y: cursor.y };
+      if (!explicit) {
+        cursor.x += result.size.width + childGap;
+        rowHeight = Math.max(rowHeight, result.size.height);
+      }
+      regions.push({ ...position, ...result.size });
+      right = Math.max(right, position.x + result.size.width);
+      bottom = Math.max(bottom, position.y + result.size.height);
+
+      const [childNode, ...descendants] = result.nodes;
+      nested.push({ ...childNode, parentId: node.id, extent: 'parent', position }, ...descendants);
+    });
+
+    const size = { width: right + containerPadding, height: bottom + containerPadding };
+    const data = {
+      ...node.data,
+      compartments,
+      container: {
+        childCount: childNodes.length,
+        collapsed: false,
+        ...(node.data.isParallel ? { regions: getRegionSeparators(top, regions) } : {})
+      }
+    };
+    return { nodes: [{ ...node, data, style: { ...node.style, ...size } }, ...nested], size };
+  };
+
+  const roots = nodes.filter((node) => !parentOf(node.id)).flatMap((node) => nest(node).nodes);
+  // Nodes left over sit in an ownership cycle and stay flat
+  return [...roots, ...nodes.filter((node) => !visited.has(node.id))];
+};
+
+/**
+ * Hide everything inside the collapsed containers and reconnect edges that
+ * touch hidden nodes to their outermost collapsed container. Edges that end up
+ * inside a single container are hidden.
+ */
+export const collapseContainers = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[],
+  collapsed: Iterable<string>
+): { nodes: SysMLReactFlowNode[]; edges: SysMLReactFlowEdge[] } => {
+  const collapsedIds = new Set(collapsed);
+  const parents = new Map(nodes.map((node) => [node.id, node.parentId ?? node.parentNode]));
+  const visibleOf = (id: string) => {
+    let visible = id;
+    for (let current = parents.get(id); current !== undefined; current = parents.get(current)) {
+      if (collapsedIds.has(current)) {
+        visible = current;
+      }
+    }
+    return visible;
+  };
+
+  const collapsedNodes = nodes.map((node) => {
+    if (visibleOf(node.id) !== node.id) {
+      return { ...node, hidden: true };
+    }
+    if (collapsedIds.has(node.id) && node.data.container) {
+      const { width: _width, height: _height, ...style } = node.style ?? {};
+      return { ...node, style, data: { ...node.data, container: { ...node.data.container, collapsed: true } } };
+    }
+    return node;
+  });
+
+  const collapsedEdges = edges.map((edge) => {
+    const source = visibleOf(edge.source);
+    const target = visibleOf(edge.target);
+    if (source === edge.source && target === edge.target) {
+      return edge;
+    }
+    if (source === target) {
+      return { ...edge, hidden: true };
+    }
+    // A layout route or port handle no longer matches the rerouted ends
+    return {
+      ...edge,
+      source,
+      target,
+      sourceHandle: source === edge.source ? edge.sourceHandle : undefined,
+      targetHandle: target === edge.target ? edge.targetHandle : undefined,
+      data: edge.data && { ...edge.data, route: undefined }
+    };
+  });
+
+  return { nodes: collapsedNodes, edges: collapsedEdges };
+};
+
+/**
+ * Draw edges that touch nested nodes above the containers. React Flow renders
+ * edges below all nodes by default, which hides transitions between substates
+ * and transitions that leave or enter a region behind the container.
+ */
+export const elevateNestedEdges = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[]
+): SysMLReactFlowEdge[] => {
+  const nested = new Set(nodes.filter((node) => node.parentId ?? node.parentNode).map((node) => node.id));
+  return edges.map((edge) =>
+    edge.zIndex === undefined && (nested.has(edge.source) || nested.has(edge.target)) ? { ...edge, zIndex: 1 } : edge
+  );
+};
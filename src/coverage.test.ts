@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { attachCoverage, computeRequirementCoverage } from './coverage';
+import type { SysMLReactFlowNode } from './types';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'package', spec: { id: 'reqs', name: 'Requirements', members: ['vehicle', 'safety'] } },
+    { kind: 'package', spec: { id: 'safety', name: 'Safety', members: ['braking', 'airbags'] } },
+    { kind: 'package', spec: { id: 'empty', name: 'Empty' } },
+    { kind: 'requirement-definition', spec: { id: 'vehicle', name: 'Vehicle' } },
+    { kind: 'requirement-usage', spec: { id: 'braking', name: 'Braking' } },
+    { kind: 'requirement-usage', spec: { id: 'airbags', name: 'Airbags' } },
+    { kind: 'requirement-usage', spec: { id: 'abs', name: 'ABS' } },
+    { kind: 'part-definition', spec: { id: 'brakes', name: 'Brakes' } },
+    { kind: 'verification-case-usage', spec: { id: 'track', name: 'Track test', verificationMethod: 'test' } },
+    { kind: 'verification-case-usage', spec: { id: 'review', name: 'Review', verificationMethod: 'inspection' } }
+  ],
+  relationships: [
+    { id: 'c1', type: 'composition', source: 'vehicle', target: 'braking' },
+    { id: 'c2', type: 'composition', source: 'vehicle', target: 'airbags' },
+    { id: 'sp1', type: 'specialization', source: 'abs', target: 'braking' },
+    { id: 's1', type: 'satisfy', source: 'brakes', target: 'braking' },
+    { id: 's2', type: 'satisfy', source: 'brakes', target: 'abs' },
+    { id: 'v1', type: 'verify', source: 'track', target: 'braking' },
+    { id: 'v2', type: 'verify', source: 'review', target: 'braking' }
+  ]
+};
+
+describe('Requirement Coverage', () => {
+  it('should report status and verification methods per requirement', () => {
+    const { requirements } = computeRequirementCoverage(model);
+    const braking = requirements.find((coverage) => coverage.requirementId === 'braking');
+
+    expect(braking).toMatchObject({
+      satisfied: true,
+      verified: true,
+      verificationMethods: ['test', 'inspection'],
+      children: ['abs']
+    });
+    expect(requirements.find((coverage) => coverage.requirementId === 'airbags')).toMatchObject({
+      satisfied: false,
+      verified: false,
+      verificationMethods: []
+    });
+  });
+
+  it('should roll up through composition and specialization hierarchies', () => {
+    const { requirements } = computeRequirementCoverage(model);
+    const vehicle = requirements.find((coverage) => coverage.requirementId === 'vehicle');
+
+    expect(vehicle?.children).toEqual(['braking', 'airbags']);
+    expect(vehicle?.rollup).toEqual({ total: 4, satisfied: 2, verified: 1, satisfiedPercent: 50, verifiedPercent: 25 });
+  });
+
+  it('should compute percentages per package, including nested packages', () => {
+    const { packages, overall } = computeRequirementCoverage(model);
+
+    expect(packages.map(({ packageId, total, satisfiedPercent, verifiedPercent }) => [packageId, total, satisfiedPercent, verifiedPercent])).toEqual([
+      ['reqs', 3, (1 / 3) * 100, (1 / 3) * 100],
+      ['safety', 2, 50, 50]
+    ]);
+    expect(overall).toMatchObject({ total: 4, satisfied: 2, verified: 1 });
+  });
+
+  it('should limit the hierarchy to the given relationship kinds', () => {
+    const { requirements } = computeRequirementCoverage(model, { hierarchyKinds: ['refine'] });
+
+    expect(requirements.find((coverage) => coverage.requirementId === 'vehicle')?.rollup.total).toBe(1);
+  });
+
+  it('should attach coverage markers to requirement nodes', () => {
+    const nodes: SysMLReactFlowNode[] = [
+      { id: 'braking', position: { x: 0, y: 0 }, data: { id: 'braking', name: 'Braking', kind: 'requirement-usage' } },
+      { id: 'brakes', position: { x: 0, y: 0 }, data: { id: 'brakes', name: 'Brakes', kind: 'part-definition' } }
+    ];
+
+    const [braking, brakes] = attachCoverage(nodes, computeRequirementCoverage(model));
+    expect(braking.data.coverage).toEqual({
+      satisfied: true,
+      verified: true,
+      satisfiedPercent: 100,
+      verifiedPercent: 50,
+      verificationMethods: ['test', 'inspection']
+    });
+    expect(brakes).toBe(nodes[1]);
+  });
+});
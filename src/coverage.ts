@@ -0,0 +1,195 @@
+import { buildTraceabilityMatrix } from './traceability';
+import type {
+  SysMLEdgeKind,
+  SysMLNodeKind,
+  SysMLNodeSpec,
+  SysMLReactFlowNode,
+  SysMLVerificationCaseUsageSpec
+} from './types';
+import type { SysMLModel } from './viewpoints';
+
+export type SysMLVerificationMethod = NonNullable<SysMLVerificationCaseUsageSpec['verificationMethod']>;
+
+export interface RequirementCoverageMetrics {
+  total: number;
+  satisfied: number;
+  verified: number;
+  /** 0-100; 0 when `total` is 0. */
+  satisfiedPercent: number;
+  verifiedPercent: number;
+}
+
+export interface RequirementCoverage {
+  requirementId: string;
+  name: string;
+  /** Satisfied directly or through all of its refinements (see `buildTraceabilityMatrix`). */
+  satisfied: boolean;
+  verified: boolean;
+  /** Methods of the verification case usages verifying the requirement. */
+  verificationMethods: SysMLVerificationMethod[];
+  /** Requirements directly below this one in the requirement hierarchy. */
+  children: string[];
+  /** Metrics over the requirement and everything below it. */
+  rollup: RequirementCoverageMetrics;
+}
+
+export interface PackageCoverage extends RequirementCoverageMetrics {
+  packageId: string;
+  name: string;
+  /** Requirements owned by the package or its nested packages. */
+  requirementIds: string[];
+}
+
+export interface RequirementCoverageReport {
+  requirements: RequirementCoverage[];
+  /** Packages owning at least one requirement. */
+  packages: PackageCoverage[];
+  overall: RequirementCoverageMetrics;
+}
+
+export interface RequirementCoverageOptions {
+  /**
+   * Relationships between requirements that form the roll-up hierarchy.
+   * `refine` and `specialization` point from the child to the parent,
+   * `composition` from the parent to the child.
+   */
+  hierarchyKinds?: Array<'refine' | 'composition' | 'specialization'>;
+}
+
+const requirementKinds: SysMLNodeKind[] = ['requirement-definition', 'requirement-usage'];
+const packageKinds: SysMLNodeKind[] = ['package', 'library-package'];
+const parentToChildKinds: SysMLEdgeKind[] = ['composition'];
+
+const nameOf = (node: SysMLNodeSpec) => ('name' in node.spec ? node.spec.name : node.spec.id);
+
+const metricsOf = (ids: string[], coverageById: Map<string, RequirementCoverage>): RequirementCoverageMetrics => {
+  const total = ids.length;
+  const satisfied = ids.filter((id) => coverageById.get(id)?.satisfied).length;
+  const verified = ids.filter((id) => coverageById.get(id)?.verified).length;
+  return {
+    total,
+    satisfied,
+    verified,
+    satisfiedPercent: total > 0 ? (satisfied / total) * 100 : 0,
+    verifiedPercent: total > 0 ? (verified / total) * 100 : 0
+  };
+};
+
+/**
+ * Compute satisfaction and verification status for every requirement and roll
+ * it up through the requirement hierarchy and the owning packages.
+ */
+export const computeRequirementCoverage = (
+  model: SysMLModel,
+  options: RequirementCoverageOptions = {}
+): RequirementCoverageReport => {
+  const hierarchyKinds: SysMLEdgeKind[] = options.hierarchyKinds ?? ['refine', 'composition', 'specialization'];
+  const nodesById = new Map(model.nodes.map((node) => [node.spec.id, node]));
+  const requirementIds = new Set(
+    model.nodes.filter((node) => requirementKinds.includes(node.kind)).map((node) => node.spec.id)
+  );
+
+  const children = new Map<string, string[]>();
+  model.relationships.forEach(({ type, source, target }) => {
+    if (!hierarchyKinds.includes(type) || !requirementIds.has(source) || !requirementIds.has(target)) {
+      return;
+    }
+    const [parent, child] = parentToChildKinds.includes(type) ? [source, target] : [target, source];
+    const list = children.get(parent) ?? [];
+    if (!list.includes(child)) {
+      list.push(child);
+    }
+    children.set(parent, list);
+  });
+
+  const matrix = buildTraceabilityMatrix(model, { columnKinds: [] });
+  const coverageById = new Map<string, RequirementCoverage>();
+  matrix.rows.forEach((row) => {
+    const methods = new Set<SysMLVerificationMethod>();
+    row.verifiedBy.forEach((id) => {
+      const node = nodesById.get(id);
+      if (node?.kind === 'verification-case-usage' && node.spec.verificationMethod) {
+        methods.add(node.spec.verificationMethod);
+      }
+    });
+    coverageById.set(row.id, {
+      requirementId: row.id,
+      name: row.name,
+      satisfied: !row.gaps.includes('unsatisfied'),
+      verified: !row.gaps.includes('unverified'),
+      verificationMethods: Array.from(methods),
+      children: children.get(row.id) ?? [],
+      rollup: { total: 0, satisfied: 0, verified: 0, satisfiedPercent: 0, verifiedPercent: 0 }
+    });
+  });
+
+  const descendants = (id: string, seen: Set<string>): string[] => {
+    if (seen.has(id)) {
+      return [];
+    }
+    seen.add(id);
+    return [id, ...(children.get(id) ?? []).flatMap((child) => descendants(child, seen))];
+  };
+  coverageById.forEach((coverage) => {
+    coverage.rollup = metricsOf(descendants(coverage.requirementId, new Set()), coverageById);
+  });
+
+  const packageRequirements = (id: string, seen: Set<string>): string[] => {
+    const node = nodesById.get(id);
+    if (!node || seen.has(id)) {
+      return [];
+    }
+    seen.add(id);
+    if (requirementIds.has(id)) {
+      return [id];
+    }
+    if (node.kind === 'package' || node.kind === 'library-package') {
+      return (node.spec.members ?? []).flatMap((member) => packageRequirements(member, seen));
+    }
+    return [];
+  };
+
+  const packages = model.nodes
+    .filter((node) => packageKinds.includes(node.kind))
+    .map((node): PackageCoverage => {
+      const ids = packageRequirements(node.spec.id, new Set());
+      return { packageId: node.spec.id, name: nameOf(node), requirementIds: ids, ...metricsOf(ids, coverageById) };
+    })
+    .filter((coverage) => coverage.total > 0);
+
+  return {
+    requirements: Array.from(coverageById.values()),
+    packages,
+    overall: metricsOf(Array.from(requirementIds), coverageById)
+  };
+};
+
+/**
+ * Copy each requirement's coverage onto its node's `coverage` marker, which
+ * requirement nodes render as a coverage ring.
+ */
+export const attachCoverage = (
+  nodes: SysMLReactFlowNode[],
+  report: RequirementCoverageReport
+): SysMLReactFlowNode[] => {
+  const coverageById = new Map(report.requirements.map((coverage) => [coverage.requirementId, coverage]));
+  return nodes.map((node) => {
+    const coverage = coverageById.get(node.id);
+    if (!coverage) {
+      return node;
+    }
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        coverage: {
+          satisfied: coverage.satisfied,
+          verified: coverage.verified,
+          satisfiedPercent: coverage.rollup.satisfiedPercent,
+          verifiedPercent: coverage.rollup.verifiedPercent,
+          verificationMethods: coverage.verificationMethods
+        }
+      }
+    };
+  });
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render } from '@testing-library/react';
+import { ReactFlowProvider } from 'reactflow';
+import { attachDiagnostics, worstSeverity } from './diagnostics';
+import { sysmlNodeTypes } from './nodes';
+import { SysMLDiagram } from './SysMLDiagram';
+import type { SysMLElementDiagnostic, SysMLNodeData, SysMLReactFlowEdge, SysMLReactFlowNode } from './types';
+
+const nodes: SysMLReactFlowNode[] = [
+  {
+    id: 'vehicle',
+    type: 'sysml.part-definition',
+    position: { x: 0, y: 0 },
+    data: { id: 'vehicle', name: 'Vehicle', kind: 'part-definition', elementKind: 'definition' }
+  },
+  {
+    id: 'engine',
+    type: 'sysml.part-definition',
+    position: { x: 300, y: 0 },
+    data: { id: 'engine', name: 'Engine', kind: 'part-definition', elementKind: 'definition' }
+  }
+];
+
+const edges: SysMLReactFlowEdge[] = [
+  { id: 'rel', type: 'sysml.relationship', source: 'vehicle', target: 'engine', data: { kind: 'dependency' } }
+];
+
+const diagnostics: SysMLElementDiagnostic[] = [
+  { severity: 'warning', ruleId: 'sysml.reference-resolution', elementId: 'vehicle', message: "Unresolved reference 'Car'" },
+  { severity: 'error', ruleId: 'sysml.unique-ids', elementId: 'vehicle', message: "Duplicate element id 'vehicle'" },
+  { severity: 'error', elementId: 'rel', message: 'Bad relationship' },
+  { severity: 'info', elementId: 'elsewhere', message: 'Not in this view' }
+];
+
+describe('Diagnostics Overlay', () => {
+  describe('attachDiagnostics', () => {
+    it('should attach problems to the nodes and edges they refer to', () => {
+      const result = attachDiagnostics(nodes, edges, diagnostics);
+
+      expect(result.nodes[0].data.problems).toEqual([
+        { severity: 'warning', ruleId: 'sysml.reference-resolution', message: "Unresolved reference 'Car'" },
+        { severity: 'error', ruleId: 'sysml.unique-ids', message: "Duplicate element id 'vehicle'" }
+      ]);
+      expect(result.nodes[1]).toBe(nodes[1]);
+      expect(result.edges[0].data).toEqual({ kind: 'dependency', problems: [{ severity: 'error', message: 'Bad relationship' }] });
+    });
+
+    it('should pick the most severe problem', () => {
+      expect(worstSeverity([{ severity: 'info', message: 'a' }, { severity: 'warning', message: 'b' }])).toBe('warning');
+      expect(worstSeverity([])).toBeUndefined();
+    });
+  });
+
+  describe('Node badges', () => {
+    it('should render a badge with a tooltip listing the messages', () => {
+      const DefinitionNode = sysmlNodeTypes['sysml.part-definition'];
+      const data: SysMLNodeData = { ...nodes[0].data, problems: attachDiagnostics(nodes, [], diagnostics).nodes[0].data.problems };
+
+      const { container, getByRole, queryByRole } = render(
+        <ReactFlowProvider>
+          <DefinitionNode id="vehicle" data={data} selected={false} isConnectable xPos={0} yPos={0} dragging={false} zIndex={0} type="test" />
+        </ReactFlowProvider>
+      );
+
+      const badge = container.querySelector('.sysml-problem-badge--error');
+      expect(badge).toHaveTextContent('2');
+      expect(queryByRole('tooltip')).toBeNull();
+
+      fireEvent.mouseEnter(badge!);
+      expect(getByRole('tooltip')).toHaveTextContent("Duplicate element id 'vehicle' (sysml.unique-ids)");
+      expect(getByRole('tooltip')).toHaveTextContent("Unresolved reference 'Car'");
+    });
+
+    it('should not render a badge without problems', () => {
+      const DefinitionNode = sysmlNodeTypes['sysml.part-definition'];
+      const { container } = render(
+        <ReactFlowProvider>
+          <DefinitionNode id="engine" data={nodes[1].data} selected={false} isConnectable xPos={0} yPos={0} dragging={false} zIndex={0} type="test" />
+        </ReactFlowProvider>
+      );
+
+      expect(container.querySelector('.sysml-problem-badge')).toBeNull();
+    });
+  });
+
+  describe('Problems panel', () => {
+    it('should list diagnostics and collapse', () => {
+      const { container, getByText, queryByText } = render(
+        <ReactFlowProvider>
+          <div style={{ width: 800, height: 600 }}>
+            <SysMLDiagram nodes={nodes} edges={edges} diagnostics={diagnostics} />
+          </div>
+        </ReactFlowProvider>
+      );
+
+      expect(container.querySelector('.sysml-problems-panel')).not.toBeNull();
+      expect(getByText('Problems (4)')).toBeDefined();
+      expect(getByText('Bad relationship')).toBeDefined();
+
+      fireEvent.click(getByText('Problems (4)'));
+      expect(queryByText('Bad relationship')).toBeNull();
+    });
+
+    it('should report the selected diagnostic', () => {
+      const onDiagnosticSelect = vi.fn();
+      const { getByText } = render(
+        <ReactFlowProvider>
+          <div style={{ width: 800, height: 600 }}>
+            <SysMLDiagram nodes={nodes} edges={edges} diagnostics={diagnostics} onDiagnosticSelect={onDiagnosticSelect} />
+          </div>
+        </ReactFlowProvider>
+      );
+
+      fireEvent.click(getByText('Bad relationship'));
+      expect(onDiagnosticSelect).toHaveBeenCalledWith(diagnostics[2]);
+    });
+
+    it('should hide the panel when showProblemsPanel is false', () => {
+      const { container } = render(
+        <ReactFlowProvider>
+          <div style={{ width: 800, height: 600 }}>
+            <SysMLDiagram nodes={nodes} edges={edges} diagnostics={diagnostics} showProblemsPanel={false} />
+          </div>
+        </ReactFlowProvider>
+      );
+
+      expect(container.querySelector('.sysml-problems-panel')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { memo, useState, type CSSProperties } from 'react';
+import { Panel, useReactFlow, type PanelPosition } from 'reactflow';
+
+import type {
+  SysMLEdgeData,
+  SysMLElementDiagnostic,
+  SysMLProblemMarker,
+  SysMLProblemSeverity,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode
+} from './types';
+
+export const problemColors: Record<SysMLProblemSeverity, string> = {
+  error: '#da1e28',
+  warning: '#f1c21b',
+  info: '#1192e8'
+};
+
+const problemIcons: Record<SysMLProblemSeverity, string> = {
+  error: '✕',
+  warning: '!',
+  info: 'i'
+};
+
+const severityOrder: SysMLProblemSeverity[] = ['error', 'warning', 'info'];
+
+/** The most severe of the given problems, or undefined when there are none. */
+export const worstSeverity = (problems?: SysMLProblemMarker[]): SysMLProblemSeverity | undefined =>
+  severityOrder.find((severity) => problems?.some((problem) => problem.severity === severity));
+
+/**
+ * Copy diagnostics onto the `problems` of the nodes and edges they refer to.
+ * Elements without diagnostics are returned unchanged; problems already on an
+ * element are replaced.
+ */
+export const attachDiagnostics = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[],
+  diagnostics: SysMLElementDiagnostic[]
+): { nodes: SysMLReactFlowNode[]; edges: SysMLReactFlowEdge[] } => {
+  const problemsById = new Map<string, SysMLProblemMarker[]>();
+  diagnostics.forEach(({ elementId, severity, message, ruleId }) => {
+    const problems = problemsById.get(elementId) ?? [];
+    problems.push(ruleId ? { severity, message, ruleId } : { severity, message });
+    problemsById.set(elementId, problems);
+  });
+
+  return {
+    nodes: nodes.map((node) => {
+      const problems = problemsById.get(node.id);
+      return problems ? { ...node, data: { ...node.data, problems } } : node;
+    }),
+    edges: edges.map((edge) => {
+      const problems = problemsById.get(edge.id);
+      return problems ? { ...edge, data: { ...(edge.data as SysMLEdgeData), problems } } : edge;
+    })
+  };
+};
+
+export const formatProblem = (problem: SysMLProblemMarker) =>
+  problem.ruleId ? `${problem.message} (${problem.ruleId})` : problem.message;
+
+type ProblemBadgeProps = {
+  problems?: SysMLProblemMarker[];
+  style?: CSSProperties;
+};
+
+/** Severity badge with a problem count; hovering shows the messages. */
+export const ProblemBadge = ({ problems, style }: ProblemBadgeProps) => {
+  const [open, setOpen] = useState(false);
+  const severity = worstSeverity(problems);
+  if (!problems || !severity) {
+    return null;
+  }
+
+  const color = problemColors[severity];
+  return (
+    <div
+      className={`sysml-problem-badge sysml-problem-badge--${severity}`}
+      aria-label={`${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}`}
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+      style={{ position: 'relative', display: 'inline-flex', pointerEvents: 'all', ...style }}
+    >
+      <span
+        style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: 4,
+          padding: '1px 6px',
+          borderRadius: 999,
+          background: color,
+          color: severity === 'warning' ? '#161616' : '#ffffff',
+          fontSize: 11,
+          fontWeight: 700,
+          lineHeight: '16px',
+          cursor: 'default'
+        }}
+      >
+        <span aria-hidden>{problemIcons[severity]}</span>
+        {problems.length}
+      </span>
+      {open && (
+        <div
+          role="tooltip"
+          className="sysml-problem-tooltip"
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: 4,
+            zIndex: 10,
+            minWidth: 220,
+            maxWidth: 320,
+            padding: '6px 8px',
+            borderRadius: 4,
+            background: 'rgba(22, 22, 22, 0.97)',
+            border: `1px solid ${color}`,
+            color: '#f4f4f4',
+            fontSize: 11,
+            fontWeight: 400,
+            textTransform: 'none',
+            letterSpacing: 0,
+            whiteSpace: 'normal',
+            boxShadow: '0 4px 12px rgba(0,0,0,0.45)'
+          }}
+        >
+          {problems.map((problem, index) => (
+            <div key={index} style={{ display: 'flex', gap: 6, padding: '2px 0' }}>
+              <span style={{ color: problemColors[problem.severity], fontWeight: 700 }}>{problemIcons[problem.severity]}</span>
+              <span>{formatProblem(problem)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export interface SysMLProblemsPanelProps {
+  diagnostics: SysMLElementDiagnostic[];
+  position?: PanelPosition;
+  /** Start collapsed; the header toggles the list either way. */
+  defaultCollapsed?: boolean;
+  /** Called after the view has moved to the diagnostic's element. */
+  onSelect?: (diagnostic: SysMLElementDiagnostic) => void;
+}
+
+/**
+ * Collapsible list of diagnostics, rendered inside a ReactFlow. Clicking an
+ * entry pans and zooms to the offending node, or to both ends of an edge.
+ */
+export const SysMLProblemsPanel = memo(
+  ({ diagnostics, position = 'top-right', defaultCollapsed = false, onSelect }: SysMLProblemsPanelProps) => {
+    const [collapsed, setCollapsed] = useState(defaultCollapsed);
+    const { fitView, getNode, getEdge } = useReactFlow();
+
+    const targetNodes = (elementId: string) => {
+      if (getNode(elementId)) {
+        return [{ id: elementId }];
+      }
+      const edge = getEdge(elementId);
+      return edge ? [{ id: edge.source }, { id: edge.target }] : undefined;
+    };
+
+    const select = (diagnostic: SysMLElementDiagnostic) => {
+      const nodes = targetNodes(diagnostic.elementId);
+      if (nodes) {
+        fitView({ nodes, duration: 300, padding: 0.5, maxZoom: 1.5 });
+      }
+      onSelect?.(diagnostic);
+    };
+
+    const counts = severityOrder
+      .map((severity) => ({ severity, count: diagnostics.filter((d) => d.severity === severity).length }))
+      .filter(({ count }) => count > 0);
+
+    return (
+      <Panel position={position}>
+        <div
+          className="sysml-problems-panel"
+          style={{
+            width: 320,
+            maxHeight: 280,
+            display: 'flex',
+            flexDirection: 'column',
+            background: 'rgba(22, 22, 22, 0.95)',
+            border: '1px solid #393939',
+            borderRadius: 6,
+            color: '#f4f4f4',
+            fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+            fontSize: 12,
+            boxShadow: '0 4px 16px rgba(0,0,0,0.35)'
+          }}
+        >
+          <button
+            type="button"
+            aria-expanded={!collapsed}
+            onClick={() => setCollapsed((value) => !value)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
+              padding: '6px 10px',
+              background: 'transparent',
+              border: 'none',
+              color: 'inherit',
+              font: 'inherit',
+              fontWeight: 600,
+              cursor: 'pointer',
+              textAlign: 'left'
+            }}
+          >
+            <span aria-hidden>{collapsed ? '▸' : '▾'}</span>
+            <span style={{ flex: 1 }}>Problems ({diagnostics.length})</span>
+            {counts.map(({ severity, count }) => (
+              <span key={severity} style={{ color: problemColors[severity] }}>
+                {problemIcons[severity]} {count}
+              </span>
+            ))}
+          </button>
+          {!collapsed && (
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0, overflowY: 'auto', borderTop: '1px solid #393939' }}>
+              {diagnostics.length === 0 && <li style={{ padding: '6px 10px', opacity: 0.7 }}>No problems</li>}
+              {diagnostics.map((diagnostic, index) => {
+                const navigable = Boolean(targetNodes(diagnostic.elementId));
+                return (
+                  <li key={index}>
+                    <button
+                      type="button"
+                      className="sysml-problems-panel__item"
+                      onClick={() => select(diagnostic)}
+                      title={navigable ? undefined : 'Element is not shown in this view'}
+                      style={{
+                        display: 'flex',
+                        gap: 8,
+                        width: '100%',
+                        padding: '4px 10px',
+                        background: 'transparent',
+                        border: 'none',
+                        color: 'inherit',
+                        font: 'inherit',
+                        textAlign: 'left',
+                        cursor: navigable ? 'pointer' : 'default',
+                        opacity: navigable ? 1 : 0.6
+                      }}
+                    >
+                      <span style={{ color: problemColors[diagnostic.severity], fontWeight: 700 }}>
+                        {problemIcons[diagnostic.severity]}
+                      </span>
+                      <span style={{ flex: 1 }}>
+                        {diagnostic.message}
+                        <span style={{ display: 'block', fontSize: 10, opacity: 0.6 }}>
+                          {diagnostic.elementId}
+                          {diagnostic.ruleId && ` · ${diagnostic.ruleId}`}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </Panel>
+    );
+  }
+);
+
+SysMLProblemsPanel.displayName = 'SysMLProblemsPanel';
@@ -2,7 +2,11 @@ import { memo, useCallback } from 'react';
 import type { EdgeProps, EdgeTypes, Node } from 'reactflow';
 import { BaseEdge, EdgeLabelRenderer, Position, getSmoothStepPath, getStraightPath, useStore } from 'reactflow';
 
-import type { SysMLEdgeData, SysMLRoutePoint } from './types';
+import { ProblemBadge, problemColors, worstSeverity } from './diagnostics';
+import { diffColors } from './modelDiff';
+import { portOfHandle } from './ports';
+import { simulationHighlightColor } from './simulation';
+import type { SysMLEdgeData, SysMLMessageType, SysMLRoutePoint } from './types';
 
 // SysML v2.0 edge colors
 const edgeColors: Record<string, string> = {
@@ -57,16 +61,20 @@ const edgeColors: Record<string, string> = {
   'succession-as-usage': '#42be65'
 };
 
+const colorOf = (kind?: string, colorOverride?: string) =>
+  colorOverride ?? (kind ? edgeColors[kind] ?? '#8d8d8d' : '#8d8d8d');
+
 // Edge styles for different SysML relationship types
-const getEdgeStyle = (kind?: string) => {
-  const color = kind ? edgeColors[kind] ?? '#8d8d8d' : '#8d8d8d';
+export const getEdgeStyle = (kind?: string, messageType?: SysMLMessageType, colorOverride?: string) => {
+  const color = colorOf(kind, colorOverride);
 
-  // Dashed lines for certain relationship types
+  // Dashed lines for certain relationship types and return messages
   const dashedRelationships = [
     'dependency', 'satisfy', 'verify', 'refine', 'allocate', 'include', 'extend',
     'definition', 'feature-typing', 'owning-membership', 'feature-membership', 'variant-membership'
   ];
-  const strokeDasharray = kind && dashedRelationships.includes(kind) ? '5,5' : undefined;
+  const dashed = (kind && dashedRelationships.includes(kind)) || (kind === 'message' && messageType === 'return');
+  const strokeDasharray = dashed ? '5,5' : undefined;
 
   return {
     stroke: color,
@@ -75,11 +83,16 @@ const getEdgeStyle = (kind?: string) => {
   };
 };
 
+// Style of a diagram edge: its relationship style, dotted for derived edges
+export const getEdgeDataStyle = (data?: SysMLEdgeData) => {
+  const style = getEdgeStyle(data?.kind, data?.messageType, data?.color);
+  return data?.derived ? { ...style, strokeDasharray: '2,4' } : style;
+};
+
 // Custom marker definitions for SysML relationships
-// Create color-specific markers for each edge color
-const SysMLEdgeMarkers = () => {
-  const colors = Object.values(edgeColors);
-  const uniqueColors = Array.from(new Set([...colors, '#f4f4f4']));
+// Create color-specific markers for each edge color and the additional ones, or only for the given colors
+const SysMLEdgeMarkers = ({ colors, additionalColors = [] }: { colors?: string[]; additionalColors?: string[] }) => {
+  const uniqueColors = Array.from(new Set(colors ?? [...Object.values(edgeColors), '#f4f4f4', ...additionalColors]));
 
   return (
     <svg style={{ position: 'absolute', width: 0, height: 0 }}>
@@ -174,9 +187,8 @@ const SysMLEdgeMarkers = () => {
 };
 
 // Get appropriate marker for START (source) of relationship
-const getMarkerStart = (kind?: string): string | undefined => {
-  const color = kind ? edgeColors[kind] ?? '#8d8d8d' : '#8d8d8d';
-  const colorId = color.replace('#', '');
+export const getMarkerStart = (kind?: string, colorOverride?: string): string | undefined => {
+  const colorId = colorOf(kind, colorOverride).replace('#', '');
 
   switch (kind) {
     case 'composition':
@@ -189,9 +201,12 @@ const getMarkerStart = (kind?: string): string | undefined => {
 };
 
 // Get appropriate marker for END (target) of relationship
-const getMarkerEnd = (kind?: string): string | undefined => {
-  const color = kind ? edgeColors[kind] ?? '#8d8d8d' : '#8d8d8d';
-  const colorId = color.replace('#', '');
+export const getMarkerEnd = (
+  kind?: string,
+  messageType?: SysMLMessageType,
+  colorOverride?: string
+): string | undefined => {
+  const colorId = colorOf(kind, colorOverride).replace('#', '');
 
   switch (kind) {
     case 'specialization':
@@ -215,6 +230,11 @@ const getMarkerEnd = (kind?: string): string | undefined => {
       return `url(#arrow-open-${colorId})`;
     case 'dependency':
       return `url(#arrow-open-${colorId})`;
+    case 'message':
+      // Filled for synchronous calls, open for asynchronous signals and returns
+      return messageType === 'async' || messageType === 'return'
+        ? `url(#arrow-open-${colorId})`
+        : `url(#arrow-filled-${colorId})`;
     case 'association':
     case 'featuring':
       return `url(#arrow-filled-${colorId})`;
@@ -270,7 +290,22 @@ const buildGeometry = (
 };
 
 const SysMLEdgeComponent = memo((props: EdgeProps<SysMLEdgeData>) => {
-  const { id, source, target, sourceX, sourceY, targetX, targetY, data } = props;
+  const {
+    id,
+    source,
+    target,
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+    sourcePosition,
+    targetPosition,
+    sourceHandleId,
+    targetHandleId,
+    data
+  } = props;
+  // Only the opacity of the ReactFlow edge style applies (used to dim edges)
+  const opacity = props.style?.opacity;
 
   const sourceNode = useStore(
     useCallback((state) => state.nodeInternals.get(source), [source])
@@ -316,8 +351,15 @@ const SysMLEdgeComponent = memo((props: EdgeProps<SysMLEdgeData>) => {
         ? Position.Top
         : Position.Bottom;
 
-    const sourceAnchor = sourceGeometry.anchors[sourceSide] ?? { x: sourceX, y: sourceY };
-    const targetAnchor = targetGeometry.anchors[targetSide] ?? { x: targetX, y: targetY };
+    // Port connections start and end at the port's handle on its side of the node
+    const sourcePort = portOfHandle(sourceHandleId) !== undefined;
+    const targetPort = portOfHandle(targetHandleId) !== undefined;
+    const sourceAnchor = sourcePort
+      ? { x: sourceX, y: sourceY }
+      : sourceGeometry.anchors[sourceSide] ?? { x: sourceX, y: sourceY };
+    const targetAnchor = targetPort
+      ? { x: targetX, y: targetY }
+      : targetGeometry.anchors[targetSide] ?? { x: targetX, y: targetY };
 
     const pathType = getPathType(data?.kind);
 
@@ -327,8 +369,8 @@ const SysMLEdgeComponent = memo((props: EdgeProps<SysMLEdgeData>) => {
           sourceY: sourceAnchor.y,
           targetX: targetAnchor.x,
           targetY: targetAnchor.y,
-          sourcePosition: sourceSide,
-          targetPosition: targetSide,
+          sourcePosition: sourcePort ? sourcePosition : sourceSide,
+          targetPosition: targetPort ? targetPosition : targetSide,
           borderRadius: 8
         })
       : getStraightPath({
@@ -343,12 +385,58 @@ const SysMLEdgeComponent = memo((props: EdgeProps<SysMLEdgeData>) => {
     labelY = result[2];
   }
 
-  const style = getEdgeStyle(data?.kind);
-  const markerStart = getMarkerStart(data?.kind);
-  const markerEnd = getMarkerEnd(data?.kind);
+  // Sequence messages carry their label above the first segment of the arrow
+  if (data?.kind === 'message' && route && route.points.length >= 2) {
+    const [first, second] = route.points;
+    labelX = (first.x + second.x) / 2;
+    labelY = first.y - (data.guard ? 24 : 14);
+  }
+
+  const style = { ...getEdgeDataStyle(data), opacity };
+  const markerStart = getMarkerStart(data?.kind, data?.color);
+  const markerEnd = getMarkerEnd(data?.kind, data?.messageType, data?.color);
+  const problemSeverity = worstSeverity(data?.problems);
 
   return (
     <>
+      {problemSeverity && (
+        <path
+          className="sysml-edge-problem"
+          d={edgePath}
+          fill="none"
+          stroke={problemColors[problemSeverity]}
+          strokeWidth={8}
+          strokeOpacity={0.35}
+          strokeLinecap="round"
+          opacity={opacity}
+        />
+      )}
+      {data?.diff && (
+        <path
+          className={`sysml-edge-diff sysml-edge-diff--${data.diff.type}`}
+          d={edgePath}
+          fill="none"
+          stroke={diffColors[data.diff.type]}
+          strokeWidth={8}
+          strokeOpacity={0.45}
+          strokeLinecap="round"
+          opacity={opacity}
+        >
+          <title>{[data.diff.type, ...(data.diff.changes ?? [])].join('\n')}</title>
+        </path>
+      )}
+      {data?.fired && (
+        <path
+          className="sysml-edge-fired"
+          d={edgePath}
+          fill="none"
+          stroke={simulationHighlightColor}
+          strokeWidth={6}
+          strokeOpacity={0.6}
+          strokeLinecap="round"
+          opacity={opacity}
+        />
+      )}
       <BaseEdge
         id={id}
         path={edgePath}
@@ -356,6 +444,25 @@ const SysMLEdgeComponent = memo((props: EdgeProps<SysMLEdgeData>) => {
         markerStart={markerStart}
         markerEnd={markerEnd}
       />
+      {data?.tokens !== undefined && data.tokens > 0 && (
+        // Tokens that just arrived travel along the edge; waiting ones sit before its target
+        <g className="sysml-edge-token" opacity={opacity}>
+          <animateMotion
+            dur="0.5s"
+            fill="freeze"
+            path={edgePath}
+            calcMode="linear"
+            keyTimes="0;1"
+            keyPoints={data.fired ? '0;0.85' : '0.85;0.85'}
+          />
+          <circle r={7} fill={simulationHighlightColor} stroke="#0b0c0f" strokeWidth={2} />
+          {data.tokens > 1 && (
+            <text textAnchor="middle" dy="0.35em" fontSize={9} fontWeight={700} fill="#0b0c0f">
+              {data.tokens}
+            </text>
+          )}
+        </g>
+      )}
       {data?.label && (
         <EdgeLabelRenderer>
           <div
@@ -369,7 +476,8 @@ const SysMLEdgeComponent = memo((props: EdgeProps<SysMLEdgeData>) => {
               fontSize: 11,
               border: `1px solid ${style.stroke}`,
               pointerEvents: 'all',
-              whiteSpace: 'nowrap'
+              whiteSpace: 'nowrap',
+              opacity
             }}
             className="sysml-edge-label"
           >
@@ -397,6 +505,19 @@ const SysMLEdgeComponent = memo((props: EdgeProps<SysMLEdgeData>) => {
           </div>
         </EdgeLabelRenderer>
       )}
+      {problemSeverity && (
+        <EdgeLabelRenderer>
+          <ProblemBadge
+            problems={data?.problems}
+            style={{
+              position: 'absolute',
+              // Sit above the label when there is one
+              transform: `translate(-50%, -50%) translate(${labelX}px, ${data?.label ? labelY - 28 : labelY}px)`,
+              opacity
+            }}
+          />
+        </EdgeLabelRenderer>
+      )}
     </>
   );
 });
@@ -409,7 +530,7 @@ export const sysmlEdgeTypes: EdgeTypes = {
   'sysml.relationship': SysMLEdgeComponent
 };
 
-function buildPolylineRoutePath(points: SysMLRoutePoint[]): string {
+export function buildPolylineRoutePath(points: SysMLRoutePoint[]): string {
   if (points.length === 0) {
     return '';
   }
@@ -421,7 +542,7 @@ function buildPolylineRoutePath(points: SysMLRoutePoint[]): string {
   return commands.join(' ');
 }
 
-function buildSmoothRoutePath(points: SysMLRoutePoint[]): string {
+export function buildSmoothRoutePath(points: SysMLRoutePoint[]): string {
   if (points.length <= 2) {
     return buildPolylineRoutePath(points);
   }
@@ -449,7 +570,7 @@ function buildSmoothRoutePath(points: SysMLRoutePoint[]): string {
   return commands.join(' ');
 }
 
-function getRouteMidpoint(points: SysMLRoutePoint[]): SysMLRoutePoint {
+export function getRouteMidpoint(points: SysMLRoutePoint[]): SysMLRoutePoint {
   if (points.length === 0) {
     return { x: 0, y: 0 };
   }
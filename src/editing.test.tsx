@@ -0,0 +1,293 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, fireEvent, render, renderHook } from '@testing-library/react';
+import { ReactFlowProvider } from 'reactflow';
+import { SysMLPropertyEditor, SysMLRelationshipPicker, SYSML_NODE_KIND_MIME, useSysMLModelEditor } from './editing';
+import { SysMLDiagram } from './SysMLDiagram';
+import { structuralDefinitionViewpoint } from './viewpoints';
+import type { SysMLNodeSpec } from './types';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [{ kind: 'part-definition', spec: { id: 'part-definition-1', name: 'Vehicle' } }],
+  relationships: []
+};
+
+const renderEditor = (onModelChange = vi.fn()) =>
+  render(
+    <ReactFlowProvider>
+      <div style={{ width: 800, height: 600 }}>
+        <SysMLDiagram model={model} viewpoint={structuralDefinitionViewpoint} editable onModelChange={onModelChange} />
+      </div>
+    </ReactFlowProvider>
+  );
+
+describe('Diagram Editing', () => {
+  it('should render a palette of the viewpoint kinds grouped by category', () => {
+    const { container, getByText } = renderEditor();
+
+    expect(getByText('▾ Structural Elements')).toBeDefined();
+    expect(getByText('Part Definition')).toBeDefined();
+    expect(container.querySelector('.sysml-palette__item[data-kind="requirement-definition"]')).toBeNull();
+  });
+
+  it('should not render the palette when not editable', () => {
+    const { container } = render(
+      <ReactFlowProvider>
+        <div style={{ width: 800, height: 600 }}>
+          <SysMLDiagram model={model} viewpoint={structuralDefinitionViewpoint} />
+        </div>
+      </ReactFlowProvider>
+    );
+
+    expect(container.querySelector('.sysml-palette')).toBeNull();
+  });
+
+  it('should show connectable handles', () => {
+    const { container } = renderEditor();
+
+    const handle = container.querySelector<HTMLElement>('.react-flow__handle');
+    expect(handle?.style.width).toBe('10px');
+    expect(handle).toHaveClass('connectable');
+  });
+
+  it('should emit an add-node delta when a palette item is clicked', () => {
+    const onModelChange = vi.fn();
+    const { getByText } = renderEditor(onModelChange);
+
+    fireEvent.click(getByText('Part Definition'));
+
+    expect(onModelChange).toHaveBeenCalledWith({
+      type: 'add-node',
+      node: { kind: 'part-definition', spec: { id: 'part-definition-2', name: 'Part Definition 2' } },
+      position: expect.objectContaining({ x: expect.any(Number), y: expect.any(Number) })
+    });
+  });
+
+  it('should emit an add-node delta when a kind is dropped on the diagram', () => {
+    const onModelChange = vi.fn();
+    const { container } = renderEditor(onModelChange);
+
+    fireEvent.drop(container.querySelector('.react-flow')!, {
+      clientX: 100,
+      clientY: 100,
+      dataTransfer: { types: [SYSML_NODE_KIND_MIME], getData: () => 'port-definition' }
+    });
+
+    expect(onModelChange).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'add-node', node: { kind: 'port-definition', spec: { id: 'port-definition-1', name: 'Port Definition 1' } } })
+    );
+  });
+
+  it('should keep the drop listener across renders of the same model', () => {
+    const onModelChange = vi.fn();
+    const { container, rerender } = renderEditor(onModelChange);
+    const addEventListener = vi.spyOn(container.querySelector('.react-flow')!, 'addEventListener');
+
+    rerender(
+      <ReactFlowProvider>
+        <div style={{ width: 800, height: 600 }}>
+          <SysMLDiagram
+            model={model}
+            viewpoint={structuralDefinitionViewpoint}
+            editable
+            onModelChange={onModelChange}
+            showControls={false}
+          />
+        </div>
+      </ReactFlowProvider>
+    );
+
+    expect(addEventListener).not.toHaveBeenCalledWith('drop', expect.anything());
+  });
+
+  it('should offer the given relationship kinds', () => {
+    const onSelect = vi.fn();
+    const { getByText, getByRole } = render(
+      <ReactFlowProvider>
+        <SysMLRelationshipPicker sourceName="A" targetName="B" kinds={['dependency', 'specialization']} onSelect={onSelect} onCancel={() => {}} />
+      </ReactFlowProvider>
+    );
+
+    expect(getByRole('dialog')).toHaveTextContent('A → B');
+    fireEvent.click(getByText('specialization'));
+    expect(onSelect).toHaveBeenCalledWith('specialization');
+  });
+
+  it('should keep the model and positions in sync with deltas', () => {
+    const { result } = renderHook(() => useSysMLModelEditor(model));
+
+    act(() =>
+      result.current.applyDelta({
+        type: 'add-node',
+        node: { kind: 'part-definition', spec: { id: 'p2', name: 'Engine' } },
+        position: { x: 10, y: 20 }
+      })
+    );
+    act(() => result.current.applyDelta({ type: 'move-node', id: 'p2', position: { x: 30, y: 40 } }));
+    expect(result.current.model.nodes).toHaveLength(2);
+    expect(result.current.positions).toEqual({ p2: { x: 30, y: 40 } });
+
+    act(() => result.current.applyDelta({ type: 'remove-node', id: 'p2' }));
+    expect(result.current.model).toEqual(model);
+    expect(result.current.positions).toEqual({});
+  });
+
+  it('should undo and redo edits through the editor hook', () => {
+    const { result } = renderHook(() => useSysMLModelEditor(model));
+
+    act(() => result.current.applyDelta({ type: 'move-node', id: 'part-definition-1', position: { x: 5, y: 5 } }));
+    act(() => result.current.undo());
+    expect(result.current.positions).toEqual({});
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+    expect(result.current.positions).toEqual({ 'part-definition-1': { x: 5, y: 5 } });
+    expect(result.current.canUndo).toBe(true);
+  });
+
+  it('should call onUndo and onRedo on keyboard shortcuts outside text fields', () => {
+    const onUndo = vi.fn();
+    const onRedo = vi.fn();
+    render(
+      <ReactFlowProvider>
+        <div style={{ width: 800, height: 600 }}>
+          <SysMLDiagram model={model} viewpoint={structuralDefinitionViewpoint} editable onUndo={onUndo} onRedo={onRedo} />
+        </div>
+        <input aria-label="search" />
+      </ReactFlowProvider>
+    );
+
+    fireEvent.keyDown(document.body, { key: 'z', ctrlKey: true });
+    fireEvent.keyDown(document.body, { key: 'Z', metaKey: true, shiftKey: true });
+    fireEvent.keyDown(document.body, { key: 'y', ctrlKey: true });
+    fireEvent.keyDown(document.querySelector('input')!, { key: 'z', ctrlKey: true });
+
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(onRedo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should emit the deletion of a node and its relationships as one group', async () => {
+    const onModelChange = vi.fn();
+    const { container } = render(
+      <ReactFlowProvider>
+        <div style={{ width: 800, height: 600 }}>
+          <SysMLDiagram
+            model={{
+              nodes: [...model.nodes, { kind: 'part-definition', spec: { id: 'engine', name: 'Engine' } }],
+              relationships: [{ id: 'r1', type: 'specialization', source: 'engine', target: 'part-definition-1' }]
+            }}
+            viewpoint={structuralDefinitionViewpoint}
+            editable
+            onModelChange={onModelChange}
+          />
+        </div>
+      </ReactFlowProvider>
+    );
+
+    fireEvent.keyDown(container.querySelector('.react-flow__node[data-id="engine"]')!, { key: 'Enter' });
+    fireEvent.keyUp(container.querySelector('.react-flow__node[data-id="engine"]')!, { key: 'Enter' });
+    fireEvent.keyDown(document.body, { key: 'Backspace' });
+    fireEvent.keyUp(document.body, { key: 'Backspace' });
+    await act(async () => {});
+
+    expect(onModelChange).toHaveBeenCalledTimes(1);
+    expect(onModelChange).toHaveBeenCalledWith({
+      type: 'group',
+      deltas: [
+        { type: 'remove-relationship', id: 'r1' },
+        { type: 'remove-node', id: 'engine' }
+      ]
+    });
+  });
+});
+
+describe('Property Editor', () => {
+  const vehicle: SysMLNodeSpec = {
+    kind: 'part-definition',
+    spec: { id: 'vehicle', name: 'Vehicle', attributes: [{ name: 'mass', type: 'Real' }] }
+  };
+
+  it('should commit text fields on blur and regenerate the node', () => {
+    const onChange = vi.fn();
+    const { getByLabelText } = render(<SysMLPropertyEditor node={vehicle} position={{ x: 40, y: 50 }} onChange={onChange} />);
+
+    fireEvent.change(getByLabelText('attribute 1 type'), { target: { value: 'MassValue' } });
+    expect(onChange).not.toHaveBeenCalled();
+    fireEvent.blur(getByLabelText('attribute 1 type'));
+
+    const [spec, node] = onChange.mock.calls[0];
+    expect(spec).toEqual({ kind: 'part-definition', spec: { id: 'vehicle', name: 'Vehicle', attributes: [{ name: 'mass', type: 'MassValue' }] } });
+    expect(node.position).toEqual({ x: 40, y: 50 });
+    expect(node.data.compartments).toEqual([{ title: 'attributes', items: [{ label: 'mass', value: 'MassValue' }] }]);
+  });
+
+  it('should add and remove table rows, including ports with a direction', () => {
+    const onChange = vi.fn();
+    const { getByText, getByLabelText, rerender } = render(<SysMLPropertyEditor node={vehicle} onChange={onChange} />);
+
+    fireEvent.click(getByText('+ Add port'));
+    const withPort = onChange.mock.calls[0][0] as SysMLNodeSpec;
+    expect(withPort.spec).toMatchObject({ ports: [{ name: 'port1' }] });
+
+    rerender(<SysMLPropertyEditor node={withPort} onChange={onChange} />);
+    fireEvent.change(getByLabelText('port 1 direction'), { target: { value: 'in' } });
+    expect(onChange.mock.calls[1][1].data.compartments[1]).toEqual({ title: 'ports', items: [{ label: 'port1', value: 'IN' }] });
+
+    fireEvent.click(getByLabelText('Remove attribute 1'));
+    expect(onChange.mock.calls[2][0].spec).toEqual({ id: 'vehicle', name: 'Vehicle', ports: [{ name: 'port1' }] });
+  });
+
+  it('should generate requirement fields and drop emptied optional fields', () => {
+    const onChange = vi.fn();
+    const requirement: SysMLNodeSpec = {
+      kind: 'requirement-usage',
+      spec: { id: 'REQ-1', name: 'Mass', reqId: 'R-1', text: 'The vehicle shall weigh less than 2000 kg.' }
+    };
+    const { getByLabelText, queryByLabelText } = render(<SysMLPropertyEditor node={requirement} onChange={onChange} />);
+
+    expect(queryByLabelText('Description')).toBeNull();
+    fireEvent.change(getByLabelText('Status'), { target: { value: 'approved' } });
+    expect(onChange.mock.calls[0][0].spec.status).toBe('approved');
+    expect(onChange.mock.calls[0][1].data.status).toBe('approved');
+
+    fireEvent.change(getByLabelText('Requirement id'), { target: { value: '' } });
+    fireEvent.keyDown(getByLabelText('Requirement id'), { key: 'Enter' });
+    expect(onChange.mock.calls[1][0].spec).toEqual({ id: 'REQ-1', name: 'Mass', text: 'The vehicle shall weigh less than 2000 kg.' });
+  });
+
+  it('should generate state actions, constraint expressions and tags', () => {
+    const onChange = vi.fn();
+    const { getByLabelText, getByText, rerender } = render(
+      <SysMLPropertyEditor node={{ kind: 'state', spec: { id: 'idle', name: 'Idle' } }} onChange={onChange} />
+    );
+
+    fireEvent.change(getByLabelText('Do action'), { target: { value: 'monitor' } });
+    fireEvent.blur(getByLabelText('Do action'));
+    expect(onChange.mock.calls[0][1].data.compartments).toEqual([{ title: 'do', items: [{ label: 'monitor' }] }]);
+
+    rerender(<SysMLPropertyEditor node={{ kind: 'constraint-usage', spec: { id: 'c', name: 'c', expression: 'a < b' } }} onChange={onChange} />);
+    expect(getByLabelText('Expression')).toHaveValue('a < b');
+
+    fireEvent.click(getByText('+ Add tag'));
+    expect(onChange.mock.calls[1][0].spec.tags).toEqual([{ key: 'tag1', value: '' }]);
+    expect(onChange.mock.calls[1][1].data.tags).toEqual([{ key: 'tag1', value: '' }]);
+  });
+
+  it('should edit the selected node of an editable diagram', () => {
+    const onModelChange = vi.fn();
+    const { container, getByLabelText } = renderEditor(onModelChange);
+
+    expect(container.querySelector('.sysml-property-editor')).toBeNull();
+    fireEvent.keyDown(container.querySelector('.react-flow__node')!, { key: 'Enter' });
+
+    fireEvent.change(getByLabelText('Name'), { target: { value: 'Car' } });
+    fireEvent.blur(getByLabelText('Name'));
+    expect(onModelChange).toHaveBeenCalledWith({
+      type: 'update-node',
+      node: { kind: 'part-definition', spec: { id: 'part-definition-1', name: 'Car' } }
+    });
+
+    fireEvent.click(getByLabelText('Close properties'));
+    expect(container.querySelector('.sysml-property-editor')).toBeNull();
+  });
+});
@@ -0,0 +1,616 @@
+import { createContext, memo, useCallback, useEffect, useState, type CSSProperties } from 'react';
+import type { XYPosition } from 'reactflow';
+import { Panel, useReactFlow, useStore } from 'reactflow';
+
+import { createNodesFromSpecs } from './factories';
+import {
+  applyHistoryDelta,
+  canRedo,
+  canUndo,
+  createModelHistory,
+  redoHistory,
+  undoHistory,
+  type SysMLModelHistoryOptions
+} from './history';
+import { formatNodeKind, sysmlNodeKindCategories, type SysMLModelDelta } from './modelDelta';
+import type { SysMLEdgeKind, SysMLNodeKind, SysMLNodeSpec, SysMLReactFlowNode } from './types';
+import type { SysMLModel } from './viewpoints';
+
+/** Data transfer type carrying the `SysMLNodeKind` dragged from the palette. */
+export const SYSML_NODE_KIND_MIME = 'application/x-sysml-node-kind';
+
+/** Whether nodes render visible, connectable handles. Provided by `SysMLDiagram` in editing mode. */
+export const SysMLEditingContext = createContext(false);
+
+const panelStyle: CSSProperties = {
+  background: 'rgba(22, 22, 22, 0.95)',
+  border: '1px solid #393939',
+  borderRadius: 6,
+  color: '#f4f4f4',
+  fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+  fontSize: 12,
+  boxShadow: '0 4px 16px rgba(0,0,0,0.35)'
+};
+
+const itemButtonStyle: CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '3px 8px',
+  background: 'transparent',
+  border: 'none',
+  color: 'inherit',
+  font: 'inherit',
+  textAlign: 'left',
+  cursor: 'grab'
+};
+
+export interface SysMLPaletteProps {
+  /** Kinds to offer; defaults to every `SysMLNodeKind`. */
+  kinds?: SysMLNodeKind[];
+  /** Called when a kind is dropped on the diagram, or clicked (placed at the viewport center). */
+  onCreate: (kind: SysMLNodeKind, position: XYPosition) => void;
+}
+
+/**
+ * Palette of node kinds grouped by category, rendered inside a ReactFlow.
+ * Kinds are dragged onto the diagram, or clicked, to create elements.
+ */
+export const SysMLPalette = memo(({ kinds, onCreate }: SysMLPaletteProps) => {
+  const { screenToFlowPosition } = useReactFlow();
+  const domNode = useStore((state) => state.domNode);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    if (!domNode) {
+      return undefined;
+    }
+    const onDragOver = (event: DragEvent) => {
+      if (event.dataTransfer?.types.includes(SYSML_NODE_KIND_MIME)) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+      }
+    };
+    const onDrop = (event: DragEvent) => {
+      const kind = event.dataTransfer?.getData(SYSML_NODE_KIND_MIME) as SysMLNodeKind | undefined;
+      if (!kind) {
+        return;
+      }
+      event.preventDefault();
+      onCreate(kind, screenToFlowPosition({ x: event.clientX, y: event.clientY }));
+    };
+    domNode.addEventListener('dragover', onDragOver);
+    domNode.addEventListener('drop', onDrop);
+    return () => {
+      domNode.removeEventListener('dragover', onDragOver);
+      domNode.removeEventListener('drop', onDrop);
+    };
+  }, [domNode, onCreate, screenToFlowPosition]);
+
+  const createAtCenter = (kind: SysMLNodeKind) => {
+    const bounds = domNode?.getBoundingClientRect();
+    const center = bounds ? { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 } : { x: 0, y: 0 };
+    onCreate(kind, screenToFlowPosition(center));
+  };
+
+  const categories = sysmlNodeKindCategories
+    .map((category) => ({ ...category, kinds: category.kinds.filter((kind) => !kinds || kinds.includes(kind)) }))
+    .filter((category) => category.kinds.length > 0);
+
+  return (
+    <Panel position="top-left">
+      <div className="sysml-palette" style={{ ...panelStyle, width: 200, maxHeight: 480, overflowY: 'auto', padding: '4px 0' }}>
+        {categories.map((category) => (
+          <div key={category.name}>
+            <button
+              type="button"
+              aria-expanded={!collapsed[category.name]}
+              onClick={() => setCollapsed((state) => ({ ...state, [category.name]: !state[category.name] }))}
+              style={{ ...itemButtonStyle, fontWeight: 600, cursor: 'pointer', padding: '6px 8px' }}
+            >
+              {collapsed[category.name] ? '▸' : '▾'} {category.name}
+            </button>
+            {!collapsed[category.name] &&
+              category.kinds.map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  draggable
+                  className="sysml-palette__item"
+                  data-kind={kind}
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData(SYSML_NODE_KIND_MIME, kind);
+                    event.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  onClick={() => createAtCenter(kind)}
+                  style={{ ...itemButtonStyle, paddingLeft: 20 }}
+                >
+                  {formatNodeKind(kind)}
+                </button>
+              ))}
+          </div>
+        ))}
+      </div>
+    </Panel>
+  );
+});
+
+SysMLPalette.displayName = 'SysMLPalette';
+
+export interface SysMLRelationshipPickerProps {
+  sourceName: string;
+  targetName: string;
+  /** Relationship kinds legal between the two ends, see `allowedRelationshipKinds`. */
+  kinds: SysMLEdgeKind[];
+  onSelect: (kind: SysMLEdgeKind) => void;
+  onCancel: () => void;
+}
+
+/** Choice of relationship kind for a new connection, rendered inside a ReactFlow. */
+export const SysMLRelationshipPicker = memo(
+  ({ sourceName, targetName, kinds, onSelect, onCancel }: SysMLRelationshipPickerProps) => (
+    <Panel position="top-center">
+      <div
+        role="dialog"
+        aria-label="Choose relationship"
+        className="sysml-relationship-picker"
+        style={{ ...panelStyle, width: 260, padding: 8 }}
+      >
+        <div style={{ fontWeight: 600, marginBottom: 6 }}>
+          {sourceName} → {targetName}
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, maxHeight: 240, overflowY: 'auto' }}>
+          {kinds.map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => onSelect(kind)}
+              style={{
+                padding: '2px 8px',
+                borderRadius: 999,
+                border: '1px solid #525252',
+                background: 'rgba(255,255,255,0.08)',
+                color: 'inherit',
+                font: 'inherit',
+                cursor: 'pointer'
+              }}
+            >
+              {kind}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{ marginTop: 8, background: 'transparent', border: 'none', color: '#a8a8a8', font: 'inherit', cursor: 'pointer', padding: 0 }}
+        >
+          Cancel
+        </button>
+      </div>
+    </Panel>
+  )
+);
+
+SysMLRelationshipPicker.displayName = 'SysMLRelationshipPicker';
+
+interface SpecField {
+  key: string;
+  label: string;
+  multiline?: boolean;
+  options?: string[];
+  /** Required string in the spec; every other field is dropped when emptied. */
+  required?: boolean;
+}
+
+interface SpecTable {
+  key: string;
+  label: string;
+  /** Singular noun for the add/remove buttons. */
+  item: string;
+  columns: SpecField[];
+}
+
+const lifecycleStatuses = ['draft', 'reviewed', 'approved', 'deprecated'];
+const directions = ['in', 'out', 'inout'];
+
+/** Kinds whose spec has no `description`. */
+const undescribedKinds: SysMLNodeKind[] = [
+  'activity-control',
+  'perform-action',
+  'send-action',
+  'accept-action',
+  'assignment-action',
+  'if-action',
+  'for-loop-action',
+  'while-loop-action',
+  'state',
+  'state-machine',
+  'state-usage',
+  'transition-usage',
+  'exhibit-state',
+  'pseudo-state',
+  'requirement-usage',
+  'constraint-usage',
+  'verification-case-usage',
+  'analysis-case-usage',
+  'concern-usage',
+  'sequence-lifeline',
+  'metadata-usage',
+  'comment',
+  'documentation'
+];
+
+const requirementFields: SpecField[] = [
+  { key: 'reqId', label: 'Requirement id' },
+  { key: 'text', label: 'Text', multiline: true }
+];
+const expressionField: SpecField = { key: 'expression', label: 'Expression', multiline: true };
+const nameField: SpecField = { key: 'name', label: 'Name', required: true };
+const bodyField: SpecField = { key: 'body', label: 'Body', multiline: true, required: true };
+const statusField: SpecField = { key: 'status', label: 'Status', options: lifecycleStatuses };
+const directionField: SpecField = { key: 'direction', label: 'Direction', options: directions };
+const stateActionFields = (doKey: 'doActivity' | 'doAction'): SpecField[] => [
+  { key: 'entryAction', label: 'Entry action' },
+  { key: doKey, label: 'Do action' },
+  { key: 'exitAction', label: 'Exit action' }
+];
+
+/** Kind-specific fields, after the name and description. */
+const kindFields: Partial<Record<SysMLNodeKind, SpecField[]>> = {
+  'port-definition': [directionField],
+  'port-usage': [directionField],
+  'activity-control': [
+    {
+      key: 'controlType',
+      label: 'Control',
+      options: ['initial', 'final', 'fork', 'join', 'decision', 'merge'],
+      required: true
+    },
+    { key: 'documentation', label: 'Documentation', multiline: true }
+  ],
+  'calculation-definition': [expressionField],
+  state: [...stateActionFields('doActivity'), statusField],
+  'state-usage': stateActionFields('doAction'),
+  'pseudo-state': [
+    {
+      key: 'pseudoType',
+      label: 'Pseudostate',
+      options: ['initial', 'final', 'choice', 'junction', 'fork', 'join', 'shallow-history', 'deep-history'],
+      required: true
+    },
+    { key: 'documentation', label: 'Documentation', multiline: true }
+  ],
+  'requirement-definition': requirementFields,
+  'requirement-usage': [...requirementFields, statusField],
+  'constraint-definition': [expressionField],
+  'constraint-usage': [expressionField],
+  'verification-case-usage': [statusField],
+  'analysis-case-usage': [{ key: 'status', label: 'Status', options: ['draft', 'in-progress', 'completed'] }],
+  'use-case-usage': [statusField],
+  'concern-definition': [{ key: 'text', label: 'Text', multiline: true }],
+  'concern-usage': [{ key: 'text', label: 'Text', multiline: true }],
+  'sequence-fragment': [{ key: 'operator', label: 'Operator', options: ['alt', 'opt', 'loop', 'par'], required: true }],
+  comment: [bodyField],
+  documentation: [bodyField]
+};
+
+const propertyColumns: SpecField[] = [
+  nameField,
+  { key: 'type', label: 'Type' },
+  { key: 'multiplicity', label: 'Multiplicity' },
+  { key: 'value', label: 'Value' }
+];
+const attributesTable: SpecTable = { key: 'attributes', label: 'Attributes', item: 'attribute', columns: propertyColumns };
+const portsTable: SpecTable = {
+  key: 'ports',
+  label: 'Ports',
+  item: 'port',
+  columns: [nameField, { key: 'type', label: 'Type' }, directionField]
+};
+const inputsTable: SpecTable = { key: 'inputs', label: 'Inputs', item: 'input', columns: propertyColumns };
+const parameterTables: SpecTable[] = [
+  inputsTable,
+  { key: 'outputs', label: 'Outputs', item: 'output', columns: propertyColumns }
+];
+const tagsTable: SpecTable = {
+  key: 'tags',
+  label: 'Tags',
+  item: 'tag',
+  columns: [
+    { key: 'key', label: 'Key', required: true },
+    { key: 'value', label: 'Value', required: true }
+  ]
+};
+
+/** Kind-specific tables; every kind also gets the tags table. */
+const kindTables: Partial<Record<SysMLNodeKind, SpecTable[]>> = {
+  'part-definition': [attributesTable, portsTable],
+  'part-usage': [attributesTable, portsTable],
+  'connection-definition': [attributesTable],
+  'connection-usage': [attributesTable],
+  'interface-definition': [attributesTable, portsTable],
+  'metadata-definition': [attributesTable],
+  'action-definition': parameterTables,
+  'action-usage': parameterTables,
+  'calculation-definition': parameterTables,
+  'calculation-usage': parameterTables,
+  'constraint-definition': [inputsTable],
+  'constraint-usage': [inputsTable],
+  'analysis-case-definition': [inputsTable],
+  'analysis-case-usage': [inputsTable],
+  'perform-action': parameterTables
+};
+
+type SpecRow = Record<string, string | undefined>;
+
+const withValue = <T extends Record<string, unknown>>(record: T, field: SpecField, value: string): T => {
+  const next: Record<string, unknown> = { ...record, [field.key]: value };
+  if (value === '' && !field.required) {
+    delete next[field.key];
+  }
+  return next as T;
+};
+
+const newRow = (table: SpecTable, index: number): SpecRow =>
+  table.columns.reduce<SpecRow>(
+    (row, column, columnIndex) =>
+      column.required ? { ...row, [column.key]: columnIndex === 0 ? `${table.item}${index}` : '' } : row,
+    {}
+  );
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '3px 6px',
+  background: 'rgba(255,255,255,0.06)',
+  border: '1px solid #525252',
+  borderRadius: 4,
+  color: 'inherit',
+  font: 'inherit'
+};
+
+const linkButtonStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#a8a8a8',
+  font: 'inherit',
+  cursor: 'pointer',
+  padding: 0
+};
+
+interface DraftInputProps {
+  value: string;
+  label: string;
+  multiline?: boolean;
+  onCommit: (value: string) => void;
+}
+
+/** Text input that reports its value on blur or Enter, so each edit is a single change. */
+const DraftInput = ({ value, label, multiline, onCommit }: DraftInputProps) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) {
+      onCommit(draft);
+    }
+  };
+  const props = {
+    'aria-label': label,
+    value: draft,
+    style: inputStyle,
+    onChange: (event: { target: { value: string } }) => setDraft(event.target.value),
+    onBlur: commit,
+    onKeyDown: (event: { key: string; preventDefault: () => void }) => {
+      if (event.key === 'Enter' && !multiline) {
+        commit();
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        setDraft(value);
+      }
+    }
+  };
+
+  return multiline ? <textarea rows={3} {...props} /> : <input type="text" {...props} />;
+};
+
+interface FieldInputProps {
+  field: SpecField;
+  value: string | undefined;
+  label: string;
+  onCommit: (value: string) => void;
+}
+
+const FieldInput = ({ field, value, label, onCommit }: FieldInputProps) =>
+  field.options ? (
+    <select aria-label={label} value={value ?? ''} onChange={(event) => onCommit(event.target.value)} style={inputStyle}>
+      <option value="">—</option>
+      {field.options.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  ) : (
+    <DraftInput value={value ?? ''} label={label} multiline={field.multiline} onCommit={onCommit} />
+  );
+
+export interface SysMLPropertyEditorProps {
+  node: SysMLNodeSpec;
+  /** Position of the regenerated node passed to `onChange`. */
+  position?: XYPosition;
+  /**
+   * Called with the edited spec and the node regenerated from it by
+   * `createNodesFromSpecs`, so compartments match the spec.
+   */
+  onChange: (node: SysMLNodeSpec, reactFlowNode: SysMLReactFlowNode) => void;
+  onClose?: () => void;
+}
+
+/**
+ * Form over a node spec: name, description and the fields of its kind, plus
+ * editable tables for attributes, ports, parameters and tags. Text fields
+ * report changes on blur or Enter; the editor is controlled by `node`.
+ */
+export const SysMLPropertyEditor = memo(({ node, position, onChange, onClose }: SysMLPropertyEditorProps) => {
+  const spec: SysMLNodeSpec['spec'] & Record<string, unknown> = { ...node.spec };
+  const fields: SpecField[] = [
+    ...('name' in node.spec ? [nameField] : []),
+    ...(undescribedKinds.includes(node.kind) ? [] : [{ key: 'description', label: 'Description', multiline: true }]),
+    ...(kindFields[node.kind] ?? [])
+  ];
+  const tables = [...(kindTables[node.kind] ?? []), tagsTable];
+
+  const update = (next: typeof spec) => {
+    // Only the fields and tables of node.kind are edited, so the spec still matches the kind
+    const updated = { ...node, spec: next } as SysMLNodeSpec;
+    onChange(updated, createNodesFromSpecs([updated], position ? { [node.spec.id]: position } : {})[0]);
+  };
+  const rowsOf = (table: SpecTable) => (spec[table.key] as SpecRow[] | undefined) ?? [];
+  const updateRows = (table: SpecTable, rows: SpecRow[]) => {
+    const next = { ...spec, [table.key]: rows };
+    if (rows.length === 0) {
+      delete next[table.key];
+    }
+    update(next);
+  };
+
+  return (
+    <div
+      className="sysml-property-editor"
+      aria-label="Properties"
+      role="form"
+      style={{ ...panelStyle, width: 300, maxHeight: 520, overflowY: 'auto', padding: 8 }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 8 }}>
+        <div>
+          <div style={{ fontWeight: 600 }}>{formatNodeKind(node.kind)}</div>
+          <div style={{ color: '#a8a8a8' }}>{node.spec.id}</div>
+        </div>
+        {onClose && (
+          <button type="button" aria-label="Close properties" onClick={onClose} style={linkButtonStyle}>
+            ×
+          </button>
+        )}
+      </div>
+      {fields.map((field) => (
+        <label key={field.key} style={{ display: 'block', marginBottom: 6 }}>
+          <span style={{ display: 'block', color: '#c6c6c6', marginBottom: 2 }}>{field.label}</span>
+          <FieldInput
+            field={field}
+            value={spec[field.key] as string | undefined}
+            label={field.label}
+            onCommit={(value) => update(withValue(spec, field, value))}
+          />
+        </label>
+      ))}
+      {tables.map((table) => {
+        const rows = rowsOf(table);
+        return (
+          <fieldset key={table.key} className={`sysml-property-editor__${table.key}`} style={{ border: 'none', padding: 0, margin: '8px 0 0' }}>
+            <legend style={{ fontWeight: 600, padding: 0, marginBottom: 4 }}>{table.label}</legend>
+            {rows.length > 0 && (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    {table.columns.map((column) => (
+                      <th key={column.key} style={{ textAlign: 'left', fontWeight: 400, color: '#a8a8a8' }}>
+                        {column.label}
+                      </th>
+                    ))}
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={index}>
+                      {table.columns.map((column) => (
+                        <td key={column.key}>
+                          <FieldInput
+                            field={column}
+                            value={row[column.key]}
+                            label={`${table.item} ${index + 1} ${column.label.toLowerCase()}`}
+                            onCommit={(value) =>
+                              updateRows(
+                                table,
+                                rows.map((current, rowIndex) => (rowIndex === index ? withValue(current, column, value) : current))
+                              )
+                            }
+                          />
+                        </td>
+                      ))}
+                      <td>
+                        <button
+                          type="button"
+                          aria-label={`Remove ${table.item} ${index + 1}`}
+                          onClick={() => updateRows(table, rows.filter((_, rowIndex) => rowIndex !== index))}
+                          style={linkButtonStyle}
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <button
+              type="button"
+              onClick={() => updateRows(table, [...rows, newRow(table, rows.length + 1)])}
+              style={linkButtonStyle}
+            >
+              + Add {table.item}
+            </button>
+          </fieldset>
+        );
+      })}
+    </div>
+  );
+});
+
+SysMLPropertyEditor.displayName = 'SysMLPropertyEditor';
+
+/**
+ * Keep a model and its node positions in state, updated from the deltas a
+ * `SysMLDiagram` in editing mode emits, with undo/redo over the edits.
+ *
+ * @example
+ * ```tsx
+ * const { model, positions, applyDelta, undo, redo } = useSysMLModelEditor(initialModel);
+ *
+ * <SysMLDiagram
+ *   editable
+ *   model={model}
+ *   viewpoint={viewpoint}
+ *   viewOptions={{ positions }}
+ *   onModelChange={applyDelta}
+ *   onUndo={undo}
+ *   onRedo={redo}
+ * />
+ * ```
+ */
+export const useSysMLModelEditor = (
+  initialModel: SysMLModel,
+  initialPositions: Record<string, XYPosition> = {},
+  options: SysMLModelHistoryOptions = {}
+) => {
+  const [history, setHistory] = useState(() => createModelHistory(initialModel, initialPositions, options));
+
+  const applyDelta = useCallback(
+    (delta: SysMLModelDelta | SysMLModelDelta[], label?: string) =>
+      setHistory((current) => applyHistoryDelta(current, delta, label)),
+    []
+  );
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+
+  return {
+    model: history.present.model,
+    positions: history.present.positions,
+    history,
+    applyDelta,
+    undo,
+    redo,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history)
+  };
+};
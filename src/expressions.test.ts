@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkExpression,
+  evaluateExpression,
+  getExpressionReferences,
+  parseExpression,
+  SysMLExpressionError
+} from './expressions';
+
+describe('Expressions', () => {
+  it('should evaluate arithmetic with precedence and parentheses', () => {
+    expect(evaluateExpression('1 + 2 * 3')).toBe(7);
+    expect(evaluateExpression('(1 + 2) * 3 - -1')).toBe(10);
+    expect(evaluateExpression('7 % 4 / 2')).toBe(1.5);
+    expect(evaluateExpression("'cruise' + 'Mode'")).toBe('cruiseMode');
+  });
+
+  it('should evaluate comparisons and boolean logic against variables', () => {
+    const variables = { speed: 80, mode: 'eco', battery: { level: 15 }, fault: false };
+
+    expect(evaluateExpression('speed >= 80 and mode == "eco"', variables)).toBe(true);
+    expect(evaluateExpression('battery.level < 20 && !fault', variables)).toBe(true);
+    expect(evaluateExpression('not fault xor speed > 100', variables)).toBe(true);
+    expect(evaluateExpression('fault or speed != 80', variables)).toBe(false);
+  });
+
+  it('should short-circuit and/or', () => {
+    expect(evaluateExpression('false and missing > 1')).toBe(false);
+    expect(evaluateExpression('true or missing')).toBe(true);
+  });
+
+  it('should reject unknown variables, wrong operand types and syntax errors', () => {
+    expect(() => evaluateExpression('missing > 1')).toThrow("Unknown variable 'missing'");
+    expect(() => evaluateExpression("speed + 'x'", { speed: 1 })).toThrow(SysMLExpressionError);
+    expect(() => evaluateExpression('1 and true')).toThrow("'and' needs booleans");
+    expect(() => evaluateExpression('(1 + 2')).toThrow("Unexpected end of '(1 + 2'");
+    expect(() => evaluateExpression('1 # 2')).toThrow("Unexpected '#'");
+  });
+
+  it('should resolve qualified references through a resolver', () => {
+    const values: Record<string, number> = { 'Vehicles::car.mass': 1500, g: 9.81 };
+    const expression = parseExpression('Vehicles::car.mass * g');
+
+    expect(getExpressionReferences(expression)).toEqual(['Vehicles::car.mass', 'g']);
+    expect(evaluateExpression(expression, (name) => values[name])).toBeCloseTo(14715);
+  });
+
+  it('should type check both branches without evaluating them', () => {
+    const types = { mass: 1500, name: 'car', ready: true };
+
+    expect(checkExpression('mass * 2 > 1000 and ready', types)).toBe('boolean');
+    expect(checkExpression("name + 'X'", types)).toBe('string');
+    expect(checkExpression('-mass', () => 'number')).toBe('number');
+    expect(() => checkExpression('true or mass', types)).toThrow("'or' cannot combine a boolean and a number");
+    expect(() => checkExpression('mass == name', types)).toThrow("'==' cannot combine a number and a string");
+    expect(() => checkExpression('not mass', types)).toThrow("'not' needs a boolean, got a number");
+    expect(() => checkExpression('missing + 1', types)).toThrow("Unknown variable 'missing'");
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Parsing, type checking and evaluation of the small expression language used
+ * in guards, actions, constraints and attribute values: numbers, strings,
+ * booleans, references (`speed`, `battery.level`, `Vehicles::car.mass`),
+ * arithmetic, comparisons and boolean logic (`and`/`&&`, `or`/`||`,
+ * `not`/`!`, `xor`).
+ */
+
+export type SysMLValue = number | string | boolean;
+
+export type SysMLValueType = 'number' | 'string' | 'boolean';
+
+/** Variables by name; dotted references also walk nested objects. */
+export type SysMLVariables = Record<string, unknown>;
+
+/** Value of a reference, or `undefined` when the name is unknown. */
+export type SysMLVariableResolver = (name: string) => unknown;
+
+/** Parsed expression, see {@link parseExpression}. */
+export type SysMLExpression =
+  | { type: 'literal'; value: SysMLValue }
+  | { type: 'reference'; name: string }
+  | { type: 'unary'; operator: string; operand: SysMLExpression }
+  | { type: 'binary'; operator: string; left: SysMLExpression; right: SysMLExpression };
+
+export class SysMLExpressionError extends Error {}
+
+type TokenType = 'number' | 'string' | 'name' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: SysMLValue;
+}
+
+const operators = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')'];
+const keywordOperators = new Set(['and', 'or', 'xor', 'not']);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      index += space[0].length;
+      continue;
+    }
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: Number(number[0]) });
+      index += number[0].length;
+      continue;
+    }
+    const quote = rest[0];
+    if (quote === "'" || quote === '"') {
+      const end = rest.indexOf(quote, 1);
+      if (end < 0) {
+        throw new SysMLExpressionError(`Unterminated string in '${source}'`);
+      }
+      tokens.push({ type: 'string', text: rest.slice(0, end + 1), value: rest.slice(1, end) });
+      index += end + 1;
+      continue;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*(?:(?:\.|::)[A-Za-z_][A-Za-z0-9_]*)*/.exec(rest);
+    if (name) {
+      tokens.push({ type: keywordOperators.has(name[0]) ? 'operator' : 'name', text: name[0] });
+      index += name[0].length;
+      continue;
+    }
+    const operator = operators.find((candidate) => rest.startsWith(candidate));
+    if (!operator) {
+      throw new SysMLExpressionError(`Unexpected '${rest[0]}' in '${source}'`);
+    }
+    tokens.push({ type: 'operator', text: operator });
+    index += operator.length;
+  }
+  tokens.push({ type: 'eof', text: '' });
+  return tokens;
+};
+
+const lookup = (name: string, variables: SysMLVariables): unknown => {
+  if (name in variables) {
+    return variables[name];
+  }
+  return name
+    .split(/\.|::/)
+    .reduce<unknown>(
+      (scope, part) => (scope !== null && typeof scope === 'object' ? (scope as Record<string, unknown>)[part] : undefined),
+      variables
+    );
+};
+
+const formatValue = (value: SysMLValue) => (typeof value === 'string' ? `'${value}'` : String(value));
+
+const expectNumbers = (operator: string, left: SysMLValue, right: SysMLValue): [number, number] => {
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new SysMLExpressionError(`'${operator}' needs numbers, got ${formatValue(left)} and ${formatValue(right)}`);
+  }
+  return [left, right];
+};
+
+const expectBoolean = (operator: string, value: SysMLValue): boolean => {
+  if (typeof value !== 'boolean') {
+    throw new SysMLExpressionError(`'${operator}' needs booleans, got ${formatValue(value)}`);
+  }
+  return value;
+};
+
+// Binding power of each binary operator; higher binds tighter
+const precedence: Record<string, number> = {
+  or: 1,
+  '||': 1,
+  xor: 2,
+  and: 3,
+  '&&': 3,
+  '==': 4,
+  '!=': 4,
+  '<': 5,
+  '<=': 5,
+  '>': 5,
+  '>=': 5,
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  '%': 7
+};
+
+const applyBinary = (operator: string, left: SysMLValue, right: () => SysMLValue): SysMLValue => {
+  switch (operator) {
+    case 'or':
+    case '||':
+      return expectBoolean(operator, left) || expectBoolean(operator, right());
+    case 'and':
+    case '&&':
+      return expectBoolean(operator, left) && expectBoolean(operator, right());
+    case 'xor':
+      return expectBoolean(operator, left) !== expectBoolean(operator, right());
+    case '==':
+      return left === right();
+    case '!=':
+      return left !== right();
+    case '+': {
+      const value = right();
+      if (typeof left === 'string' && typeof value === 'string') {
+        return left + value;
+      }
+      const [a, b] = expectNumbers(operator, left, value);
+      return a + b;
+    }
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const value = right();
+      const comparable =
+        (typeof left === 'number' && typeof value === 'number') || (typeof left === 'string' && typeof value === 'string');
+      if (!comparable) {
+        throw new SysMLExpressionError(`'${operator}' cannot compare ${formatValue(left)} and ${formatValue(value)}`);
+      }
+      return operator === '<' ? left < value : operator === '<=' ? left <= value : operator === '>' ? left > value : left >= value;
+    }
+    default: {
+      const [a, b] = expectNumbers(operator, left, right());
+      return operator === '-' ? a - b : operator === '*' ? a * b : operator === '/' ? a / b : a % b;
+    }
+  }
+};
+
+/**
+ * Parse an expression once to check or evaluate it repeatedly. Throws a
+ * {@link SysMLExpressionError} for syntax errors.
+ */
+export const parseExpression = (source: string): SysMLExpression => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const unexpected = (token: Token) =>
+    new SysMLExpressionError(
+      token.type === 'eof' ? `Unexpected end of '${source}'` : `Unexpected '${token.text}' in '${source}'`
+    );
+
+  const parseBinary = (minimum: number): SysMLExpression => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const power = token.type === 'operator' ? precedence[token.text] : undefined;
+      if (power === undefined || power < minimum) {
+        return left;
+      }
+      next();
+      left = { type: 'binary', operator: token.text, left, right: parseBinary(power + 1) };
+    }
+  };
+
+  const parseUnary = (): SysMLExpression => {
+    const token = peek();
+    if (token.type === 'operator' && ['not', '!', '-'].includes(token.text)) {
+      next();
+      return { type: 'unary', operator: token.text, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): SysMLExpression => {
+    const token = next();
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value as SysMLValue };
+    }
+    if (token.type === 'name') {
+      return token.text === 'true' || token.text === 'false'
+        ? { type: 'literal', value: token.text === 'true' }
+        : { type: 'reference', name: token.text };
+    }
+    if (token.type === 'operator' && token.text === '(') {
+      const expression = parseBinary(1);
+      const close = next();
+      if (close.text !== ')') {
+        throw unexpected(close);
+      }
+      return expression;
+    }
+    throw unexpected(token);
+  };
+
+  const expression = parseBinary(1);
+  if (peek().type !== 'eof') {
+    throw unexpected(peek());
+  }
+  return expression;
+};
+
+const toResolver = (variables: SysMLVariables | SysMLVariableResolver): SysMLVariableResolver =>
+  typeof variables === 'function' ? variables : (name) => lookup(name, variables);
+
+const evaluate = (expression: SysMLExpression, resolve: SysMLVariableResolver): SysMLValue => {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'reference': {
+      const value = resolve(expression.name);
+      if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'boolean') {
+        throw new SysMLExpressionError(`Unknown variable '${expression.name}'`);
+      }
+      return value;
+    }
+    case 'unary': {
+      const operand = evaluate(expression.operand, resolve);
+      return expression.operator === '-' ? -expectNumbers('-', 0, operand)[1] : !expectBoolean(expression.operator, operand);
+    }
+    case 'binary':
+      // The right operand is evaluated lazily so that `and`/`or` short-circuit
+      return applyBinary(expression.operator, evaluate(expression.left, resolve), () =>
+        evaluate(expression.right, resolve)
+      );
+  }
+};
+
+/**
+ * Evaluate an expression against the given variables, or a resolver that
+ * looks up each reference. Throws a {@link SysMLExpressionError} for syntax
+ * errors, unknown variables and operands of the wrong type.
+ *
+ * @example
+ * ```typescript
+ * evaluateExpression('battery.level > 20 and not fault', { battery: { level: 80 }, fault: false }); // true
+ * ```
+ */
+export const evaluateExpression = (
+  expression: string | SysMLExpression,
+  variables: SysMLVariables | SysMLVariableResolver = {}
+): SysMLValue =>
+  evaluate(typeof expression === 'string' ? parseExpression(expression) : expression, toResolver(variables));
+
+/** Names referenced by an expression, in order of first use. */
+export const getExpressionReferences = (expression: string | SysMLExpression): string[] => {
+  const references = new Set<string>();
+  const visit = (current: SysMLExpression) => {
+    if (current.type === 'reference') {
+      references.add(current.name);
+    } else if (current.type === 'unary') {
+      visit(current.operand);
+    } else if (current.type === 'binary') {
+      visit(current.left);
+      visit(current.right);
+    }
+  };
+  visit(typeof expression === 'string' ? parseExpression(expression) : expression);
+  return [...references];
+};
+
+const typeOfValue = (value: unknown): SysMLValueType | undefined =>
+  typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean'
+    ? (typeof value as SysMLValueType)
+    : undefined;
+
+const checkTypes = (
+  expression: SysMLExpression,
+  resolveType: (name: string) => SysMLValueType | undefined
+): SysMLValueType => {
+  switch (expression.type) {
+    case 'literal':
+      return typeOfValue(expression.value) as SysMLValueType;
+    case 'reference': {
+      const type = resolveType(expression.name);
+      if (!type) {
+        throw new SysMLExpressionError(`Unknown variable '${expression.name}'`);
+      }
+      return type;
+    }
+    case 'unary': {
+      const operand = checkTypes(expression.operand, resolveType);
+      const expected = expression.operator === '-' ? 'number' : 'boolean';
+      if (operand !== expected) {
+        throw new SysMLExpressionError(`'${expression.operator}' needs a ${expected}, got a ${operand}`);
+      }
+      return operand;
+    }
+    case 'binary': {
+      const { operator } = expression;
+      const left = checkTypes(expression.left, resolveType);
+      const right = checkTypes(expression.right, resolveType);
+      const allowed: SysMLValueType[] = ['or', '||', 'xor', 'and', '&&'].includes(operator)
+        ? ['boolean']
+        : ['==', '!='].includes(operator)
+          ? ['number', 'string', 'boolean']
+          : ['+', '<', '<=', '>', '>='].includes(operator)
+            ? ['number', 'string']
+            : ['number'];
+      if (left !== right || !allowed.includes(left)) {
+        throw new SysMLExpressionError(`'${operator}' cannot combine a ${left} and a ${right}`);
+      }
+      return ['+', '-', '*', '/', '%'].includes(operator) ? left : 'boolean';
+    }
+  }
+};
+
+/**
+ * Type check an expression without evaluating it, and return the type of its
+ * result. Unlike evaluation, both operands of `and`/`or` are always checked.
+ * `types` gives the type of each reference, either as the current values of
+ * the variables or as a resolver returning `number`, `string` or `boolean`.
+ * Throws a {@link SysMLExpressionError} for unknown references and operands
+ * of the wrong type.
+ *
+ * @example
+ * ```typescript
+ * checkExpression('mass * 9.81 > limit', (name) => 'number'); // 'boolean'
+ * ```
+ */
+export const checkExpression = (
+  expression: string | SysMLExpression,
+  types: SysMLVariables | ((name: string) => SysMLValueType | undefined) = {}
+): SysMLValueType =>
+  checkTypes(
+    typeof expression === 'string' ? parseExpression(expression) : expression,
+    typeof types === 'function' ? types : (name) => typeOfValue(lookup(name, types))
+  );
@@ -13,7 +13,11 @@ import {
   createStateNode,
   createStateMachineNode,
   createActivityControlNode,
+  createPseudoStateNode,
+  createStateUsageNode,
+  createSequenceFragmentNode,
   createSequenceLifelineNode,
+  createSequenceMessageEdge,
   createNodesFromSpecs,
   createEdgesFromRelationships
 } from './factories';
@@ -211,6 +215,14 @@ describe('Factory Functions', () => {
       expect(node.id).toBe('sm-1');
       expect(node.type).toBe('sysml.state-machine');
     });
+
+    it('should create pseudostate nodes and mark parallel states', () => {
+      const node = createPseudoStateNode({ id: 'h', name: 'resume', pseudoType: 'deep-history' });
+
+      expect(node.type).toBe('sysml.pseudo-state');
+      expect(node.data).toMatchObject({ kind: 'pseudo-state', pseudoType: 'deep-history', stereotype: 'deep-history' });
+      expect(createStateUsageNode({ id: 'on', name: 'On', isParallel: true }).data.isParallel).toBe(true);
+    });
   });
 
   describe('Activity Control', () => {
@@ -246,6 +258,31 @@ describe('Factory Functions', () => {
       expect(node.id).toBe('lifeline-1');
       expect(node.type).toBe('sysml.sequence-lifeline');
     });
+
+    it('should keep the message type and order out of the trigger', () => {
+      const edge = createSequenceMessageEdge({
+        id: 'm1',
+        type: 'async',
+        source: 'a',
+        target: 'b',
+        label: 'notify()',
+        order: 2
+      });
+
+      expect(edge.data).toEqual({ kind: 'message', label: 'notify()', guard: undefined, messageType: 'async', order: 2 });
+    });
+
+    it('should create a combined fragment node', () => {
+      const node = createSequenceFragmentNode({
+        id: 'check',
+        name: 'check',
+        operator: 'opt',
+        operands: [{ guard: 'ok', messages: ['m1'] }]
+      });
+
+      expect(node.type).toBe('sysml.sequence-fragment');
+      expect(node.data.fragment).toEqual({ operator: 'opt', operands: [{ guard: 'ok', messages: ['m1'] }] });
+    });
   });
 
   describe('Batch Creation', () => {
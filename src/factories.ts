@@ -20,12 +20,15 @@ import type {
   SysMLReactFlowEdge,
   SysMLReactFlowNode,
   SysMLRelationshipSpec,
+  SysMLSequenceFragmentSpec,
   SysMLSequenceLifelineSpec,
   SysMLSequenceMessageSpec,
   SysMLStateMachineSpec,
   SysMLStateSpec,
-  SysMLStateTransitionSpec
+  SysMLStateTransitionSpec,
+  SysMLTag
 } from './types';
+import { getBoundaryPorts } from './ports';
 
 const defaultPosition: XYPosition = { x: 0, y: 0 };
 
@@ -35,13 +38,14 @@ const normalizePosition = (position?: Partial<XYPosition>): XYPosition => ({
 });
 
 const withBaseData = (
-  spec: { id: string; name: string; stereotype?: string; description?: string },
+  spec: { id: string; name: string; stereotype?: string; description?: string; tags?: SysMLTag[] },
   kind: SysMLNodeKind
 ): SysMLNodeData => ({
   id: spec.id,
   name: spec.name,
   stereotype: spec.stereotype,
   documentation: spec.description,
+  tags: spec.tags,
   kind
 });
 
@@ -83,6 +87,8 @@ const portsToCompartment = (ports?: SysMLPortSpec[]): SysMLCompartment | undefin
   );
 };
 
+const portsOf = (ports?: SysMLPortSpec[]) => (ports && ports.length > 0 ? getBoundaryPorts(ports) : undefined);
+
 const stringsToCompartment = (title: string, values?: string[]): SysMLCompartment | undefined => {
   if (!values || values.length === 0) {
     return undefined;
@@ -106,6 +112,7 @@ export const createPartDefinitionNode = (
   data: {
     ...withBaseData(spec, 'part-definition'),
     elementKind: 'definition',
+    ports: portsOf(spec.ports),
     compartments: [
       propertiesToItems('attributes', spec.attributes),
       portsToCompartment(spec.ports),
@@ -128,6 +135,7 @@ export const createPartUsageNode = (
     baseDefinition: spec.definition,
     redefines: spec.redefines,
     subsets: spec.subsets,
+    ports: portsOf(spec.ports),
     compartments: [propertiesToItems('attributes', spec.attributes), portsToCompartment(spec.ports)].filter(
       Boolean
     ) as SysMLNodeData['compartments']
@@ -253,7 +261,8 @@ export const createActivityControlNode = (
         id: spec.id,
         name: spec.name,
         stereotype: spec.controlType,
-        description: spec.documentation
+        description: spec.documentation,
+        tags: spec.tags
       },
       'activity-control'
     ),
@@ -274,7 +283,8 @@ export const createStateNode = (
         id: spec.id,
         name: spec.name,
         stereotype: 'state',
-        description: undefined
+        description: undefined,
+        tags: spec.tags
       },
       'state'
     ),
@@ -309,7 +319,8 @@ export const createStateMachineNode = (
         id: spec.id,
         name: spec.name,
         stereotype: spec.stereotype ?? 'stateMachine',
-        description: undefined
+        description: undefined,
+        tags: spec.tags
       },
       'state-machine'
     ),
@@ -335,7 +346,8 @@ export const createSequenceLifelineNode = (
         id: spec.id,
         name: spec.name,
         stereotype: spec.stereotype ?? 'lifeline',
-        description: spec.classifier
+        description: spec.classifier,
+        tags: spec.tags
       },
       'sequence-lifeline'
     )
@@ -368,7 +380,30 @@ export const createSequenceMessageEdge = (
     kind: 'message',
     label: message.label,
     guard: message.guard,
-    trigger: message.type
+    messageType: message.type,
+    order: message.order
+  }
+});
+
+/**
+ * Combined fragment around messages of a sequence diagram. The sequence layout
+ * sizes it to frame its messages; the frame lets pointer events through to the
+ * messages except on its operator tab.
+ */
+export const createSequenceFragmentNode = (
+  spec: SysMLSequenceFragmentSpec,
+  position?: Partial<XYPosition>
+): SysMLReactFlowNode => ({
+  id: spec.id,
+  type: 'sysml.sequence-fragment',
+  position: normalizePosition(position),
+  style: { pointerEvents: 'none' },
+  data: {
+    ...withBaseData(spec, 'sequence-fragment'),
+    fragment: {
+      operator: spec.operator,
+      operands: spec.operands ?? []
+    }
   }
 });
 
@@ -414,6 +449,7 @@ import type {
   SysMLStateUsageSpec,
   SysMLTransitionUsageSpec,
   SysMLExhibitStateSpec,
+  SysMLPseudoStateSpec,
   SysMLRequirementDefinitionSpec,
   SysMLRequirementUsageSpec,
   SysMLConstraintDefinitionSpec,
@@ -521,6 +557,7 @@ export const createInterfaceDefinitionNode = (
   data: {
     ...withBaseData(spec, 'interface-definition'),
     elementKind: 'definition',
+    ports: portsOf(spec.ports),
     compartments: [
       portsToCompartment(spec.ports),
       propertiesToItems('attributes', spec.attributes)
@@ -801,6 +838,7 @@ export const createStateDefinitionNode = (
   data: {
     ...withBaseData(spec, 'state-definition'),
     elementKind: 'definition',
+    isParallel: spec.isParallel,
     compartments: [
       stringsToCompartment('substates', spec.substates)
     ].filter(Boolean) as SysMLCompartment[]
@@ -818,6 +856,7 @@ export const createStateUsageNode = (
     ...withBaseData(spec, 'state-usage'),
     elementKind: 'usage',
     baseDefinition: spec.definition,
+    isParallel: spec.isParallel,
     compartments: [
       spec.entryAction ? buildCompartment('entry', [{ label: spec.entryAction }]) : undefined,
       spec.doAction ? buildCompartment('do', [{ label: spec.doAction }]) : undefined,
@@ -860,6 +899,28 @@ export const createExhibitStateNode = (
   }
 });
 
+export const createPseudoStateNode = (
+  spec: SysMLPseudoStateSpec,
+  position?: Partial<XYPosition>
+): SysMLReactFlowNode => ({
+  id: spec.id,
+  type: 'sysml.pseudo-state',
+  position: normalizePosition(position),
+  data: {
+    ...withBaseData(
+      {
+        id: spec.id,
+        name: spec.name,
+        stereotype: spec.pseudoType,
+        description: spec.documentation,
+        tags: spec.tags
+      },
+      'pseudo-state'
+    ),
+    pseudoType: spec.pseudoType
+  }
+});
+
 // Requirement Definition and Usage
 export const createRequirementDefinitionNode = (
   spec: SysMLRequirementDefinitionSpec,
@@ -915,7 +976,7 @@ export const createConstraintDefinitionNode = (
     ...withBaseData(spec, 'constraint-definition'),
     elementKind: 'definition',
     emphasis: spec.expression,
-    compartments: []
+    compartments: [propertiesToItems('inputs', spec.inputs)].filter(Boolean) as SysMLCompartment[]
   }
 });
 
@@ -931,7 +992,7 @@ export const createConstraintUsageNode = (
     elementKind: 'usage',
     baseDefinition: spec.definition,
     emphasis: spec.expression,
-    compartments: []
+    compartments: [propertiesToItems('inputs', spec.inputs)].filter(Boolean) as SysMLCompartment[]
   }
 });
 
@@ -984,6 +1045,7 @@ export const createAnalysisCaseDefinitionNode = (
     ...withBaseData(spec, 'analysis-case-definition'),
     elementKind: 'definition',
     compartments: [
+      propertiesToItems('inputs', spec.inputs),
       spec.analysisAction ? buildCompartment('action', [{ label: spec.analysisAction }]) : undefined,
       spec.resultExpression ? buildCompartment('result', [{ label: spec.resultExpression }]) : undefined
     ].filter(Boolean) as SysMLCompartment[]
@@ -1002,6 +1064,7 @@ export const createAnalysisCaseUsageNode = (
     elementKind: 'usage',
     baseDefinition: spec.definition,
     compartments: [
+      propertiesToItems('inputs', spec.inputs),
       spec.analysisAction ? buildCompartment('action', [{ label: spec.analysisAction }]) : undefined,
       spec.resultExpression ? buildCompartment('result', [{ label: spec.resultExpression }]) : undefined
     ].filter(Boolean) as SysMLCompartment[]
@@ -1020,6 +1083,7 @@ export const createUseCaseDefinitionNode = (
     ...withBaseData(spec, 'use-case-definition'),
     elementKind: 'definition',
     compartments: [
+      stringsToCompartment('actors', spec.actors),
       stringsToCompartment('includes', spec.includedUseCases),
       spec.objectiveRequirement ? buildCompartment('objective', [{ label: spec.objectiveRequirement }]) : undefined
     ].filter(Boolean) as SysMLCompartment[]
@@ -1177,6 +1241,7 @@ export const createCommentNode = (
     name: 'Comment',
     kind: 'comment',
     documentation: spec.body,
+    tags: spec.tags,
     compartments: [
       spec.annotatedElement ? buildCompartment('annotates', [{ label: spec.annotatedElement }]) : undefined
     ].filter(Boolean) as SysMLCompartment[]
@@ -1195,6 +1260,7 @@ export const createDocumentationNode = (
     name: 'Documentation',
     kind: 'documentation',
     documentation: spec.body,
+    tags: spec.tags,
     compartments: [
       spec.documentedElement ? buildCompartment('documents', [{ label: spec.documentedElement }]) : undefined
     ].filter(Boolean) as SysMLCompartment[]
@@ -1282,6 +1348,8 @@ export const createNodesFromSpecs = (
         return createTransitionUsageNode(descriptor.spec, position);
       case 'exhibit-state':
         return createExhibitStateNode(descriptor.spec, position);
+      case 'pseudo-state':
+        return createPseudoStateNode(descriptor.spec, position);
       // Requirements & Cases
       case 'requirement-definition':
         return createRequirementDefinitionNode(descriptor.spec, position);
@@ -1315,6 +1383,8 @@ export const createNodesFromSpecs = (
       // Interactions
       case 'sequence-lifeline':
         return createSequenceLifelineNode(descriptor.spec, position);
+      case 'sequence-fragment':
+        return createSequenceFragmentNode(descriptor.spec, position);
       case 'interaction':
         return createInteractionNode(descriptor.spec, position);
       // Metadata
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyEditorDelta,
+  applyHistoryDelta,
+  canRedo,
+  canUndo,
+  createModelHistory,
+  redoHistory,
+  undoHistory
+} from './history';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'part-definition', spec: { id: 'vehicle', name: 'Vehicle' } },
+    { kind: 'part-definition', spec: { id: 'engine', name: 'Engine' } }
+  ],
+  relationships: [{ id: 'vehicle-composition-engine', type: 'composition', source: 'vehicle', target: 'engine' }]
+};
+const positions = { vehicle: { x: 0, y: 0 }, engine: { x: 200, y: 0 } };
+
+describe('Model History', () => {
+  it('should track positions alongside the model', () => {
+    let state = applyEditorDelta(
+      { model, positions },
+      { type: 'add-node', node: { kind: 'port-definition', spec: { id: 'fuel', name: 'Fuel' } }, position: { x: 5, y: 5 } }
+    );
+    state = applyEditorDelta(state, { type: 'move-node', id: 'engine', position: { x: 300, y: 40 } });
+    state = applyEditorDelta(state, { type: 'remove-node', id: 'vehicle' });
+
+    expect(state.model.nodes.map((node) => node.spec.id)).toEqual(['engine', 'fuel']);
+    expect(state.model.relationships).toEqual([]);
+    expect(state.positions).toEqual({ engine: { x: 300, y: 40 }, fuel: { x: 5, y: 5 } });
+  });
+
+  it('should undo and redo a sequence of edits', () => {
+    let history = createModelHistory(model, positions);
+    expect(canUndo(history)).toBe(false);
+
+    history = applyHistoryDelta(history, {
+      type: 'update-node',
+      node: { kind: 'part-definition', spec: { id: 'engine', name: 'Motor' } }
+    });
+    history = applyHistoryDelta(history, { type: 'move-node', id: 'engine', position: { x: 250, y: 10 } });
+    history = applyHistoryDelta(history, { type: 'remove-relationship', id: 'vehicle-composition-engine' });
+
+    history = undoHistory(undoHistory(history));
+    expect(history.present.positions).toEqual(positions);
+    expect(history.present.model.relationships).toEqual(model.relationships);
+    expect(history.present.model.nodes[1].spec).toEqual({ id: 'engine', name: 'Motor' });
+    expect(canRedo(history)).toBe(true);
+
+    history = redoHistory(history);
+    expect(history.present.positions.engine).toEqual({ x: 250, y: 10 });
+    expect(history.present.model.relationships).toEqual(model.relationships);
+
+    history = undoHistory(undoHistory(history));
+    expect(history.present.model).toBe(model);
+    expect(undoHistory(history)).toBe(history);
+  });
+
+  it('should undo a group of edits in one step', () => {
+    let history = createModelHistory(model, positions);
+    history = applyHistoryDelta(
+      history,
+      [
+        { type: 'remove-relationship', id: 'vehicle-composition-engine' },
+        { type: 'remove-node', id: 'engine' }
+      ],
+      'Delete selection'
+    );
+
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].delta).toMatchObject({ type: 'group', label: 'Delete selection' });
+    expect(history.present.model.nodes).toHaveLength(1);
+
+    history = undoHistory(history);
+    expect(history.present).toEqual({ model, positions });
+  });
+
+  it('should clear the redo stack on a new edit and respect the limit', () => {
+    let history = createModelHistory(model, {}, { limit: 2 });
+    for (let x = 1; x <= 3; x += 1) {
+      history = applyHistoryDelta(history, { type: 'move-node', id: 'vehicle', position: { x, y: 0 } });
+    }
+    expect(history.past).toHaveLength(2);
+
+    history = undoHistory(history);
+    history = applyHistoryDelta(history, { type: 'move-node', id: 'engine', position: { x: 9, y: 9 } });
+    expect(canRedo(history)).toBe(false);
+
+    history = undoHistory(undoHistory(history));
+    expect(canUndo(history)).toBe(false);
+    expect(history.present.positions).toEqual({ vehicle: { x: 1, y: 0 } });
+  });
+});
@@ -0,0 +1,112 @@
+import type { XYPosition } from 'reactflow';
+
+import { applyModelDelta, groupModelDeltas, type SysMLModelDelta } from './modelDelta';
+import type { SysMLModel } from './viewpoints';
+
+/** A model together with the diagram positions of its nodes. */
+export interface SysMLEditorState {
+  model: SysMLModel;
+  positions: Record<string, XYPosition>;
+}
+
+export interface SysMLHistoryEntry {
+  delta: SysMLModelDelta;
+  /** State before `delta` was applied, restored on undo. */
+  before: SysMLEditorState;
+}
+
+export interface SysMLModelHistory {
+  present: SysMLEditorState;
+  /** Applied edits, oldest first. */
+  past: SysMLHistoryEntry[];
+  /** Undone edits, most recently undone first. */
+  future: SysMLHistoryEntry[];
+  /** Maximum number of entries kept in `past`. */
+  limit: number;
+}
+
+export interface SysMLModelHistoryOptions {
+  /** Maximum number of undoable edits (default 100). */
+  limit?: number;
+}
+
+/**
+ * Apply a delta to a model and its positions: `add-node` and `move-node` set
+ * the node's position, `remove-node` drops it.
+ */
+export const applyEditorDelta = (state: SysMLEditorState, delta: SysMLModelDelta): SysMLEditorState => {
+  switch (delta.type) {
+    case 'add-node':
+      return {
+        model: applyModelDelta(state.model, delta),
+        positions: { ...state.positions, [delta.node.spec.id]: delta.position }
+      };
+    case 'move-node':
+      return { model: state.model, positions: { ...state.positions, [delta.id]: delta.position } };
+    case 'remove-node': {
+      const { [delta.id]: _removed, ...positions } = state.positions;
+      return { model: applyModelDelta(state.model, delta), positions };
+    }
+    case 'group':
+      return delta.deltas.reduce(applyEditorDelta, state);
+    default:
+      return { model: applyModelDelta(state.model, delta), positions: state.positions };
+  }
+};
+
+export const createModelHistory = (
+  model: SysMLModel,
+  positions: Record<string, XYPosition> = {},
+  options: SysMLModelHistoryOptions = {}
+): SysMLModelHistory => ({ present: { model, positions }, past: [], future: [], limit: options.limit ?? 100 });
+
+/**
+ * Apply one delta, or several as a single undoable edit, and record it.
+ * Clears the redo stack.
+ */
+export const applyHistoryDelta = (
+  history: SysMLModelHistory,
+  delta: SysMLModelDelta | SysMLModelDelta[],
+  label?: string
+): SysMLModelHistory => {
+  const recorded = Array.isArray(delta) ? groupModelDeltas(delta, label) : delta;
+  const past = [...history.past, { delta: recorded, before: history.present }];
+  return {
+    ...history,
+    present: applyEditorDelta(history.present, recorded),
+    past: past.slice(Math.max(0, past.length - history.limit)),
+    future: []
+  };
+};
+
+export const canUndo = (history: SysMLModelHistory) => history.past.length > 0;
+
+export const canRedo = (history: SysMLModelHistory) => history.future.length > 0;
+
+/** Restore the state before the last edit; a no-op when there is nothing to undo. */
+export const undoHistory = (history: SysMLModelHistory): SysMLModelHistory => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return history;
+  }
+  return {
+    ...history,
+    present: entry.before,
+    past: history.past.slice(0, -1),
+    future: [entry, ...history.future]
+  };
+};
+
+/** Re-apply the last undone edit; a no-op when there is nothing to redo. */
+export const redoHistory = (history: SysMLModelHistory): SysMLModelHistory => {
+  const [entry, ...future] = history.future;
+  if (!entry) {
+    return history;
+  }
+  return {
+    ...history,
+    present: applyEditorDelta(history.present, entry.delta),
+    past: [...history.past, { delta: entry.delta, before: history.present }],
+    future
+  };
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { nestNodes } from './containment';
+import { createEdgesFromRelationships, createNodesFromSpecs } from './factories';
+import { exportDiagramToSVG, renderDiagramToSVG } from './imageExport';
+import { layoutAndRouteFromSpecs } from './layout';
+import type { SysMLNodeSpec, SysMLRelationshipSpec } from './types';
+
+const specs: SysMLNodeSpec[] = [
+  {
+    kind: 'part-definition',
+    spec: { id: 'Vehicle', name: 'Vehicle <road>', attributes: [{ name: 'mass', type: 'Real', value: '1500' }] }
+  },
+  { kind: 'part-definition', spec: { id: 'Engine', name: 'Engine' } }
+];
+
+const relationships: SysMLRelationshipSpec[] = [
+  { id: 'r1', type: 'composition', source: 'Vehicle', target: 'Engine', label: 'engine' }
+];
+
+const diagram = () => {
+  const nodes = createNodesFromSpecs(specs).map((node, index) => ({
+    ...node,
+    position: { x: index * 300, y: 0 },
+    width: 220,
+    height: 120
+  }));
+  return { nodes, edges: createEdgesFromRelationships(relationships) };
+};
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+
+describe('Diagram Image Export', () => {
+  it('should draw nodes with their header, name and compartments', () => {
+    const svg = parse(renderDiagramToSVG(diagram(), { padding: 10, scale: 2 }));
+
+    expect(svg.tagName).toBe('svg');
+    expect(svg.getAttribute('viewBox')).toBe('-10 -10 540 140');
+    expect(svg.getAttribute('width')).toBe('1080');
+    const vehicle = svg.querySelector('[data-id="Vehicle"]')!;
+    const texts = Array.from(vehicle.querySelectorAll('text')).map((node) => node.textContent);
+    expect(texts).toEqual(['«PART-DEFINITION»', 'Vehicle <road>', 'attributes', 'mass', 'Real 1500']);
+    expect(vehicle.querySelector('rect')?.getAttribute('stroke')).toBe('#4589FF');
+  });
+
+  it('should draw edges with the markers and labels used on screen', () => {
+    const svg = parse(renderDiagramToSVG(diagram()));
+    const edge = svg.querySelector('[data-id="r1"]')!;
+    const path = edge.querySelector('path')!;
+
+    // Clipped to the borders of the two nodes
+    expect(path.getAttribute('d')).toBe('M 220,60 L 300,60');
+    expect(path.getAttribute('marker-start')).toBe('url(#diamond-filled-525252)');
+    expect(svg.querySelector('marker#diamond-filled-525252')).not.toBeNull();
+    expect(svg.querySelectorAll('marker')).toHaveLength(6);
+    expect(edge.querySelector('text')?.textContent).toBe('engine');
+  });
+
+  it('should apply the theme, background and overlays', () => {
+    const { nodes, edges } = diagram();
+    const light = parse(renderDiagramToSVG({ nodes, edges }, { theme: 'light' }));
+    const transparent = parse(
+      renderDiagramToSVG(
+        {
+          nodes: [{ ...nodes[0], style: { opacity: 0.5 }, data: { ...nodes[0].data, diff: { type: 'added' } } }],
+          edges: []
+        },
+        { background: 'transparent' }
+      )
+    );
+
+    expect(light.querySelector(':scope > rect')?.getAttribute('fill')).toBe('#ffffff');
+    expect(light.querySelector('[data-id="Engine"] rect')?.getAttribute('fill')).toBe('#f4f4f4');
+    expect(transparent.querySelector(':scope > rect')).toBeNull();
+    const vehicle = transparent.querySelector('[data-id="Vehicle"]')!;
+    expect(vehicle.getAttribute('opacity')).toBe('0.5');
+    expect(vehicle.querySelector('rect')?.getAttribute('stroke')).toBe('#24a148');
+  });
+
+  it('should place nested nodes inside their container and leave out hidden ones', () => {
+    const { nodes } = diagram();
+    const nested = nestNodes(
+      [{ ...nodes[0], position: { x: 100, y: 50 } }, nodes[1], { ...nodes[1], id: 'Hidden', hidden: true }],
+      { Engine: 'Vehicle' },
+      { positions: { Engine: { x: 20, y: 60 } } }
+    );
+    const svg = parse(renderDiagramToSVG({ nodes: nested, edges: [] }));
+
+    expect(nested.find((node) => node.id === 'Engine')?.parentId).toBe('Vehicle');
+    expect(svg.querySelector('[data-id="Engine"] rect')?.getAttribute('x')).toBe('120');
+    expect(svg.querySelector('[data-id="Engine"] rect')?.getAttribute('y')).toBe('110');
+    expect(svg.querySelector('[data-id="Hidden"]')).toBeNull();
+    // Containers are drawn before what they contain
+    const ids = Array.from(svg.querySelectorAll('.sysml-node')).map((node) => node.getAttribute('data-id'));
+    expect(ids).toEqual(['Vehicle', 'Engine']);
+  });
+
+  it('should render a laid out model without measuring it', async () => {
+    const layout = await layoutAndRouteFromSpecs(specs, relationships, 'bdd', { measure: false });
+    const svg = parse(renderDiagramToSVG(layout));
+
+    expect(Array.from(svg.querySelectorAll('.sysml-node')).map((node) => node.getAttribute('data-id'))).toEqual([
+      'Vehicle',
+      'Engine'
+    ]);
+    expect(svg.querySelector('[data-id="r1"] path')?.getAttribute('d')).toMatch(/^M /);
+  });
+
+  it('should export an SVG file', () => {
+    const blob = exportDiagramToSVG(diagram());
+
+    expect(blob.type).toBe('image/svg+xml');
+    expect(blob.size).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,570 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+
+import { problemColors, worstSeverity } from './diagnostics';
+import {
+  buildPolylineRoutePath,
+  buildSmoothRoutePath,
+  getEdgeDataStyle,
+  getEdgeStyle,
+  getMarkerEnd,
+  getMarkerStart,
+  getRouteMidpoint,
+  SysMLEdgeMarkersComponent
+} from './edges';
+import { diffColors } from './modelDiff';
+import { accentByKind } from './nodes';
+import { defaultLifelineHeight, lifelineHeaderHeight, lifelineWidth } from './sequence';
+import type { LayoutResult } from './layout';
+import type { SysMLReactFlowEdge, SysMLReactFlowNode, SysMLRoutePoint } from './types';
+
+export type SysMLImageTheme = 'light' | 'dark';
+
+export interface SysMLImageOptions {
+  /** Fill behind the diagram; defaults to the theme's background, `'transparent'` leaves it out. */
+  background?: string;
+  /** Space around the diagram in diagram units (default 24). */
+  padding?: number;
+  /** Output size relative to the diagram (default 1); 2 gives a sharp PNG on high-density screens. */
+  scale?: number;
+  theme?: SysMLImageTheme;
+  /** Size of nodes that have not been measured or sized by a layout (default 220 × 150, as in `applyLayout`). */
+  nodeWidth?: number;
+  nodeHeight?: number;
+}
+
+export class SysMLExportError extends Error {}
+
+interface ThemeColors {
+  background: string;
+  node: string;
+  container: string;
+  text: string;
+  muted: string;
+  divider: string;
+  label: string;
+}
+
+const themes: Record<SysMLImageTheme, ThemeColors> = {
+  dark: {
+    background: '#0b0c0f',
+    node: '#151515',
+    container: 'rgba(21,21,21,0.6)',
+    text: '#f4f4f4',
+    muted: '#a8a8a8',
+    divider: 'rgba(244,244,244,0.15)',
+    label: 'rgba(22,22,22,0.95)'
+  },
+  light: {
+    background: '#ffffff',
+    node: '#f4f4f4',
+    container: 'rgba(244,244,244,0.6)',
+    text: '#161616',
+    muted: '#525252',
+    divider: 'rgba(22,22,22,0.15)',
+    label: 'rgba(255,255,255,0.95)'
+  }
+};
+
+const fontFamily = '"IBM Plex Sans", system-ui, sans-serif';
+
+// Text is not measured; an average glyph is about 0.6em wide
+const textWidth = (text: string, fontSize: number) => text.length * fontSize * 0.6;
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const truncate = (text: string, width: number, fontSize: number) => {
+  const fits = Math.floor(width / (fontSize * 0.6));
+  return text.length <= fits ? text : `${text.slice(0, Math.max(fits - 1, 0))}…`;
+};
+
+const attributes = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+
+const text = (content: string, values: Record<string, string | number | undefined>) =>
+  `<text${attributes(values)}>${escapeXml(content)}</text>`;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const toNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+/** Absolute boxes of the visible nodes; nested nodes are positioned relative to their container. */
+const nodeBoxes = (nodes: SysMLReactFlowNode[], defaultSize: { width: number; height: number }) => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const boxes = new Map<string, Box>();
+  const boxOf = (node: SysMLReactFlowNode): Box => {
+    const known = boxes.get(node.id);
+    if (known) {
+      return known;
+    }
+    const parentId = node.parentId ?? node.parentNode;
+    const parent = parentId ? byId.get(parentId) : undefined;
+    const origin = parent ? boxOf(parent) : { x: 0, y: 0 };
+    const lifeline = node.data.kind === 'sequence-lifeline';
+    const box = {
+      x: node.positionAbsolute?.x ?? origin.x + node.position.x,
+      y: node.positionAbsolute?.y ?? origin.y + node.position.y,
+      width: node.width ?? toNumber(node.style?.width) ?? (lifeline ? lifelineWidth : defaultSize.width),
+      height:
+        node.height ??
+        toNumber(node.style?.height) ??
+        (lifeline ? node.data.lifeline?.height ?? defaultLifelineHeight : defaultSize.height)
+    };
+    boxes.set(node.id, box);
+    return box;
+  };
+  nodes.forEach(boxOf);
+  return boxes;
+};
+
+const opacityOf = (style?: { opacity?: unknown }) => {
+  const opacity = style?.opacity;
+  return typeof opacity === 'number' || typeof opacity === 'string' ? opacity : undefined;
+};
+
+const ring = (box: Box, offset: number, color: string, rx: number) =>
+  `<rect${attributes({
+    x: box.x - offset,
+    y: box.y - offset,
+    width: box.width + offset * 2,
+    height: box.height + offset * 2,
+    rx: rx + offset,
+    fill: 'none',
+    stroke: color,
+    'stroke-width': 3
+  })}/>`;
+
+// Rings outside the border, as on screen: problems innermost, then the diff state
+const renderRings = (node: SysMLReactFlowNode, box: Box, rx: number) => {
+  const severity = worstSeverity(node.data.problems);
+  const colors = [severity && problemColors[severity], node.data.diff && diffColors[node.data.diff.type]].filter(
+    (color): color is string => Boolean(color)
+  );
+  return colors.map((color, index) => ring(box, 3 + index * 4, color, rx)).join('');
+};
+
+const renderControlNode = (node: SysMLReactFlowNode, box: Box, accent: string, colors: ThemeColors) => {
+  const type = node.data.controlType ?? node.data.pseudoType;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const r = Math.min(box.width, box.height) / 2;
+  switch (type) {
+    case 'final':
+      return (
+        `<circle${attributes({ cx, cy, r: r - 1, fill: colors.background, stroke: accent, 'stroke-width': 2 })}/>` +
+        `<circle${attributes({ cx, cy, r: r * 0.6, fill: accent })}/>`
+      );
+    case 'fork':
+    case 'join':
+      return `<rect${attributes({ ...box, rx: 3, fill: accent })}/>`;
+    case 'decision':
+    case 'merge':
+    case 'choice':
+      return `<path${attributes({
+        d: `M ${cx},${box.y} L ${box.x + box.width},${cy} L ${cx},${box.y + box.height} L ${box.x},${cy} z`,
+        fill: colors.background,
+        stroke: accent,
+        'stroke-width': 2
+      })}/>`;
+    case 'shallow-history':
+    case 'deep-history':
+      return (
+        `<circle${attributes({ cx, cy, r: r - 1, fill: colors.background, stroke: accent, 'stroke-width': 2 })}/>` +
+        text(type === 'deep-history' ? 'H*' : 'H', {
+          x: cx,
+          y: cy,
+          'text-anchor': 'middle',
+          'dominant-baseline': 'central',
+          'font-size': 14,
+          'font-weight': 700,
+          fill: colors.text
+        })
+      );
+    default:
+      return `<circle${attributes({ cx, cy, r, fill: accent })}/>`;
+  }
+};
+
+const renderLifeline = (node: SysMLReactFlowNode, box: Box, accent: string, colors: ThemeColors) => {
+  const cx = box.x + box.width / 2;
+  const header = { ...box, height: lifelineHeaderHeight };
+  return (
+    `<line${attributes({
+      x1: cx,
+      y1: box.y + lifelineHeaderHeight,
+      x2: cx,
+      y2: box.y + box.height,
+      stroke: accent,
+      'stroke-width': 2,
+      'stroke-dasharray': '6,4'
+    })}/>` +
+    `<rect${attributes({ ...header, rx: 8, fill: colors.node, stroke: accent, 'stroke-width': 2 })}/>` +
+    text(truncate(node.data.name, box.width - 24, 14), {
+      x: cx,
+      y: box.y + lifelineHeaderHeight / 2,
+      'text-anchor': 'middle',
+      'dominant-baseline': 'central',
+      'font-size': 14,
+      'font-weight': 600,
+      fill: colors.text
+    })
+  );
+};
+
+const renderFragment = (node: SysMLReactFlowNode, box: Box, accent: string, colors: ThemeColors) => {
+  const operator = node.data.fragment?.operator ?? node.data.name;
+  const operands = node.data.fragment?.operands ?? [];
+  const tab = box.x + textWidth(operator, 11) + 16;
+  return (
+    `<rect${attributes({ ...box, rx: 4, fill: 'none', stroke: accent, 'stroke-width': 1.5 })}/>` +
+    `<path${attributes({
+      d: `M ${box.x},${box.y + 20} L ${tab},${box.y + 20} L ${tab + 8},${box.y + 12} L ${tab + 8},${box.y}`,
+      fill: 'none',
+      stroke: accent,
+      'stroke-width': 1.5
+    })}/>` +
+    text(operator, { x: box.x + 8, y: box.y + 14, 'font-size': 11, 'font-weight': 700, fill: colors.text }) +
+    operands
+      .map((operand, index) => {
+        const top = box.y + (operand.top ?? 0);
+        const separator =
+          index > 0
+            ? `<line${attributes({
+                x1: box.x,
+                y1: top,
+                x2: box.x + box.width,
+                y2: top,
+                stroke: accent,
+                'stroke-dasharray': '6,4'
+              })}/>`
+            : '';
+        return operand.guard
+          ? separator + text(`[${operand.guard}]`, { x: box.x + 8, y: top + 34, 'font-size': 11, fill: colors.muted })
+          : separator;
+      })
+      .join('')
+  );
+};
+
+const renderBlock = (node: SysMLReactFlowNode, box: Box, accent: string, colors: ThemeColors) => {
+  const { data } = node;
+  const expandedContainer = data.container && !data.container.collapsed;
+  const innerWidth = box.width - 24;
+  const left = box.x + 12;
+  const bottom = box.y + box.height - 8;
+  const parts = [
+    `<rect${attributes({
+      ...box,
+      rx: 6,
+      fill: expandedContainer ? colors.container : colors.node,
+      stroke: accent,
+      'stroke-width': 2,
+      'stroke-dasharray': data.variability?.variation === 'unresolved' ? '6,4' : undefined
+    })}/>`,
+    text(truncate(`«${data.stereotype ?? data.kind}»`.toUpperCase(), innerWidth, 11), {
+      x: left,
+      y: box.y + 20,
+      'font-size': 11,
+      'letter-spacing': 1,
+      fill: colors.muted
+    }),
+    `<line${attributes({
+      x1: box.x,
+      y1: box.y + 30,
+      x2: box.x + box.width,
+      y2: box.y + 30,
+      stroke: colors.divider
+    })}/>`,
+    text(truncate(data.name, innerWidth, 16), {
+      x: left,
+      y: box.y + 52,
+      'font-size': 16,
+      'font-weight': 600,
+      fill: colors.text
+    })
+  ];
+  if (expandedContainer) {
+    return parts.join('');
+  }
+
+  // Body lines are dropped once the node is full
+  let y = box.y + 52;
+  const line = (content: string, values: Record<string, string | number | undefined>, height = 18) => {
+    if (y + height > bottom) {
+      return false;
+    }
+    y += height;
+    parts.push(text(content, { y, ...values }));
+    return true;
+  };
+  const mutedLine = (content: string) =>
+    line(truncate(content, innerWidth, 11), { x: left, 'font-size': 11, fill: colors.muted });
+  if (data.baseDefinition) {
+    mutedLine(`defined by ${data.baseDefinition}`);
+  }
+  (data.compartments ?? []).every((compartment) => {
+    y += 6;
+    return (
+      (!compartment.title || mutedLine(compartment.title)) &&
+      compartment.items.every((item) => {
+        const value = item.value ? truncate(item.value, innerWidth / 2, 12) : '';
+        const label = truncate(item.label, innerWidth - textWidth(value, 12) - (value ? 8 : 0), 12);
+        const weight = item.emphasis ? 600 : undefined;
+        if (!line(label, { x: left, 'font-size': 12, 'font-weight': weight, fill: colors.text })) {
+          return false;
+        }
+        if (value) {
+          parts.push(
+            text(value, { x: left + innerWidth, y, 'text-anchor': 'end', 'font-size': 12, fill: colors.text })
+          );
+        }
+        return true;
+      })
+    );
+  });
+  return parts.join('');
+};
+
+const renderNode = (node: SysMLReactFlowNode, box: Box, colors: ThemeColors) => {
+  const accent = node.data.accent ?? accentByKind[node.data.kind] ?? '#8d8d8d';
+  const control = node.data.kind === 'activity-control' || node.data.kind === 'pseudo-state';
+  const shape = control
+    ? renderControlNode(node, box, accent, colors)
+    : node.data.kind === 'sequence-lifeline'
+      ? renderLifeline(node, box, accent, colors)
+      : node.data.kind === 'sequence-fragment'
+        ? renderFragment(node, box, accent, colors)
+        : renderBlock(node, box, accent, colors);
+  return `<g${attributes({
+    class: 'sysml-node',
+    'data-id': node.id,
+    opacity: opacityOf(node.style)
+  })}>${renderRings(node, box, control ? Math.min(box.width, box.height) / 2 : 6)}${shape}</g>`;
+};
+
+const center = (box: Box) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+// Point where the line from the center of a box towards `toward` leaves it
+const borderPoint = (box: Box, toward: SysMLRoutePoint) => {
+  const from = center(box);
+  const dx = toward.x - from.x;
+  const dy = toward.y - from.y;
+  if (dx === 0 && dy === 0) {
+    return from;
+  }
+  const t = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy)
+  );
+  return { x: from.x + dx * t, y: from.y + dy * t };
+};
+
+const edgePoints = (edge: SysMLReactFlowEdge, boxes: Map<string, Box>): SysMLRoutePoint[] | undefined => {
+  const route = edge.data?.route;
+  if (route && route.points.length >= 2) {
+    return route.points;
+  }
+  const source = boxes.get(edge.source);
+  const target = boxes.get(edge.target);
+  if (!source || !target) {
+    return undefined;
+  }
+  return [borderPoint(source, center(target)), borderPoint(target, center(source))];
+};
+
+const renderEdgeLabel = (edge: SysMLReactFlowEdge, at: SysMLRoutePoint, stroke: string, colors: ThemeColors) => {
+  const data = edge.data;
+  if (!data?.label) {
+    return '';
+  }
+  const lines = [
+    { content: data.label, size: 11, weight: 600, fill: colors.text },
+    data.trigger && { content: `trigger: ${data.trigger}`, size: 10, fill: colors.muted },
+    data.guard && { content: `[${data.guard}]`, size: 10, fill: '#f1c21b' },
+    data.effect && { content: `/ ${data.effect}`, size: 10, fill: '#82cfff' },
+    data.rationale && { content: data.rationale, size: 10, fill: '#8d8d8d' }
+  ].filter((line): line is { content: string; size: number; weight?: number; fill: string } => Boolean(line));
+  const width = Math.max(...lines.map((line) => textWidth(line.content, line.size))) + 16;
+  const height = lines.length * 14 + 8;
+  const top = at.y - height / 2;
+  return (
+    `<rect${attributes({
+      x: at.x - width / 2,
+      y: top,
+      width,
+      height,
+      rx: 4,
+      fill: colors.label,
+      stroke
+    })}/>` +
+    lines
+      .map((line, index) =>
+        text(line.content, {
+          x: at.x,
+          y: top + 15 + index * 14,
+          'text-anchor': 'middle',
+          'font-size': line.size,
+          'font-weight': line.weight,
+          fill: line.fill
+        })
+      )
+      .join('')
+  );
+};
+
+const renderEdge = (edge: SysMLReactFlowEdge, points: SysMLRoutePoint[], colors: ThemeColors) => {
+  const data = edge.data;
+  const path = data?.route?.routing === 'spline' ? buildSmoothRoutePath(points) : buildPolylineRoutePath(points);
+  const style = getEdgeDataStyle(data);
+  const underlay = (color: string) =>
+    `<path${attributes({
+      d: path,
+      fill: 'none',
+      stroke: color,
+      'stroke-width': 8,
+      'stroke-opacity': 0.4,
+      'stroke-linecap': 'round'
+    })}/>`;
+  const severity = worstSeverity(data?.problems);
+  let label = getRouteMidpoint(points);
+  // Sequence messages carry their label above the first segment of the arrow
+  if (data?.kind === 'message' && data.route) {
+    const [first, second] = points;
+    label = { x: (first.x + second.x) / 2, y: first.y - (data.guard ? 24 : 14) };
+  }
+  return `<g${attributes({ class: 'sysml-edge', 'data-id': edge.id, opacity: opacityOf(edge.style) })}>${
+    severity ? underlay(problemColors[severity]) : ''
+  }${data?.diff ? underlay(diffColors[data.diff.type]) : ''}<path${attributes({
+    d: path,
+    fill: 'none',
+    stroke: style.stroke,
+    'stroke-width': style.strokeWidth,
+    'stroke-dasharray': style.strokeDasharray,
+    'marker-start': getMarkerStart(data?.kind, data?.color),
+    'marker-end': getMarkerEnd(data?.kind, data?.messageType, data?.color)
+  })}/>${renderEdgeLabel(edge, label, style.stroke, colors)}</g>`;
+};
+
+const depthOf = (node: SysMLReactFlowNode, byId: Map<string, SysMLReactFlowNode>): number => {
+  const parentId = node.parentId ?? node.parentNode;
+  const parent = parentId ? byId.get(parentId) : undefined;
+  return parent ? depthOf(parent, byId) + 1 : 0;
+};
+
+/**
+ * Render a laid out diagram to a standalone SVG document. This is a pure
+ * function: it needs no browser, so diagram images can be regenerated from
+ * model files in CI. Nodes are drawn with their header, name and compartments
+ * from the sizes React Flow measured or the layout computed; edges follow
+ * their routes with the same markers and labels as on screen.
+ *
+ * @example
+ * ```typescript
+ * const layout = await layoutAndRouteFromSpecs(specs, relationships, 'bdd', { measure: false });
+ * writeFileSync('vehicle.svg', renderDiagramToSVG(layout, { theme: 'light' }));
+ * ```
+ */
+export const renderDiagramToSVG = (diagram: LayoutResult, options: SysMLImageOptions = {}): string => {
+  const { padding = 24, scale = 1, theme = 'dark', nodeWidth = 220, nodeHeight = 150 } = options;
+  const colors = themes[theme];
+  const background = options.background ?? colors.background;
+
+  const nodes = diagram.nodes.filter((node) => !node.hidden);
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const boxes = nodeBoxes(diagram.nodes, { width: nodeWidth, height: nodeHeight });
+  const edges = diagram.edges
+    .filter((edge) => !edge.hidden && byId.has(edge.source) && byId.has(edge.target))
+    .map((edge) => ({ edge, points: edgePoints(edge, boxes) }))
+    .filter((entry): entry is { edge: SysMLReactFlowEdge; points: SysMLRoutePoint[] } => Boolean(entry.points));
+
+  const extent = [
+    ...nodes.map((node) => boxes.get(node.id)!),
+    ...edges.flatMap(({ points }) => points.map((point) => ({ ...point, width: 0, height: 0 })))
+  ];
+  const minX = extent.length > 0 ? Math.min(...extent.map((box) => box.x)) : 0;
+  const minY = extent.length > 0 ? Math.min(...extent.map((box) => box.y)) : 0;
+  const maxX = extent.length > 0 ? Math.max(...extent.map((box) => box.x + box.width)) : 0;
+  const maxY = extent.length > 0 ? Math.max(...extent.map((box) => box.y + box.height)) : 0;
+  const viewBox = [minX - padding, minY - padding, maxX - minX + padding * 2, maxY - minY + padding * 2];
+
+  const markerColors = Array.from(
+    new Set(edges.map(({ edge }) => getEdgeStyle(edge.data?.kind, undefined, edge.data?.color).stroke))
+  );
+  const markers = renderToStaticMarkup(createElement(SysMLEdgeMarkersComponent, { colors: markerColors }));
+
+  // Containers are drawn before what they contain, edges on top of the nodes as on screen
+  const ordered = [...nodes].sort((a, b) => depthOf(a, byId) - depthOf(b, byId));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg"${attributes({
+      width: viewBox[2] * scale,
+      height: viewBox[3] * scale,
+      viewBox: viewBox.join(' '),
+      'font-family': fontFamily
+    })}>`,
+    markers,
+    background === 'transparent'
+      ? ''
+      : `<rect${attributes({
+          x: viewBox[0],
+          y: viewBox[1],
+          width: viewBox[2],
+          height: viewBox[3],
+          fill: background
+        })}/>`,
+    ...ordered.map((node) => renderNode(node, boxes.get(node.id)!, colors)),
+    ...edges.map(({ edge, points }) => renderEdge(edge, points, colors)),
+    '</svg>'
+  ].join('');
+};
+
+/**
+ * Export a diagram as an SVG file. Pass the nodes and edges React Flow is
+ * showing, e.g. `getNodes()` and `getEdges()` from `useReactFlow` inside a
+ * `SysMLDiagram`, so that measured sizes and overlays are included.
+ */
+export const exportDiagramToSVG = (diagram: LayoutResult, options: SysMLImageOptions = {}): Blob =>
+  new Blob([renderDiagramToSVG(diagram, options)], { type: 'image/svg+xml' });
+
+/** Export a diagram as a PNG image; needs a browser to rasterize the SVG. */
+export const exportDiagramToPNG = async (diagram: LayoutResult, options: SysMLImageOptions = {}): Promise<Blob> => {
+  if (typeof document === 'undefined' || typeof Image === 'undefined') {
+    throw new SysMLExportError('PNG export needs a browser; use renderDiagramToSVG without one');
+  }
+  const svg = renderDiagramToSVG(diagram, options);
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new SysMLExportError('The diagram could not be rasterized'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(image.width);
+  canvas.height = Math.ceil(image.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new SysMLExportError('The diagram could not be rasterized');
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new SysMLExportError('The diagram could not be rasterized'))),
+      'image/png'
+    )
+  );
+};
@@ -1,6 +1,107 @@
 export { SysMLDiagram, type SysMLDiagramProps } from './SysMLDiagram';
+export {
+  SysMLTraceabilityMatrix,
+  type SysMLTraceabilityMatrixProps,
+  type TraceabilitySortKey
+} from './SysMLTraceabilityMatrix';
 export { sysmlNodeTypes } from './nodes';
 export { sysmlEdgeTypes, SysMLEdgeMarkersComponent } from './edges';
+export {
+  SysMLPalette,
+  SysMLPropertyEditor,
+  SysMLRelationshipPicker,
+  SysMLEditingContext,
+  SYSML_NODE_KIND_MIME,
+  useSysMLModelEditor,
+  type SysMLPaletteProps,
+  type SysMLPropertyEditorProps,
+  type SysMLRelationshipPickerProps
+} from './editing';
+export {
+  applyModelDelta,
+  createDefaultNodeSpec,
+  createRelationshipSpec,
+  formatNodeKind,
+  groupModelDeltas,
+  sysmlNodeKindCategories,
+  type SysMLModelDelta,
+  type SysMLNodeKindCategory
+} from './modelDelta';
+export {
+  attachDiff,
+  diffColors,
+  diffModels,
+  formatFieldChange,
+  mergeModels,
+  withRemovedElements,
+  type SysMLChangeType,
+  type SysMLElementChange,
+  type SysMLFieldChange,
+  type SysMLMergeConflict,
+  type SysMLMergeResult,
+  type SysMLModelDiff
+} from './modelDiff';
+export {
+  exportDiagramToPNG,
+  exportDiagramToSVG,
+  renderDiagramToSVG,
+  SysMLExportError,
+  type SysMLImageOptions,
+  type SysMLImageTheme
+} from './imageExport';
+export {
+  generateModelReport,
+  printModelReport,
+  SysMLReportError,
+  type SysMLReportOptions,
+  type SysMLReportView
+} from './report';
+export {
+  createQueryViewpoint,
+  formatQuery,
+  isolateElements,
+  parseQuery,
+  runQuery,
+  SysMLQueryError,
+  type SysMLQuery,
+  type SysMLQueryDirection
+} from './query';
+export {
+  SysMLQueryBox,
+  type SysMLQueryBoxProps,
+  type SysMLQueryMode,
+  type SysMLQuerySelection
+} from './SysMLQueryBox';
+export {
+  compileViewpoint,
+  loadViewpoint,
+  saveViewpoint,
+  sysmlViewpointSchema,
+  SysMLViewpointError,
+  validateViewpointDefinition,
+  type SysMLRelationshipFilter,
+  type SysMLViewpointDefinition
+} from './viewpointDefinitions';
+export {
+  applyEditorDelta,
+  applyHistoryDelta,
+  canRedo,
+  canUndo,
+  createModelHistory,
+  redoHistory,
+  undoHistory,
+  type SysMLEditorState,
+  type SysMLHistoryEntry,
+  type SysMLModelHistory,
+  type SysMLModelHistoryOptions
+} from './history';
+export {
+  SysMLProblemsPanel,
+  ProblemBadge,
+  attachDiagnostics,
+  problemColors,
+  type SysMLProblemsPanelProps
+} from './diagnostics';
 export {
   // Base factories (still used for some v2 elements)
   createActivityControlNode,
@@ -15,6 +116,7 @@ export {
   createStateNode,
   createStateMachineNode,
   createSequenceLifelineNode,
+  createSequenceFragmentNode,
   // SysML v2 Structural Element Factories
   createAttributeDefinitionNode,
   createAttributeUsageNode,
@@ -41,6 +143,7 @@ export {
   createStateUsageNode,
   createTransitionUsageNode,
   createExhibitStateNode,
+  createPseudoStateNode,
   // SysML v2 Requirements & Cases Factories
   createRequirementDefinitionNode,
   createRequirementUsageNode,
@@ -76,6 +179,7 @@ export {
   sysmlViewpoints,
   structuralDefinitionViewpoint,
   usageStructureViewpoint,
+  internalBlockViewpoint,
   behaviorControlViewpoint,
   interactionViewpoint,
   stateViewpoint,
@@ -84,6 +188,35 @@ export {
   verificationViewpoint,
   realizeViewpoint
 } from './viewpoints';
+export {
+  collapseContainers,
+  elevateNestedEdges,
+  getContainedIds,
+  getContainment,
+  getRegionSeparators,
+  nestNodes,
+  SysMLContainmentContext,
+  type NestingOptions,
+  type SysMLContainment
+} from './containment';
+export {
+  attachEdgesToPorts,
+  formatPortEndpoint,
+  getBoundaryPorts,
+  getConnectorRelationships,
+  getSpecPorts,
+  parsePortEndpoint,
+  placePortsOnBoundary,
+  portHandleId,
+  resolvePortEndpoint,
+  type SysMLPortEndpoint
+} from './ports';
+export {
+  layoutSequence,
+  orderMessages,
+  type SequenceLayoutOptions,
+  type SequenceLayoutResult
+} from './sequence';
 export type {
   // Core types
   SysMLNodeData,
@@ -94,6 +227,20 @@ export type {
   SysMLReactFlowEdge,
   SysMLReactFlowNode,
   SysMLRelationshipSpec,
+  SysMLProblemSeverity,
+  SysMLProblemMarker,
+  SysMLElementDiagnostic,
+  SysMLCoverageMarker,
+  SysMLContainerMarker,
+  SysMLRegionSeparator,
+  SysMLBoundaryPort,
+  SysMLActivation,
+  SysMLLifelineMarker,
+  SysMLFragmentMarker,
+  SysMLFragmentOperandMarker,
+  SysMLVariabilityMarker,
+  SysMLDiffMarker,
+  SysMLDerivedMarker,
   // Base specs (still used for some v2 elements)
   SysMLActivityControlSpec,
   SysMLActionDefinitionSpec,
@@ -108,6 +255,10 @@ export type {
   SysMLStateMachineSpec,
   SysMLSequenceLifelineSpec,
   SysMLSequenceMessageSpec,
+  SysMLMessageType,
+  SysMLSequenceFragmentSpec,
+  SysMLFragmentOperator,
+  SysMLFragmentOperandSpec,
   SysMLStateTransitionSpec,
   // SysML v2 Structural Element Specs
   SysMLAttributeDefinitionSpec,
@@ -135,6 +286,8 @@ export type {
   SysMLStateUsageSpec,
   SysMLTransitionUsageSpec,
   SysMLExhibitStateSpec,
+  SysMLPseudoStateSpec,
+  SysMLPseudoStateType,
   // SysML v2 Requirements & Cases Specs
   SysMLRequirementDefinitionSpec,
   SysMLRequirementUsageSpec,
@@ -160,7 +313,13 @@ export type {
   SysMLDocumentationSpec,
   SysMLTag
 } from './types';
-export type { SysMLModel, SysMLViewpoint, ViewMaterializationOptions } from './viewpoints';
+export type {
+  SysMLElementStyle,
+  SysMLModel,
+  SysMLViewpoint,
+  SysMLViewStyle,
+  ViewMaterializationOptions
+} from './viewpoints';
 export {
   applyLayout,
   applyRecommendedLayout,
@@ -174,4 +333,171 @@ export {
   type NodeDimensionMap,
   type LayoutResult
 } from './layout';
+export { recommendedLayoutNames } from './layoutNames';
 export { measureNodeDimensions, type MeasuredNodeMap, type MeasuredNodeDimension } from './measurement';
+export {
+  parseSysML,
+  type SysMLParseResult,
+  type SysMLParseDiagnostic,
+  type SysMLParseDiagnosticCode,
+  type SysMLSourceRange,
+  type SysMLSourcePosition
+} from './parser';
+export { serializeModel } from './serializer';
+export {
+  validateModel,
+  sysmlValidationRules,
+  uniqueIdsRule,
+  relationshipEndpointsRule,
+  referenceResolutionRule,
+  definitionUsagePairingRule,
+  relationshipKindsRule,
+  multiplicitySyntaxRule,
+  specializationCycleRule,
+  isRelationshipAllowed,
+  allowedRelationshipKinds,
+  type SysMLValidationRule,
+  type SysMLValidationContext,
+  type SysMLValidationDiagnostic,
+  type SysMLValidationFinding,
+  type SysMLValidationSeverity,
+  type ValidateModelOptions
+} from './validation';
+export {
+  buildTraceabilityMatrix,
+  getTraceSelection,
+  traceKinds,
+  defaultTraceabilityColumnKinds,
+  type SysMLTraceKind,
+  type TraceLink,
+  type TraceSelection,
+  type TraceabilityCell,
+  type TraceabilityColumn,
+  type TraceabilityGap,
+  type TraceabilityGapKind,
+  type TraceabilityMatrix,
+  type TraceabilityMatrixOptions,
+  type TraceabilityRow
+} from './traceability';
+export {
+  computeRequirementCoverage,
+  attachCoverage,
+  type PackageCoverage,
+  type RequirementCoverage,
+  type RequirementCoverageMetrics,
+  type RequirementCoverageOptions,
+  type RequirementCoverageReport,
+  type SysMLVerificationMethod
+} from './coverage';
+export {
+  checkExpression,
+  evaluateExpression,
+  getExpressionReferences,
+  parseExpression,
+  SysMLExpressionError,
+  type SysMLExpression,
+  type SysMLValue,
+  type SysMLValueType,
+  type SysMLVariableResolver,
+  type SysMLVariables
+} from './expressions';
+export {
+  attachEvaluation,
+  constraintEvaluationRule,
+  evaluateModel,
+  getEvaluatedValue,
+  type SysMLConstraintResult,
+  type SysMLEvaluatedValue,
+  type SysMLModelEvaluation,
+  type SysMLModelEvaluationOptions
+} from './parametrics';
+export {
+  attachUnitSystem,
+  convertUnit,
+  formatQuantity,
+  getQuantityKindUnit,
+  imperialUnitSystem,
+  isSameDimension,
+  parseQuantity,
+  parseUnit,
+  siUnitSystem,
+  SysMLUnitError,
+  toBaseUnits,
+  unitConsistencyRule,
+  type SysMLBaseDimension,
+  type SysMLDimension,
+  type SysMLQuantity,
+  type SysMLUnit,
+  type SysMLUnitSystem
+} from './units';
+export {
+  runAnalysis,
+  sweepRange,
+  SysMLAnalysisError,
+  type SysMLAnalysisOptions,
+  type SysMLAnalysisPoint,
+  type SysMLAnalysisResult,
+  type SysMLParameterSweep
+} from './analysis';
+export { SysMLAnalysisChart, type SysMLAnalysisChartProps } from './SysMLAnalysisChart';
+export {
+  attachConfiguration,
+  getVariationPoints,
+  resolveConfiguration,
+  SysMLConfigurationError,
+  type SysMLConfiguration,
+  type SysMLVariant,
+  type SysMLVariationPoint
+} from './variability';
+export {
+  attachSimulation,
+  createStateMachineSimulation,
+  getAvailableEvents,
+  getStateMachineDefinition,
+  queueSimulationEvent,
+  resetSimulation,
+  runSimulation,
+  sendSimulationEvent,
+  simulationHighlightColor,
+  stepSimulation,
+  type SysMLSimulationOptions,
+  type SysMLSimulationState,
+  type SysMLSimulationTraceEntry,
+  type SysMLStateMachineDefinition,
+  type SysMLStateMachineSimulation
+} from './simulation';
+export {
+  SysMLSimulationPanel,
+  useStateMachineSimulation,
+  type SysMLSimulationPanelProps,
+  type SysMLSimulatorOptions,
+  type SysMLStateMachineSimulator
+} from './SysMLSimulationPanel';
+export {
+  activityFlowRule,
+  analyzeActivity,
+  attachTokenFlow,
+  createTokenFlowSimulation,
+  getActivityDefinition,
+  resetTokenFlow,
+  runTokenFlow,
+  sendTokenFlowSignal,
+  stepTokenFlow,
+  type SysMLActivityAnalysis,
+  type SysMLActivityAnalysisOptions,
+  type SysMLActivityBlockage,
+  type SysMLActivityDefinition,
+  type SysMLActivityFlow,
+  type SysMLActivityNode,
+  type SysMLActivityNodeType,
+  type SysMLTokenFlowOptions,
+  type SysMLTokenFlowSimulation,
+  type SysMLTokenFlowTraceEntry
+} from './tokenFlow';
+export {
+  SysMLTokenFlowPanel,
+  useTokenFlowSimulation,
+  type SysMLTokenFlowPanelProps,
+  type SysMLTokenFlowSimulator,
+  type SysMLTokenFlowSimulatorOptions
+} from './SysMLTokenFlowPanel';
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { applyLayout, applyRecommendedLayout, recommendedLayouts } from './layout';
+import { recommendedLayoutNames } from './layoutNames';
+import { containerHeaderHeight, getContainment, nestNodes } from './containment';
+import { attachEdgesToPorts, placePortsOnBoundary } from './ports';
 import { createNodesFromSpecs } from './factories';
 import { createEdgesFromRelationships } from './factories';
 import type { SysMLReactFlowNode, SysMLReactFlowEdge } from './types';
@@ -136,6 +139,77 @@ describe('Layout Module', () => {
         expect(node.position).toBeDefined();
       });
     });
+
+    it('should lay out nested nodes inside their containers', async () => {
+      const specs = [
+        { kind: 'package' as const, spec: { id: 'pkg', name: 'Package', members: ['REQ-1', 'REQ-2'] } },
+        ...sampleSpecs
+      ];
+      const nodes = nestNodes(createNodesFromSpecs(specs), getContainment({ nodes: specs }));
+      const edges = createEdgesFromRelationships(sampleRelationships);
+
+      const { nodes: layoutedNodes } = await applyLayout(nodes, edges);
+      const container = layoutedNodes.find(node => node.id === 'pkg')!;
+      const width = container.style?.width as number;
+      const height = container.style?.height as number;
+
+      expect(width).toBeGreaterThan(0);
+      expect(height).toBeGreaterThan(0);
+      layoutedNodes
+        .filter(node => node.parentId === 'pkg')
+        .forEach(child => {
+          expect(child.position.x).toBeGreaterThanOrEqual(0);
+          expect(child.position.y).toBeGreaterThanOrEqual(containerHeaderHeight(container));
+          expect(child.position.x).toBeLessThan(width);
+          expect(child.position.y).toBeLessThan(height);
+        });
+    });
+
+    it('should redraw region separators around the laid out regions', async () => {
+      const specs = [
+        { kind: 'state-usage' as const, spec: { id: 'on', name: 'On', isParallel: true, substates: ['a', 'b'] } },
+        { kind: 'state-usage' as const, spec: { id: 'a', name: 'A' } },
+        { kind: 'state-usage' as const, spec: { id: 'b', name: 'B' } },
+        { kind: 'state-usage' as const, spec: { id: 'off', name: 'Off' } }
+      ];
+      const nodes = nestNodes(createNodesFromSpecs(specs), getContainment({ nodes: specs }));
+      // A transition leaving region A for a state outside the parallel state
+      const edges = createEdgesFromRelationships([{ id: 't', type: 'transition', source: 'a', target: 'off' }]);
+
+      const { nodes: layoutedNodes } = await applyLayout(nodes, edges);
+      const [a, b] = layoutedNodes.slice(1, 3);
+      const [separator] = layoutedNodes[0].data.container?.regions ?? [];
+
+      expect(separator.orientation).toBe('vertical');
+      expect(separator.x).toBeGreaterThan(Math.min(a.position.x, b.position.x));
+      expect(separator.x).toBeLessThan(Math.max(a.position.x, b.position.x));
+    });
+
+    it('should route port connections to the port positions', async () => {
+      const specs = [
+        { kind: 'part-usage' as const, spec: { id: 'tank', name: 'tank', ports: [{ name: 'fuelOut', direction: 'out' as const }] } },
+        { kind: 'part-usage' as const, spec: { id: 'engine', name: 'engine', ports: [{ name: 'fuelIn', direction: 'in' as const }] } }
+      ];
+      const nodes = placePortsOnBoundary(createNodesFromSpecs(specs));
+      const edges = attachEdgesToPorts(
+        nodes,
+        createEdgesFromRelationships([{ id: 'flow', type: 'flow-connection', source: 'tank.fuelOut', target: 'engine.fuelIn' }])
+      );
+
+      const { nodes: layoutedNodes, edges: layoutedEdges } = await applyLayout(nodes, edges, {
+        algorithm: 'layered',
+        direction: 'RIGHT'
+      });
+      const [tank, engine] = layoutedNodes;
+      const points = layoutedEdges[0].data?.route?.points ?? [];
+      const start = points[0];
+      const end = points[points.length - 1];
+
+      expect(start.y).toBeCloseTo(tank.position.y + 75);
+      expect(Math.abs(start.x - (tank.position.x + 220))).toBeLessThanOrEqual(6);
+      expect(end.y).toBeCloseTo(engine.position.y + 75);
+      expect(Math.abs(end.x - engine.position.x)).toBeLessThanOrEqual(6);
+    });
   });
 
   describe('applySequenceLayout', () => {
@@ -296,6 +370,10 @@ describe('Layout Module', () => {
       });
     });
 
+    it('should list the same diagram types as recommendedLayoutNames', () => {
+      expect(Object.keys(recommendedLayouts)).toEqual([...recommendedLayoutNames]);
+    });
+
     it('should use layered layout for requirements', () => {
       expect(recommendedLayouts.requirements.algorithm).toBe('layered');
       expect(recommendedLayouts.requirements.direction).toBe('DOWN');
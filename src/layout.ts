@@ -9,7 +9,10 @@ import type {
   SysMLNodeSpec,
   SysMLRelationshipSpec
 } from './types';
+import { containerHeaderHeight, containerPadding, getRegionSeparators } from './containment';
 import { measureNodeDimensions } from './measurement';
+import { portHandleId, portOfHandle, portSize } from './ports';
+import { layoutSequence } from './sequence';
 import { createNodesFromSpecs, createEdgesFromRelationships } from './factories';
 
 /**
@@ -147,28 +150,120 @@ export async function applyLayout(
 
   const edgeRoutingModes = new Map<string, SysMLEdgeRouting>();
 
+  // Nested nodes (see nestNodes) become ELK compound nodes; hidden nodes are left out
+  const visibleNodes = nodes.filter((node) => !node.hidden);
+  const visibleIds = new Set(visibleNodes.map((node) => node.id));
+  const parentOf = (id: string) => {
+    const node = nodes.find((candidate) => candidate.id === id);
+    const parentId = node?.parentId ?? node?.parentNode;
+    return parentId && visibleIds.has(parentId) ? parentId : undefined;
+  };
+  const childrenByParent = new Map<string | undefined, Node<SysMLNodeData>[]>();
+  visibleNodes.forEach((node) => {
+    const parentId = parentOf(node.id);
+    childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), node]);
+  });
+
+  // Ports become ELK ports so that port connections are routed to the port
+  const elkPortId = (nodeId: string, port: string) => `${nodeId}::${portHandleId(port)}`;
+  const portNames = new Map(visibleNodes.map((node) => [node.id, node.data.ports?.map((port) => port.name) ?? []]));
+  const elkEnd = (nodeId: string, handleId?: string | null) => {
+    const port = portOfHandle(handleId);
+    return port !== undefined && portNames.get(nodeId)?.includes(port) ? elkPortId(nodeId, port) : nodeId;
+  };
+  // Leaf nodes keep their ports where the node draws them; containers, whose size
+  // ELK computes, keep the port order on each side
+  const toElkPorts = (node: Node<SysMLNodeData>, size?: { width: number; height: number }): Partial<ElkNode> =>
+    node.data.ports?.length
+      ? {
+          ports: node.data.ports.map((port) => ({
+            id: elkPortId(node.id, port.name),
+            width: portSize,
+            height: portSize,
+            ...(size
+              ? {
+                  x: (port.side === 'left' ? 0 : size.width) - portSize / 2,
+                  y: port.offset * size.height - portSize / 2
+                }
+              : {}),
+            // Port squares straddle the border
+            layoutOptions: {
+              'elk.port.side': port.side === 'left' ? 'WEST' : 'EAST',
+              'elk.port.borderOffset': String(-portSize / 2)
+            }
+          })),
+          layoutOptions: { 'elk.portConstraints': size ? 'FIXED_POS' : 'FIXED_ORDER' }
+        }
+      : {};
+
+  const toElkEdge = (edge: Edge<SysMLEdgeData>): ElkExtendedEdge => {
+    const routing = getRoutingModeForEdge(edge);
+    edgeRoutingModes.set(edge.id, routing);
+    return {
+      id: edge.id,
+      sources: [elkEnd(edge.source, edge.sourceHandle)],
+      targets: [elkEnd(edge.target, edge.targetHandle)],
+      layoutOptions: {
+        'elk.edgeRouting': routing === 'spline' ? 'SPLINE' : 'ORTHOGONAL',
+        'elk.layered.edgeRouting': routing === 'spline' ? 'SPLINE' : 'ORTHOGONAL'
+      }
+    };
+  };
+
+  // Only the layered algorithm routes edges across container borders; the others
+  // lay out each container separately and keep the edges inside one container
+  const hierarchical = opts.algorithm === 'layered';
+  const visibleEdges = edges.filter(
+    (edge) => !edge.hidden && visibleIds.has(edge.source) && visibleIds.has(edge.target)
+  );
+  const edgesByContainer = new Map<string | undefined, Edge<SysMLEdgeData>[]>();
+  visibleEdges.forEach((edge) => {
+    const sourceParent = parentOf(edge.source);
+    if (!hierarchical && sourceParent !== parentOf(edge.target)) {
+      return;
+    }
+    const container = hierarchical ? undefined : sourceParent;
+    edgesByContainer.set(container, [...(edgesByContainer.get(container) ?? []), edge]);
+  });
+
+  const toElkNode = (node: Node<SysMLNodeData>): ElkNode => {
+    const children = childrenByParent.get(node.id) ?? [];
+    if (children.length === 0) {
+      const size = {
+        width: nodeDimensions?.[node.id]?.width ?? opts.nodeWidth,
+        height: nodeDimensions?.[node.id]?.height ?? opts.nodeHeight
+      };
+      return { id: node.id, ...size, ...toElkPorts(node, size) };
+    }
+    const ports = toElkPorts(node);
+    return {
+      id: node.id,
+      ports: ports.ports,
+      layoutOptions: {
+        ...getElkOptions(opts),
+        ...ports.layoutOptions,
+        // ELK's model order handling fails on containers without edges between their children
+        ...(visibleEdges.some((edge) => parentOf(edge.source) === node.id && parentOf(edge.target) === node.id)
+          ? {}
+          : { 'elk.layered.considerModelOrder.strategy': 'NONE' }),
+        'elk.padding': `[top=${containerHeaderHeight(node)},left=${containerPadding},bottom=${containerPadding},right=${containerPadding}]`
+      },
+      children: children.map(toElkNode),
+      edges: (edgesByContainer.get(node.id) ?? []).map(toElkEdge)
+    };
+  };
+
   // Convert React Flow graph to ELK format
   const elkGraph: ElkNode = {
     id: 'root',
-    layoutOptions: getElkOptions(opts),
-    children: nodes.map((node) => ({
-      id: node.id,
-      width: nodeDimensions?.[node.id]?.width ?? opts.nodeWidth,
-      height: nodeDimensions?.[node.id]?.height ?? opts.nodeHeight
-    })),
-    edges: edges.map((edge) => {
-      const routing = getRoutingModeForEdge(edge);
-      edgeRoutingModes.set(edge.id, routing);
-      return {
-        id: edge.id,
-        sources: [edge.source],
-        targets: [edge.target],
-        layoutOptions: {
-          'elk.edgeRouting': routing === 'spline' ? 'SPLINE' : 'ORTHOGONAL',
-          'elk.layered.edgeRouting': routing === 'spline' ? 'SPLINE' : 'ORTHOGONAL'
-        }
-      } satisfies ElkExtendedEdge;
-    })
+    layoutOptions: {
+      ...getElkOptions(opts),
+      // Edge coordinates relative to the root, node coordinates relative to the parent as in React Flow
+      'elk.json.edgeCoords': 'ROOT',
+      ...(hierarchical ? { 'elk.hierarchyHandling': 'INCLUDE_CHILDREN' } : {})
+    },
+    children: (childrenByParent.get(undefined) ?? []).map(toElkNode),
+    edges: (edgesByContainer.get(undefined) ?? []).map(toElkEdge)
   };
 
   // Run ELK layout
@@ -184,12 +279,47 @@ export async function applyLayout(
 
   const routedEdges = extractEdgeRoutes(layoutedGraph, edgeRoutingModes, geometryMap);
 
-  // Apply positions back to React Flow nodes
+  const elkNodes = new Map<string, ElkNode>();
+  const indexElkNodes = (elkNode: ElkNode) =>
+    elkNode.children?.forEach((child) => {
+      elkNodes.set(child.id, child);
+      indexElkNodes(child);
+    });
+  indexElkNodes(layoutedGraph);
+
+  // Apply positions back to React Flow nodes; containers take the size ELK computed
+  // and parallel states redraw their region separators around the moved regions
   const layoutedNodes = nodes.map((node) => {
-    const elkNode = layoutedGraph.children?.find((n) => n.id === node.id);
+    const elkNode = elkNodes.get(node.id);
     if (elkNode?.x !== undefined && elkNode?.y !== undefined) {
+      const sized = elkNode.children?.length
+        ? { style: { ...node.style, width: elkNode.width, height: elkNode.height } }
+        : {};
+      const container = node.data.container;
+      const regions =
+        container?.regions && elkNode.children
+          ? {
+              data: {
+                ...node.data,
+                container: {
+                  ...container,
+                  regions: getRegionSeparators(
+                    containerHeaderHeight(node),
+                    elkNode.children.map((child) => ({
+                      x: child.x ?? 0,
+                      y: child.y ?? 0,
+                      width: child.width ?? 0,
+                      height: child.height ?? 0
+                    }))
+                  )
+                }
+              }
+            }
+          : {};
       return {
         ...node,
+        ...sized,
+        ...regions,
         position: { x: elkNode.x, y: elkNode.y }
       };
     }
@@ -272,29 +402,25 @@ function getElkOptions(opts: Required<LayoutOptions>): Record<string, string> {
 
 /**
  * Custom sequence diagram layout
- * Arranges lifelines horizontally with equal spacing
+ * Arranges lifelines horizontally with equal spacing and messages top to bottom
+ * in message order (see `layoutSequence`)
  */
 function applySequenceLayout(
   nodes: Node<SysMLNodeData>[],
   edges: Edge<SysMLEdgeData>[],
   opts: Required<LayoutOptions>
 ): Promise<LayoutResult> {
-  // Separate lifelines from other nodes
-  const lifelines = nodes.filter((n) => n.data.kind === 'sequence-lifeline');
-  const others = nodes.filter((n) => n.data.kind !== 'sequence-lifeline');
+  const lifelineCount = nodes.filter((n) => n.data.kind === 'sequence-lifeline').length;
 
-  // Layout lifelines horizontally with equal spacing
+  // Layout lifelines horizontally with equal spacing, one layer per message
   const spacing = opts.nodeSpacing + opts.nodeWidth;
-  const layoutedLifelines = lifelines.map((node, index) => ({
-    ...node,
-    position: { x: index * spacing, y: 0 }
-  }));
+  const sequence = layoutSequence(nodes, edges, { lifelineSpacing: spacing, messageSpacing: opts.layerSpacing });
 
   // Place interaction nodes above lifelines if present
-  const layoutedOthers = others.map((node) => {
+  const layoutedNodes = sequence.nodes.map((node) => {
     if (node.data.kind === 'interaction') {
       // Center above lifelines
-      const centerX = ((lifelines.length - 1) * spacing) / 2;
+      const centerX = ((lifelineCount - 1) * spacing) / 2;
       return {
         ...node,
         position: { x: centerX - opts.nodeWidth / 2, y: -opts.nodeHeight - opts.layerSpacing }
@@ -304,8 +430,8 @@ function applySequenceLayout(
   });
 
   return Promise.resolve({
-    nodes: [...layoutedLifelines, ...layoutedOthers],
-    edges
+    nodes: layoutedNodes,
+    edges: sequence.edges
   });
 }
 
@@ -590,13 +716,16 @@ function collectNodeGeometry(
   geometry: Map<string, NodeGeometry>,
   dimensions: NodeDimensionMap | undefined,
   kinds: Map<string, string>,
-  opts: Required<LayoutOptions>
+  opts: Required<LayoutOptions>,
+  offset: { x: number; y: number } = { x: 0, y: 0 }
 ): void {
   graph.children?.forEach((child) => {
-    const width = dimensions?.[child.id]?.width ?? child.width ?? opts.nodeWidth;
-    const height = dimensions?.[child.id]?.height ?? child.height ?? opts.nodeHeight;
-    const x = child.x ?? 0;
-    const y = child.y ?? 0;
+    // Containers are sized by ELK, not by their measured header
+    const isContainer = Boolean(child.children?.length);
+    const width = (isContainer ? child.width : dimensions?.[child.id]?.width) ?? child.width ?? opts.nodeWidth;
+    const height = (isContainer ? child.height : dimensions?.[child.id]?.height) ?? child.height ?? opts.nodeHeight;
+    const x = offset.x + (child.x ?? 0);
+    const y = offset.y + (child.y ?? 0);
     const kind = kinds.get(child.id);
 
     geometry.set(child.id, {
@@ -610,7 +739,7 @@ function collectNodeGeometry(
       shape: getNodeShape(kind)
     });
 
-    collectNodeGeometry(child, geometry, dimensions, kinds, opts);
+    collectNodeGeometry(child, geometry, dimensions, kinds, opts, { x, y });
   });
 }
 
@@ -789,7 +918,9 @@ export async function layoutAndRoute(
 
   const finalNodes = nodeClones.map((node) => {
     const positioned = nodeMap.get(node.id);
-    return positioned ? { ...node, position: positioned.position } : node;
+    return positioned
+      ? { ...node, position: positioned.position, style: positioned.style, data: positioned.data }
+      : node;
   });
 
   const finalEdges = edgeClones.map((edge) => {
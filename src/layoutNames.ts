@@ -0,0 +1,15 @@
+/**
+ * Names of the diagram types with a recommended layout (see `recommendedLayouts`).
+ * Kept apart from the layout module so that schemas and viewpoint tooling can
+ * list them without loading ELK.
+ */
+export const recommendedLayoutNames = [
+  'bdd',
+  'ibd',
+  'requirements',
+  'stateMachine',
+  'activity',
+  'sequence',
+  'useCase',
+  'package'
+] as const;
@@ -40,8 +40,13 @@ export async function measureNodeDimensions(nodes: SysMLReactFlowNode[]): Promis
 
   // Clone nodes so React Flow measurement does not mutate caller state
   // Spread nodes apart to avoid overlap during measurement
+  // Nested nodes are measured on their own, outside their container
   const measurementNodes: SysMLReactFlowNode[] = nodes.map((node, index) => ({
     ...node,
+    parentId: undefined,
+    parentNode: undefined,
+    extent: undefined,
+    hidden: false,
     position: { x: (index % 5) * 300, y: Math.floor(index / 5) * 200 },
     data: node.data
   }));
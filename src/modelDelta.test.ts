@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyModelDelta,
+  createDefaultNodeSpec,
+  createRelationshipSpec,
+  formatNodeKind,
+  sysmlNodeKindCategories
+} from './modelDelta';
+import { sysmlNodeSyntax } from './notation';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'part-definition', spec: { id: 'a', name: 'A' } },
+    { kind: 'part-definition', spec: { id: 'b', name: 'B' } }
+  ],
+  relationships: [{ id: 'a-dependency-b', type: 'dependency', source: 'a', target: 'b' }]
+};
+
+describe('Model Deltas', () => {
+  it('should group every node kind exactly once', () => {
+    const kinds = sysmlNodeKindCategories.flatMap((category) => category.kinds);
+    expect([...kinds].sort()).toEqual(Object.keys(sysmlNodeSyntax).sort());
+  });
+
+  it('should create default specs with unused ids', () => {
+    expect(createDefaultNodeSpec('part-definition', ['part-definition-1'])).toEqual({
+      kind: 'part-definition',
+      spec: { id: 'part-definition-2', name: 'Part Definition 2' }
+    });
+    expect(createDefaultNodeSpec('activity-control').spec).toMatchObject({ controlType: 'decision' });
+    expect(createDefaultNodeSpec('comment').spec).toEqual({ id: 'comment-1', body: '' });
+    expect(formatNodeKind('use-case-usage')).toBe('Use Case Usage');
+  });
+
+  it('should suffix repeated relationship ids', () => {
+    expect(createRelationshipSpec('dependency', 'a', 'b', ['a-dependency-b']).id).toBe('a-dependency-b-2');
+    expect(createRelationshipSpec('satisfy', 'a', 'b')).toEqual({ id: 'a-satisfy-b', type: 'satisfy', source: 'a', target: 'b' });
+  });
+
+  it('should apply deltas without mutating the model', () => {
+    const added = applyModelDelta(model, {
+      type: 'add-node',
+      node: { kind: 'port-definition', spec: { id: 'p', name: 'P' } },
+      position: { x: 0, y: 0 }
+    });
+    expect(added.nodes.map((node) => node.spec.id)).toEqual(['a', 'b', 'p']);
+    expect(model.nodes).toHaveLength(2);
+
+    const removed = applyModelDelta(model, { type: 'remove-node', id: 'b' });
+    expect(removed).toEqual({ nodes: [model.nodes[0]], relationships: [] });
+
+    const ported = applyModelDelta(model, {
+      type: 'add-relationship',
+      relationship: { id: 'b-port', type: 'binding-connector', source: 'a', target: 'b.fuelIn' }
+    });
+    expect(applyModelDelta(ported, { type: 'remove-node', id: 'b' }).relationships).toEqual([]);
+
+    const related = applyModelDelta(model, {
+      type: 'add-relationship',
+      relationship: { id: 'r', type: 'specialization', source: 'b', target: 'a' }
+    });
+    expect(applyModelDelta(related, { type: 'remove-relationship', id: 'a-dependency-b' }).relationships.map((r) => r.id)).toEqual(['r']);
+
+    expect(applyModelDelta(model, { type: 'move-node', id: 'a', position: { x: 5, y: 5 } })).toBe(model);
+
+    const updated = applyModelDelta(model, {
+      type: 'update-node',
+      node: { kind: 'part-definition', spec: { id: 'b', name: 'Engine', attributes: [{ name: 'power' }] } }
+    });
+    expect(updated.nodes).toEqual([
+      model.nodes[0],
+      { kind: 'part-definition', spec: { id: 'b', name: 'Engine', attributes: [{ name: 'power' }] } }
+    ]);
+    expect(updated.relationships).toBe(model.relationships);
+  });
+});
@@ -0,0 +1,197 @@
+import type { XYPosition } from 'reactflow';
+
+import { defaultRelationshipId } from './notation';
+import { resolvePortEndpoint } from './ports';
+import type { SysMLEdgeKind, SysMLNodeKind, SysMLNodeSpec, SysMLRelationshipSpec } from './types';
+import type { SysMLModel } from './viewpoints';
+
+/**
+ * An edit to a `SysMLModel`, as emitted by `SysMLDiagram` in editing mode.
+ * `move-node` only concerns the diagram layout and leaves the model unchanged.
+ * `group` applies several deltas as one compound edit, e.g. deleting a
+ * selection.
+ */
+export type SysMLModelDelta =
+  | { type: 'add-node'; node: SysMLNodeSpec; position: XYPosition }
+  | { type: 'remove-node'; id: string }
+  | { type: 'update-node'; node: SysMLNodeSpec }
+  | { type: 'move-node'; id: string; position: XYPosition }
+  | { type: 'add-relationship'; relationship: SysMLRelationshipSpec }
+  | { type: 'remove-relationship'; id: string }
+  | { type: 'group'; label?: string; deltas: SysMLModelDelta[] };
+
+export interface SysMLNodeKindCategory {
+  name: string;
+  kinds: SysMLNodeKind[];
+}
+
+/** Node kinds grouped as in `SysMLNodeKind`. */
+export const sysmlNodeKindCategories: SysMLNodeKindCategory[] = [
+  {
+    name: 'Structural Elements',
+    kinds: [
+      'part-definition',
+      'part-usage',
+      'attribute-definition',
+      'attribute-usage',
+      'port-definition',
+      'port-usage',
+      'item-definition',
+      'item-usage',
+      'connection-definition',
+      'connection-usage',
+      'interface-definition',
+      'interface-usage',
+      'allocation-definition',
+      'allocation-usage',
+      'reference-usage',
+      'occurrence-definition',
+      'occurrence-usage'
+    ]
+  },
+  {
+    name: 'Behavioral Elements',
+    kinds: [
+      'action-definition',
+      'action-usage',
+      'activity-control',
+      'calculation-definition',
+      'calculation-usage',
+      'perform-action',
+      'send-action',
+      'accept-action',
+      'assignment-action',
+      'if-action',
+      'for-loop-action',
+      'while-loop-action',
+      'state',
+      'state-machine',
+      'state-definition',
+      'state-usage',
+      'transition-usage',
+      'exhibit-state',
+      'pseudo-state'
+    ]
+  },
+  {
+    name: 'Requirements & Cases',
+    kinds: [
+      'requirement-definition',
+      'requirement-usage',
+      'constraint-definition',
+      'constraint-usage',
+      'verification-case-definition',
+      'verification-case-usage',
+      'analysis-case-definition',
+      'analysis-case-usage',
+      'use-case-definition',
+      'use-case-usage',
+      'concern-definition',
+      'concern-usage'
+    ]
+  },
+  { name: 'Organizational Elements', kinds: ['package', 'library-package'] },
+  { name: 'Interactions', kinds: ['sequence-lifeline', 'sequence-fragment', 'interaction'] },
+  { name: 'Metadata', kinds: ['metadata-definition', 'metadata-usage', 'comment', 'documentation'] }
+];
+
+/** Human-readable name of a node kind, e.g. `Part Definition`. */
+export const formatNodeKind = (kind: SysMLNodeKind) =>
+  kind
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const uniqueId = (base: string, taken: Set<string>) => {
+  let id = base;
+  for (let index = 2; taken.has(id); index += 1) {
+    id = `${base}-${index}`;
+  }
+  return id;
+};
+
+/**
+ * A minimal spec for a new element of the given kind, with an id not in
+ * `existingIds` (`part-definition-1`, `part-definition-2`, ...) and a matching
+ * name (`Part Definition 2`).
+ */
+export const createDefaultNodeSpec = (kind: SysMLNodeKind, existingIds: Iterable<string> = []): SysMLNodeSpec => {
+  const taken = new Set(existingIds);
+  let index = 1;
+  while (taken.has(`${kind}-${index}`)) {
+    index += 1;
+  }
+  const id = `${kind}-${index}`;
+  const name = `${formatNodeKind(kind)} ${index}`;
+
+  switch (kind) {
+    case 'activity-control':
+      return { kind, spec: { id, name, controlType: 'decision' } };
+    case 'state-machine':
+      return { kind, spec: { id, name, states: [] } };
+    case 'pseudo-state':
+      return { kind, spec: { id, name, pseudoType: 'initial' } };
+    case 'transition-usage':
+      return { kind, spec: { id, name, source: '', target: '' } };
+    case 'sequence-fragment':
+      return { kind, spec: { id, name, operator: 'opt', operands: [{ messages: [] }] } };
+    case 'comment':
+    case 'documentation':
+      return { kind, spec: { id, body: '' } };
+    default:
+      return { kind, spec: { id, name } } as SysMLNodeSpec;
+  }
+};
+
+/** A relationship with a `source-kind-target` id, suffixed `-2`, `-3`, ... when in `existingIds`. */
+export const createRelationshipSpec = (
+  type: SysMLEdgeKind,
+  source: string,
+  target: string,
+  existingIds: Iterable<string> = []
+): SysMLRelationshipSpec => ({
+  id: uniqueId(defaultRelationshipId(type, source, target), new Set(existingIds)),
+  type,
+  source,
+  target
+});
+
+/** A single delta, or a `group` of them when there are several. */
+export const groupModelDeltas = (deltas: SysMLModelDelta[], label?: string): SysMLModelDelta =>
+  deltas.length === 1 && label === undefined ? deltas[0] : { type: 'group', label, deltas };
+
+/**
+ * Apply a delta to a model, returning a new model. Removing a node also
+ * removes the relationships attached to it; updating a node replaces the spec
+ * with the same id.
+ */
+export const applyModelDelta = (model: SysMLModel, delta: SysMLModelDelta): SysMLModel => {
+  switch (delta.type) {
+    case 'add-node':
+      return { ...model, nodes: [...model.nodes, delta.node] };
+    case 'remove-node': {
+      // Relationships to the node's ports (`nodeId.port`) go with it
+      const isNode = (id: string) => model.nodes.some((node) => node.spec.id === id);
+      const endsAtNode = (endpoint: string) => resolvePortEndpoint(endpoint, isNode).node === delta.id;
+      return {
+        nodes: model.nodes.filter((node) => node.spec.id !== delta.id),
+        relationships: model.relationships.filter(
+          (relationship) => !endsAtNode(relationship.source) && !endsAtNode(relationship.target)
+        )
+      };
+    }
+    case 'update-node':
+      return {
+        ...model,
+        nodes: model.nodes.map((node) => (node.spec.id === delta.node.spec.id ? delta.node : node))
+      };
+    case 'add-relationship':
+      return { ...model, relationships: [...model.relationships, delta.relationship] };
+    case 'remove-relationship':
+      return { ...model, relationships: model.relationships.filter((relationship) => relationship.id !== delta.id) };
+    case 'group':
+      return delta.deltas.reduce(applyModelDelta, model);
+    default:
+      return model;
+  }
+};
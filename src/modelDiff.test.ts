@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { createEdgesFromRelationships, createNodesFromSpecs } from './factories';
+import { attachDiff, diffModels, formatFieldChange, mergeModels, withRemovedElements } from './modelDiff';
+import type { SysMLNodeSpec } from './types';
+import type { SysMLModel } from './viewpoints';
+
+const vehicle: SysMLNodeSpec = {
+  kind: 'part-definition',
+  spec: {
+    id: 'Vehicle',
+    name: 'Vehicle',
+    attributes: [
+      { name: 'mass', type: 'Real', multiplicity: '1' },
+      { name: 'speed', type: 'Real' }
+    ],
+    ports: [{ name: 'fuel', type: 'FuelPort' }]
+  }
+};
+
+const base: SysMLModel = {
+  nodes: [
+    vehicle,
+    { kind: 'part-definition', spec: { id: 'Engine', name: 'Engine' } },
+    { kind: 'part-definition', spec: { id: 'Wheel', name: 'Wheel' } }
+  ],
+  relationships: [
+    { id: 'r1', type: 'composition', source: 'Vehicle', target: 'Engine' },
+    { id: 'r2', type: 'dependency', source: 'Vehicle', target: 'Wheel' }
+  ]
+};
+
+const withVehicle = (model: SysMLModel, spec: Record<string, unknown>): SysMLModel => ({
+  ...model,
+  nodes: model.nodes.map((node) =>
+    node.spec.id === 'Vehicle' ? ({ kind: node.kind, spec: { ...node.spec, ...spec } } as SysMLNodeSpec) : node
+  )
+});
+
+describe('Model Diff', () => {
+  it('should report changes field by field, matching list entries by name', () => {
+    const after: SysMLModel = {
+      nodes: [
+        {
+          kind: 'part-definition',
+          spec: {
+            id: 'Vehicle',
+            name: 'Vehicle',
+            description: 'Road vehicle',
+            attributes: [
+              { name: 'range', type: 'Real' },
+              { name: 'mass', type: 'Real', multiplicity: '0..1' }
+            ],
+            ports: [{ name: 'fuel', type: 'FuelPort' }]
+          }
+        },
+        { kind: 'part-definition', spec: { id: 'Wheel', name: 'Wheel' } },
+        { kind: 'part-definition', spec: { id: 'Battery', name: 'Battery' } }
+      ],
+      relationships: [
+        { id: 'r1', type: 'composition', source: 'Vehicle', target: 'Engine', label: 'engine' },
+        { id: 'r2', type: 'dependency', source: 'Vehicle', target: 'Wheel' }
+      ]
+    };
+    const diff = diffModels(base, after);
+
+    expect(diff.nodes.map((change) => [change.id, change.type])).toEqual([
+      ['Vehicle', 'modified'],
+      ['Engine', 'removed'],
+      ['Battery', 'added']
+    ]);
+    expect(diff.nodes[0].changes).toEqual([
+      { path: ['attributes', 'mass', 'multiplicity'], before: '1', after: '0..1' },
+      { path: ['attributes', 'speed'], before: { name: 'speed', type: 'Real' } },
+      { path: ['attributes', 'range'], after: { name: 'range', type: 'Real' } },
+      { path: ['description'], after: 'Road vehicle' }
+    ]);
+    expect(diff.nodes[0].changes.map(formatFieldChange)).toEqual([
+      'attributes.mass.multiplicity: 1 → 0..1',
+      'attributes.speed: {"name":"speed","type":"Real"} → none',
+      'attributes.range: none → {"name":"range","type":"Real"}',
+      'description: none → Road vehicle'
+    ]);
+    expect(diff.relationships).toEqual([
+      {
+        id: 'r1',
+        type: 'modified',
+        before: base.relationships[0],
+        after: after.relationships[0],
+        changes: [{ path: ['label'], after: 'engine' }]
+      }
+    ]);
+    expect(diffModels(base, base)).toEqual({ nodes: [], relationships: [] });
+  });
+
+  it('should report a changed kind and whole values of unnamed lists', () => {
+    const after: SysMLModel = {
+      nodes: [{ kind: 'part-usage', spec: { id: 'Engine', name: 'Engine', parts: ['piston'] } }],
+      relationships: []
+    };
+
+    expect(diffModels({ nodes: [base.nodes[1]], relationships: [] }, after).nodes[0].changes).toEqual([
+      { path: ['kind'], before: 'part-definition', after: 'part-usage' },
+      { path: ['parts'], after: ['piston'] }
+    ]);
+  });
+});
+
+describe('Model Merge', () => {
+  it('should combine changes to different fields and elements', () => {
+    const ours: SysMLModel = {
+      nodes: [
+        ...withVehicle(base, {
+          attributes: [
+            { name: 'mass', type: 'Real', multiplicity: '0..1' },
+            { name: 'speed', type: 'Real' }
+          ]
+        }).nodes,
+        { kind: 'part-definition', spec: { id: 'Battery', name: 'Battery' } }
+      ],
+      relationships: base.relationships
+    };
+    const theirs: SysMLModel = {
+      nodes: withVehicle(base, {
+        description: 'Road vehicle',
+        attributes: [...(vehicle.spec as { attributes: object[] }).attributes, { name: 'range', type: 'Real' }]
+      }).nodes.filter((node) => node.spec.id !== 'Wheel'),
+      relationships: [base.relationships[0], { id: 'r3', type: 'dependency', source: 'Vehicle', target: 'Engine' }]
+    };
+
+    const { model, conflicts } = mergeModels(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(model.nodes.map((node) => node.spec.id)).toEqual(['Vehicle', 'Engine', 'Battery']);
+    expect(model.nodes[0].spec).toEqual({
+      id: 'Vehicle',
+      name: 'Vehicle',
+      description: 'Road vehicle',
+      attributes: [
+        { name: 'mass', type: 'Real', multiplicity: '0..1' },
+        { name: 'speed', type: 'Real' },
+        { name: 'range', type: 'Real' }
+      ],
+      ports: [{ name: 'fuel', type: 'FuelPort' }]
+    });
+    expect(model.relationships.map((relationship) => relationship.id)).toEqual(['r1', 'r3']);
+  });
+
+  it('should report conflicting changes and keep ours', () => {
+    const ours: SysMLModel = {
+      nodes: withVehicle(base, { attributes: [{ name: 'mass', type: 'Real', multiplicity: '0..1' }] }).nodes.filter(
+        (node) => node.spec.id !== 'Engine'
+      ),
+      relationships: [{ ...base.relationships[1], type: 'composition' }]
+    };
+    const theirs: SysMLModel = {
+      nodes: withVehicle(base, { attributes: [{ name: 'mass', type: 'Real', multiplicity: '2' }] }).nodes.map((node) =>
+        node.spec.id === 'Engine' ? { kind: 'part-definition', spec: { id: 'Engine', name: 'Motor' } } : node
+      ),
+      relationships: [base.relationships[0], { ...base.relationships[1], type: 'satisfy' }]
+    };
+
+    const { model, conflicts } = mergeModels(base, ours, theirs);
+
+    expect(conflicts).toEqual([
+      {
+        element: 'node',
+        id: 'Vehicle',
+        path: ['attributes', 'mass', 'multiplicity'],
+        base: '1',
+        ours: '0..1',
+        theirs: '2'
+      },
+      {
+        element: 'node',
+        id: 'Engine',
+        path: [],
+        base: base.nodes[1],
+        theirs: { kind: 'part-definition', spec: { id: 'Engine', name: 'Motor' } }
+      },
+      { element: 'relationship', id: 'r2', path: ['type'], base: 'dependency', ours: 'composition', theirs: 'satisfy' }
+    ]);
+    expect(model.nodes.map((node) => node.spec.id)).toEqual(['Vehicle', 'Wheel']);
+    expect(model.relationships).toEqual(ours.relationships);
+  });
+});
+
+describe('Diff View', () => {
+  it('should mark added, removed and modified elements', () => {
+    const after = withVehicle(
+      { nodes: base.nodes.filter((node) => node.spec.id !== 'Wheel'), relationships: [base.relationships[0]] },
+      { name: 'Car' }
+    );
+    const diff = diffModels(base, after);
+    const shown = withRemovedElements(after, diff);
+    const { nodes, edges } = attachDiff(
+      createNodesFromSpecs(shown.nodes),
+      createEdgesFromRelationships(shown.relationships),
+      diff
+    );
+
+    expect(nodes.map((node) => [node.id, node.data.diff])).toEqual([
+      ['Vehicle', { type: 'modified', changes: ['name: Vehicle → Car'] }],
+      ['Engine', undefined],
+      ['Wheel', { type: 'removed' }]
+    ]);
+    expect(nodes[2].style).toMatchObject({ opacity: 0.5 });
+    expect(edges.map((edge) => edge.data?.diff)).toEqual([undefined, { type: 'removed' }]);
+  });
+});
@@ -0,0 +1,341 @@
+import type {
+  SysMLDiffMarker,
+  SysMLEdgeData,
+  SysMLNodeSpec,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode,
+  SysMLRelationshipSpec
+} from './types';
+import type { SysMLModel } from './viewpoints';
+
+/** A changed value inside a spec. */
+export interface SysMLFieldChange {
+  /**
+   * Field path inside the spec. Entries of lists are named by their id, name
+   * or key, so `['attributes', 'mass', 'multiplicity']` is the multiplicity of
+   * the `mass` attribute.
+   */
+  path: string[];
+  /** Unset when the field was added. */
+  before?: unknown;
+  /** Unset when the field was removed. */
+  after?: unknown;
+}
+
+export type SysMLChangeType = SysMLDiffMarker['type'];
+
+export interface SysMLElementChange<T> {
+  id: string;
+  type: SysMLChangeType;
+  before?: T;
+  after?: T;
+  /** Changed fields of a modified element; empty for added and removed ones. */
+  changes: SysMLFieldChange[];
+}
+
+export interface SysMLModelDiff {
+  nodes: SysMLElementChange<SysMLNodeSpec>[];
+  relationships: SysMLElementChange<SysMLRelationshipSpec>[];
+}
+
+export interface SysMLMergeConflict {
+  element: 'node' | 'relationship';
+  id: string;
+  /** Conflicting field, as in `SysMLFieldChange`; empty when one side removed the element and the other changed it. */
+  path: string[];
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface SysMLMergeResult {
+  /** Merged model; conflicting values are taken from `ours`. */
+  model: SysMLModel;
+  conflicts: SysMLMergeConflict[];
+}
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Unset fields and fields set to undefined are the same
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isFields(a) && isFields(b)) {
+    return unionKeys(Object.keys(a), Object.keys(b)).every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+const unionKeys = (first: string[], second: string[]) => [...first, ...second.filter((key) => !first.includes(key))];
+
+const entryKeys = ['id', 'name', 'key'];
+
+/** Field naming the entries of lists of objects, when every entry of every list has a distinct one. */
+const listKey = (...lists: unknown[][]) =>
+  entryKeys.find((key) =>
+    lists.every((list) => {
+      const names = list.map((entry) => (isFields(entry) ? entry[key] : undefined));
+      return names.every((name) => typeof name === 'string') && new Set(names).size === names.length;
+    })
+  );
+
+const entriesByKey = (list: unknown[], key: string) =>
+  new Map(list.map((entry) => [(entry as Fields)[key] as string, entry]));
+
+const diffValues = (before: unknown, after: unknown, path: string[], changes: SysMLFieldChange[]) => {
+  if (isEqual(before, after)) {
+    return;
+  }
+  if (isFields(before) && isFields(after)) {
+    unionKeys(Object.keys(before), Object.keys(after)).forEach((key) =>
+      diffValues(before[key], after[key], [...path, key], changes)
+    );
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const key = listKey(before, after);
+    if (key) {
+      const beforeEntries = entriesByKey(before, key);
+      const afterEntries = entriesByKey(after, key);
+      unionKeys([...beforeEntries.keys()], [...afterEntries.keys()]).forEach((name) =>
+        diffValues(beforeEntries.get(name), afterEntries.get(name), [...path, name], changes)
+      );
+      return;
+    }
+  }
+  changes.push({ path, ...(before !== undefined && { before }), ...(after !== undefined && { after }) });
+};
+
+const diffElements = <T>(
+  before: T[],
+  after: T[],
+  idOf: (element: T) => string,
+  fieldChanges: (before: T, after: T) => SysMLFieldChange[]
+): SysMLElementChange<T>[] => {
+  const beforeById = new Map(before.map((element) => [idOf(element), element]));
+  const afterById = new Map(after.map((element) => [idOf(element), element]));
+  return unionKeys([...beforeById.keys()], [...afterById.keys()]).flatMap((id): SysMLElementChange<T>[] => {
+    const previous = beforeById.get(id);
+    const next = afterById.get(id);
+    if (previous === undefined) {
+      return [{ id, type: 'added', after: next, changes: [] }];
+    }
+    if (next === undefined) {
+      return [{ id, type: 'removed', before: previous, changes: [] }];
+    }
+    const changes = fieldChanges(previous, next);
+    return changes.length > 0 ? [{ id, type: 'modified', before: previous, after: next, changes }] : [];
+  });
+};
+
+/**
+ * Compare two versions of a model. Nodes and relationships are matched by id;
+ * a modified element lists its changes field by field, down to single
+ * entries of attribute, port and tag lists. Reordering a list of named
+ * entries is not a change.
+ *
+ * @example
+ * ```typescript
+ * const { nodes } = diffModels(before, after);
+ * nodes[0].changes; // [{ path: ['attributes', 'mass', 'multiplicity'], before: '1', after: '0..1' }]
+ * ```
+ */
+export const diffModels = (before: SysMLModel, after: SysMLModel): SysMLModelDiff => ({
+  nodes: diffElements(
+    before.nodes,
+    after.nodes,
+    (node) => node.spec.id,
+    (previous, next) => {
+      const changes: SysMLFieldChange[] =
+        previous.kind === next.kind ? [] : [{ path: ['kind'], before: previous.kind, after: next.kind }];
+      diffValues(previous.spec, next.spec, [], changes);
+      return changes;
+    }
+  ),
+  relationships: diffElements(
+    before.relationships,
+    after.relationships,
+    (relationship) => relationship.id,
+    (previous, next) => {
+      const changes: SysMLFieldChange[] = [];
+      diffValues(previous, next, [], changes);
+      return changes;
+    }
+  )
+});
+
+const formatValue = (value: unknown) =>
+  value === undefined ? 'none' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/** One line describing a field change, e.g. `attributes.mass.multiplicity: 1 → 0..1`. */
+export const formatFieldChange = (change: SysMLFieldChange) =>
+  `${change.path.join('.')}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+
+type ConflictReporter = (path: string[], base: unknown, ours: unknown, theirs: unknown) => void;
+
+const mergeValues = (
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string[],
+  conflict: ConflictReporter
+): unknown => {
+  if (isEqual(ours, theirs) || isEqual(base, theirs)) {
+    return ours;
+  }
+  if (isEqual(base, ours)) {
+    return theirs;
+  }
+  if (isFields(ours) && isFields(theirs) && (base === undefined || isFields(base))) {
+    const previous = base ?? {};
+    const merged: Fields = {};
+    unionKeys(Object.keys(ours), Object.keys(theirs)).forEach((key) => {
+      const value = mergeValues(previous[key], ours[key], theirs[key], [...path, key], conflict);
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    });
+    return merged;
+  }
+  if (Array.isArray(ours) && Array.isArray(theirs) && (base === undefined || Array.isArray(base))) {
+    const previous = base ?? [];
+    const key = listKey(previous, ours, theirs);
+    if (key) {
+      const baseEntries = entriesByKey(previous, key);
+      const ourEntries = entriesByKey(ours, key);
+      const theirEntries = entriesByKey(theirs, key);
+      return unionKeys([...ourEntries.keys()], [...theirEntries.keys()])
+        .map((name) =>
+          mergeValues(baseEntries.get(name), ourEntries.get(name), theirEntries.get(name), [...path, name], conflict)
+        )
+        .filter((entry) => entry !== undefined);
+    }
+  }
+  conflict(path, base, ours, theirs);
+  return ours;
+};
+
+const mergeNodes = (
+  base: SysMLNodeSpec | undefined,
+  ours: SysMLNodeSpec | undefined,
+  theirs: SysMLNodeSpec | undefined,
+  conflict: ConflictReporter
+) => {
+  if (ours && theirs && ours.kind === theirs.kind) {
+    return { kind: ours.kind, spec: mergeValues(base?.spec, ours.spec, theirs.spec, [], conflict) } as SysMLNodeSpec;
+  }
+  if (ours && theirs && !isEqual(base, ours) && !isEqual(base, theirs)) {
+    conflict(['kind'], base?.kind, ours.kind, theirs.kind);
+    return ours;
+  }
+  return mergeValues(base, ours, theirs, [], conflict) as SysMLNodeSpec | undefined;
+};
+
+/**
+ * Three-way merge of two versions of a model edited from a common base.
+ * Changes made on one side only are taken as they are, and changes to
+ * different fields of the same element are combined; the same field changed
+ * differently on both sides, or an element removed on one side and changed
+ * on the other, is a conflict that keeps `ours`. Elements keep the order of
+ * `ours`, followed by the elements added in `theirs`. Relationships may be
+ * left pointing at a removed node; `validateModel` reports them.
+ */
+export const mergeModels = (base: SysMLModel, ours: SysMLModel, theirs: SysMLModel): SysMLMergeResult => {
+  const conflicts: SysMLMergeConflict[] = [];
+
+  const mergeElements = <T>(
+    element: SysMLMergeConflict['element'],
+    lists: [T[], T[], T[]],
+    idOf: (element: T) => string,
+    merge: (base: T | undefined, ours: T | undefined, theirs: T | undefined, conflict: ConflictReporter) => unknown
+  ) => {
+    const [baseById, ourById, theirById] = lists.map((list) => new Map(list.map((item) => [idOf(item), item])));
+    return unionKeys([...ourById.keys()], [...theirById.keys()]).flatMap((id) => {
+      const report: ConflictReporter = (path, baseValue, ourValue, theirValue) =>
+        conflicts.push({
+          element,
+          id,
+          path,
+          ...(baseValue !== undefined && { base: baseValue }),
+          ...(ourValue !== undefined && { ours: ourValue }),
+          ...(theirValue !== undefined && { theirs: theirValue })
+        });
+      const merged = merge(baseById.get(id), ourById.get(id), theirById.get(id), report);
+      return merged === undefined ? [] : [merged as T];
+    });
+  };
+
+  return {
+    model: {
+      nodes: mergeElements('node', [base.nodes, ours.nodes, theirs.nodes], (node) => node.spec.id, mergeNodes),
+      relationships: mergeElements(
+        'relationship',
+        [base.relationships, ours.relationships, theirs.relationships],
+        (relationship) => relationship.id,
+        (baseRelationship, ourRelationship, theirRelationship, conflict) =>
+          mergeValues(baseRelationship, ourRelationship, theirRelationship, [], conflict)
+      )
+    },
+    conflicts
+  };
+};
+
+const removedElements = <T>(changes: SysMLElementChange<T>[]) =>
+  changes.flatMap((change) => (change.type === 'removed' && change.before ? [change.before] : []));
+
+/** A model with the elements a diff removed added back, to draw them in a diff view. */
+export const withRemovedElements = (model: SysMLModel, diff: SysMLModelDiff): SysMLModel => ({
+  nodes: [...model.nodes, ...removedElements(diff.nodes)],
+  relationships: [...model.relationships, ...removedElements(diff.relationships)]
+});
+
+/** Outline colors of added, removed and modified elements in a diff view. */
+export const diffColors: Record<SysMLChangeType, string> = {
+  added: '#24a148',
+  removed: '#da1e28',
+  modified: '#4589ff'
+};
+
+const removedOpacity = 0.5;
+
+const markerOf = (change: SysMLElementChange<unknown>): SysMLDiffMarker => ({
+  type: change.type,
+  ...(change.changes.length > 0 && { changes: change.changes.map(formatFieldChange) })
+});
+
+/**
+ * Show a diff on a diagram: added, removed and modified nodes and edges are
+ * outlined in their own color, with the changed fields on hover. Removed
+ * elements are only drawn when the diagram includes them, see
+ * `withRemovedElements`.
+ */
+export const attachDiff = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[],
+  diff: SysMLModelDiff
+): { nodes: SysMLReactFlowNode[]; edges: SysMLReactFlowEdge[] } => {
+  const nodeChanges = new Map(diff.nodes.map((change) => [change.id, markerOf(change)]));
+  const edgeChanges = new Map(diff.relationships.map((change) => [change.id, markerOf(change)]));
+  const fade = <T extends { style?: SysMLReactFlowNode['style'] }>(element: T, marker: SysMLDiffMarker) =>
+    marker.type === 'removed' ? { style: { ...element.style, opacity: removedOpacity } } : {};
+
+  return {
+    nodes: nodes.map((node) => {
+      const marker = nodeChanges.get(node.id);
+      return marker ? { ...node, data: { ...node.data, diff: marker }, ...fade(node, marker) } : node;
+    }),
+    edges: edges.map((edge) => {
+      const marker = edgeChanges.get(edge.id);
+      return marker
+        ? { ...edge, data: { ...(edge.data as SysMLEdgeData), diff: marker }, ...fade(edge, marker) }
+        : edge;
+    })
+  };
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { render } from '@testing-library/react';
+import { fireEvent, render } from '@testing-library/react';
 import { ReactFlowProvider } from 'reactflow';
 import { sysmlNodeTypes } from './nodes';
 import type { SysMLNodeData } from './types';
@@ -80,6 +80,36 @@ describe('Node Components', () => {
       expect(getByText(/approved/i)).toBeDefined();
     });
 
+    it('should mark unresolved variation points', () => {
+      const data: SysMLNodeData = {
+        id: 'test-1',
+        name: 'Engine',
+        kind: 'part-definition',
+        elementKind: 'definition',
+        variability: { variation: 'unresolved', variant: 'selected' }
+      };
+
+      const { container, getByText } = renderNode(DefinitionNode, data);
+      expect(container.querySelector('.sysml-variability-unresolved')).not.toBeNull();
+      expect(getByText('variation ?')).toBeDefined();
+      expect(getByText('✓ variant')).toBeDefined();
+    });
+
+    it('should list the changed fields of a modified node on hover', () => {
+      const data: SysMLNodeData = {
+        id: 'test-1',
+        name: 'Vehicle',
+        kind: 'part-definition',
+        elementKind: 'definition',
+        diff: { type: 'modified', changes: ['attributes.mass.multiplicity: 1 → 0..1'] }
+      };
+
+      const { container, getByText, queryByRole } = renderNode(DefinitionNode, data);
+      expect(queryByRole('tooltip')).toBeNull();
+      fireEvent.mouseEnter(container.querySelector('.sysml-diff-badge--modified')!);
+      expect(getByText('attributes.mass.multiplicity: 1 → 0..1')).toBeDefined();
+    });
+
     it('should render documentation', () => {
       const data: SysMLNodeData = {
         id: 'test-1',
@@ -127,6 +157,39 @@ describe('Node Components', () => {
       expect(getByText('mass')).toBeDefined();
       expect(getByText('speed')).toBeDefined();
     });
+
+    it('should render boundary ports with a handle per port', () => {
+      const data: SysMLNodeData = {
+        id: 'engine',
+        name: 'engine',
+        kind: 'part-usage',
+        elementKind: 'usage',
+        portsOnBoundary: true,
+        ports: [
+          { name: 'fuelIn', type: '~FuelPort', direction: 'in', conjugated: true, side: 'left', offset: 0.5 },
+          { name: 'torque', direction: 'out', conjugated: false, side: 'right', offset: 0.5 }
+        ]
+      };
+
+      const { container, getByText, getByLabelText } = renderNode(DefinitionNode, data);
+      expect(getByText('fuelIn : ~FuelPort')).toBeDefined();
+      expect(getByLabelText('in port fuelIn : ~FuelPort').className).toContain('sysml-port-conjugated');
+      expect(getByLabelText('out port torque').textContent).toBe('▸');
+      expect(container.querySelectorAll('[data-handleid="port:fuelIn"]')).toHaveLength(2);
+    });
+
+    it('should keep port handles hidden without boundary ports', () => {
+      const data: SysMLNodeData = {
+        id: 'engine',
+        name: 'engine',
+        kind: 'part-usage',
+        ports: [{ name: 'fuelIn', direction: 'in', conjugated: false, side: 'left', offset: 0.5 }]
+      };
+
+      const { container, queryByText } = renderNode(DefinitionNode, data);
+      expect(queryByText('fuelIn')).toBeNull();
+      expect(container.querySelector<HTMLElement>('.sysml-port')?.style.opacity).toBe('0');
+    });
   });
 
   describe('RequirementNode', () => {
@@ -161,6 +224,27 @@ describe('Node Components', () => {
       const { getByText } = renderNode(RequirementNode, data);
       expect(getByText('The system shall maintain temperature')).toBeDefined();
     });
+
+    it('should render a coverage ring', () => {
+      const data: SysMLNodeData = {
+        id: 'req-1',
+        name: 'ThermalRequirement',
+        kind: 'requirement-definition',
+        elementKind: 'definition',
+        coverage: {
+          satisfied: true,
+          verified: false,
+          satisfiedPercent: 100,
+          verifiedPercent: 50,
+          verificationMethods: ['test']
+        }
+      };
+
+      const { container, getByText } = renderNode(RequirementNode, data);
+      expect(getByText('Satisfied · 100%')).toBeDefined();
+      expect(getByText('Unverified · 50%')).toBeDefined();
+      expect(container.querySelector('.sysml-coverage-ring')).toHaveAttribute('title', 'Satisfied 100% · Verified 50% · test');
+    });
   });
 
   describe('StateNode', () => {
@@ -203,6 +287,69 @@ describe('Node Components', () => {
       expect(getByText('monitor()')).toBeDefined();
       expect(getByText('powerOff()')).toBeDefined();
     });
+
+    it('should draw region separators in expanded parallel states', () => {
+      const data: SysMLNodeData = {
+        id: 'driving',
+        name: 'Driving',
+        kind: 'state-usage',
+        isParallel: true,
+        container: { childCount: 2, collapsed: false, regions: [{ orientation: 'vertical', x: 280, y: 88 }] }
+      };
+
+      const { container, getByText } = renderNode(StateNode, data);
+      expect(getByText('parallel')).toBeDefined();
+      const separator = container.querySelector<HTMLElement>('.sysml-region-separator');
+      expect([separator?.style.left, separator?.style.top, separator?.style.bottom]).toEqual(['280px', '88px', '0px']);
+
+      const collapsed = renderNode(StateNode, {
+        ...data,
+        container: { childCount: 2, collapsed: true, regions: data.container?.regions }
+      });
+      expect(collapsed.container.querySelector('.sysml-region-separator')).toBeNull();
+    });
+
+    it('should ring states active in a simulation', () => {
+      const data: SysMLNodeData = { id: 'idle', name: 'Idle', kind: 'state', active: true };
+
+      const { container } = renderNode(StateNode, data);
+      const ringed = Array.from(container.querySelectorAll<HTMLElement>('div')).filter((element) =>
+        element.style.boxShadow.startsWith('0 0 0 3px')
+      );
+      expect(ringed).toHaveLength(1);
+      expect(ringed[0].style.boxShadow).not.toContain('none');
+    });
+  });
+
+  describe('ActivityControlNode', () => {
+    const ActivityControlNode = sysmlNodeTypes['sysml.activity-control'];
+
+    it('should render initial and final nodes as a dot and a bullseye', () => {
+      const initial = renderNode(ActivityControlNode, { id: 'i', name: 'begin', kind: 'activity-control', controlType: 'initial' });
+      expect((initial.getByLabelText('initial begin').firstElementChild as HTMLElement).style.borderRadius).toBe('50%');
+
+      const final = renderNode(ActivityControlNode, { id: 'z', name: 'end', kind: 'activity-control', controlType: 'final' });
+      expect(final.getByLabelText('final end').firstElementChild?.childElementCount).toBe(1);
+    });
+  });
+
+  describe('PseudoStateNode', () => {
+    const PseudoStateNode = sysmlNodeTypes['sysml.pseudo-state'];
+
+    it('should render history pseudostates as a circled H', () => {
+      const data: SysMLNodeData = { id: 'h', name: 'resume', kind: 'pseudo-state', pseudoType: 'deep-history' };
+
+      const { container, getByText } = renderNode(PseudoStateNode, data);
+      expect(getByText('H*')).toBeDefined();
+      expect(container.querySelector('.sysml-pseudo-state')?.className).toContain('sysml-pseudo-state-deep-history');
+    });
+
+    it('should render fork and join pseudostates as bars', () => {
+      const data: SysMLNodeData = { id: 'split', name: 'split', kind: 'pseudo-state', pseudoType: 'fork' };
+
+      const { getByLabelText } = renderNode(PseudoStateNode, data);
+      expect((getByLabelText('fork split').firstElementChild as HTMLElement).style.height).toBe('10px');
+    });
   });
 
   describe('ActivityNode', () => {
@@ -260,6 +407,72 @@ describe('Node Components', () => {
       const { getByText } = renderNode(LifelineNode, data);
       expect(getByText('Controller')).toBeDefined();
     });
+
+    it('should render activation bars and the laid out height', () => {
+      const data: SysMLNodeData = {
+        id: 'lifeline-1',
+        name: 'Controller',
+        kind: 'sequence-lifeline',
+        lifeline: {
+          height: 400,
+          activations: [
+            { top: 100, bottom: 280, depth: 0 },
+            { top: 190, bottom: 250, depth: 1 }
+          ]
+        }
+      };
+
+      const { container } = renderNode(LifelineNode, data);
+      const bars = container.querySelectorAll<HTMLElement>('.sysml-activation');
+      expect((bars[0].parentElement as HTMLElement).style.height).toBe('400px');
+      expect([...bars].map((bar) => [bar.style.top, bar.style.height, bar.style.left])).toEqual([
+        ['98px', '180px', '63px'],
+        ['188px', '60px', '68px']
+      ]);
+    });
+  });
+
+  describe('SequenceFragmentNode', () => {
+    const FragmentNode = sysmlNodeTypes['sysml.sequence-fragment'];
+
+    it('should render the operator and operand guards', () => {
+      const data: SysMLNodeData = {
+        id: 'check',
+        name: 'check',
+        kind: 'sequence-fragment',
+        fragment: {
+          operator: 'alt',
+          operands: [
+            { guard: 'ok', messages: ['m1'], top: 0 },
+            { guard: 'else', messages: ['m2'], top: 84 }
+          ]
+        }
+      };
+
+      const { container, getByText } = renderNode(FragmentNode, data);
+      expect(getByText('alt').className).toBe('sysml-fragment-operator');
+      expect(getByText('[ok]')).toBeDefined();
+      expect(getByText('[else]').style.top).toBe('88px');
+    });
+  });
+
+  describe('ParametricNode', () => {
+    const ParametricNode = sysmlNodeTypes['sysml.constraint-usage'];
+
+    it('should render the constraint result and the values it was checked against', () => {
+      const data: SysMLNodeData = {
+        id: 'limit',
+        name: 'massLimit',
+        kind: 'constraint-usage',
+        emphasis: 'car.totalMass <= 2000',
+        evaluation: { status: 'violated', inputs: [{ label: 'car.totalMass', value: '2100' }] }
+      };
+
+      const { container, getByText } = renderNode(ParametricNode, data);
+      expect(container.querySelector('.sysml-evaluation-violated')).not.toBeNull();
+      expect(getByText('✗ violated')).toBeDefined();
+      expect(getByText('car.totalMass = 2100')).toBeDefined();
+    });
   });
 
   describe('Node Type Registry', () => {
@@ -1,10 +1,32 @@
-import { memo, type ReactNode } from 'react';
+import { Fragment, memo, useContext, useState, type ReactNode } from 'react';
 import type { NodeProps, NodeTypes } from 'reactflow';
 import { Handle, Position } from 'reactflow';
 
-import type { SysMLCompartment, SysMLNodeData } from './types';
+import { SysMLContainmentContext } from './containment';
+import { ProblemBadge, problemColors, worstSeverity } from './diagnostics';
+import { SysMLEditingContext } from './editing';
+import { diffColors } from './modelDiff';
+import { portHandleId, portSize } from './ports';
+import { simulationHighlightColor } from './simulation';
+import {
+  activationIndent,
+  activationWidth,
+  defaultLifelineHeight,
+  lifelineHeaderHeight,
+  lifelineWidth
+} from './sequence';
+import type {
+  SysMLBoundaryPort,
+  SysMLCompartment,
+  SysMLCoverageMarker,
+  SysMLDiffMarker,
+  SysMLEvaluationMarker,
+  SysMLNodeData,
+  SysMLRegionSeparator,
+  SysMLVariabilityMarker
+} from './types';
 
-const accentByKind: Record<string, string> = {
+export const accentByKind: Record<string, string> = {
   // Base node types (used in factories)
   state: '#33B1FF',
   'state-machine': '#3DDBD9',
@@ -44,6 +66,7 @@ const accentByKind: Record<string, string> = {
   'state-usage': '#33B1FF',
   'transition-usage': '#82CFFF',
   'exhibit-state': '#D0E2FF',
+  'pseudo-state': '#33B1FF',
   // Requirements & Cases
   'requirement-definition': '#0043CE',
   'requirement-usage': '#0F62FE',
@@ -61,6 +84,7 @@ const accentByKind: Record<string, string> = {
   package: '#6929C4',
   'library-package': '#8A3FFC',
   // Interactions
+  'sequence-fragment': '#C6C6C6',
   interaction: '#EE5396',
   // Metadata
   'metadata-definition': '#525252',
@@ -90,27 +114,251 @@ const hiddenHandleStyle = {
   pointerEvents: 'none'
 } as const;
 
-const HiddenHandles = () => (
-  <>
-    <Handle type="target" position={Position.Top} style={hiddenHandleStyle} />
-    <Handle type="source" position={Position.Right} style={hiddenHandleStyle} />
-    <Handle type="target" position={Position.Bottom} style={hiddenHandleStyle} />
-    <Handle type="source" position={Position.Left} style={hiddenHandleStyle} />
-  </>
+const editingHandleStyle = {
+  width: 10,
+  height: 10,
+  background: '#f4f4f4',
+  border: '2px solid #0f62fe'
+} as const;
+
+// Invisible anchors for edges; visible and connectable in editing mode
+const HiddenHandles = () => {
+  const editing = useContext(SysMLEditingContext);
+  const style = editing ? editingHandleStyle : hiddenHandleStyle;
+  return (
+    <>
+      <Handle type="target" position={Position.Top} style={style} isConnectable={editing} />
+      <Handle type="source" position={Position.Right} style={style} isConnectable={editing} />
+      <Handle type="target" position={Position.Bottom} style={style} isConnectable={editing} />
+      <Handle type="source" position={Position.Left} style={style} isConnectable={editing} />
+    </>
+  );
+};
+
+// Arrow pointing into the node for `in` ports and out of it for `out` ports
+const portArrow = (port: SysMLBoundaryPort) => {
+  if (!port.direction) {
+    return '';
+  }
+  if (port.direction === 'inout') {
+    return '↔';
+  }
+  return (port.side === 'left') === (port.direction === 'in') ? '▸' : '◂';
+};
+
+// A connection handle per port: squares on the border when `portsOnBoundary`,
+// invisible anchors otherwise so that port connections still attach
+const PortHandles = ({ data }: { data: SysMLNodeData }) => {
+  const editing = useContext(SysMLEditingContext);
+  if (!data.ports?.length) {
+    return null;
+  }
+  const accent = data.accent ?? accentByKind[data.kind] ?? '#262626';
+
+  return (
+    <>
+      {data.ports.map((port) => {
+        const position = port.side === 'left' ? Position.Left : Position.Right;
+        const placement = {
+          top: `${port.offset * 100}%`,
+          [port.side]: -portSize / 2,
+          transform: 'translate(0, -50%)'
+        };
+        const label = port.type ? `${port.name} : ${port.type}` : port.name;
+        const style = data.portsOnBoundary
+          ? {
+              ...placement,
+              width: portSize,
+              height: portSize,
+              borderRadius: 0,
+              border: `2px solid ${accent}`,
+              // Conjugated ports are drawn filled
+              background: port.conjugated ? accent : '#151515',
+              color: port.conjugated ? '#151515' : '#f4f4f4',
+              fontSize: 8,
+              lineHeight: `${portSize - 4}px`,
+              textAlign: 'center' as const
+            }
+          : { ...hiddenHandleStyle, ...placement };
+        return (
+          <Fragment key={port.name}>
+            <Handle
+              id={portHandleId(port.name)}
+              type="target"
+              position={position}
+              style={{ ...style, opacity: 0 }}
+              isConnectable={editing}
+            />
+            <Handle
+              id={portHandleId(port.name)}
+              type="source"
+              position={position}
+              className={port.conjugated ? 'sysml-port sysml-port-conjugated' : 'sysml-port'}
+              style={style}
+              isConnectable={editing}
+              title={label}
+              aria-label={`${port.direction ?? ''} port ${label}`.trim()}
+            >
+              {data.portsOnBoundary && portArrow(port)}
+            </Handle>
+            {data.portsOnBoundary && (
+              <div
+                className="sysml-port-label"
+                style={{
+                  position: 'absolute',
+                  top: `${port.offset * 100}%`,
+                  [port.side === 'left' ? 'right' : 'left']: `calc(100% + ${portSize}px)`,
+                  transform: 'translate(0, -50%)',
+                  fontSize: 11,
+                  color: '#c6c6c6',
+                  whiteSpace: 'nowrap',
+                  pointerEvents: 'none'
+                }}
+              >
+                {label}
+              </div>
+            )}
+          </Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+// Problem ring, with the simulation's active ring and the diff ring around it
+const problemRing = (data: SysMLNodeData, shadow: string) => {
+  const severity = worstSeverity(data.problems);
+  const colors = [
+    severity ? problemColors[severity] : undefined,
+    data.active ? simulationHighlightColor : undefined,
+    data.diff ? diffColors[data.diff.type] : undefined
+  ].filter((color) => color !== undefined);
+  const rings = colors.map((color, index) => `0 0 0 ${3 * (index + 1)}px ${color}`);
+  return rings.length > 0 ? [...rings, ...(shadow === 'none' ? [] : [shadow])].join(', ') : shadow;
+};
+
+// Badge pinned to the top-right corner of nodes without a NodeChrome header
+const CornerProblemBadge = ({ data }: { data: SysMLNodeData }) => (
+  <ProblemBadge problems={data.problems} style={{ position: 'absolute', top: -10, right: -10, zIndex: 1 }} />
+);
+
+// Collapse/expand button in the header of nodes with nested children
+const ContainerToggle = ({ data }: { data: SysMLNodeData }) => {
+  const toggle = useContext(SysMLContainmentContext);
+  if (!data.container || !toggle) {
+    return null;
+  }
+  const { collapsed, childCount } = data.container;
+  return (
+    <button
+      type="button"
+      className="sysml-container-toggle nodrag"
+      aria-expanded={!collapsed}
+      aria-label={`${collapsed ? 'Expand' : 'Collapse'} ${data.name}`}
+      title={collapsed ? `${childCount} nested` : undefined}
+      onClick={() => toggle(data.id)}
+      style={{
+        background: 'transparent',
+        border: 'none',
+        color: 'inherit',
+        font: 'inherit',
+        fontSize: 12,
+        cursor: 'pointer',
+        padding: 0,
+        marginRight: 6
+      }}
+    >
+      {collapsed ? `▸ ${childCount}` : '▾'}
+    </button>
+  );
+};
+
+// Added/removed/modified marker of a diff view, listing the changed fields on hover
+const DiffBadge = ({ diff }: { diff: SysMLDiffMarker }) => {
+  const [open, setOpen] = useState(false);
+  return (
+    <span
+      className={`sysml-diff-badge sysml-diff-badge--${diff.type}`}
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+      style={{ position: 'relative', fontSize: 11, fontWeight: 600, color: diffColors[diff.type] }}
+    >
+      {diff.type}
+      {open && diff.changes && (
+        <span
+          role="tooltip"
+          className="sysml-diff-tooltip"
+          style={{
+            position: 'absolute',
+            top: '100%',
+            right: 0,
+            marginTop: 4,
+            zIndex: 10,
+            minWidth: 220,
+            maxWidth: 320,
+            padding: '6px 8px',
+            borderRadius: 4,
+            background: 'rgba(22, 22, 22, 0.97)',
+            border: `1px solid ${diffColors[diff.type]}`,
+            color: '#f4f4f4',
+            fontWeight: 400,
+            textTransform: 'none',
+            letterSpacing: 0,
+            whiteSpace: 'normal',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 2
+          }}
+        >
+          {diff.changes.map((change) => (
+            <span key={change}>{change}</span>
+          ))}
+        </span>
+      )}
+    </span>
+  );
+};
+
+const variabilityColors = { unresolved: '#f1c21b', resolved: '#8a3ffc', selected: '#24a148', unselected: '#8d8d8d' };
+
+// «variation» and «variant» keywords, colored by the state of the configuration
+const VariabilityBadge = ({ variability }: { variability: SysMLVariabilityMarker }) => (
+  <span style={{ display: 'flex', gap: 4 }}>
+    {variability.variant && (
+      <span
+        className={`sysml-variability sysml-variability-${variability.variant}`}
+        style={{ fontSize: 11, fontWeight: 600, color: variabilityColors[variability.variant] }}
+      >
+        {variability.variant === 'selected' ? '✓ variant' : 'variant'}
+      </span>
+    )}
+    {variability.variation && (
+      <span
+        className={`sysml-variability sysml-variability-${variability.variation}`}
+        title={variability.variation === 'unresolved' ? 'No variant selected' : undefined}
+        style={{ fontSize: 11, fontWeight: 600, color: variabilityColors[variability.variation] }}
+      >
+        {variability.variation === 'unresolved' ? 'variation ?' : 'variation'}
+      </span>
+    )}
+  </span>
 );
 
 const NodeChrome = ({ data, children }: ChromeProps) => {
-  const accent = accentByKind[data.kind] ?? '#262626';
+  const accent = data.accent ?? accentByKind[data.kind] ?? '#262626';
+  // Expanded containers fill the size computed by nestNodes or the layout
+  const expandedContainer = data.container && !data.container.collapsed;
   return (
     <div
       style={{
         borderRadius: 6,
-        border: `2px solid ${accent}`,
-        background: '#151515',
+        border: `2px ${data.variability?.variation === 'unresolved' ? 'dashed' : 'solid'} ${accent}`,
+        background: expandedContainer ? 'rgba(21,21,21,0.6)' : '#151515',
         color: '#f4f4f4',
         fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
         minWidth: 220,
-        boxShadow: '0 4px 16px rgba(0,0,0,0.35)'
+        ...(expandedContainer ? { width: '100%', height: '100%', boxSizing: 'border-box' as const } : {}),
+        boxShadow: problemRing(data, '0 4px 16px rgba(0,0,0,0.35)')
       }}
     >
       <div
@@ -123,6 +371,7 @@ const NodeChrome = ({ data, children }: ChromeProps) => {
         }}
       >
         <div style={{ fontSize: 12, textTransform: 'uppercase', letterSpacing: 1 }}>
+          <ContainerToggle data={data} />
           {'<<'}
           {data.stereotype ?? data.kind}
           {'>>'}
@@ -140,6 +389,8 @@ const NodeChrome = ({ data, children }: ChromeProps) => {
             {data.elementKind}
           </span>
         )}
+        {data.variability && <VariabilityBadge variability={data.variability} />}
+        {data.diff && <DiffBadge diff={data.diff} />}
         {data.status && (
           <div
             style={{
@@ -152,6 +403,7 @@ const NodeChrome = ({ data, children }: ChromeProps) => {
             {data.status}
           </div>
         )}
+        <ProblemBadge problems={data.problems} />
       </div>
       <div style={{ padding: '10px 12px' }}>
         <div style={{ fontSize: 18, fontWeight: 600, wordBreak: 'break-word', lineHeight: 1.2 }}>{data.name}</div>
@@ -248,11 +500,98 @@ const CompartmentList = ({ compartments }: { compartments?: SysMLCompartment[] }
   );
 };
 
+const coverageColors = {
+  satisfied: '#0f62fe',
+  verified: '#24a148',
+  track: 'rgba(244,244,244,0.12)'
+};
+
+const CoverageArc = ({ radius, percent, color }: { radius: number; percent: number; color: string }) => {
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.max(0, Math.min(100, percent));
+  return (
+    <>
+      <circle cx={18} cy={18} r={radius} fill="none" stroke={coverageColors.track} strokeWidth={4} />
+      <circle
+        cx={18}
+        cy={18}
+        r={radius}
+        fill="none"
+        stroke={color}
+        strokeWidth={4}
+        strokeDasharray={`${(clamped / 100) * circumference} ${circumference}`}
+        transform="rotate(-90 18 18)"
+      />
+    </>
+  );
+};
+
+// Outer ring: satisfied, inner ring: verified (rolled up over sub-requirements)
+const CoverageRing = ({ coverage }: { coverage: SysMLCoverageMarker }) => {
+  const satisfied = Math.round(coverage.satisfiedPercent);
+  const verified = Math.round(coverage.verifiedPercent);
+  const methods = coverage.verificationMethods?.length ? coverage.verificationMethods.join(', ') : undefined;
+  return (
+    <div
+      className="sysml-coverage-ring"
+      title={`Satisfied ${satisfied}% · Verified ${verified}%${methods ? ` · ${methods}` : ''}`}
+      style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8, fontSize: 11 }}
+    >
+      <svg width={36} height={36} viewBox="0 0 36 36" aria-hidden>
+        <CoverageArc radius={15} percent={coverage.satisfiedPercent} color={coverageColors.satisfied} />
+        <CoverageArc radius={9} percent={coverage.verifiedPercent} color={coverageColors.verified} />
+      </svg>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <span style={{ color: coverage.satisfied ? coverageColors.satisfied : '#da1e28' }}>
+          {coverage.satisfied ? 'Satisfied' : 'Unsatisfied'} · {satisfied}%
+        </span>
+        <span style={{ color: coverage.verified ? coverageColors.verified : '#da1e28' }}>
+          {coverage.verified ? 'Verified' : 'Unverified'} · {verified}%
+        </span>
+        {methods && <span style={{ opacity: 0.75 }}>{methods}</span>}
+      </div>
+    </div>
+  );
+};
+
+const evaluationColors: Record<SysMLEvaluationMarker['status'], string> = {
+  satisfied: '#42be65',
+  violated: '#fa4d56',
+  computed: '#78a9ff',
+  error: '#f1c21b'
+};
+
+const evaluationLabels: Record<SysMLEvaluationMarker['status'], string> = {
+  satisfied: '✓ satisfied',
+  violated: '✗ violated',
+  computed: '=',
+  error: '⚠'
+};
+
+// Pass/fail of a constraint with the values it was checked against, or a computed value
+const EvaluationBadge = ({ evaluation }: { evaluation: SysMLEvaluationMarker }) => (
+  <div
+    className={`sysml-evaluation sysml-evaluation-${evaluation.status}`}
+    style={{ marginTop: 8, display: 'flex', flexDirection: 'column', gap: 2, fontSize: 12 }}
+  >
+    <span style={{ color: evaluationColors[evaluation.status], fontWeight: 600 }}>
+      {evaluationLabels[evaluation.status]}
+      {evaluation.value !== undefined && ` ${evaluation.value}`}
+    </span>
+    {evaluation.inputs?.map((input) => (
+      <span key={input.label} style={{ opacity: 0.75, fontSize: 11 }}>
+        {input.label} = {input.value}
+      </span>
+    ))}
+  </div>
+);
+
 const RequirementNode = memo((props: NodeProps<SysMLNodeData>) => {
   const { data } = props;
   return (
     <>
       <NodeChrome data={data}>
+        {data.coverage && <CoverageRing coverage={data.coverage} />}
         <CompartmentList compartments={data.compartments} />
       </NodeChrome>
       <HiddenHandles />
@@ -306,6 +645,7 @@ const ParametricNode = memo((props: NodeProps<SysMLNodeData>) => {
             {data.emphasis}
           </pre>
         )}
+        {data.evaluation && <EvaluationBadge evaluation={data.evaluation} />}
         <CompartmentList compartments={data.compartments} />
       </NodeChrome>
       <HiddenHandles />
@@ -318,16 +658,18 @@ const DefinitionNode = memo((props: NodeProps<SysMLNodeData>) => {
   return (
     <>
       <NodeChrome data={data}>
+        {data.evaluation && <EvaluationBadge evaluation={data.evaluation} />}
         <CompartmentList compartments={data.compartments} />
       </NodeChrome>
       <HiddenHandles />
+      <PortHandles data={data} />
     </>
   );
 });
 
 const UseCaseNode = memo((props: NodeProps<SysMLNodeData>) => {
   const { data } = props;
-  const accent = accentByKind[data.kind] ?? accentByKind['use-case-definition'];
+  const accent = data.accent ?? accentByKind[data.kind] ?? accentByKind['use-case-definition'];
   return (
     <>
       <div
@@ -344,7 +686,7 @@ const UseCaseNode = memo((props: NodeProps<SysMLNodeData>) => {
           alignItems: 'center',
           textAlign: 'center',
           padding: 16,
-          boxShadow: '0 6px 16px rgba(0,0,0,0.45)',
+          boxShadow: problemRing(data, '0 6px 16px rgba(0,0,0,0.45)'),
           fontFamily: '"IBM Plex Sans", system-ui, sans-serif'
         }}
       >
@@ -358,16 +700,39 @@ const UseCaseNode = memo((props: NodeProps<SysMLNodeData>) => {
           <div style={{ fontSize: 12, marginTop: 8, opacity: 0.75 }}>{data.documentation}</div>
         )}
       </div>
+      <CornerProblemBadge data={data} />
       <HiddenHandles />
     </>
   );
 });
 
+// Dashed lines between the orthogonal regions of an expanded parallel state
+const RegionSeparators = ({ regions }: { regions: SysMLRegionSeparator[] }) => (
+  <>
+    {regions.map((region) => (
+      <div
+        key={`${region.orientation}-${region.x}-${region.y}`}
+        className="sysml-region-separator"
+        style={{
+          position: 'absolute',
+          pointerEvents: 'none',
+          left: region.x,
+          top: region.y,
+          ...(region.orientation === 'vertical'
+            ? { bottom: 0, borderLeft: '2px dashed rgba(244,244,244,0.35)' }
+            : { right: 0, borderTop: '2px dashed rgba(244,244,244,0.35)' })
+        }}
+      />
+    ))}
+  </>
+);
+
 const StateNode = memo((props: NodeProps<SysMLNodeData>) => {
   const { data } = props;
   return (
     <>
       <NodeChrome data={data}>
+        {data.isParallel && <div style={{ fontSize: 11, fontStyle: 'italic', opacity: 0.75 }}>parallel</div>}
         <div style={{ marginTop: 8, fontSize: 12, display: 'flex', flexDirection: 'column', gap: 4 }}>
           {data.tags?.map((tag) => (
             <span key={tag.key} style={{ opacity: 0.8 }}>
@@ -377,6 +742,7 @@ const StateNode = memo((props: NodeProps<SysMLNodeData>) => {
         </div>
         <CompartmentList compartments={data.compartments} />
       </NodeChrome>
+      {data.container?.regions && !data.container.collapsed && <RegionSeparators regions={data.container.regions} />}
       <HiddenHandles />
     </>
   );
@@ -396,28 +762,37 @@ const StateMachineNode = memo((props: NodeProps<SysMLNodeData>) => {
 
 const SequenceLifelineNode = memo((props: NodeProps<SysMLNodeData>) => {
   const { data } = props;
-  const accent = accentByKind['sequence-lifeline'];
+  const accent = data.accent ?? accentByKind['sequence-lifeline'];
   return (
     <>
       <div
         style={{
-          width: 140,
-          height: 320,
+          position: 'relative',
+          boxSizing: 'border-box',
+          width: lifelineWidth,
+          height: data.lifeline?.height ?? defaultLifelineHeight,
           background: '#0b0c0f',
           border: `2px dashed ${accent}`,
           borderRadius: 8,
           color: '#f4f4f4',
           fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
           display: 'flex',
-          flexDirection: 'column'
+          flexDirection: 'column',
+          boxShadow: problemRing(data, 'none')
         }}
       >
         <div
           style={{
-            padding: '8px 12px',
+            boxSizing: 'border-box',
+            height: lifelineHeaderHeight - 2,
+            padding: '0 12px',
             borderBottom: `2px solid ${accent}`,
-            textAlign: 'center',
-            fontWeight: 600
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontWeight: 600,
+            whiteSpace: 'nowrap',
+            overflow: 'hidden'
           }}
         >
           {data.name}
@@ -439,42 +814,259 @@ const SequenceLifelineNode = memo((props: NodeProps<SysMLNodeData>) => {
             }}
           />
         </div>
+        {data.lifeline?.activations.map((activation) => (
+          <div
+            key={`${activation.top}-${activation.depth}`}
+            className="sysml-activation"
+            style={{
+              position: 'absolute',
+              // Activations are measured from the outer corner; this box sits inside the border
+              left: lifelineWidth / 2 - activationWidth / 2 + activation.depth * activationIndent - 2,
+              top: activation.top - 2,
+              width: activationWidth,
+              height: activation.bottom - activation.top,
+              boxSizing: 'border-box',
+              background: '#393939',
+              border: `1px solid ${accent}`
+            }}
+          />
+        ))}
+      </div>
+      <CornerProblemBadge data={data} />
+      <HiddenHandles />
+    </>
+  );
+});
+
+const SequenceFragmentNode = memo((props: NodeProps<SysMLNodeData>) => {
+  const { data, selected } = props;
+  const accent = data.accent ?? accentByKind['sequence-fragment'];
+  const operands = data.fragment?.operands ?? [];
+  return (
+    <>
+      <div
+        style={{
+          position: 'relative',
+          boxSizing: 'border-box',
+          width: '100%',
+          height: '100%',
+          minWidth: 200,
+          minHeight: 80,
+          border: `1.5px solid ${selected ? '#f4f4f4' : accent}`,
+          borderRadius: 4,
+          color: '#f4f4f4',
+          fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+          fontSize: 11,
+          boxShadow: problemRing(data, 'none')
+        }}
+      >
+        {/* The operator tab is the only part that takes pointer events (see createSequenceFragmentNode) */}
+        <div
+          className="sysml-fragment-operator"
+          title={data.name}
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: 0,
+            padding: '3px 12px 3px 8px',
+            background: '#262626',
+            borderRight: `1.5px solid ${accent}`,
+            borderBottom: `1.5px solid ${accent}`,
+            clipPath: 'polygon(0 0, 100% 0, 100% 60%, calc(100% - 8px) 100%, 0 100%)',
+            fontWeight: 700,
+            pointerEvents: 'all'
+          }}
+        >
+          {data.fragment?.operator}
+        </div>
+        {operands.map((operand, index) => {
+          const top = operand.top ?? (index === 0 ? 0 : undefined);
+          if (top === undefined) {
+            return null;
+          }
+          return (
+            <Fragment key={index}>
+              {index > 0 && (
+                <div
+                  style={{
+                    position: 'absolute',
+                    left: 0,
+                    right: 0,
+                    top,
+                    borderTop: `1.5px dashed ${accent}`
+                  }}
+                />
+              )}
+              {operand.guard && (
+                <div
+                  className="sysml-fragment-guard"
+                  style={{
+                    position: 'absolute',
+                    // The first guard sits next to the operator tab
+                    left: index === 0 ? 56 : 8,
+                    top: top + 4,
+                    color: '#f1c21b',
+                    fontStyle: 'italic',
+                    whiteSpace: 'nowrap'
+                  }}
+                >
+                  [{operand.guard}]
+                </div>
+              )}
+            </Fragment>
+          );
+        })}
       </div>
+      <CornerProblemBadge data={data} />
       <HiddenHandles />
     </>
   );
 });
 
+// Activity control notation: filled dot (initial), bullseye (final), bar (fork/join)
+// and diamond (decision/merge)
 const ActivityControlNode = memo((props: NodeProps<SysMLNodeData>) => {
   const { data } = props;
   const type = data.controlType ?? 'decision';
-  const accent = accentByKind['activity-control'];
-  const isBar = type === 'fork' || type === 'join';
+  const accent = data.accent ?? accentByKind['activity-control'];
+  const circle = (size: number) => ({ width: size, height: size, borderRadius: '50%', boxSizing: 'border-box' as const });
+
+  const shape = (() => {
+    switch (type) {
+      case 'initial':
+        return <div style={{ ...circle(32), background: accent, boxShadow: problemRing(data, '0 2px 8px rgba(0,0,0,0.45)') }} />;
+      case 'final':
+        return (
+          <div
+            style={{
+              ...circle(40),
+              border: `3px solid ${accent}`,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              boxShadow: problemRing(data, '0 2px 8px rgba(0,0,0,0.45)')
+            }}
+          >
+            <div style={{ ...circle(24), background: accent }} />
+          </div>
+        );
+      case 'fork':
+      case 'join':
+        return (
+          <div
+            style={{
+              width: 160,
+              height: 12,
+              background: accent,
+              borderRadius: 3,
+              boxShadow: problemRing(data, '0 2px 8px rgba(0,0,0,0.45)')
+            }}
+          />
+        );
+      default:
+        return (
+          <div
+            style={{
+              width: 120,
+              height: 120,
+              transform: 'rotate(45deg)',
+              background: '#0b0c0f',
+              border: `4px solid ${accent}`,
+              boxShadow: problemRing(data, '0 4px 12px rgba(0,0,0,0.45)')
+            }}
+          />
+        );
+    }
+  })();
 
   return (
     <>
-      {isBar ? (
-        <div
-          style={{
-            width: 160,
-            height: 12,
-            background: accent,
-            borderRadius: 3,
-            boxShadow: '0 2px 8px rgba(0,0,0,0.45)'
-          }}
-        />
-      ) : (
-        <div
-          style={{
-            width: 120,
-            height: 120,
-            transform: 'rotate(45deg)',
-            background: '#0b0c0f',
-            border: `4px solid ${accent}`,
-            boxShadow: '0 4px 12px rgba(0,0,0,0.45)'
-          }}
-        />
-      )}
+      <div className={`sysml-activity-control sysml-activity-control-${type}`} title={data.name} aria-label={`${type} ${data.name}`}>
+        {shape}
+      </div>
+      <CornerProblemBadge data={data} />
+      <HiddenHandles />
+    </>
+  );
+});
+
+// Pseudostate notation: filled dot (initial), bullseye (final), diamond (choice),
+// small dot (junction), bar (fork/join) and circled H or H* (history)
+const PseudoStateNode = memo((props: NodeProps<SysMLNodeData>) => {
+  const { data } = props;
+  const type = data.pseudoType ?? 'initial';
+  const accent = data.accent ?? accentByKind['pseudo-state'];
+  const shadow = problemRing(data, '0 2px 8px rgba(0,0,0,0.45)');
+  const circle = (size: number) => ({ width: size, height: size, borderRadius: '50%', boxSizing: 'border-box' as const });
+
+  const shape = (() => {
+    switch (type) {
+      case 'final':
+        return (
+          <div
+            style={{
+              ...circle(32),
+              border: `3px solid ${accent}`,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              boxShadow: shadow
+            }}
+          >
+            <div style={{ ...circle(18), background: accent }} />
+          </div>
+        );
+      case 'choice':
+        return (
+          <div
+            style={{
+              width: 32,
+              height: 32,
+              margin: 7,
+              transform: 'rotate(45deg)',
+              background: '#0b0c0f',
+              border: `3px solid ${accent}`,
+              boxSizing: 'border-box',
+              boxShadow: shadow
+            }}
+          />
+        );
+      case 'junction':
+        return <div style={{ ...circle(16), background: accent, boxShadow: shadow }} />;
+      case 'fork':
+      case 'join':
+        return <div style={{ width: 120, height: 10, background: accent, borderRadius: 3, boxShadow: shadow }} />;
+      case 'shallow-history':
+      case 'deep-history':
+        return (
+          <div
+            style={{
+              ...circle(36),
+              border: `2px solid ${accent}`,
+              background: '#0b0c0f',
+              color: '#f4f4f4',
+              fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+              fontWeight: 600,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              boxShadow: shadow
+            }}
+          >
+            {type === 'deep-history' ? 'H*' : 'H'}
+          </div>
+        );
+      default:
+        return <div style={{ ...circle(24), background: accent, boxShadow: shadow }} />;
+    }
+  })();
+
+  return (
+    <>
+      <div className={`sysml-pseudo-state sysml-pseudo-state-${type}`} title={data.name} aria-label={`${type} ${data.name}`}>
+        {shape}
+      </div>
+      <CornerProblemBadge data={data} />
       <HiddenHandles />
     </>
   );
@@ -485,6 +1077,7 @@ export const sysmlNodeTypes: NodeTypes = {
   'sysml.state': StateNode,
   'sysml.state-machine': StateMachineNode,
   'sysml.sequence-lifeline': SequenceLifelineNode,
+  'sysml.sequence-fragment': SequenceFragmentNode,
   'sysml.activity-control': ActivityControlNode,
   // Structural elements
   'sysml.part-definition': DefinitionNode,
@@ -507,8 +1100,8 @@ export const sysmlNodeTypes: NodeTypes = {
   // Behavioral elements
   'sysml.action-definition': DefinitionNode,
   'sysml.action-usage': DefinitionNode,
-  'sysml.calculation-definition': DefinitionNode,
-  'sysml.calculation-usage': DefinitionNode,
+  'sysml.calculation-definition': ParametricNode,
+  'sysml.calculation-usage': ParametricNode,
   'sysml.perform-action': ActivityNode,
   'sysml.send-action': ActivityNode,
   'sysml.accept-action': ActivityNode,
@@ -520,6 +1113,7 @@ export const sysmlNodeTypes: NodeTypes = {
   'sysml.state-usage': StateNode,
   'sysml.transition-usage': StateNode,
   'sysml.exhibit-state': StateNode,
+  'sysml.pseudo-state': PseudoStateNode,
   // Requirements & Cases
   'sysml.requirement-definition': RequirementNode,
   'sysml.requirement-usage': RequirementNode,
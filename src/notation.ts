@@ -0,0 +1,734 @@
+import type { SysMLEdgeKind, SysMLNodeKind } from './types';
+
+/**
+ * Shared description of the SysML v2 textual notation subset understood by the
+ * parser and emitted by the serializer. Each node kind maps to a keyword
+ * sequence (`part def`, `use case`, ...) plus the header clauses and body
+ * statements that populate its spec fields.
+ */
+
+export type SysMLStatementForm =
+  | 'scalar' // keyword value;
+  | 'list' // keyword value;  (one entry per statement)
+  | 'constraint' // keyword constraint { expression }
+  | 'property' // keyword name : Type [multiplicity] = value;
+  | 'port' // direction port name : Type;
+  | 'state' // state name { entry ...; do ...; exit ...; }
+  | 'operand' // operand [guard] { message name; ... }
+  | 'record'; // key = value;
+
+export interface SysMLStatementSyntax {
+  form: SysMLStatementForm;
+  keyword: string;
+  field: string;
+  /** Keywords that may precede the value without being part of it, e.g. `include use case Other;`. */
+  valueKeywords?: string[];
+}
+
+export interface SysMLNodeSyntax {
+  keywords: string[];
+  /** Field populated by `: Type` in the header. */
+  typedBy?: string;
+  /** Field populated by `= value` in the header. */
+  value?: string;
+  /** Prefix modifiers mapped to boolean spec fields. */
+  flags?: Record<string, string>;
+  /** Prefix modifiers mapped to enumerated spec fields. */
+  enums?: Record<string, string[]>;
+  /** Field populated by `doc /* ... *\/`; `null` when the spec has no description. */
+  docField?: string | null;
+  /** Field populated by `comment /* ... *\/` inside the body. */
+  commentField?: string;
+  redefines?: boolean;
+  subsets?: boolean;
+  /** `false` when the spec has no stereotype field. */
+  stereotype?: boolean;
+  /** Annotation elements have no name of their own. */
+  nameless?: boolean;
+  /** Annotation elements carry their text as a trailing block comment. */
+  annotation?: { body: string; about: string; locale?: string };
+  /** Transition usages take `first ... accept ... if ... do ... then ...` clauses. */
+  transition?: boolean;
+  /** Packages own nested element declarations. */
+  container?: boolean;
+  /** Field populated by a bare expression in the body, e.g. `constraint def C { mass <= 2000 }`. */
+  expressionBody?: string;
+  /** Keyword variants selected by a spec field (activity control nodes, pseudostates). */
+  variants?: { field: string; keywords: Record<string, string[]> };
+  statements?: SysMLStatementSyntax[];
+}
+
+const attributes: SysMLStatementSyntax = { form: 'property', keyword: 'attribute', field: 'attributes' };
+const ports: SysMLStatementSyntax = { form: 'port', keyword: 'port', field: 'ports' };
+const inputs: SysMLStatementSyntax = { form: 'property', keyword: 'in', field: 'inputs' };
+const outputs: SysMLStatementSyntax = { form: 'property', keyword: 'out', field: 'outputs' };
+const status: SysMLStatementSyntax = { form: 'scalar', keyword: 'status', field: 'status' };
+const subject: SysMLStatementSyntax = { form: 'scalar', keyword: 'subject', field: 'subjectParameter' };
+const objective: SysMLStatementSyntax = { form: 'scalar', keyword: 'objective', field: 'objectiveRequirement' };
+const direction = { direction: ['in', 'out', 'inout'] };
+const useCaseWords = ['use', 'case'];
+
+export const sysmlNodeSyntax: Record<SysMLNodeKind, SysMLNodeSyntax> = {
+  // Structural Elements
+  'part-definition': {
+    keywords: ['part', 'def'],
+    flags: { variation: 'isVariation' },
+    statements: [
+      attributes,
+      ports,
+      { form: 'list', keyword: 'action', field: 'actions' },
+      { form: 'list', keyword: 'state', field: 'states' }
+    ]
+  },
+  'part-usage': {
+    keywords: ['part'],
+    typedBy: 'definition',
+    flags: { variation: 'isVariation' },
+    redefines: true,
+    subsets: true,
+    statements: [attributes, ports, { form: 'list', keyword: 'part', field: 'parts' }]
+  },
+  'attribute-definition': {
+    keywords: ['attribute', 'def'],
+    typedBy: 'type',
+    value: 'defaultValue',
+    flags: { abstract: 'isAbstract' }
+  },
+  'attribute-usage': {
+    keywords: ['attribute'],
+    typedBy: 'definition',
+    value: 'value',
+    flags: { readonly: 'isReadOnly', derived: 'isDerived' },
+    redefines: true,
+    subsets: true,
+    statements: [{ form: 'scalar', keyword: 'type', field: 'type' }]
+  },
+  'port-definition': {
+    keywords: ['port', 'def'],
+    enums: direction,
+    statements: [{ form: 'property', keyword: 'item', field: 'items' }]
+  },
+  'port-usage': {
+    keywords: ['port'],
+    typedBy: 'definition',
+    enums: direction,
+    statements: [{ form: 'property', keyword: 'item', field: 'items' }]
+  },
+  'item-definition': {
+    keywords: ['item', 'def'],
+    statements: [
+      { form: 'scalar', keyword: 'unit', field: 'unit' },
+      { form: 'scalar', keyword: 'quantityKind', field: 'quantityKind' }
+    ]
+  },
+  'item-usage': {
+    keywords: ['item'],
+    typedBy: 'definition',
+    statements: [
+      { form: 'scalar', keyword: 'unit', field: 'unit' },
+      { form: 'scalar', keyword: 'quantityKind', field: 'quantityKind' }
+    ]
+  },
+  'connection-definition': {
+    keywords: ['connection', 'def'],
+    flags: { abstract: 'isAbstract' },
+    statements: [{ form: 'property', keyword: 'end', field: 'ends' }, attributes]
+  },
+  'connection-usage': {
+    keywords: ['connection'],
+    typedBy: 'definition',
+    redefines: true,
+    statements: [{ form: 'list', keyword: 'connect', field: 'connectedParts' }, attributes]
+  },
+  'interface-definition': {
+    keywords: ['interface', 'def'],
+    statements: [ports, attributes, { form: 'scalar', keyword: 'conjugate', field: 'conjugate' }]
+  },
+  'interface-usage': {
+    keywords: ['interface'],
+    typedBy: 'definition',
+    statements: [{ form: 'list', keyword: 'connect', field: 'connectedPorts' }]
+  },
+  'allocation-definition': {
+    keywords: ['allocation', 'def'],
+    statements: [
+      { form: 'scalar', keyword: 'source', field: 'source' },
+      { form: 'scalar', keyword: 'target', field: 'target' }
+    ]
+  },
+  'allocation-usage': {
+    keywords: ['allocation'],
+    typedBy: 'definition',
+    statements: [
+      { form: 'scalar', keyword: 'from', field: 'allocatedFrom' },
+      { form: 'scalar', keyword: 'to', field: 'allocatedTo' }
+    ]
+  },
+  'reference-usage': {
+    keywords: ['ref'],
+    typedBy: 'referencedElement',
+    redefines: true
+  },
+  'occurrence-definition': {
+    keywords: ['occurrence', 'def'],
+    flags: { individual: 'isIndividual' },
+    statements: [{ form: 'scalar', keyword: 'lifeClass', field: 'lifeClass' }]
+  },
+  'occurrence-usage': {
+    keywords: ['occurrence'],
+    typedBy: 'definition',
+    flags: { snapshot: 'isSnapshot' },
+    statements: [{ form: 'scalar', keyword: 'portionOf', field: 'portionOf' }]
+  },
+  // Behavioral Elements
+  'action-definition': {
+    keywords: ['action', 'def'],
+    flags: { variation: 'isVariation' },
+    statements: [inputs, outputs]
+  },
+  'action-usage': {
+    keywords: ['action'],
+    typedBy: 'definition',
+    flags: { variation: 'isVariation' },
+    redefines: true,
+    statements: [inputs, outputs]
+  },
+  'activity-control': {
+    keywords: ['decide'],
+    stereotype: false,
+    docField: 'documentation',
+    variants: {
+      field: 'controlType',
+      keywords: {
+        initial: ['initial'],
+        final: ['final'],
+        fork: ['fork'],
+        join: ['join'],
+        decision: ['decide'],
+        merge: ['merge']
+      }
+    }
+  },
+  'calculation-definition': {
+    keywords: ['calc', 'def'],
+    statements: [
+      inputs,
+      outputs,
+      { form: 'scalar', keyword: 'expression', field: 'expression' },
+      { form: 'scalar', keyword: 'return', field: 'returnResult' }
+    ]
+  },
+  'calculation-usage': {
+    keywords: ['calc'],
+    typedBy: 'definition',
+    statements: [inputs, outputs, { form: 'scalar', keyword: 'expression', field: 'calculationBody' }]
+  },
+  'perform-action': {
+    keywords: ['perform'],
+    typedBy: 'performedAction',
+    docField: null,
+    statements: [inputs, outputs]
+  },
+  'send-action': {
+    keywords: ['send'],
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'payload', field: 'payload' },
+      { form: 'scalar', keyword: 'via', field: 'via' },
+      { form: 'scalar', keyword: 'to', field: 'target' }
+    ]
+  },
+  'accept-action': {
+    keywords: ['accept'],
+    typedBy: 'payloadType',
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'via', field: 'via' },
+      { form: 'scalar', keyword: 'receiver', field: 'receiver' }
+    ]
+  },
+  'assignment-action': {
+    keywords: ['assign'],
+    value: 'valueExpression',
+    docField: null,
+    statements: [{ form: 'scalar', keyword: 'target', field: 'targetFeature' }]
+  },
+  'if-action': {
+    keywords: ['if'],
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'condition', field: 'condition' },
+      { form: 'scalar', keyword: 'then', field: 'thenAction' },
+      { form: 'scalar', keyword: 'else', field: 'elseAction' }
+    ]
+  },
+  'for-loop-action': {
+    keywords: ['for'],
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'variable', field: 'variable' },
+      { form: 'scalar', keyword: 'collection', field: 'collection' },
+      { form: 'scalar', keyword: 'body', field: 'body' }
+    ]
+  },
+  'while-loop-action': {
+    keywords: ['while'],
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'condition', field: 'condition' },
+      { form: 'scalar', keyword: 'body', field: 'body' }
+    ]
+  },
+  state: {
+    keywords: ['simple', 'state'],
+    stereotype: false,
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'entry', field: 'entryAction' },
+      { form: 'scalar', keyword: 'do', field: 'doActivity' },
+      { form: 'scalar', keyword: 'exit', field: 'exitAction' },
+      status
+    ]
+  },
+  'state-machine': {
+    keywords: ['state', 'machine'],
+    docField: null,
+    statements: [{ form: 'state', keyword: 'state', field: 'states' }]
+  },
+  'state-definition': {
+    keywords: ['state', 'def'],
+    flags: { parallel: 'isParallel' },
+    statements: [{ form: 'list', keyword: 'state', field: 'substates' }]
+  },
+  'state-usage': {
+    keywords: ['state'],
+    typedBy: 'definition',
+    flags: { parallel: 'isParallel' },
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'entry', field: 'entryAction' },
+      { form: 'scalar', keyword: 'do', field: 'doAction' },
+      { form: 'scalar', keyword: 'exit', field: 'exitAction' },
+      { form: 'list', keyword: 'state', field: 'substates' }
+    ]
+  },
+  'transition-usage': {
+    keywords: ['transition'],
+    stereotype: false,
+    docField: null,
+    transition: true
+  },
+  'exhibit-state': {
+    keywords: ['exhibit'],
+    stereotype: false,
+    typedBy: 'exhibitedState',
+    docField: null,
+    statements: [{ form: 'scalar', keyword: 'performer', field: 'performer' }]
+  },
+  'pseudo-state': {
+    keywords: ['initial', 'state'],
+    stereotype: false,
+    docField: 'documentation',
+    variants: {
+      field: 'pseudoType',
+      keywords: {
+        initial: ['initial', 'state'],
+        final: ['final', 'state'],
+        choice: ['choice', 'state'],
+        junction: ['junction', 'state'],
+        fork: ['fork', 'state'],
+        join: ['join', 'state'],
+        'shallow-history': ['history', 'state'],
+        'deep-history': ['deep', 'history', 'state']
+      }
+    }
+  },
+  // Requirements & Cases
+  'requirement-definition': {
+    keywords: ['requirement', 'def'],
+    docField: 'text',
+    commentField: 'description',
+    statements: [
+      { form: 'scalar', keyword: 'reqId', field: 'reqId' },
+      subject,
+      { form: 'constraint', keyword: 'assume', field: 'assumeConstraint' },
+      { form: 'constraint', keyword: 'require', field: 'requireConstraint' },
+      { form: 'list', keyword: 'frame', field: 'framedConcerns' },
+      { form: 'list', keyword: 'actor', field: 'actors' }
+    ]
+  },
+  'requirement-usage': {
+    keywords: ['requirement'],
+    typedBy: 'definition',
+    docField: 'text',
+    statements: [
+      { form: 'scalar', keyword: 'reqId', field: 'reqId' },
+      subject,
+      { form: 'constraint', keyword: 'assume', field: 'assumeConstraint' },
+      { form: 'constraint', keyword: 'require', field: 'requireConstraint' },
+      status
+    ]
+  },
+  'constraint-definition': {
+    keywords: ['constraint', 'def'],
+    flags: { not: 'isNegated' },
+    expressionBody: 'expression',
+    statements: [inputs, { form: 'scalar', keyword: 'expression', field: 'expression' }]
+  },
+  'constraint-usage': {
+    keywords: ['constraint'],
+    typedBy: 'definition',
+    flags: { not: 'isNegated' },
+    docField: null,
+    expressionBody: 'expression',
+    statements: [inputs, { form: 'scalar', keyword: 'expression', field: 'expression' }]
+  },
+  'verification-case-definition': {
+    keywords: ['verification', 'def'],
+    statements: [{ form: 'scalar', keyword: 'verify', field: 'verifiedRequirement' }, subject, objective]
+  },
+  'verification-case-usage': {
+    keywords: ['verification'],
+    typedBy: 'definition',
+    docField: null,
+    statements: [
+      { form: 'scalar', keyword: 'verify', field: 'verifiedRequirement' },
+      { form: 'scalar', keyword: 'method', field: 'verificationMethod' },
+      status
+    ]
+  },
+  'analysis-case-definition': {
+    keywords: ['analysis', 'def'],
+    statements: [
+      inputs,
+      { form: 'scalar', keyword: 'action', field: 'analysisAction' },
+      { form: 'scalar', keyword: 'return', field: 'resultExpression' },
+      subject
+    ]
+  },
+  'analysis-case-usage': {
+    keywords: ['analysis'],
+    typedBy: 'definition',
+    docField: null,
+    statements: [
+      inputs,
+      { form: 'scalar', keyword: 'action', field: 'analysisAction' },
+      { form: 'scalar', keyword: 'return', field: 'resultExpression' },
+      status
+    ]
+  },
+  'use-case-definition': {
+    keywords: ['use', 'case', 'def'],
+    statements: [
+      { form: 'list', keyword: 'include', field: 'includedUseCases', valueKeywords: useCaseWords },
+      { form: 'list', keyword: 'actor', field: 'actors' },
+      subject,
+      objective
+    ]
+  },
+  'use-case-usage': {
+    keywords: ['use', 'case'],
+    typedBy: 'definition',
+    statements: [
+      { form: 'list', keyword: 'actor', field: 'actors' },
+      { form: 'list', keyword: 'include', field: 'includes', valueKeywords: useCaseWords },
+      { form: 'list', keyword: 'extend', field: 'extends' },
+      status
+    ]
+  },
+  'concern-definition': {
+    keywords: ['concern', 'def'],
+    docField: 'text',
+    commentField: 'description'
+  },
+  'concern-usage': {
+    keywords: ['concern'],
+    typedBy: 'definition',
+    docField: 'text',
+    statements: [{ form: 'list', keyword: 'stakeholder', field: 'stakeholders' }]
+  },
+  // Organizational Elements
+  package: {
+    keywords: ['package'],
+    enums: { visibility: ['public', 'private', 'protected'] },
+    container: true,
+    statements: [
+      { form: 'list', keyword: 'import', field: 'imports' },
+      { form: 'list', keyword: 'member', field: 'members' }
+    ]
+  },
+  'library-package': {
+    keywords: ['library', 'package'],
+    flags: { standard: 'isStandard' },
+    container: true,
+    statements: [{ form: 'list', keyword: 'member', field: 'members' }]
+  },
+  // Interactions
+  'sequence-lifeline': {
+    keywords: ['lifeline'],
+    typedBy: 'classifier',
+    docField: null
+  },
+  'sequence-fragment': {
+    keywords: ['fragment'],
+    statements: [
+      { form: 'scalar', keyword: 'operator', field: 'operator' },
+      { form: 'operand', keyword: 'operand', field: 'operands' }
+    ]
+  },
+  interaction: {
+    keywords: ['interaction'],
+    statements: [
+      { form: 'list', keyword: 'participant', field: 'participants' },
+      { form: 'list', keyword: 'message', field: 'messages' }
+    ]
+  },
+  // Metadata
+  'metadata-definition': {
+    keywords: ['metadata', 'def'],
+    typedBy: 'baseType',
+    statements: [attributes]
+  },
+  'metadata-usage': {
+    keywords: ['metadata'],
+    stereotype: false,
+    typedBy: 'definition',
+    docField: null,
+    annotation: { body: '', about: 'annotatedElement' },
+    statements: [{ form: 'record', keyword: '', field: 'metadataValues' }]
+  },
+  comment: {
+    keywords: ['comment'],
+    stereotype: false,
+    nameless: true,
+    docField: null,
+    annotation: { body: 'body', about: 'annotatedElement', locale: 'locale' }
+  },
+  documentation: {
+    keywords: ['doc'],
+    stereotype: false,
+    nameless: true,
+    docField: null,
+    annotation: { body: 'body', about: 'documentedElement' }
+  }
+};
+
+const edgeKindSet: Record<SysMLEdgeKind, true> = {
+  dependency: true,
+  satisfy: true,
+  verify: true,
+  refine: true,
+  allocate: true,
+  include: true,
+  extend: true,
+  transition: true,
+  message: true,
+  succession: true,
+  'succession-as-usage': true,
+  'control-flow': true,
+  'flow-connection': true,
+  'item-flow': true,
+  'action-flow': true,
+  specialization: true,
+  conjugation: true,
+  'feature-typing': true,
+  subsetting: true,
+  redefinition: true,
+  'type-featuring': true,
+  definition: true,
+  'feature-membership': true,
+  'owning-membership': true,
+  'variant-membership': true,
+  'binding-connector': true,
+  'connector-as-usage': true,
+  'feature-chaining': true,
+  'feature-inverting': true,
+  'feature-value': true,
+  composition: true,
+  aggregation: true,
+  association: true
+};
+
+/**
+ * Every relationship kind is written with its kind name as the keyword
+ * (`composition from a to b;`). A few kinds also have native SysML forms.
+ */
+export const sysmlEdgeKinds = Object.keys(edgeKindSet) as SysMLEdgeKind[];
+
+export const isSysMLEdgeKind = (value: string): value is SysMLEdgeKind =>
+  Object.prototype.hasOwnProperty.call(edgeKindSet, value);
+
+export const sysmlRelationshipClauses = ['from', 'to', 'by', 'first', 'then', 'accept', 'if', 'do', 'bind', '='];
+
+export const defaultRelationshipId = (type: SysMLEdgeKind, source: string, target: string) =>
+  `${source}-${type}-${target}`;
+
+const structuralWords = [
+  'def', 'doc', 'comment', 'about', 'locale', 'from', 'to', 'by', 'first', 'then', 'accept', 'if',
+  'do', 'bind', 'connect', 'flow', 'specializes', 'subsets', 'redefines', 'import', 'member', 'constraint', 'entry', 'exit'
+];
+
+const reservedWords = new Set<string>([
+  ...structuralWords,
+  ...sysmlEdgeKinds,
+  ...Object.values(sysmlNodeSyntax).flatMap((syntax) => [
+    ...syntax.keywords,
+    ...Object.keys(syntax.flags ?? {}),
+    ...Object.values(syntax.enums ?? {}).flat(),
+    ...Object.values(syntax.variants?.keywords ?? {}).flat()
+  ])
+]);
+
+export const isReservedWord = (word: string) => reservedWords.has(word);
+
+const identifierPattern = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const quoteName = (name: string) => `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Format a name as a SysML identifier, falling back to an unrestricted
+ * `'quoted name'` when it is not a plain identifier or clashes with a keyword.
+ */
+export const formatName = (name: string) =>
+  identifierPattern.test(name) && !isReservedWord(name) ? name : quoteName(name);
+
+/**
+ * Format a reference; qualified names keep their `::` separators when every
+ * segment is a plain identifier.
+ */
+export const formatReference = (reference: string) => {
+  const segments = reference.split('::');
+  if (segments.length > 1 && segments.every((segment) => identifierPattern.test(segment) && !isReservedWord(segment))) {
+    return reference;
+  }
+  return formatName(reference);
+};
+
+export const formatString = (value: string) =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Lexer
+
+export type SysMLTokenType = 'word' | 'name' | 'string' | 'number' | 'comment' | 'symbol' | 'eof';
+
+export interface SysMLToken {
+  type: SysMLTokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface SysMLLexError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+const symbols = [':>>', ':>', '::', ':=', '..', '{', '}', ';', ':', '[', ']', '=', ',', '(', ')', '<', '>', '~', '#', '@', '.', '*', '+', '-', '/', '%', '!', '&', '|', '^', '?'];
+
+const unescape = (raw: string) =>
+  raw.replace(/\\(.)/g, (_match, char: string) => (char === 'n' ? '\n' : char === 't' ? '\t' : char));
+
+export const tokenizeSysML = (source: string): { tokens: SysMLToken[]; errors: SysMLLexError[] } => {
+  const tokens: SysMLToken[] = [];
+  const errors: SysMLLexError[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (source.startsWith('//', index) && !source.startsWith('//*', index)) {
+      const newline = source.indexOf('\n', index);
+      index = newline === -1 ? source.length : newline + 1;
+      continue;
+    }
+
+    if (source.startsWith('/*', index) || source.startsWith('//*', index)) {
+      const open = source.startsWith('//*', index) ? 3 : 2;
+      const close = source.indexOf('*/', index + open);
+      if (close === -1) {
+        errors.push({ message: 'Unterminated comment', start: index, end: source.length });
+        index = source.length;
+        continue;
+      }
+      tokens.push({
+        type: 'comment',
+        value: normalizeCommentBody(source.slice(index + open, close)),
+        start: index,
+        end: close + 2
+      });
+      index = close + 2;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let cursor = index + 1;
+      while (cursor < source.length && source[cursor] !== char && source[cursor] !== '\n') {
+        cursor += source[cursor] === '\\' ? 2 : 1;
+      }
+      if (source[cursor] !== char) {
+        errors.push({
+          message: char === "'" ? 'Unterminated quoted name' : 'Unterminated string literal',
+          start: index,
+          end: cursor
+        });
+        index = cursor;
+        continue;
+      }
+      tokens.push({
+        type: char === "'" ? 'name' : 'string',
+        value: unescape(source.slice(index + 1, cursor)),
+        start: index,
+        end: cursor + 1
+      });
+      index = cursor + 1;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*(?:-[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(index, index + 256));
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], start: index, end: index + word[0].length });
+      index += word[0].length;
+      continue;
+    }
+
+    const number = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(source.slice(index, index + 64));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], start: index, end: index + number[0].length });
+      index += number[0].length;
+      continue;
+    }
+
+    const symbol = symbols.find((candidate) => source.startsWith(candidate, index));
+    if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol, start: index, end: index + symbol.length });
+      index += symbol.length;
+      continue;
+    }
+
+    errors.push({ message: `Unexpected character '${char}'`, start: index, end: index + 1 });
+    index += 1;
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return { tokens, errors };
+};
+
+/**
+ * Strip the leading `*` gutter that block comments conventionally carry.
+ */
+function normalizeCommentBody(raw: string): string {
+  const lines = raw.split('\n').map((line) => line.replace(/^\s*\*(?!\/)\s?/, '').trimEnd());
+  while (lines.length > 0 && lines[0].trim() === '') {
+    lines.shift();
+  }
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  return lines.map((line) => line.trim()).join('\n');
+}
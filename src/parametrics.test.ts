@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { createCalculationUsageNode, createConstraintUsageNode, createPartUsageNode } from './factories';
+import { attachEvaluation, constraintEvaluationRule, evaluateModel } from './parametrics';
+import { validateModel } from './validation';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'package', spec: { id: 'vehicles', name: 'Vehicles', members: ['car', 'massLimit'] } },
+    {
+      kind: 'part-definition',
+      spec: {
+        id: 'Car',
+        name: 'Car',
+        attributes: [
+          { name: 'dryMass', type: 'Real', value: '1500' },
+          { name: 'payload', type: 'Real', value: '300' },
+          { name: 'totalMass', type: 'Real', value: 'dryMass + payload' }
+        ]
+      }
+    },
+    {
+      kind: 'part-usage',
+      spec: { id: 'car', name: 'car', definition: 'Car', attributes: [{ name: 'payload', value: '400' }] }
+    },
+    { kind: 'attribute-usage', spec: { id: 'g', name: 'g', value: '9.81' } },
+    {
+      kind: 'calculation-usage',
+      spec: { id: 'weight', name: 'weight', calculationBody: 'Vehicles::car.totalMass * g' }
+    },
+    { kind: 'constraint-usage', spec: { id: 'massLimit', name: 'massLimit', expression: 'car.totalMass <= 2000' } },
+    {
+      kind: 'constraint-usage',
+      spec: { id: 'lightweight', name: 'lightweight', expression: 'weight > 15000', isNegated: true }
+    }
+  ],
+  relationships: []
+};
+
+describe('Parametric Evaluation', () => {
+  it('should compute derived attributes through inherited, relative and qualified references', () => {
+    const { values } = evaluateModel(model);
+
+    expect(values['Vehicles::car.totalMass']).toEqual({
+      elementId: 'car',
+      name: 'totalMass',
+      qualifiedName: 'Vehicles::car.totalMass',
+      expression: 'dryMass + payload',
+      value: 1900,
+      derived: true
+    });
+    expect(values['Vehicles::car.payload']).toMatchObject({ value: 400, derived: false });
+    expect(values['Car.totalMass'].value).toBe(1800);
+    expect(values.weight.value).toBeCloseTo(18639);
+  });
+
+  it('should check constraints against the computed values', () => {
+    const { constraints } = evaluateModel(model);
+
+    expect(constraints).toEqual([
+      {
+        elementId: 'massLimit',
+        name: 'massLimit',
+        expression: 'car.totalMass <= 2000',
+        inputs: { 'car.totalMass': 1900 },
+        satisfied: true
+      },
+      {
+        elementId: 'lightweight',
+        name: 'lightweight',
+        expression: 'weight > 15000',
+        inputs: { weight: 18639 },
+        satisfied: false
+      }
+    ]);
+  });
+
+  it('should replace values by qualified name', () => {
+    const evaluation = evaluateModel(model, { values: { 'Vehicles::car.payload': 600, 'Car.dryMass': 0 } });
+
+    expect(evaluation.values['Vehicles::car.totalMass'].value).toBe(2100);
+    expect(evaluation.values['Car.totalMass'].value).toBe(300);
+    expect(evaluation.constraints[0].satisfied).toBe(false);
+  });
+
+  it('should evaluate values with units in coherent SI units', () => {
+    const { values } = evaluateModel({
+      nodes: [
+        { kind: 'attribute-usage', spec: { id: 'range', name: 'range', value: '1.2 [km]' } },
+        { kind: 'attribute-usage', spec: { id: 'extra', name: 'extra', value: '300 [m]' } },
+        { kind: 'attribute-usage', spec: { id: 'total', name: 'total', value: 'range + extra' } },
+        { kind: 'attribute-usage', spec: { id: 'bad', name: 'bad', value: '3 [furlong]' } }
+      ],
+      relationships: []
+    });
+
+    expect([values.range.value, values.total.value]).toEqual([1200, 1500]);
+    expect(values.bad.error).toBe("Unknown unit 'furlong'");
+  });
+
+  it('should report type errors, cycles and missing values instead of throwing', () => {
+    const { values, constraints } = evaluateModel({
+      nodes: [
+        { kind: 'attribute-usage', spec: { id: 'a', name: 'a', value: 'b + 1' } },
+        { kind: 'attribute-usage', spec: { id: 'b', name: 'b', value: 'a * 2' } },
+        { kind: 'attribute-usage', spec: { id: 'label', name: 'label', value: "'fast'" } },
+        { kind: 'attribute-usage', spec: { id: 'speed', name: 'speed' } },
+        { kind: 'constraint-usage', spec: { id: 'typed', name: 'typed', expression: 'label > 1 or true' } },
+        { kind: 'constraint-usage', spec: { id: 'numeric', name: 'numeric', expression: 'speed + 1' } },
+        { kind: 'constraint-usage', spec: { id: 'notBoolean', name: 'notBoolean', expression: '1 + 2' } }
+      ],
+      relationships: []
+    });
+
+    expect(values.a.error).toBe("Circular reference through 'a'");
+    expect(values.b.error).toBe("Circular reference through 'a'");
+    expect(values.speed).toEqual({
+      elementId: 'speed',
+      name: 'speed',
+      qualifiedName: 'speed',
+      derived: false,
+      error: "'speed' has no value"
+    });
+    expect(constraints.map((constraint) => constraint.error)).toEqual([
+      "'>' cannot combine a string and a number",
+      "'speed' has no value",
+      'A constraint must be a boolean, got a number'
+    ]);
+  });
+
+  it('should report violated constraints as validation diagnostics', () => {
+    expect(validateModel(model, { rules: [constraintEvaluationRule] })).toEqual([
+      {
+        severity: 'error',
+        ruleId: 'sysml.constraint-evaluation',
+        elementId: 'lightweight',
+        message: "'lightweight' is violated: weight > 15000"
+      }
+    ]);
+  });
+
+  it('should show results and computed values on the nodes', () => {
+    const nodes = attachEvaluation(
+      [
+        createPartUsageNode({
+          id: 'car',
+          name: 'car',
+          attributes: [{ name: 'payload', value: '400' }, { name: 'totalMass' }]
+        }),
+        createCalculationUsageNode({ id: 'weight', name: 'weight', calculationBody: 'Vehicles::car.totalMass * g' }),
+        createConstraintUsageNode({ id: 'massLimit', name: 'massLimit', expression: 'car.totalMass <= 2000' })
+      ],
+      evaluateModel(model)
+    );
+
+    expect(nodes[0].data.compartments?.[0].items).toEqual([
+      { label: 'payload', value: '400' },
+      { label: 'totalMass', value: '= 1900' }
+    ]);
+    expect(nodes[1].data.evaluation).toEqual({ status: 'computed', value: '18639' });
+    expect(nodes[2].data.evaluation).toEqual({
+      status: 'satisfied',
+      inputs: [{ label: 'car.totalMass', value: '1900' }]
+    });
+  });
+});
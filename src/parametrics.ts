@@ -0,0 +1,475 @@
+import { getContainment } from './containment';
+import {
+  checkExpression,
+  evaluateExpression,
+  getExpressionReferences,
+  parseExpression,
+  SysMLExpressionError,
+  type SysMLValue,
+  type SysMLValueType
+} from './expressions';
+import { parseQuantity, SysMLUnitError, toBaseUnits } from './units';
+import type { SysMLValidationRule } from './validation';
+import type {
+  SysMLCompartmentItem,
+  SysMLNodeKind,
+  SysMLNodeSpec,
+  SysMLPropertySpec,
+  SysMLReactFlowNode
+} from './types';
+import type { SysMLModel } from './viewpoints';
+
+/** An attribute, calculation input/output or calculation result of an evaluated model. */
+export interface SysMLEvaluatedValue {
+  /** Node declaring the value: the attribute usage, calculation or owner of the attribute. */
+  elementId: string;
+  name: string;
+  /** Owning names joined by `::` after packages and `.` after other elements, e.g. `Vehicles::car.mass`. */
+  qualifiedName: string;
+  expression?: string;
+  value?: SysMLValue;
+  /** Computed from other values rather than given as a literal. */
+  derived: boolean;
+  error?: string;
+}
+
+export interface SysMLConstraintResult {
+  elementId: string;
+  name: string;
+  expression: string;
+  /** Whether the expression holds, taking `isNegated` into account; unset when it failed to evaluate. */
+  satisfied?: boolean;
+  /** Values of the references in the expression that could be evaluated. */
+  inputs: Record<string, SysMLValue>;
+  error?: string;
+}
+
+export interface SysMLModelEvaluation {
+  /** Values by qualified name, in declaration order. */
+  values: Record<string, SysMLEvaluatedValue>;
+  constraints: SysMLConstraintResult[];
+}
+
+export interface SysMLModelEvaluationOptions {
+  /**
+   * Values replacing the declared value of an attribute, by qualified name
+   * (`car.mass` or `Vehicles::car.mass`). Names matching no attribute are
+   * available to every expression as free variables.
+   */
+  values?: Record<string, SysMLValue>;
+}
+
+interface Slot {
+  result: SysMLEvaluatedValue;
+  /** Owner segments that relative references are resolved against, innermost last. */
+  scope: string[];
+}
+
+const packageKinds = new Set(['package', 'library-package']);
+const valueKinds = new Set<SysMLNodeKind>([
+  'attribute-definition',
+  'attribute-usage',
+  'calculation-definition',
+  'calculation-usage'
+]);
+
+const splitName = (name: string) => name.split(/\.|::/);
+
+// Values with units (`12 [g]`) are evaluated in coherent SI units (0.012)
+const quantityOf = (text: string) => {
+  const quantity = parseQuantity(text);
+  return quantity && toBaseUnits(quantity);
+};
+
+const nameOf = (node: SysMLNodeSpec) => ('name' in node.spec && node.spec.name ? node.spec.name : node.spec.id);
+
+const qualify = (segments: Array<{ name: string; isPackage: boolean }>) =>
+  segments.reduce(
+    (qualified, segment, index) =>
+      index === 0 ? segment.name : `${qualified}${segments[index - 1].isPackage ? '::' : '.'}${segment.name}`,
+    ''
+  );
+
+// Rounded to hide floating point noise such as 0.30000000000000004
+const formatValue = (value: SysMLValue) =>
+  typeof value === 'number'
+    ? String(Number(value.toPrecision(12)))
+    : typeof value === 'string'
+      ? `'${value}'`
+      : String(value);
+
+/**
+ * Evaluate the parametric content of a model: attribute values, calculation
+ * and analysis case results, and constraints. Expressions reference other
+ * values by name, resolved from the innermost owner outwards (`mass` next to the attribute,
+ * `car.mass`, `Vehicles::car.mass`), so derived attributes are computed in
+ * dependency order. Values with units (`12 [g]`) are converted to coherent
+ * SI units (`0.012`). Part usages inherit the attributes of their part
+ * definition. Every expression is type checked before it is evaluated;
+ * errors and reference cycles are reported on the affected values and
+ * constraints instead of being thrown.
+ *
+ * @example
+ * ```typescript
+ * const evaluation = evaluateModel(model, { values: { 'car.payload': 400 } });
+ *
+ * evaluation.values['car.totalMass'].value; // 1900
+ * evaluation.constraints[0].satisfied; // true
+ * ```
+ */
+export const evaluateModel = (
+  model: SysMLModel,
+  options: SysMLModelEvaluationOptions = {}
+): SysMLModelEvaluation => {
+  const containment = getContainment(model);
+  const nodesById = new Map(model.nodes.map((node) => [node.spec.id, node]));
+  const overrides = new Map(
+    Object.entries(options.values ?? {}).map(([name, value]) => [splitName(name).join('.'), value])
+  );
+
+  const pathOf = (id: string, visited = new Set<string>()): Array<{ name: string; isPackage: boolean }> => {
+    const node = nodesById.get(id);
+    if (!node || visited.has(id)) {
+      return [];
+    }
+    visited.add(id);
+    const owner = containment[id];
+    return [
+      ...(owner !== undefined ? pathOf(owner, visited) : []),
+      { name: nameOf(node), isPackage: packageKinds.has(node.kind) }
+    ];
+  };
+
+  const slots = new Map<string, Slot>();
+  const addSlot = (
+    elementId: string,
+    path: Array<{ name: string; isPackage: boolean }>,
+    expression: string | undefined,
+    { derived = false, isNamespace = false }: { derived?: boolean; isNamespace?: boolean } = {}
+  ) => {
+    const key = path.map((segment) => segment.name).join('.');
+    if (slots.has(key)) {
+      return;
+    }
+    slots.set(key, {
+      result: {
+        elementId,
+        name: path[path.length - 1].name,
+        qualifiedName: qualify(path),
+        ...(expression !== undefined && { expression }),
+        derived
+      },
+      scope: (isNamespace ? path : path.slice(0, -1)).map((segment) => segment.name)
+    });
+  };
+  const addProperties = (
+    elementId: string,
+    ownerPath: Array<{ name: string; isPackage: boolean }>,
+    properties: SysMLPropertySpec[] = []
+  ) =>
+    properties.forEach((property) =>
+      addSlot(elementId, [...ownerPath, { name: property.name, isPackage: false }], property.value)
+    );
+
+  const findDefinition = (reference: string | undefined, kind: SysMLNodeKind) =>
+    reference === undefined
+      ? undefined
+      : (nodesById.get(reference) ?? model.nodes.find((node) => node.kind === kind && nameOf(node) === reference));
+
+  model.nodes.forEach((node) => {
+    const path = pathOf(node.spec.id);
+    switch (node.kind) {
+      case 'attribute-usage':
+        addSlot(node.spec.id, path, node.spec.value, { derived: node.spec.isDerived });
+        return;
+      case 'attribute-definition':
+        addSlot(node.spec.id, path, node.spec.defaultValue);
+        return;
+      case 'calculation-definition':
+        addSlot(node.spec.id, path, node.spec.expression, { derived: true, isNamespace: true });
+        addProperties(node.spec.id, path, [...(node.spec.inputs ?? []), ...(node.spec.outputs ?? [])]);
+        return;
+      case 'calculation-usage':
+        addSlot(node.spec.id, path, node.spec.calculationBody, { derived: true, isNamespace: true });
+        addProperties(node.spec.id, path, [...(node.spec.inputs ?? []), ...(node.spec.outputs ?? [])]);
+        return;
+      case 'part-usage': {
+        addProperties(node.spec.id, path, node.spec.attributes);
+        // Inherited attributes are evaluated in the scope of the usage
+        const definition = findDefinition(node.spec.definition, 'part-definition');
+        if (definition?.kind === 'part-definition') {
+          addProperties(node.spec.id, path, definition.spec.attributes);
+        }
+        return;
+      }
+      case 'analysis-case-definition':
+        addSlot(node.spec.id, path, node.spec.resultExpression, { derived: true, isNamespace: true });
+        addProperties(node.spec.id, path, node.spec.inputs);
+        return;
+      case 'analysis-case-usage': {
+        const definition = findDefinition(node.spec.definition, 'analysis-case-definition');
+        const inherited = definition?.kind === 'analysis-case-definition' ? definition.spec : undefined;
+        addSlot(node.spec.id, path, node.spec.resultExpression ?? inherited?.resultExpression, {
+          derived: true,
+          isNamespace: true
+        });
+        addProperties(node.spec.id, path, [...(node.spec.inputs ?? []), ...(inherited?.inputs ?? [])]);
+        return;
+      }
+      default:
+        if ('attributes' in node.spec) {
+          addProperties(node.spec.id, path, node.spec.attributes);
+        }
+    }
+  });
+
+  const results = new Map<string, SysMLEvaluatedValue>();
+  const resolving = new Set<string>();
+
+  const valueOf = (key: string): SysMLValue => {
+    const slot = slots.get(key) as Slot;
+    const done = results.get(key);
+    if (done) {
+      if (done.value === undefined) {
+        throw new SysMLExpressionError(`'${done.qualifiedName}' has no value`);
+      }
+      return done.value;
+    }
+    if (resolving.has(key)) {
+      throw new SysMLExpressionError(`Circular reference through '${slot.result.qualifiedName}'`);
+    }
+
+    resolving.add(key);
+    const result: SysMLEvaluatedValue = { ...slot.result };
+    try {
+      const override = overrides.get(key);
+      if (override !== undefined) {
+        result.value = override;
+      } else if (slot.result.expression === undefined) {
+        result.error = `'${slot.result.qualifiedName}' has no value`;
+      } else {
+        result.value = quantityOf(slot.result.expression);
+        if (result.value === undefined) {
+          const expression = parseExpression(slot.result.expression);
+          result.derived ||= getExpressionReferences(expression).length > 0;
+          checkExpression(expression, typesIn(slot.scope));
+          result.value = evaluateExpression(expression, (name) => resolve(name, slot.scope));
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof SysMLExpressionError) && !(error instanceof SysMLUnitError)) {
+        throw error;
+      }
+      result.error = error.message;
+    } finally {
+      resolving.delete(key);
+    }
+    results.set(key, result);
+    if (result.value === undefined) {
+      throw new SysMLExpressionError(result.error ?? `'${result.qualifiedName}' has no value`);
+    }
+    return result.value;
+  };
+
+  // Relative references are tried from the innermost scope outwards
+  const resolve = (name: string, scope: string[]): SysMLValue | undefined => {
+    const segments = splitName(name);
+    for (let depth = scope.length; depth >= 0; depth -= 1) {
+      const key = [...scope.slice(0, depth), ...segments].join('.');
+      if (slots.has(key)) {
+        return valueOf(key);
+      }
+    }
+    return overrides.get(segments.join('.'));
+  };
+
+  const typesIn = (scope: string[]) => (name: string) => {
+    const value = resolve(name, scope);
+    return value === undefined ? undefined : (typeof value as SysMLValueType);
+  };
+
+  slots.forEach((_slot, key) => {
+    if (!results.has(key)) {
+      try {
+        valueOf(key);
+      } catch (error) {
+        if (!(error instanceof SysMLExpressionError)) {
+          throw error;
+        }
+      }
+    }
+  });
+
+  const constraints = model.nodes.flatMap((node): SysMLConstraintResult[] => {
+    if ((node.kind !== 'constraint-definition' && node.kind !== 'constraint-usage') || !node.spec.expression) {
+      return [];
+    }
+    const scope = pathOf(node.spec.id)
+      .slice(0, -1)
+      .map((segment) => segment.name);
+    const result: SysMLConstraintResult = {
+      elementId: node.spec.id,
+      name: node.spec.name,
+      expression: node.spec.expression,
+      inputs: {}
+    };
+    try {
+      const expression = parseExpression(node.spec.expression);
+      getExpressionReferences(expression).forEach((name) => {
+        try {
+          const value = resolve(name, scope);
+          if (value !== undefined) {
+            result.inputs[name] = value;
+          }
+        } catch {
+          // Reported by the evaluation below
+        }
+      });
+      const type = checkExpression(expression, typesIn(scope));
+      if (type !== 'boolean') {
+        throw new SysMLExpressionError(`A constraint must be a boolean, got a ${type}`);
+      }
+      const holds = evaluateExpression(expression, (name) => resolve(name, scope));
+      result.satisfied = holds !== (node.spec.isNegated ?? false);
+    } catch (error) {
+      if (!(error instanceof SysMLExpressionError)) {
+        throw error;
+      }
+      result.error = error.message;
+    }
+    return [result];
+  });
+
+  return {
+    values: Object.fromEntries(
+      [...slots.keys()].map((key) => {
+        const result = results.get(key) as SysMLEvaluatedValue;
+        return [result.qualifiedName, result];
+      })
+    ),
+    constraints
+  };
+};
+
+/**
+ * Look up an evaluated value by qualified name (`Vehicles::car.mass` or
+ * `Vehicles.car.mass`), or by a name relative to the qualified name of an
+ * owner, trying the innermost owner first as expressions do.
+ */
+export const getEvaluatedValue = (
+  evaluation: SysMLModelEvaluation,
+  name: string,
+  scope?: string
+): SysMLEvaluatedValue | undefined => {
+  const byKey = new Map(
+    Object.values(evaluation.values).map((value) => [splitName(value.qualifiedName).join('.'), value])
+  );
+  const owners = scope === undefined ? [] : splitName(scope);
+  for (let depth = owners.length; depth >= 0; depth -= 1) {
+    const value = byKey.get([...owners.slice(0, depth), ...splitName(name)].join('.'));
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Violated constraints and expressions that fail to evaluate. Not part of
+ * `sysmlValidationRules`; add it to `validateModel`'s rules.
+ */
+export const constraintEvaluationRule: SysMLValidationRule = {
+  id: 'sysml.constraint-evaluation',
+  name: 'Constraint evaluation',
+  description: 'Every constraint must hold and every attribute and calculation expression must evaluate.',
+  severity: 'error',
+  validate: ({ model }) => {
+    const evaluation = evaluateModel(model);
+    return [
+      ...evaluation.constraints
+        .filter((constraint) => constraint.satisfied !== true)
+        .map((constraint) => ({
+          elementId: constraint.elementId,
+          message:
+            constraint.error !== undefined
+              ? `'${constraint.name}' cannot be evaluated: ${constraint.error}`
+              : `'${constraint.name}' is violated: ${constraint.expression}`
+        })),
+      // Values that were never given are not errors
+      ...Object.values(evaluation.values)
+        .filter((value) => value.error !== undefined && value.expression !== undefined)
+        .map((value) => ({
+          elementId: value.elementId,
+          message: `'${value.qualifiedName}' cannot be evaluated: ${value.error}`
+        }))
+    ];
+  }
+};
+
+/**
+ * Show constraint results, calculation results and computed attribute values
+ * on the rendered nodes.
+ */
+export const attachEvaluation = (
+  nodes: SysMLReactFlowNode[],
+  evaluation: SysMLModelEvaluation
+): SysMLReactFlowNode[] => {
+  const constraintsById = new Map(evaluation.constraints.map((constraint) => [constraint.elementId, constraint]));
+  const valuesById = new Map<string, SysMLEvaluatedValue[]>();
+  Object.values(evaluation.values).forEach((value) =>
+    valuesById.set(value.elementId, [...(valuesById.get(value.elementId) ?? []), value])
+  );
+
+  return nodes.map((node) => {
+    const constraint = constraintsById.get(node.id);
+    if (constraint) {
+      const inputs: SysMLCompartmentItem[] = Object.entries(constraint.inputs).map(([label, value]) => ({
+        label,
+        value: formatValue(value)
+      }));
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          evaluation:
+            constraint.error !== undefined
+              ? { status: 'error', value: constraint.error, inputs }
+              : { status: constraint.satisfied ? 'satisfied' : 'violated', inputs }
+        }
+      };
+    }
+
+    const values = valuesById.get(node.id);
+    if (!values) {
+      return node;
+    }
+    // Attribute usages and calculations declare their own value before any inputs
+    const own = valueKinds.has(node.data.kind) ? values[0] : undefined;
+    const owned = new Map(values.filter((value) => value !== own && value.derived).map((value) => [value.name, value]));
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        ...(own &&
+          (own.derived || own.error !== undefined) &&
+          own.expression !== undefined && {
+            evaluation:
+              own.value !== undefined
+                ? { status: 'computed' as const, value: formatValue(own.value) }
+                : { status: 'error' as const, value: own.error }
+          }),
+        compartments: node.data.compartments?.map((compartment) => ({
+          ...compartment,
+          items: compartment.items.map((item) => {
+            const value = owned.get(item.label);
+            if (!value) {
+              return item;
+            }
+            const computed = value.value !== undefined ? formatValue(value.value) : '?';
+            return { ...item, value: item.value ? `${item.value} = ${computed}` : `= ${computed}` };
+          })
+        }))
+      }
+    };
+  });
+};
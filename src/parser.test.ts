@@ -0,0 +1,463 @@
+import { describe, it, expect } from 'vitest';
+import { parseSysML } from './parser';
+import { sysmlNodeSyntax, sysmlEdgeKinds } from './notation';
+import type { SysMLNodeKind } from './types';
+
+describe('SysML v2 Textual Parser', () => {
+  describe('Structural elements', () => {
+    it('should parse a part definition with attributes, ports and actions', () => {
+      const { model, diagnostics } = parseSysML(`
+        #system part def <'part-def-1'> Vehicle {
+          doc /* A road vehicle. */
+          attribute mass : Real [1] = 1500;
+          in port fuelIn : FuelPort;
+          inout port bus : ~CanPort;
+          action drive;
+        }
+      `);
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.nodes).toEqual([
+        {
+          kind: 'part-definition',
+          spec: {
+            id: 'part-def-1',
+            name: 'Vehicle',
+            stereotype: 'system',
+            description: 'A road vehicle.',
+            attributes: [{ name: 'mass', type: 'Real', multiplicity: '1', value: '1500' }],
+            ports: [
+              { name: 'fuelIn', type: 'FuelPort', direction: 'in' },
+              { name: 'bus', type: '~CanPort', direction: 'inout' }
+            ],
+            actions: ['drive']
+          }
+        }
+      ]);
+    });
+
+    it('should parse usages with typing, redefinition and subsetting', () => {
+      const { model } = parseSysML('part engine : Engine :>> powerSource :> components;');
+
+      expect(model.nodes[0]).toEqual({
+        kind: 'part-usage',
+        spec: {
+          id: 'engine',
+          name: 'engine',
+          definition: 'Engine',
+          redefines: ['powerSource'],
+          subsets: ['components']
+        }
+      });
+    });
+
+    it('should turn definition specialization into relationships', () => {
+      const { model } = parseSysML('part def Base; part def Car :> Base;');
+
+      expect(model.relationships).toEqual([
+        { id: 'Car-specialization-Base', type: 'specialization', source: 'Car', target: 'Base' }
+      ]);
+    });
+
+    it('should apply modifiers to spec flags', () => {
+      const { model } = parseSysML('abstract attribute def Mass : Real = 0; readonly derived attribute m : Mass;');
+
+      expect(model.nodes[0].spec).toMatchObject({ isAbstract: true, type: 'Real', defaultValue: '0' });
+      expect(model.nodes[1].spec).toMatchObject({ isReadOnly: true, isDerived: true, definition: 'Mass' });
+    });
+  });
+
+  describe('Packages', () => {
+    it('should qualify nested ids and record members', () => {
+      const { model } = parseSysML(`
+        package Vehicles {
+          import ISQ::*;
+          part def Car;
+          package Parts { part def Wheel; }
+        }
+      `);
+
+      const ids = model.nodes.map((node) => node.spec.id);
+      expect(ids).toEqual(['Vehicles', 'Vehicles::Car', 'Vehicles::Parts', 'Vehicles::Parts::Wheel']);
+      expect(model.nodes[0].spec).toMatchObject({
+        imports: ['ISQ::*'],
+        members: ['Vehicles::Car', 'Vehicles::Parts']
+      });
+      expect(model.nodes[2].spec).toMatchObject({ members: ['Vehicles::Parts::Wheel'] });
+    });
+
+    it('should resolve relationship references relative to the package scope', () => {
+      const { model, diagnostics } = parseSysML(`
+        package P {
+          part def A;
+          part def B;
+          dependency from A to B;
+        }
+      `);
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.relationships[0]).toMatchObject({ source: 'P::A', target: 'P::B' });
+    });
+  });
+
+  describe('Behavior', () => {
+    it('should parse control nodes from their keywords', () => {
+      const { model } = parseSysML('initial I; final Z; fork F; join J; decide D; merge M;');
+
+      expect(model.nodes.map((node) => node.spec)).toEqual([
+        { id: 'I', name: 'I', controlType: 'initial' },
+        { id: 'Z', name: 'Z', controlType: 'final' },
+        { id: 'F', name: 'F', controlType: 'fork' },
+        { id: 'J', name: 'J', controlType: 'join' },
+        { id: 'D', name: 'D', controlType: 'decision' },
+        { id: 'M', name: 'M', controlType: 'merge' }
+      ]);
+    });
+
+    it('should parse state machines with entry, do and exit actions', () => {
+      const { model } = parseSysML(`
+        state machine Controller {
+          state Idle { entry init; do monitor(); exit cleanup; }
+          state <'s-run'> Running;
+        }
+      `);
+
+      expect(model.nodes[0].spec).toEqual({
+        id: 'Controller',
+        name: 'Controller',
+        states: [
+          { id: 'Idle', name: 'Idle', entryAction: 'init', doActivity: 'monitor()', exitAction: 'cleanup' },
+          { id: 's-run', name: 'Running' }
+        ]
+      });
+    });
+
+    it('should parse pseudostates and parallel states', () => {
+      const { model, diagnostics } = parseSysML(`
+        parallel state Driving { state lights; state motion; }
+        initial state start;
+        history state back;
+        deep history state resume;
+        fork state split;
+        fork F;
+        transition first start then Driving;
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(model.nodes.map((node) => [node.kind, node.spec])).toEqual([
+        ['state-usage', { id: 'Driving', name: 'Driving', isParallel: true, substates: ['lights', 'motion'] }],
+        ['pseudo-state', { id: 'start', name: 'start', pseudoType: 'initial' }],
+        ['pseudo-state', { id: 'back', name: 'back', pseudoType: 'shallow-history' }],
+        ['pseudo-state', { id: 'resume', name: 'resume', pseudoType: 'deep-history' }],
+        ['pseudo-state', { id: 'split', name: 'split', pseudoType: 'fork' }],
+        ['activity-control', { id: 'F', name: 'F', controlType: 'fork' }]
+      ]);
+      expect(model.relationships[0]).toMatchObject({ type: 'transition', source: 'start', target: 'Driving' });
+    });
+
+    it('should distinguish transition usages from transition relationships', () => {
+      const { model } = parseSysML(`
+        state Idle;
+        state Running;
+        transition Start first Idle accept go if ready and speed > 0 do beep() then Running;
+        transition "go" first Idle accept go then Running;
+      `);
+
+      expect(model.nodes[2]).toEqual({
+        kind: 'transition-usage',
+        spec: {
+          id: 'Start',
+          name: 'Start',
+          source: 'Idle',
+          trigger: 'go',
+          guard: 'ready and speed > 0',
+          effect: 'beep()',
+          target: 'Running'
+        }
+      });
+      expect(model.relationships).toEqual([
+        { id: 'Idle-transition-Running', type: 'transition', source: 'Idle', target: 'Running', label: 'go', trigger: 'go' }
+      ]);
+    });
+  });
+
+  describe('Interactions', () => {
+    it('should parse combined fragments with guarded operands', () => {
+      const { model, diagnostics } = parseSysML(`
+        fragment check {
+          operator alt;
+          operand [level > 0.2] { message start; message 'A-message-B'; }
+          operand [else] { }
+        }
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(model.nodes[0]).toEqual({
+        kind: 'sequence-fragment',
+        spec: {
+          id: 'check',
+          name: 'check',
+          operator: 'alt',
+          operands: [
+            { guard: 'level > 0.2', messages: ['start', 'A-message-B'] },
+            { guard: 'else', messages: [] }
+          ]
+        }
+      });
+    });
+  });
+
+  describe('Requirements', () => {
+    it('should map doc to requirement text and parse constraints', () => {
+      const { model } = parseSysML(`
+        requirement def <'REQ-1'> MaxMass {
+          doc /* The vehicle mass shall not exceed 2000 kg. */
+          comment /* Derived from regulation. */
+          reqId "R-001";
+          assume constraint { fuel > 0 }
+          require constraint { mass <= 2000 }
+        }
+      `);
+
+      expect(model.nodes[0].spec).toEqual({
+        id: 'REQ-1',
+        name: 'MaxMass',
+        text: 'The vehicle mass shall not exceed 2000 kg.',
+        description: 'Derived from regulation.',
+        reqId: 'R-001',
+        assumeConstraint: ['fuel > 0'],
+        requireConstraint: ['mass <= 2000']
+      });
+    });
+
+    it('should parse constraint parameters and bare constraint expressions', () => {
+      const { model, diagnostics } = parseSysML('constraint def MassLimit { in mass : Real; mass <= 2000 }');
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.nodes[0].spec).toEqual({
+        id: 'MassLimit',
+        name: 'MassLimit',
+        inputs: [{ name: 'mass', type: 'Real' }],
+        expression: 'mass <= 2000'
+      });
+    });
+
+    it('should parse interface ends, use case actors and included use cases', () => {
+      const { model, diagnostics } = parseSysML(`
+        interface def Fuel { end port supply : FuelPort; end in port demand : ~FuelPort; }
+        use case def Drive { actor driver; include use case Park; }
+        use case commute : Drive { include use case Park; }
+      `);
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.nodes.map((node) => node.spec)).toEqual([
+        {
+          id: 'Fuel',
+          name: 'Fuel',
+          ports: [
+            { name: 'supply', type: 'FuelPort' },
+            { name: 'demand', type: '~FuelPort', direction: 'in' }
+          ]
+        },
+        { id: 'Drive', name: 'Drive', actors: ['driver'], includedUseCases: ['Park'] },
+        { id: 'commute', name: 'commute', definition: 'Drive', includes: ['Park'] }
+      ]);
+    });
+  });
+
+  describe('Relationships', () => {
+    const elements = 'part def P; requirement def R; verification V; action A;';
+
+    it('should parse native satisfy, verify and allocate forms', () => {
+      const { model } = parseSysML(`
+        ${elements}
+        satisfy R by P;
+        verify <'v-1'> R by V { doc /* Test campaign */ }
+        allocate "runtime" A to P;
+      `);
+
+      expect(model.relationships).toEqual([
+        { id: 'P-satisfy-R', type: 'satisfy', source: 'P', target: 'R' },
+        { id: 'v-1', type: 'verify', source: 'V', target: 'R', rationale: 'Test campaign' },
+        { id: 'A-allocate-P', type: 'allocate', source: 'A', target: 'P', label: 'runtime' }
+      ]);
+    });
+
+    it('should parse successions and bindings', () => {
+      const { model } = parseSysML('action a; action b; first a then b; bind a = b;');
+
+      expect(model.relationships.map((relationship) => relationship.type)).toEqual([
+        'succession',
+        'binding-connector'
+      ]);
+    });
+
+    it('should parse native connect, flow and message forms', () => {
+      const { model, diagnostics } = parseSysML(`
+        part engine; part wheels; part tank; item def Fuel; lifeline client; lifeline server;
+        connect engine to wheels;
+        flow of Fuel from tank to engine;
+        message request from client to server;
+      `);
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.relationships).toEqual([
+        { id: 'engine-connector-as-usage-wheels', type: 'connector-as-usage', source: 'engine', target: 'wheels' },
+        { id: 'tank-flow-connection-engine', type: 'flow-connection', source: 'tank', target: 'engine', label: 'Fuel' },
+        { id: 'client-message-server', type: 'message', source: 'client', target: 'server', label: 'request' }
+      ]);
+    });
+
+    it('should add relationships and transition usages declared in bodies to the model', () => {
+      const { model, diagnostics } = parseSysML(`
+        state Idle; state Running; action a; action b;
+        state def Modes { state Idle; state Running; transition start first Idle then Running; }
+        action def Drive { in speed : Real; first a then b; }
+      `);
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.nodes.map((node) => node.spec.id)).toEqual(['Idle', 'Running', 'a', 'b', 'Modes', 'start', 'Drive']);
+      expect(model.nodes[5].spec).toEqual({ id: 'start', name: 'start', source: 'Idle', target: 'Running' });
+      expect(model.relationships).toEqual([{ id: 'a-succession-b', type: 'succession', source: 'a', target: 'b' }]);
+    });
+
+    it('should accept the generic form for every relationship kind', () => {
+      const source = sysmlEdgeKinds.map((kind) => `${kind} from A to B;`).join('\n');
+      const { model, diagnostics } = parseSysML(`part def A; part def B;\n${source}`);
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.relationships.map((relationship) => relationship.type)).toEqual(sysmlEdgeKinds);
+    });
+
+    it('should disambiguate default ids for repeated relationships', () => {
+      const { model } = parseSysML('part def A; part def B; dependency from A to B; dependency from A to B;');
+
+      expect(model.relationships.map((relationship) => relationship.id)).toEqual([
+        'A-dependency-B',
+        'A-dependency-B-2'
+      ]);
+    });
+  });
+
+  describe('Annotations', () => {
+    it('should parse comments, documentation and metadata', () => {
+      const { model } = parseSysML(`
+        part def Vehicle;
+        comment <'c1'> about Vehicle locale "en-US" /* Needs review. */
+        doc <'d1'> about Vehicle /* Vehicle overview. */
+        metadata Safety : SafetyMeta about Vehicle { level = "ASIL-B"; }
+      `);
+
+      expect(model.nodes.slice(1).map((node) => node.spec)).toEqual([
+        { id: 'c1', annotatedElement: 'Vehicle', locale: 'en-US', body: 'Needs review.' },
+        { id: 'd1', documentedElement: 'Vehicle', body: 'Vehicle overview.' },
+        {
+          id: 'Safety',
+          name: 'Safety',
+          definition: 'SafetyMeta',
+          annotatedElement: 'Vehicle',
+          metadataValues: { level: 'ASIL-B' }
+        }
+      ]);
+    });
+  });
+
+  describe('Coverage', () => {
+    it('should recognise a keyword for every node kind', () => {
+      const kinds = Object.keys(sysmlNodeSyntax) as SysMLNodeKind[];
+      const source = kinds
+        .map((kind, index) => {
+          const syntax = sysmlNodeSyntax[kind];
+          const words = syntax.variants ? Object.values(syntax.variants.keywords)[0] : syntax.keywords;
+          // Transition usages need their ends
+          const ends = syntax.transition ? ' first N0 then N0' : '';
+          return syntax.nameless
+            ? `${words.join(' ')} <'n${index}'> /* text */`
+            : `${words.join(' ')} N${index}${ends};`;
+        })
+        .join('\n');
+
+      const { model, diagnostics } = parseSysML(source);
+
+      expect(diagnostics).toHaveLength(0);
+      expect(model.nodes.map((node) => node.kind)).toEqual(kinds);
+    });
+  });
+
+  describe('Diagnostics and locations', () => {
+    it('should record source ranges for elements and relationships', () => {
+      const { locations } = parseSysML('part def A;\n  part def B;\ndependency from A to B;');
+
+      expect(locations.A.start).toEqual({ line: 1, column: 1, offset: 0 });
+      expect(locations.B.start).toMatchObject({ line: 2, column: 3 });
+      expect(locations['A-dependency-B'].end).toMatchObject({ line: 3, column: 24 });
+    });
+
+    it('should report syntax errors and recover at the next statement', () => {
+      const { model, diagnostics } = parseSysML('part def A {\n  attribute : Real;\n}\npart def B;');
+
+      expect(model.nodes.map((node) => node.spec.id)).toEqual(['A', 'B']);
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({
+        severity: 'error',
+        code: 'syntax-error',
+        range: { start: { line: 2, column: 13 } }
+      });
+    });
+
+    it('should report transition usages without a source or target', () => {
+      const missingSource = parseSysML('state A;\ntransition t;');
+      const missingTarget = parseSysML('state A;\ntransition t first A;');
+      const messages = (diagnostics: typeof missingSource.diagnostics) =>
+        diagnostics.map((diagnostic) => diagnostic.message);
+
+      expect(messages(missingSource.diagnostics)).toEqual(["Expected 'first' but found ';'"]);
+      expect(missingSource.diagnostics[0].range.start).toMatchObject({ line: 2, column: 13 });
+      expect(messages(missingTarget.diagnostics)).toEqual(["Expected 'then' but found ';'"]);
+    });
+
+    it('should report unknown body statements', () => {
+      const { diagnostics } = parseSysML('part def A { wheel; }');
+
+      expect(diagnostics[0]).toMatchObject({ severity: 'error', code: 'unknown-statement' });
+    });
+
+    it('should name the accepted statements when rejecting unsupported body forms', () => {
+      const messages = (source: string) => parseSysML(source).diagnostics.map((diagnostic) => diagnostic.message);
+
+      expect(messages('action def D { action a; }')).toEqual([
+        "Unexpected 'action' in action-definition body; expected doc, in, out, a relationship or '}'"
+      ]);
+      expect(messages('state def S { entry; then A; }')).toEqual([
+        "Unexpected 'entry' in state-definition body; expected doc, state, a relationship or '}'",
+        "Unexpected 'then' in state-definition body; expected doc, state, a relationship or '}'"
+      ]);
+    });
+
+    it('should report unterminated comments and strings', () => {
+      const { diagnostics } = parseSysML('part def A { doc /* open');
+
+      expect(diagnostics.some((diagnostic) => diagnostic.message === 'Unterminated comment')).toBe(true);
+    });
+
+    it('should report duplicate ids and unresolved references', () => {
+      const { model, diagnostics } = parseSysML('part def A; part def A; satisfy Missing by A;');
+
+      expect(model.relationships[0].target).toBe('Missing');
+      expect(diagnostics.map((diagnostic) => [diagnostic.severity, diagnostic.code])).toEqual([
+        ['error', 'duplicate-id'],
+        ['warning', 'unresolved-reference']
+      ]);
+    });
+
+    it('should warn about ambiguous simple names', () => {
+      const { model, diagnostics } = parseSysML(
+        'package P { part def X; } package Q { part def X; } dependency from X to Q::X;'
+      );
+
+      expect(model.relationships[0]).toMatchObject({ source: 'P::X', target: 'Q::X' });
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe('ambiguous-reference');
+    });
+  });
+});
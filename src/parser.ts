@@ -0,0 +1,1275 @@
+import type {
+  SysMLEdgeKind,
+  SysMLFragmentOperandSpec,
+  SysMLNodeKind,
+  SysMLNodeSpec,
+  SysMLPortSpec,
+  SysMLPropertySpec,
+  SysMLRelationshipSpec,
+  SysMLStateSpec
+} from './types';
+import type { SysMLModel } from './viewpoints';
+import {
+  defaultRelationshipId,
+  isReservedWord,
+  isSysMLEdgeKind,
+  sysmlNodeSyntax,
+  tokenizeSysML,
+  type SysMLNodeSyntax,
+  type SysMLStatementSyntax,
+  type SysMLToken
+} from './notation';
+
+export interface SysMLSourcePosition {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** 0-based character offset */
+  offset: number;
+}
+
+export interface SysMLSourceRange {
+  start: SysMLSourcePosition;
+  end: SysMLSourcePosition;
+}
+
+export type SysMLParseDiagnosticCode =
+  | 'syntax-error'
+  | 'unknown-statement'
+  | 'unsupported-feature'
+  | 'duplicate-id'
+  | 'unresolved-reference'
+  | 'ambiguous-reference';
+
+export interface SysMLParseDiagnostic {
+  severity: 'error' | 'warning';
+  code: SysMLParseDiagnosticCode;
+  message: string;
+  range: SysMLSourceRange;
+}
+
+export interface SysMLParseResult {
+  model: SysMLModel;
+  diagnostics: SysMLParseDiagnostic[];
+  /** Source range of every parsed node spec and relationship, keyed by id. */
+  locations: Record<string, SysMLSourceRange>;
+}
+
+interface KindEntry {
+  kind: SysMLNodeKind;
+  syntax: SysMLNodeSyntax;
+  words: string[];
+  fixed: Record<string, string>;
+}
+
+// Fields of a node spec while its declaration is read, keyed by the notation table
+type SpecFields = Partial<SysMLNodeSpec['spec']> & { id: string } & Record<string, unknown>;
+
+interface Reference {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface PendingRelationship {
+  explicitId?: string;
+  type: SysMLEdgeKind;
+  source: Reference;
+  target: Reference;
+  scope: string[];
+  fields: Partial<SysMLRelationshipSpec>;
+  start: number;
+  end: number;
+}
+
+interface ParserState {
+  source: string;
+  tokens: SysMLToken[];
+  index: number;
+  lineStarts: number[];
+  nodes: SysMLNodeSpec[];
+  pending: PendingRelationship[];
+  diagnostics: SysMLParseDiagnostic[];
+  locations: Record<string, SysMLSourceRange>;
+  qualifiedNames: Map<string, string>;
+  simpleNames: Map<string, string[]>;
+  nodeIds: Set<string>;
+  anonymousCount: number;
+}
+
+class SysMLSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly start: number,
+    readonly end: number
+  ) {
+    super(message);
+  }
+}
+
+const kindEntries: KindEntry[] = (Object.entries(sysmlNodeSyntax) as [SysMLNodeKind, SysMLNodeSyntax][])
+  .flatMap(([kind, syntax]) =>
+    syntax.variants
+      ? Object.entries(syntax.variants.keywords).map(([value, words]) => ({
+          kind,
+          syntax,
+          words,
+          fixed: { [syntax.variants!.field]: value }
+        }))
+      : [{ kind, syntax, words: syntax.keywords, fixed: {} }]
+  )
+  .sort((a, b) => b.words.length - a.words.length);
+
+const modifierWords = new Set<string>(
+  Object.values(sysmlNodeSyntax).flatMap((syntax) => [
+    ...Object.keys(syntax.flags ?? {}),
+    ...Object.values(syntax.enums ?? {}).flat()
+  ])
+);
+
+const directions = ['in', 'out', 'inout'];
+
+/**
+ * Parse SysML v2 textual notation into a {@link SysMLModel}.
+ *
+ * Parsing never throws: syntax errors are reported as diagnostics and the
+ * parser resumes at the next statement, so a partially broken file still
+ * yields every element that could be read.
+ *
+ * The notation read is the subset described by `sysmlNodeSyntax` and
+ * TEXTUAL_NOTATION.md. Nested action usages in action definitions, `then A;`
+ * succession shorthands and actions of state definitions are reported as
+ * `unknown-statement` errors listing what the body accepts.
+ *
+ * @example
+ * ```typescript
+ * const { model, diagnostics } = parseSysML(`
+ *   part def Vehicle { attribute mass : Real = 1500; }
+ *   requirement def <'REQ-1'> MaxMass { doc /* Mass shall not exceed 2000 kg. *\/ }
+ *   satisfy 'REQ-1' by Vehicle;
+ * `);
+ * ```
+ */
+export const parseSysML = (source: string): SysMLParseResult => {
+  const { tokens, errors } = tokenizeSysML(source);
+  const state: ParserState = {
+    source,
+    tokens,
+    index: 0,
+    lineStarts: computeLineStarts(source),
+    nodes: [],
+    pending: [],
+    diagnostics: [],
+    locations: {},
+    qualifiedNames: new Map(),
+    simpleNames: new Map(),
+    nodeIds: new Set(),
+    anonymousCount: 0
+  };
+
+  errors.forEach((error) => report(state, 'error', 'syntax-error', error.message, error.start, error.end));
+
+  while (peek(state).type !== 'eof') {
+    if (isSymbol(peek(state), '}')) {
+      const stray = next(state);
+      report(state, 'error', 'syntax-error', "Unexpected '}'", stray.start, stray.end);
+      continue;
+    }
+    parseMember(state, []);
+  }
+
+  const relationships = resolveRelationships(state);
+
+  return {
+    model: { nodes: state.nodes, relationships },
+    diagnostics: state.diagnostics.sort((a, b) => a.range.start.offset - b.range.start.offset),
+    locations: state.locations
+  };
+};
+
+// Token helpers
+
+function peek(state: ParserState, ahead = 0): SysMLToken {
+  let seen = 0;
+  for (let i = state.index; i < state.tokens.length; i += 1) {
+    const token = state.tokens[i];
+    if (token.type === 'comment') {
+      continue;
+    }
+    if (seen === ahead) {
+      return token;
+    }
+    seen += 1;
+  }
+  return state.tokens[state.tokens.length - 1];
+}
+
+function next(state: ParserState): SysMLToken {
+  while (state.tokens[state.index]?.type === 'comment') {
+    state.index += 1;
+  }
+  const token = state.tokens[state.index];
+  if (token.type !== 'eof') {
+    state.index += 1;
+  }
+  return token;
+}
+
+function nextComment(state: ParserState): SysMLToken | undefined {
+  const token = state.tokens[state.index];
+  if (token?.type === 'comment') {
+    state.index += 1;
+    return token;
+  }
+  return undefined;
+}
+
+function previousEnd(state: ParserState): number {
+  return state.index > 0 ? state.tokens[state.index - 1].end : 0;
+}
+
+function isSymbol(token: SysMLToken, value: string): boolean {
+  return token.type === 'symbol' && token.value === value;
+}
+
+function isWord(token: SysMLToken, value?: string): boolean {
+  return token.type === 'word' && (value === undefined || token.value === value);
+}
+
+function isNameToken(token: SysMLToken): boolean {
+  return token.type === 'name' || (token.type === 'word' && !isReservedWord(token.value));
+}
+
+function describe(token: SysMLToken): string {
+  if (token.type === 'eof') {
+    return 'end of input';
+  }
+  return `'${token.value}'`;
+}
+
+function expectSymbol(state: ParserState, value: string): SysMLToken {
+  const token = peek(state);
+  if (!isSymbol(token, value)) {
+    throw new SysMLSyntaxError(`Expected '${value}' but found ${describe(token)}`, token.start, token.end);
+  }
+  return next(state);
+}
+
+function expectWord(state: ParserState, value: string): SysMLToken {
+  const token = peek(state);
+  if (!isWord(token, value)) {
+    throw new SysMLSyntaxError(`Expected '${value}' but found ${describe(token)}`, token.start, token.end);
+  }
+  return next(state);
+}
+
+function parseName(state: ParserState): string {
+  const token = peek(state);
+  if (token.type !== 'name' && token.type !== 'word') {
+    throw new SysMLSyntaxError(`Expected a name but found ${describe(token)}`, token.start, token.end);
+  }
+  next(state);
+  return token.value;
+}
+
+function parseShortId(state: ParserState): string | undefined {
+  if (!isSymbol(peek(state), '<')) {
+    return undefined;
+  }
+  next(state);
+  const id = parseName(state);
+  expectSymbol(state, '>');
+  return id;
+}
+
+function parseReference(state: ParserState): Reference {
+  const first = peek(state);
+  if (first.type !== 'name' && first.type !== 'word') {
+    throw new SysMLSyntaxError(`Expected a reference but found ${describe(first)}`, first.start, first.end);
+  }
+  next(state);
+  let text = first.value;
+  let end = first.end;
+
+  while ((isSymbol(peek(state), '::') || isSymbol(peek(state), '.')) && ['name', 'word'].includes(peek(state, 1).type)) {
+    const separator = next(state).value;
+    const segment = next(state);
+    text += `${separator}${segment.value}`;
+    end = segment.end;
+  }
+
+  return { text, start: first.start, end };
+}
+
+function parseReferenceList(state: ParserState): Reference[] {
+  const references = [parseReference(state)];
+  while (isSymbol(peek(state), ',')) {
+    next(state);
+    references.push(parseReference(state));
+  }
+  return references;
+}
+
+/**
+ * Read an opaque expression up to a terminating `;` (or one of the stop words)
+ * at bracket depth zero. Expressions are kept as source text.
+ */
+function readRaw(
+  state: ParserState,
+  stopWords: string[] = [],
+  stopSymbols: string[] = [';']
+): { text: string; start: number; end: number } {
+  const first = peek(state);
+  let depth = 0;
+  let end = first.start;
+  let count = 0;
+  let single: SysMLToken | undefined;
+
+  for (;;) {
+    const token = peek(state);
+    if (token.type === 'eof') {
+      break;
+    }
+    if (depth === 0) {
+      if (token.type === 'symbol' && (stopSymbols.includes(token.value) || token.value === '}')) {
+        break;
+      }
+      if (token.type === 'word' && stopWords.includes(token.value)) {
+        break;
+      }
+    }
+    if (token.type === 'symbol' && ['(', '[', '{'].includes(token.value)) {
+      depth += 1;
+    } else if (token.type === 'symbol' && [')', ']', '}'].includes(token.value)) {
+      depth -= 1;
+    }
+    next(state);
+    end = token.end;
+    single = token;
+    count += 1;
+  }
+
+  if (count === 0) {
+    throw new SysMLSyntaxError(`Expected a value but found ${describe(first)}`, first.start, first.end);
+  }
+
+  const text = count === 1 && single?.type === 'string' ? single.value : state.source.slice(first.start, end).trim();
+  return { text, start: first.start, end };
+}
+
+function readText(state: ParserState): string {
+  const comment = nextComment(state);
+  if (comment) {
+    return comment.value;
+  }
+  const token = peek(state);
+  if (token.type === 'string') {
+    next(state);
+    return token.value;
+  }
+  throw new SysMLSyntaxError(`Expected a comment body or string but found ${describe(token)}`, token.start, token.end);
+}
+
+function skipOptionalSemicolon(state: ParserState) {
+  if (isSymbol(peek(state), ';')) {
+    next(state);
+  }
+}
+
+/**
+ * Panic-mode recovery: skip to the end of the current statement, consuming a
+ * trailing `;` or a whole `{ ... }` block, but never the enclosing `}`.
+ */
+function synchronize(state: ParserState) {
+  let depth = 0;
+  for (;;) {
+    const token = peek(state);
+    if (token.type === 'eof') {
+      return;
+    }
+    if (isSymbol(token, '}')) {
+      if (depth === 0) {
+        return;
+      }
+      depth -= 1;
+      next(state);
+      if (depth === 0) {
+        return;
+      }
+      continue;
+    }
+    if (isSymbol(token, '{')) {
+      depth += 1;
+    }
+    next(state);
+    if (depth === 0 && isSymbol(token, ';')) {
+      return;
+    }
+  }
+}
+
+// Diagnostics and positions
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i += 1) {
+    if (source[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function toPosition(state: ParserState, offset: number): SysMLSourcePosition {
+  let low = 0;
+  let high = state.lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (state.lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - state.lineStarts[low] + 1, offset };
+}
+
+function toRange(state: ParserState, start: number, end: number): SysMLSourceRange {
+  return { start: toPosition(state, start), end: toPosition(state, end) };
+}
+
+function report(
+  state: ParserState,
+  severity: SysMLParseDiagnostic['severity'],
+  code: SysMLParseDiagnosticCode,
+  message: string,
+  start: number,
+  end: number
+) {
+  state.diagnostics.push({ severity, code, message, range: toRange(state, start, end) });
+}
+
+function guard(state: ParserState, parse: () => void) {
+  try {
+    parse();
+  } catch (error) {
+    if (!(error instanceof SysMLSyntaxError)) {
+      throw error;
+    }
+    report(state, 'error', 'syntax-error', error.message, error.start, error.end);
+    synchronize(state);
+  }
+}
+
+// Members
+
+function parseMember(state: ParserState, scope: string[], owner?: { syntax: SysMLNodeSyntax; spec: Record<string, unknown> }) {
+  guard(state, () => {
+    const token = peek(state);
+
+    if (owner && token.type === 'word') {
+      const statement = owner.syntax.statements?.find((candidate) => candidate.keyword === token.value);
+      if (statement) {
+        parseStatement(state, statement, owner.spec, scope);
+        return;
+      }
+      if ((token.value === 'doc' || token.value === 'comment') && peekIsText(state, 1)) {
+        parseDocStatement(state, owner.syntax, owner.spec);
+        return;
+      }
+    }
+
+    if (isWord(token, 'import')) {
+      next(state);
+      readRaw(state);
+      skipOptionalSemicolon(state);
+      return;
+    }
+
+    if (isRelationshipStart(state)) {
+      parseRelationship(state, scope);
+      return;
+    }
+
+    parseElement(state, scope);
+  });
+}
+
+function peekIsText(state: ParserState, ahead: number): boolean {
+  let seen = 0;
+  for (let i = state.index; i < state.tokens.length; i += 1) {
+    const token = state.tokens[i];
+    if (seen === ahead) {
+      return token.type === 'comment' || token.type === 'string';
+    }
+    if (token.type !== 'comment') {
+      seen += 1;
+    }
+  }
+  return false;
+}
+
+const nativeRelationshipWords = ['first', 'bind', 'connect', 'flow'];
+
+function isRelationshipStart(state: ParserState): boolean {
+  const token = peek(state);
+  return (
+    token.type === 'word' &&
+    (nativeRelationshipWords.includes(token.value) || (isSysMLEdgeKind(token.value) && !isTransitionUsage(state)))
+  );
+}
+
+/**
+ * `transition` introduces either a transition usage node (it has a name) or a
+ * transition relationship (anonymous, optionally labelled with a string).
+ */
+function isTransitionUsage(state: ParserState): boolean {
+  if (!isWord(peek(state), 'transition')) {
+    return false;
+  }
+  const offset = isSymbol(peek(state, 1), '<') ? 4 : 1;
+  const candidate = peek(state, offset);
+  return isNameToken(candidate) && !isWord(candidate, 'first');
+}
+
+function matchKind(state: ParserState, offset: number): KindEntry | undefined {
+  return kindEntries.find((entry) => entry.words.every((word, i) => isWord(peek(state, offset + i), word)));
+}
+
+function parseElement(state: ParserState, scope: string[]) {
+  const start = peek(state).start;
+  const stereotypes: string[] = [];
+  while (isSymbol(peek(state), '#')) {
+    next(state);
+    stereotypes.push(parseName(state));
+  }
+
+  const modifiers: SysMLToken[] = [];
+  while (peek(state).type === 'word' && modifierWords.has(peek(state).value) && !matchKind(state, 0)) {
+    modifiers.push(next(state));
+  }
+
+  const entry = matchKind(state, 0);
+  if (!entry) {
+    const token = peek(state);
+    next(state);
+    throw new SysMLSyntaxError(`Unknown element or relationship keyword ${describe(token)}`, token.start, token.end);
+  }
+  entry.words.forEach(() => next(state));
+
+  const { kind, syntax } = entry;
+  const shortId = parseShortId(state);
+  let name: string | undefined;
+  if (!syntax.nameless && isNameToken(peek(state))) {
+    name = parseName(state);
+  }
+
+  const id = shortId ?? (name !== undefined ? [...scope, name].join('::') : undefined) ?? nextAnonymousId(state, kind);
+  if (!syntax.nameless && name === undefined) {
+    if (shortId === undefined) {
+      report(state, 'error', 'syntax-error', `Expected a name for ${kind}`, start, previousEnd(state));
+    }
+    name = shortId ?? id;
+  }
+
+  const spec: SpecFields = syntax.nameless ? { id } : { id, name };
+  Object.assign(spec, entry.fixed);
+
+  if (stereotypes.length > 0) {
+    if (syntax.stereotype === false) {
+      report(state, 'warning', 'unsupported-feature', `${kind} does not carry a stereotype`, start, previousEnd(state));
+    } else {
+      spec.stereotype = stereotypes[0];
+      if (stereotypes.length > 1) {
+        report(state, 'warning', 'unsupported-feature', 'Only the first stereotype is kept', start, previousEnd(state));
+      }
+    }
+  }
+
+  modifiers.forEach((modifier) => applyModifier(state, syntax, kind, spec, modifier));
+
+  // Registered now so members resolve against it; the rest of the spec is read below
+  const node = { kind, spec } as SysMLNodeSpec;
+  registerNode(state, node, scope, name, start);
+
+  parseHeader(state, syntax, kind, spec, scope);
+  if (syntax.transition && spec.source === undefined) {
+    // A transition usage needs its `first ... then ...` ends
+    expectWord(state, 'first');
+  }
+
+  if (syntax.annotation?.body) {
+    const comment = nextComment(state);
+    spec[syntax.annotation.body] = comment?.value ?? '';
+    if (comment) {
+      skipOptionalSemicolon(state);
+      state.locations[id] = toRange(state, start, previousEnd(state));
+      return;
+    }
+  }
+
+  if (isSymbol(peek(state), '{')) {
+    next(state);
+    const childScope = syntax.container ? [...scope, name ?? id] : scope;
+    while (!isSymbol(peek(state), '}') && peek(state).type !== 'eof') {
+      if (syntax.container) {
+        // A member declaration registers its own node before any nested ones.
+        const before = state.nodes.length;
+        parseMember(state, childScope, { syntax, spec });
+        if (state.nodes.length > before) {
+          pushValue(spec, 'members', state.nodes[before].spec.id);
+        }
+      } else {
+        guard(state, () => parseBodyStatement(state, syntax, kind, spec, scope));
+      }
+    }
+    expectSymbol(state, '}');
+  } else {
+    expectSymbol(state, ';');
+  }
+
+  state.locations[id] = toRange(state, start, previousEnd(state));
+}
+
+function nextAnonymousId(state: ParserState, kind: SysMLNodeKind): string {
+  state.anonymousCount += 1;
+  return `${kind}-${state.anonymousCount}`;
+}
+
+function registerNode(
+  state: ParserState,
+  node: SysMLNodeSpec,
+  scope: string[],
+  name: string | undefined,
+  start: number
+) {
+  const { id } = node.spec;
+  if (state.nodeIds.has(id)) {
+    report(state, 'error', 'duplicate-id', `Duplicate element id '${id}'`, start, previousEnd(state));
+  }
+  state.nodeIds.add(id);
+
+  const qualifiedName = [...scope, name ?? id].join('::');
+  if (!state.qualifiedNames.has(qualifiedName)) {
+    state.qualifiedNames.set(qualifiedName, id);
+  }
+  if (name !== undefined) {
+    state.simpleNames.set(name, [...(state.simpleNames.get(name) ?? []), id]);
+  }
+
+  state.nodes.push(node);
+}
+
+function applyModifier(
+  state: ParserState,
+  syntax: SysMLNodeSyntax,
+  kind: SysMLNodeKind,
+  spec: Record<string, unknown>,
+  modifier: SysMLToken
+) {
+  const flag = syntax.flags?.[modifier.value];
+  if (flag) {
+    spec[flag] = true;
+    return;
+  }
+  const enumField = Object.entries(syntax.enums ?? {}).find(([, values]) => values.includes(modifier.value));
+  if (enumField) {
+    spec[enumField[0]] = modifier.value;
+    return;
+  }
+  report(
+    state,
+    'warning',
+    'unsupported-feature',
+    `Modifier '${modifier.value}' does not apply to ${kind}`,
+    modifier.start,
+    modifier.end
+  );
+}
+
+function parseHeader(
+  state: ParserState,
+  syntax: SysMLNodeSyntax,
+  kind: SysMLNodeKind,
+  spec: Record<string, unknown>,
+  scope: string[]
+) {
+  const isDefinition = syntax.keywords[syntax.keywords.length - 1] === 'def';
+
+  for (;;) {
+    const token = peek(state);
+
+    if (isSymbol(token, ':')) {
+      next(state);
+      const conjugated = isSymbol(peek(state), '~') ? (next(state), '~') : '';
+      const reference = parseReference(state);
+      setHeaderField(state, kind, spec, syntax.typedBy, `${conjugated}${reference.text}`, token.start, reference.end, 'typing');
+      continue;
+    }
+
+    if (isSymbol(token, ':>') || isWord(token, 'specializes') || isWord(token, 'subsets')) {
+      next(state);
+      const references = parseReferenceList(state);
+      if (isDefinition) {
+        references.forEach((reference) => {
+          state.pending.push({
+            type: 'specialization',
+            source: { text: spec.id as string, start: token.start, end: reference.end },
+            target: reference,
+            scope,
+            fields: {},
+            start: token.start,
+            end: reference.end
+          });
+        });
+      } else if (syntax.subsets) {
+        spec.subsets = [...((spec.subsets as string[] | undefined) ?? []), ...references.map((r) => r.text)];
+      } else {
+        report(state, 'warning', 'unsupported-feature', `${kind} does not support subsetting`, token.start, previousEnd(state));
+      }
+      continue;
+    }
+
+    if (isSymbol(token, ':>>') || isWord(token, 'redefines')) {
+      next(state);
+      const references = parseReferenceList(state);
+      if (syntax.redefines) {
+        spec.redefines = [...((spec.redefines as string[] | undefined) ?? []), ...references.map((r) => r.text)];
+      } else {
+        report(state, 'warning', 'unsupported-feature', `${kind} does not support redefinition`, token.start, previousEnd(state));
+      }
+      continue;
+    }
+
+    if (isSymbol(token, '[')) {
+      next(state);
+      readRaw(state, [], [']']);
+      expectSymbol(state, ']');
+      report(state, 'warning', 'unsupported-feature', `Multiplicity is not recorded on ${kind}`, token.start, previousEnd(state));
+      continue;
+    }
+
+    if (isSymbol(token, '=') || isSymbol(token, ':=')) {
+      next(state);
+      const value = readRaw(state, [], [';', '{']);
+      setHeaderField(state, kind, spec, syntax.value, value.text, token.start, value.end, 'a value');
+      continue;
+    }
+
+    if (isWord(token, 'about') && syntax.annotation) {
+      next(state);
+      spec[syntax.annotation.about] = parseReference(state).text;
+      continue;
+    }
+
+    if (isWord(token, 'locale') && syntax.annotation?.locale) {
+      next(state);
+      const locale = peek(state);
+      if (locale.type !== 'string') {
+        throw new SysMLSyntaxError(`Expected a locale string but found ${describe(locale)}`, locale.start, locale.end);
+      }
+      next(state);
+      spec[syntax.annotation.locale] = locale.value;
+      continue;
+    }
+
+    if (syntax.transition && isWord(token, 'first')) {
+      next(state);
+      spec.source = parseReference(state).text;
+      Object.assign(spec, parseTransitionClauses(state));
+      expectWord(state, 'then');
+      spec.target = parseReference(state).text;
+      continue;
+    }
+
+    return;
+  }
+}
+
+function setHeaderField(
+  state: ParserState,
+  kind: SysMLNodeKind,
+  spec: Record<string, unknown>,
+  field: string | undefined,
+  value: string,
+  start: number,
+  end: number,
+  description: string
+) {
+  if (!field) {
+    report(state, 'warning', 'unsupported-feature', `${kind} does not take ${description}`, start, end);
+    return;
+  }
+  spec[field] = value;
+}
+
+function parseTransitionClauses(state: ParserState): Partial<SysMLRelationshipSpec> {
+  const clauses: Partial<SysMLRelationshipSpec> = {};
+  if (isWord(peek(state), 'accept')) {
+    next(state);
+    clauses.trigger = readRaw(state, ['if', 'do', 'then'], [';', '{']).text;
+  }
+  if (isWord(peek(state), 'if')) {
+    next(state);
+    clauses.guard = readRaw(state, ['do', 'then'], [';', '{']).text;
+  }
+  if (isWord(peek(state), 'do')) {
+    next(state);
+    clauses.effect = readRaw(state, ['then'], [';', '{']).text;
+  }
+  return clauses;
+}
+
+// Body statements
+
+function parseBodyStatement(
+  state: ParserState,
+  syntax: SysMLNodeSyntax,
+  kind: SysMLNodeKind,
+  spec: Record<string, unknown>,
+  scope: string[]
+) {
+  const token = peek(state);
+
+  if ((isWord(token, 'doc') || isWord(token, 'comment')) && peekIsText(state, 1)) {
+    parseDocStatement(state, syntax, spec);
+    return;
+  }
+
+  if (token.type === 'word') {
+    const portStatement = syntax.statements?.find((candidate) => candidate.form === 'port');
+    // The ports of an interface are its `end port`s
+    const portAt = isWord(token, 'end') ? 1 : 0;
+    const port = peek(state, portAt);
+    const directed = isWord(port) && directions.includes(port.value) && isWord(peek(state, portAt + 1), 'port');
+    if (portStatement && (isWord(port, 'port') || directed)) {
+      if (portAt > 0) {
+        next(state);
+      }
+      parseStatement(state, portStatement, spec, scope);
+      return;
+    }
+
+    const statement = syntax.statements?.find(
+      (candidate) => candidate.form !== 'record' && candidate.form !== 'port' && candidate.keyword === token.value
+    );
+    if (statement) {
+      parseStatement(state, statement, spec, scope);
+      return;
+    }
+  }
+
+  const record = syntax.statements?.find((candidate) => candidate.form === 'record');
+  if (record && isNameToken(token) && isSymbol(peek(state, 1), '=')) {
+    parseStatement(state, record, spec, scope);
+    return;
+  }
+
+  // Relationships and transition usages declared in a body belong to the model
+  if (isTransitionUsage(state)) {
+    parseElement(state, scope);
+    return;
+  }
+  if (isRelationshipStart(state)) {
+    parseRelationship(state, scope);
+    return;
+  }
+
+  if (syntax.expressionBody) {
+    spec[syntax.expressionBody] = readRaw(state).text;
+    skipOptionalSemicolon(state);
+    return;
+  }
+
+  next(state);
+  const keywords = (syntax.statements ?? []).flatMap((candidate) =>
+    candidate.form === 'record' ? ['key = value'] : candidate.form === 'port' ? ['port'] : [candidate.keyword]
+  );
+  report(
+    state,
+    'error',
+    'unknown-statement',
+    `Unexpected ${describe(token)} in ${kind} body; expected ${[...new Set(['doc', ...keywords])].join(', ')}, ` +
+      "a relationship or '}'",
+    token.start,
+    token.end
+  );
+  synchronize(state);
+}
+
+function parseDocStatement(state: ParserState, syntax: SysMLNodeSyntax, spec: Record<string, unknown>) {
+  const keyword = next(state);
+  const text = readText(state);
+  skipOptionalSemicolon(state);
+
+  const field = keyword.value === 'doc' ? (syntax.docField === undefined ? 'description' : syntax.docField) : syntax.commentField;
+  if (!field) {
+    report(
+      state,
+      'warning',
+      'unsupported-feature',
+      `'${keyword.value}' is not recorded on this element`,
+      keyword.start,
+      previousEnd(state)
+    );
+    return;
+  }
+  spec[field] = text;
+}
+
+function pushValue(spec: Record<string, unknown>, field: string, value: unknown) {
+  spec[field] = [...((spec[field] as unknown[] | undefined) ?? []), value];
+}
+
+function parseStatement(
+  state: ParserState,
+  statement: SysMLStatementSyntax,
+  spec: Record<string, unknown>,
+  scope: string[]
+) {
+  switch (statement.form) {
+    case 'scalar': {
+      next(state);
+      skipValueKeywords(state, statement);
+      spec[statement.field] = readRaw(state).text;
+      expectSymbol(state, ';');
+      return;
+    }
+    case 'list': {
+      next(state);
+      skipValueKeywords(state, statement);
+      pushValue(spec, statement.field, readRaw(state).text);
+      expectSymbol(state, ';');
+      return;
+    }
+    case 'constraint': {
+      next(state);
+      if (isWord(peek(state), 'constraint') && isSymbol(peek(state, 1), '{')) {
+        next(state);
+        next(state);
+        pushValue(spec, statement.field, readRaw(state, [], []).text);
+        expectSymbol(state, '}');
+        skipOptionalSemicolon(state);
+      } else {
+        pushValue(spec, statement.field, readRaw(state).text);
+        expectSymbol(state, ';');
+      }
+      return;
+    }
+    case 'property': {
+      next(state);
+      pushValue(spec, statement.field, parseProperty(state));
+      return;
+    }
+    case 'port': {
+      pushValue(spec, statement.field, parsePort(state));
+      return;
+    }
+    case 'state': {
+      pushValue(spec, statement.field, parseStateEntry(state));
+      return;
+    }
+    case 'operand': {
+      pushValue(spec, statement.field, parseOperand(state));
+      return;
+    }
+    case 'record': {
+      const key = parseName(state);
+      expectSymbol(state, '=');
+      const value = readRaw(state).text;
+      expectSymbol(state, ';');
+      spec[statement.field] = { ...((spec[statement.field] as Record<string, string> | undefined) ?? {}), [key]: value };
+      return;
+    }
+    default: {
+      const _exhaustive: never = statement.form;
+      throw new Error(`Unhandled statement form ${String(_exhaustive)}`);
+    }
+  }
+}
+
+function skipValueKeywords(state: ParserState, statement: SysMLStatementSyntax) {
+  const words = statement.valueKeywords ?? [];
+  if (words.length > 0 && words.every((word, i) => isWord(peek(state, i), word))) {
+    words.forEach(() => next(state));
+  }
+}
+
+function parseTypeReference(state: ParserState): string {
+  const conjugated = isSymbol(peek(state), '~') ? (next(state), '~') : '';
+  return `${conjugated}${parseReference(state).text}`;
+}
+
+function parseProperty(state: ParserState): SysMLPropertySpec {
+  const property: SysMLPropertySpec = { name: parseName(state) };
+
+  for (;;) {
+    const token = peek(state);
+    if (isSymbol(token, ':')) {
+      next(state);
+      property.type = parseTypeReference(state);
+    } else if (isSymbol(token, '[')) {
+      next(state);
+      property.multiplicity = readRaw(state, [], [']']).text;
+      expectSymbol(state, ']');
+    } else if (isSymbol(token, '=') || isSymbol(token, ':=')) {
+      next(state);
+      property.value = readRaw(state).text;
+    } else {
+      break;
+    }
+  }
+
+  expectSymbol(state, ';');
+  return property;
+}
+
+function parsePort(state: ParserState): SysMLPortSpec {
+  const direction = directions.includes(peek(state).value) && peek(state).type === 'word' ? next(state).value : undefined;
+  expectWord(state, 'port');
+  const port: SysMLPortSpec = { name: parseName(state) };
+  if (isSymbol(peek(state), ':')) {
+    next(state);
+    port.type = parseTypeReference(state);
+  }
+  if (direction) {
+    port.direction = direction as SysMLPortSpec['direction'];
+  }
+  expectSymbol(state, ';');
+  return port;
+}
+
+const stateEntryFields: Record<string, 'entryAction' | 'doActivity' | 'exitAction' | 'status'> = {
+  entry: 'entryAction',
+  do: 'doActivity',
+  exit: 'exitAction',
+  status: 'status'
+};
+
+function parseStateEntry(state: ParserState): SysMLStateSpec {
+  expectWord(state, 'state');
+  const shortId = parseShortId(state);
+  const name = parseName(state);
+  const entry: SysMLStateSpec = { id: shortId ?? name, name };
+
+  if (isSymbol(peek(state), '{')) {
+    next(state);
+    while (!isSymbol(peek(state), '}') && peek(state).type !== 'eof') {
+      guard(state, () => {
+        const token = peek(state);
+        const field = token.type === 'word' ? stateEntryFields[token.value] : undefined;
+        if (!field) {
+          next(state);
+          report(state, 'error', 'unknown-statement', `Unexpected ${describe(token)} in state body`, token.start, token.end);
+          synchronize(state);
+          return;
+        }
+        next(state);
+        const text = readRaw(state).text;
+        if (field === 'status') {
+          entry.status = text as SysMLStateSpec['status'];
+        } else {
+          entry[field] = text;
+        }
+        expectSymbol(state, ';');
+      });
+    }
+    expectSymbol(state, '}');
+  } else {
+    expectSymbol(state, ';');
+  }
+
+  return entry;
+}
+
+function parseOperand(state: ParserState): SysMLFragmentOperandSpec {
+  expectWord(state, 'operand');
+  const operand: SysMLFragmentOperandSpec = { messages: [] };
+  if (isSymbol(peek(state), '[')) {
+    next(state);
+    operand.guard = readRaw(state, [], [']']).text;
+    expectSymbol(state, ']');
+  }
+
+  expectSymbol(state, '{');
+  while (!isSymbol(peek(state), '}') && peek(state).type !== 'eof') {
+    guard(state, () => {
+      const token = peek(state);
+      if (!isWord(token, 'message')) {
+        next(state);
+        report(state, 'error', 'unknown-statement', `Unexpected ${describe(token)} in operand body`, token.start, token.end);
+        synchronize(state);
+        return;
+      }
+      next(state);
+      operand.messages.push(parseName(state));
+      expectSymbol(state, ';');
+    });
+  }
+  expectSymbol(state, '}');
+
+  return operand;
+}
+
+// Relationships
+
+function parseRelationship(state: ParserState, scope: string[]) {
+  const keyword = next(state);
+  const start = keyword.start;
+  let type: SysMLEdgeKind;
+  let nativeForm: 'first' | 'bind' | 'connect' | 'flow' | undefined;
+
+  if (keyword.value === 'first') {
+    type = 'succession';
+    nativeForm = 'first';
+  } else if (keyword.value === 'bind') {
+    type = 'binding-connector';
+    nativeForm = 'bind';
+  } else if (keyword.value === 'connect') {
+    type = 'connector-as-usage';
+    nativeForm = 'connect';
+  } else if (keyword.value === 'flow') {
+    type = 'flow-connection';
+    nativeForm = 'flow';
+  } else {
+    type = keyword.value as SysMLEdgeKind;
+  }
+
+  const fields: Partial<SysMLRelationshipSpec> = {};
+  let explicitId: string | undefined;
+  if (!nativeForm) {
+    explicitId = parseShortId(state);
+    if (peek(state).type === 'string') {
+      fields.label = next(state).value;
+    } else if (type === 'message' && isNameToken(peek(state))) {
+      // `message m from a to b;` names the message
+      fields.label = parseName(state);
+    }
+  } else if (nativeForm === 'flow' && isWord(peek(state), 'of')) {
+    // `flow of Fuel from a to b;` is labelled with the item flowing
+    next(state);
+    fields.label = parseReference(state).text;
+  }
+
+  let source: Reference;
+  let target: Reference;
+
+  if ((!nativeForm || nativeForm === 'flow') && isWord(peek(state), 'from')) {
+    next(state);
+    source = parseReference(state);
+    expectWord(state, 'to');
+    target = parseReference(state);
+    Object.assign(fields, parseTransitionClauses(state));
+  } else if (nativeForm === 'bind' || type === 'binding-connector') {
+    source = parseReference(state);
+    expectSymbol(state, '=');
+    target = parseReference(state);
+  } else if (nativeForm === 'first' || type === 'succession' || type === 'transition') {
+    if (!nativeForm) {
+      expectWord(state, 'first');
+    }
+    source = parseReference(state);
+    Object.assign(fields, parseTransitionClauses(state));
+    expectWord(state, 'then');
+    target = parseReference(state);
+  } else if (type === 'satisfy' || type === 'verify') {
+    target = parseReference(state);
+    expectWord(state, 'by');
+    source = parseReference(state);
+  } else if (type === 'allocate' || nativeForm === 'connect') {
+    source = parseReference(state);
+    expectWord(state, 'to');
+    target = parseReference(state);
+  } else {
+    const token = peek(state);
+    throw new SysMLSyntaxError(`Expected 'from' but found ${describe(token)}`, token.start, token.end);
+  }
+
+  if (isSymbol(peek(state), '{')) {
+    next(state);
+    while (!isSymbol(peek(state), '}') && peek(state).type !== 'eof') {
+      guard(state, () => {
+        const token = peek(state);
+        if (isWord(token, 'doc') && peekIsText(state, 1)) {
+          next(state);
+          fields.rationale = readText(state);
+          skipOptionalSemicolon(state);
+          return;
+        }
+        next(state);
+        report(state, 'error', 'unknown-statement', `Unexpected ${describe(token)} in relationship body`, token.start, token.end);
+        synchronize(state);
+      });
+    }
+    expectSymbol(state, '}');
+  } else {
+    expectSymbol(state, ';');
+  }
+
+  state.pending.push({ explicitId, type, source, target, scope, fields, start, end: previousEnd(state) });
+}
+
+function resolveReference(state: ParserState, reference: Reference, scope: string[]): string {
+  if (state.nodeIds.has(reference.text)) {
+    return reference.text;
+  }
+
+  for (let depth = scope.length; depth >= 0; depth -= 1) {
+    const qualified = [...scope.slice(0, depth), reference.text].join('::');
+    const id = state.qualifiedNames.get(qualified);
+    if (id !== undefined) {
+      return id;
+    }
+  }
+
+  const candidates = state.simpleNames.get(reference.text) ?? [];
+  if (candidates.length > 1) {
+    report(
+      state,
+      'warning',
+      'ambiguous-reference',
+      `Reference '${reference.text}' matches ${candidates.length} elements; using '${candidates[0]}'`,
+      reference.start,
+      reference.end
+    );
+  }
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  report(state, 'warning', 'unresolved-reference', `Cannot resolve '${reference.text}'`, reference.start, reference.end);
+  return reference.text;
+}
+
+function resolveRelationships(state: ParserState): SysMLRelationshipSpec[] {
+  const usedIds = new Set<string>();
+
+  return state.pending.map((pending) => {
+    const source = resolveReference(state, pending.source, pending.scope);
+    const target = resolveReference(state, pending.target, pending.scope);
+
+    let id = pending.explicitId;
+    if (id !== undefined) {
+      if (usedIds.has(id)) {
+        report(state, 'error', 'duplicate-id', `Duplicate relationship id '${id}'`, pending.start, pending.end);
+      }
+    } else {
+      const base = defaultRelationshipId(pending.type, source, target);
+      id = base;
+      for (let suffix = 2; usedIds.has(id); suffix += 1) {
+        id = `${base}-${suffix}`;
+      }
+    }
+    usedIds.add(id);
+    state.locations[id] = toRange(state, pending.start, pending.end);
+
+    const relationship: SysMLRelationshipSpec = { id, type: pending.type, source, target };
+    (Object.keys(pending.fields) as (keyof SysMLRelationshipSpec)[]).forEach((key) => {
+      if (pending.fields[key] !== undefined) {
+        Object.assign(relationship, { [key]: pending.fields[key] });
+      }
+    });
+    return relationship;
+  });
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { createEdgesFromRelationships, createNodesFromSpecs } from './factories';
+import { attachEdgesToPorts, getBoundaryPorts, getConnectorRelationships, parsePortEndpoint } from './ports';
+import { internalBlockViewpoint, realizeViewpoint } from './viewpoints';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    {
+      kind: 'part-usage',
+      spec: {
+        id: 'tank',
+        name: 'tank',
+        attributes: [{ name: 'capacity', type: 'Real' }],
+        ports: [{ name: 'fuelOut', type: 'FuelPort', direction: 'out' }]
+      }
+    },
+    {
+      kind: 'part-usage',
+      spec: {
+        id: 'engine',
+        name: 'engine',
+        ports: [
+          { name: 'fuelIn', type: '~FuelPort', direction: 'in' },
+          { name: 'torque', type: 'TorquePort', direction: 'out' }
+        ]
+      }
+    },
+    {
+      kind: 'interface-usage',
+      spec: { id: 'fuelLine', name: 'fuelLine', definition: 'FuelInterface', connectedPorts: ['tank.fuelOut', 'engine.fuelIn'] }
+    },
+    { kind: 'requirement-usage', spec: { id: 'REQ-1.1', name: 'Fuel supply', text: 'Supply fuel' } }
+  ],
+  relationships: [{ id: 'flow', type: 'flow-connection', source: 'tank.fuelOut', target: 'engine.fuelIn' }]
+};
+
+describe('Ports', () => {
+  it('should place in ports left, out ports right and balance the others', () => {
+    expect(
+      getBoundaryPorts([
+        { name: 'a', direction: 'in' },
+        { name: 'b', type: '~P' },
+        { name: 'c', direction: 'out' },
+        { name: 'd', direction: 'inout' }
+      ])
+    ).toEqual([
+      { name: 'a', type: undefined, direction: 'in', conjugated: false, side: 'left', offset: 1 / 3 },
+      { name: 'b', type: '~P', direction: undefined, conjugated: true, side: 'right', offset: 1 / 3 },
+      { name: 'c', type: undefined, direction: 'out', conjugated: false, side: 'right', offset: 2 / 3 },
+      { name: 'd', type: undefined, direction: 'inout', conjugated: false, side: 'left', offset: 2 / 3 }
+    ]);
+  });
+
+  it('should split port endpoints at the last dot', () => {
+    expect(parsePortEndpoint('vehicle.engine.fuelIn')).toEqual({ node: 'vehicle.engine', port: 'fuelIn' });
+    expect(parsePortEndpoint('engine')).toEqual({ node: 'engine' });
+    expect(parsePortEndpoint('engine.')).toEqual({ node: 'engine.' });
+  });
+
+  it('should attach edges to port handles and leave node ids with dots alone', () => {
+    const nodes = createNodesFromSpecs(model.nodes);
+    const edges = attachEdgesToPorts(
+      nodes,
+      createEdgesFromRelationships([
+        ...model.relationships,
+        { id: 'satisfy', type: 'satisfy', source: 'engine', target: 'REQ-1.1' },
+        { id: 'unknown', type: 'dependency', source: 'engine.exhaust', target: 'tank' }
+      ])
+    );
+
+    expect(edges.map(({ source, sourceHandle, target, targetHandle }) => ({ source, sourceHandle, target, targetHandle }))).toEqual([
+      { source: 'tank', sourceHandle: 'port:fuelOut', target: 'engine', targetHandle: 'port:fuelIn' },
+      { source: 'engine', sourceHandle: undefined, target: 'REQ-1.1', targetHandle: undefined },
+      { source: 'engine', sourceHandle: undefined, target: 'tank', targetHandle: undefined }
+    ]);
+  });
+
+  it('should turn two-ended interface and connection usages into connectors', () => {
+    expect(
+      getConnectorRelationships([
+        ...model.nodes,
+        { kind: 'connection-usage', spec: { id: 'c', name: 'c', connectedParts: ['tank'] } }
+      ])
+    ).toEqual([
+      {
+        id: 'fuelLine',
+        type: 'connector-as-usage',
+        source: 'tank.fuelOut',
+        target: 'engine.fuelIn',
+        label: 'fuelLine : FuelInterface'
+      }
+    ]);
+  });
+
+  it('should realize internal block views with boundary ports', () => {
+    const view = realizeViewpoint(model, internalBlockViewpoint);
+
+    expect(view.nodes.map((node) => node.id)).toEqual(['tank', 'engine']);
+    const engine = view.nodes[1];
+    expect(engine.data.portsOnBoundary).toBe(true);
+    expect(engine.data.compartments).toEqual([]);
+    expect(engine.data.ports?.map((port) => [port.name, port.side, port.conjugated])).toEqual([
+      ['fuelIn', 'left', true],
+      ['torque', 'right', false]
+    ]);
+    expect(view.nodes[0].data.compartments?.map((compartment) => compartment.title)).toEqual(['attributes']);
+
+    expect(view.edges.map((edge) => [edge.id, edge.data?.kind, edge.sourceHandle, edge.targetHandle])).toEqual([
+      ['flow', 'flow-connection', 'port:fuelOut', 'port:fuelIn'],
+      ['fuelLine', 'connector-as-usage', 'port:fuelOut', 'port:fuelIn']
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import type {
+  SysMLBoundaryPort,
+  SysMLNodeSpec,
+  SysMLPortSpec,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode,
+  SysMLRelationshipSpec
+} from './types';
+
+/** A relationship end: a node, or one of its ports. */
+export interface SysMLPortEndpoint {
+  node: string;
+  port?: string;
+}
+
+const portHandlePrefix = 'port:';
+
+/** Side length of a port square. */
+export const portSize = 12;
+
+/**
+ * Split a `partId.portName` relationship end. Ends without a dot name the node
+ * itself; the part id is everything before the last dot.
+ */
+export const parsePortEndpoint = (endpoint: string): SysMLPortEndpoint => {
+  const dot = endpoint.lastIndexOf('.');
+  if (dot <= 0 || dot === endpoint.length - 1) {
+    return { node: endpoint };
+  }
+  return { node: endpoint.slice(0, dot), port: endpoint.slice(dot + 1) };
+};
+
+/**
+ * Node and port a relationship end refers to. An end that is itself a node id
+ * names that node, so ids such as `REQ-1.1` keep working.
+ */
+export const resolvePortEndpoint = (endpoint: string, isNode: (id: string) => boolean): SysMLPortEndpoint =>
+  isNode(endpoint) ? { node: endpoint } : parsePortEndpoint(endpoint);
+
+export const formatPortEndpoint = ({ node, port }: SysMLPortEndpoint) => (port ? `${node}.${port}` : node);
+
+/** React Flow handle id of a port. */
+export const portHandleId = (port: string) => `${portHandlePrefix}${port}`;
+
+/** Port name of a React Flow handle id, or `undefined` for the node's own handles. */
+export const portOfHandle = (handleId?: string | null) =>
+  handleId?.startsWith(portHandlePrefix) ? handleId.slice(portHandlePrefix.length) : undefined;
+
+/** Ports declared by a node spec. */
+export const getSpecPorts = (node: SysMLNodeSpec): SysMLPortSpec[] => ('ports' in node.spec ? node.spec.ports ?? [] : []);
+
+/**
+ * Place ports on the node border: `in` ports on the left, `out` ports on the
+ * right and the others on whichever side has fewer, spread evenly along each
+ * side. A type starting with `~` marks a conjugated port.
+ */
+export const getBoundaryPorts = (ports: SysMLPortSpec[] = []): SysMLBoundaryPort[] => {
+  const sides = { left: 0, right: 0 };
+  const placed = ports.map((port) => {
+    const side =
+      port.direction === 'in' ? 'left' : port.direction === 'out' ? 'right' : sides.left <= sides.right ? 'left' : 'right';
+    sides[side] += 1;
+    return { port, side, index: sides[side] } as const;
+  });
+
+  return placed.map(({ port, side, index }) => ({
+    name: port.name,
+    type: port.type,
+    direction: port.direction,
+    conjugated: port.type?.startsWith('~') ?? false,
+    side,
+    offset: index / (sides[side] + 1)
+  }));
+};
+
+/**
+ * Draw the ports of each node as squares on its border instead of a `ports`
+ * compartment, as in an internal block diagram.
+ */
+export const placePortsOnBoundary = (nodes: SysMLReactFlowNode[]): SysMLReactFlowNode[] =>
+  nodes.map((node) =>
+    node.data.ports?.length
+      ? {
+          ...node,
+          data: {
+            ...node.data,
+            portsOnBoundary: true,
+            compartments: node.data.compartments?.filter((compartment) => compartment.title !== 'ports')
+          }
+        }
+      : node
+  );
+
+/**
+ * Attach edges whose ends are `partId.portName` to the port's handle. Ends
+ * naming a port the node does not have attach to the node itself.
+ */
+export const attachEdgesToPorts = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[]
+): SysMLReactFlowEdge[] => {
+  const portsById = new Map(nodes.map((node) => [node.id, node.data.ports?.map((port) => port.name) ?? []]));
+  const attach = (endpoint: string) => {
+    const { node, port } = resolvePortEndpoint(endpoint, (id) => portsById.has(id));
+    if (!portsById.has(node)) {
+      return { node: endpoint, handle: undefined };
+    }
+    return { node, handle: port && portsById.get(node)?.includes(port) ? portHandleId(port) : undefined };
+  };
+
+  return edges.map((edge) => {
+    const source = attach(edge.source);
+    const target = attach(edge.target);
+    if (source.node === edge.source && target.node === edge.target) {
+      return edge;
+    }
+    return {
+      ...edge,
+      source: source.node,
+      target: target.node,
+      sourceHandle: source.handle ?? edge.sourceHandle,
+      targetHandle: target.handle ?? edge.targetHandle
+    };
+  });
+};
+
+/**
+ * Connectors for interface usages (`connectedPorts`) and connection usages
+ * (`connectedParts`) that join exactly two ends, labelled with the usage name
+ * and definition. The connector takes the id of the usage.
+ */
+export const getConnectorRelationships = (nodes: SysMLNodeSpec[]): SysMLRelationshipSpec[] =>
+  nodes.flatMap((node) => {
+    if (node.kind !== 'interface-usage' && node.kind !== 'connection-usage') {
+      return [];
+    }
+    const ends = node.kind === 'interface-usage' ? node.spec.connectedPorts : node.spec.connectedParts;
+    if (ends?.length !== 2) {
+      return [];
+    }
+    const { id, name, definition } = node.spec;
+    return [
+      {
+        id,
+        type: 'connector-as-usage' as const,
+        source: ends[0],
+        target: ends[1],
+        label: definition ? `${name} : ${definition}` : name
+      }
+    ];
+  });
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { getContainment, nestNodes } from './containment';
+import { createEdgesFromRelationships, createNodesFromSpecs } from './factories';
+import {
+  createQueryViewpoint,
+  formatQuery,
+  isolateElements,
+  parseQuery,
+  runQuery,
+  SysMLQueryError,
+  type SysMLQuery
+} from './query';
+import { realizeViewpoint } from './viewpoints';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'package', spec: { id: 'reqs', name: 'Requirements', members: ['braking', 'safety'] } },
+    { kind: 'package', spec: { id: 'safety', name: 'Safety', members: ['abs'] } },
+    {
+      kind: 'requirement-usage',
+      spec: { id: 'braking', name: 'Braking', status: 'approved', tags: [{ key: 'asil', value: 'D' }] }
+    },
+    { kind: 'requirement-usage', spec: { id: 'abs', name: 'Anti-lock braking', status: 'draft' } },
+    { kind: 'requirement-usage', spec: { id: 'range', name: 'Range' } },
+    { kind: 'part-definition', spec: { id: 'Brakes', name: 'Brakes', stereotype: 'block' } },
+    { kind: 'part-usage', spec: { id: 'caliper', name: 'caliper', ports: [{ name: 'line' }] } },
+    { kind: 'part-usage', spec: { id: 'battery', name: 'battery' } },
+    { kind: 'part-usage', spec: { id: 'pump', name: 'Brake pump' } }
+  ],
+  relationships: [
+    { id: 's1', type: 'satisfy', source: 'Brakes', target: 'braking' },
+    { id: 's2', type: 'satisfy', source: 'battery', target: 'range' },
+    { id: 'd1', type: 'definition', source: 'caliper', target: 'Brakes' },
+    { id: 'f1', type: 'flow-connection', source: 'pump', target: 'caliper.line' }
+  ]
+};
+
+describe('Query Language', () => {
+  it('should parse conditions, traversals and boolean operators', () => {
+    expect(parseQuery('kind:part-* and not stereotype:block or "pump"')).toEqual({
+      type: 'or',
+      queries: [
+        {
+          type: 'and',
+          queries: [
+            { type: 'kind', kinds: ['part-*'] },
+            { type: 'not', query: { type: 'stereotype', value: 'block' } }
+          ]
+        },
+        { type: 'name', pattern: '*pump*' }
+      ]
+    });
+    expect(parseQuery('satisfy,refine*2->(tag:asil=D in:"Requirements") *<-(id:caliper)')).toEqual({
+      type: 'and',
+      queries: [
+        {
+          type: 'related',
+          kinds: ['satisfy', 'refine'],
+          direction: 'out',
+          hops: 2,
+          target: {
+            type: 'and',
+            queries: [
+              { type: 'tag', key: 'asil', value: 'D' },
+              { type: 'in', owner: 'Requirements' }
+            ]
+          }
+        },
+        { type: 'related', direction: 'in', target: { type: 'id', ids: ['caliper'] } }
+      ]
+    });
+  });
+
+  it('should format queries back to text that parses to the same query', () => {
+    const queries = [
+      'kind:part-usage,part-definition and (status:approved or not tag:asil)',
+      'satisfy*2->(in:"Brake system") and name:"Brake pump"',
+      '*<->(id:caliper)'
+    ];
+
+    queries.forEach((text) => {
+      const query = parseQuery(text);
+      expect(formatQuery(query)).toBe(text);
+      expect(parseQuery(formatQuery(query))).toEqual(query);
+    });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseQuery('kind:part-usage and')).toThrow(
+      new SysMLQueryError('Expected a condition but found end of query')
+    );
+    expect(() => parseQuery('satisfy->(kind:requirement-usage')).toThrow("Expected ')' but found end of query");
+    expect(() => parseQuery('owner:reqs')).toThrow("Unknown field 'owner' at 0");
+    expect(() => parseQuery('name:"Brake')).toThrow('Unterminated string at 5');
+  });
+
+  it('should select elements by kind, stereotype, tag, status, name and owner', () => {
+    expect(runQuery(model, 'kind:part-*')).toEqual(['Brakes', 'caliper', 'battery', 'pump']);
+    expect(runQuery(model, 'stereotype:block')).toEqual(['Brakes']);
+    expect(runQuery(model, 'tag:asil=d')).toEqual(['braking']);
+    expect(runQuery(model, 'status:approved or status:draft')).toEqual(['braking', 'abs']);
+    expect(runQuery(model, 'brak')).toEqual(['braking', 'abs', 'Brakes', 'pump']);
+    expect(runQuery(model, 'in:Requirements')).toEqual(['safety', 'braking', 'abs']);
+    expect(runQuery(model, 'kind:requirement-usage not in:reqs')).toEqual(['range']);
+    expect(runQuery(model, { type: 'and', queries: [] })).toHaveLength(model.nodes.length);
+    expect(runQuery(model, { type: 'or', queries: [] })).toEqual([]);
+  });
+
+  it('should follow relationships up to the given number of hops', () => {
+    const query: SysMLQuery = {
+      type: 'related',
+      kinds: ['satisfy', 'definition'],
+      direction: 'out',
+      hops: 2,
+      target: { type: 'in', owner: 'reqs' }
+    };
+
+    expect(runQuery(model, 'kind:part-* satisfy->(in:reqs)')).toEqual(['Brakes']);
+    expect(runQuery(model, query)).toEqual(['Brakes', 'caliper']);
+    expect(runQuery(model, 'satisfy<-(kind:part-usage)')).toEqual(['range']);
+    // Relationships ending on a port relate the part owning it
+    expect(runQuery(model, '*<->(id:pump)')).toEqual(['caliper']);
+  });
+
+  it('should compile to a viewpoint showing the matches and the relationships between them', () => {
+    const viewpoint = createQueryViewpoint(model, 'kind:part-* or in:reqs');
+    const view = realizeViewpoint(model, viewpoint);
+
+    expect(viewpoint.name).toBe('Query: kind:part-* or in:reqs');
+    expect(view.nodes.map((node) => node.id)).toEqual([
+      'safety',
+      'braking',
+      'abs',
+      'Brakes',
+      'caliper',
+      'battery',
+      'pump'
+    ]);
+    expect(view.edges.map((edge) => edge.id)).toEqual(['s1', 'd1', 'f1']);
+  });
+
+  it('should isolate nodes with their containers and the edges between them', () => {
+    const nodes = nestNodes(createNodesFromSpecs(model.nodes), getContainment(model));
+    const isolated = isolateElements(nodes, createEdgesFromRelationships(model.relationships), [
+      'abs',
+      'Brakes',
+      'braking'
+    ]);
+
+    expect(nodes.find((node) => node.id === 'abs')?.parentId).toBe('safety');
+    expect(isolated.nodes.map((node) => node.id)).toEqual(['reqs', 'safety', 'abs', 'braking', 'Brakes']);
+    expect(isolated.edges.map((edge) => edge.id)).toEqual(['s1']);
+  });
+});
@@ -0,0 +1,415 @@
+import { getContainment } from './containment';
+import { resolvePortEndpoint } from './ports';
+import type { SysMLNodeSpec, SysMLReactFlowEdge, SysMLReactFlowNode, SysMLTag } from './types';
+import type { SysMLModel, SysMLViewpoint } from './viewpoints';
+
+export type SysMLQueryDirection = 'out' | 'in' | 'both';
+
+/**
+ * A model query as plain data, so it can be stored and shared. Text values
+ * are patterns: `*` matches any run of characters and `?` one character.
+ */
+export type SysMLQuery =
+  | { type: 'kind'; kinds: string[] }
+  | { type: 'stereotype'; value: string }
+  | { type: 'tag'; key: string; value?: string }
+  | { type: 'status'; value: string }
+  | { type: 'name'; pattern: string }
+  | { type: 'id'; ids: string[] }
+  /** Owned, directly or not, by the package or element with this id or name. */
+  | { type: 'in'; owner: string }
+  /**
+   * Related to an element matching `target` through relationships of `kinds`
+   * (any kind when left out), following up to `hops` of them (default 1).
+   * `out` follows relationships from the element, `in` towards it.
+   */
+  | { type: 'related'; kinds?: string[]; direction: SysMLQueryDirection; hops?: number; target: SysMLQuery }
+  | { type: 'and'; queries: SysMLQuery[] }
+  | { type: 'or'; queries: SysMLQuery[] }
+  | { type: 'not'; query: SysMLQuery };
+
+export class SysMLQueryError extends Error {}
+
+type FieldQuery = Extract<SysMLQuery, { type: 'kind' | 'stereotype' | 'tag' | 'status' | 'name' | 'id' | 'in' }>;
+
+const fields: Record<FieldQuery['type'], (value: string) => FieldQuery> = {
+  kind: (value) => ({ type: 'kind', kinds: value.split(',') }),
+  stereotype: (value) => ({ type: 'stereotype', value }),
+  tag: (value) => {
+    const separator = value.indexOf('=');
+    return separator < 0
+      ? { type: 'tag', key: value }
+      : { type: 'tag', key: value.slice(0, separator), value: value.slice(separator + 1) };
+  },
+  status: (value) => ({ type: 'status', value }),
+  name: (value) => ({ type: 'name', pattern: value }),
+  id: (value) => ({ type: 'id', ids: value.split(',') }),
+  in: (value) => ({ type: 'in', owner: value })
+};
+
+const arrows: Record<string, SysMLQueryDirection> = { '->': 'out', '<-': 'in', '<->': 'both' };
+
+interface Token {
+  type: 'word' | 'string' | 'arrow' | '(' | ')';
+  text: string;
+  offset: number;
+}
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let offset = 0;
+  while (offset < source.length) {
+    const char = source[offset];
+    if (/\s/.test(char)) {
+      offset += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char, text: char, offset });
+      offset += 1;
+    } else if (char === '"') {
+      let text = '';
+      let end = offset + 1;
+      while (end < source.length && source[end] !== '"') {
+        text += source[end] === '\\' && end + 1 < source.length ? source[++end] : source[end];
+        end += 1;
+      }
+      if (end >= source.length) {
+        throw new SysMLQueryError(`Unterminated string at ${offset}`);
+      }
+      tokens.push({ type: 'string', text, offset });
+      offset = end + 1;
+    } else {
+      const arrow = ['<->', '->', '<-'].find((candidate) => source.startsWith(candidate, offset));
+      if (arrow) {
+        tokens.push({ type: 'arrow', text: arrow, offset });
+        offset += arrow.length;
+        continue;
+      }
+      // Words run up to whitespace, a parenthesis, a string or an arrow
+      let end = offset;
+      while (end < source.length && !/[\s()"<]/.test(source[end]) && !source.startsWith('->', end)) {
+        end += 1;
+      }
+      if (end === offset) {
+        throw new SysMLQueryError(`Unexpected '${char}' at ${offset}`);
+      }
+      tokens.push({ type: 'word', text: source.slice(offset, end), offset });
+      offset = end;
+    }
+  }
+  return tokens;
+};
+
+const isKeyword = (token: Token | undefined, keyword: string) =>
+  token?.type === 'word' && token.text.toLowerCase() === keyword;
+
+/**
+ * Parse the text form of a query:
+ *
+ * - `kind:part-usage`, `kind:requirement-*`, `stereotype:block`, `status:approved`
+ * - `tag:safety` or `tag:safety=high`, `name:Brake*`, `id:engine,wheels`, `in:Vehicles`
+ * - a bare word or `"quoted text"` matches names containing it
+ * - `satisfy->(query)` follows relationships from the element, `satisfy<-(query)`
+ *   towards it and `satisfy<->(query)` either way; `*` is any relationship,
+ *   `satisfy,refine` several kinds and `satisfy*2` up to two hops
+ * - `not`, `and` (or just a space) and `or`, in that order of precedence, and parentheses
+ *
+ * @example
+ * ```typescript
+ * parseQuery('kind:part-* and satisfy->(kind:requirement-* in:Safety)');
+ * ```
+ */
+export const parseQuery = (source: string): SysMLQuery => {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) => (token ? `'${token.text}' at ${token.offset}` : 'end of query');
+  const expect = (type: Token['type']) => {
+    const token = peek();
+    if (token?.type !== type) {
+      throw new SysMLQueryError(`Expected '${type}' but found ${describe(token)}`);
+    }
+    index += 1;
+    return token;
+  };
+
+  const parseTerm = (): SysMLQuery => {
+    const token = peek();
+    if (!token || token.type === ')' || token.type === 'arrow') {
+      throw new SysMLQueryError(`Expected a condition but found ${describe(token)}`);
+    }
+    index += 1;
+    if (token.type === '(') {
+      const query = parseOr();
+      expect(')');
+      return query;
+    }
+    if (token.type === 'string') {
+      return { type: 'name', pattern: `*${token.text}*` };
+    }
+    if (isKeyword(token, 'not')) {
+      return { type: 'not', query: parseTerm() };
+    }
+    if (peek()?.type === 'arrow') {
+      const direction = arrows[tokens[index++].text];
+      const [, kinds, hops] = /^(.*?)(?:\*(\d+))?$/.exec(token.text) ?? [];
+      expect('(');
+      const target = parseOr();
+      expect(')');
+      return {
+        type: 'related',
+        ...(kinds !== '' && kinds !== '*' && { kinds: kinds.split(',') }),
+        direction,
+        ...(hops !== undefined && { hops: Number(hops) }),
+        target
+      };
+    }
+    const separator = token.text.indexOf(':');
+    if (separator < 0) {
+      return { type: 'name', pattern: `*${token.text}*` };
+    }
+    const field = token.text.slice(0, separator);
+    if (!Object.prototype.hasOwnProperty.call(fields, field)) {
+      throw new SysMLQueryError(`Unknown field '${field}' at ${token.offset}`);
+    }
+    // `name:"Brake pedal"` takes the string that follows
+    let value = token.text.slice(separator + 1);
+    if (value === '' && peek()?.type === 'string') {
+      value = tokens[index++].text;
+    }
+    if (value === '') {
+      throw new SysMLQueryError(`Missing value for '${field}' at ${token.offset}`);
+    }
+    return fields[field as FieldQuery['type']](value);
+  };
+
+  const parseAnd = (): SysMLQuery => {
+    const queries = [parseTerm()];
+    for (let token = peek(); token && token.type !== ')' && !isKeyword(token, 'or'); token = peek()) {
+      if (isKeyword(token, 'and')) {
+        index += 1;
+      }
+      queries.push(parseTerm());
+    }
+    return queries.length === 1 ? queries[0] : { type: 'and', queries };
+  };
+
+  const parseOr = (): SysMLQuery => {
+    const queries = [parseAnd()];
+    while (isKeyword(peek(), 'or')) {
+      index += 1;
+      queries.push(parseAnd());
+    }
+    return queries.length === 1 ? queries[0] : { type: 'or', queries };
+  };
+
+  const query = parseOr();
+  if (index < tokens.length) {
+    throw new SysMLQueryError(`Unexpected ${describe(peek())}`);
+  }
+  return query;
+};
+
+const formatValue = (value: string) =>
+  /^[^\s()"<]+$/.test(value) && !value.includes('->') ? value : `"${value.replace(/(["\\])/g, '\\$1')}"`;
+
+/** Text form of a query; `parseQuery` reads it back to the same query. */
+export const formatQuery = (query: SysMLQuery): string => {
+  const grouped = (inner: SysMLQuery) =>
+    inner.type === 'and' || inner.type === 'or' ? `(${formatQuery(inner)})` : formatQuery(inner);
+  switch (query.type) {
+    case 'kind':
+      return `kind:${formatValue(query.kinds.join(','))}`;
+    case 'stereotype':
+    case 'status':
+      return `${query.type}:${formatValue(query.value)}`;
+    case 'tag':
+      return `tag:${formatValue(query.value === undefined ? query.key : `${query.key}=${query.value}`)}`;
+    case 'name':
+      return `name:${formatValue(query.pattern)}`;
+    case 'id':
+      return `id:${formatValue(query.ids.join(','))}`;
+    case 'in':
+      return `in:${formatValue(query.owner)}`;
+    case 'related': {
+      const kinds = query.kinds ? query.kinds.join(',') : '*';
+      const arrow = Object.keys(arrows).find((key) => arrows[key] === query.direction);
+      return `${kinds}${query.hops !== undefined ? `*${query.hops}` : ''}${arrow}(${formatQuery(query.target)})`;
+    }
+    case 'and':
+      return query.queries.map((inner) => (inner.type === 'or' ? grouped(inner) : formatQuery(inner))).join(' and ');
+    case 'or':
+      return query.queries.map(formatQuery).join(' or ');
+    case 'not':
+      return `not ${grouped(query.query)}`;
+  }
+};
+
+const patternCache = new Map<string, RegExp>();
+
+const matches = (pattern: string, value: string | undefined) => {
+  if (value === undefined) {
+    return false;
+  }
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    regex = new RegExp(`^${source}$`, 'i');
+    patternCache.set(pattern, regex);
+  }
+  return regex.test(value);
+};
+
+const nameOf = (node: SysMLNodeSpec) => ('name' in node.spec ? node.spec.name : node.spec.id);
+
+const specField = (node: SysMLNodeSpec, field: 'stereotype' | 'status') =>
+  (node.spec as { stereotype?: string; status?: string })[field];
+
+/** Evaluate a query against a model as the set of matching node ids. */
+const evaluate = (model: SysMLModel) => {
+  const ids = new Set(model.nodes.map((node) => node.spec.id));
+  const containment = getContainment(model);
+  const endpoint = (value: string) => resolvePortEndpoint(value, (id) => ids.has(id)).node;
+  const links = model.relationships.map((relationship) => ({
+    kind: relationship.type as string,
+    source: endpoint(relationship.source),
+    target: endpoint(relationship.target)
+  }));
+
+  const ownersOf = (id: string) => {
+    const chain: string[] = [];
+    for (let owner = containment[id]; owner !== undefined && !chain.includes(owner); owner = containment[owner]) {
+      chain.push(owner);
+    }
+    return chain;
+  };
+
+  const select = (predicate: (node: SysMLNodeSpec) => boolean) =>
+    new Set(model.nodes.filter(predicate).map((node) => node.spec.id));
+
+  // Elements reaching the targets in at most `hops` steps, walking backwards from them
+  const related = (query: Extract<SysMLQuery, { type: 'related' }>) => {
+    const targets = run(query.target);
+    const steps = links.filter((link) => !query.kinds || query.kinds.some((kind) => matches(kind, link.kind)));
+    const found = new Set<string>();
+    let frontier = targets;
+    for (let hop = 0; hop < (query.hops ?? 1) && frontier.size > 0; hop += 1) {
+      const next = new Set<string>();
+      steps.forEach((link) => {
+        if (query.direction !== 'in' && frontier.has(link.target) && !found.has(link.source)) {
+          next.add(link.source);
+        }
+        if (query.direction !== 'out' && frontier.has(link.source) && !found.has(link.target)) {
+          next.add(link.target);
+        }
+      });
+      next.forEach((id) => found.add(id));
+      frontier = next;
+    }
+    return found;
+  };
+
+  const run = (query: SysMLQuery): Set<string> => {
+    switch (query.type) {
+      case 'kind':
+        return select((node) => query.kinds.some((kind) => matches(kind, node.kind)));
+      case 'stereotype':
+      case 'status':
+        return select((node) => matches(query.value, specField(node, query.type)));
+      case 'tag':
+        return select((node) =>
+          ((node.spec as { tags?: SysMLTag[] }).tags ?? []).some(
+            (tag) => matches(query.key, tag.key) && (query.value === undefined || matches(query.value, tag.value))
+          )
+        );
+      case 'name':
+        return select((node) => matches(query.pattern, nameOf(node)));
+      case 'id':
+        return select((node) => query.ids.some((id) => matches(id, node.spec.id)));
+      case 'in': {
+        const owners = select((node) => node.spec.id === query.owner || nameOf(node) === query.owner);
+        return select((node) => ownersOf(node.spec.id).some((owner) => owners.has(owner)));
+      }
+      case 'related':
+        return related(query);
+      case 'and':
+        // An empty `and` selects every element
+        return query.queries
+          .map(run)
+          .reduce((result, next) => new Set(Array.from(result).filter((id) => next.has(id))), select(() => true));
+      case 'or':
+        return new Set(query.queries.flatMap((inner) => Array.from(run(inner))));
+      case 'not': {
+        const excluded = run(query.query);
+        return select((node) => !excluded.has(node.spec.id));
+      }
+    }
+  };
+  return run;
+};
+
+/**
+ * Ids of the model elements a query selects, in model order. The query is
+ * given as data or in its text form (see `parseQuery`).
+ *
+ * @example
+ * ```typescript
+ * runQuery(model, 'kind:part-usage satisfy*2->(in:Requirements)');
+ * ```
+ */
+export const runQuery = (model: SysMLModel, query: SysMLQuery | string): string[] => {
+  const selected = evaluate(model)(typeof query === 'string' ? parseQuery(query) : query);
+  return model.nodes.filter((node) => selected.has(node.spec.id)).map((node) => node.spec.id);
+};
+
+/**
+ * A viewpoint showing what a query selects in a model and the relationships
+ * between the selected elements.
+ */
+export const createQueryViewpoint = (
+  model: SysMLModel,
+  query: SysMLQuery | string,
+  viewpoint: Partial<Pick<SysMLViewpoint, 'id' | 'name' | 'description' | 'includeEdgeKinds'>> = {}
+): SysMLViewpoint => {
+  const parsed = typeof query === 'string' ? parseQuery(query) : query;
+  const selected = new Set(runQuery(model, parsed));
+  const ids = new Set(model.nodes.map((node) => node.spec.id));
+  const isSelected = (endpoint: string) => selected.has(resolvePortEndpoint(endpoint, (id) => ids.has(id)).node);
+  const text = formatQuery(parsed);
+  return {
+    id: viewpoint.id ?? 'sysml.query',
+    name: viewpoint.name ?? `Query: ${text}`,
+    description: viewpoint.description ?? `Elements selected by ${text}`,
+    includeNodeKinds: Array.from(
+      new Set(model.nodes.filter((node) => selected.has(node.spec.id)).map((node) => node.kind))
+    ),
+    includeEdgeKinds: viewpoint.includeEdgeKinds,
+    nodeFilter: (spec) => selected.has(spec.spec.id),
+    relationshipFilter: (relationship) => isSelected(relationship.source) && isSelected(relationship.target)
+  };
+};
+
+/**
+ * Keep only the given nodes on a diagram, together with the containers they
+ * are drawn in and the edges between what is kept.
+ */
+export const isolateElements = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[],
+  ids: string[]
+): { nodes: SysMLReactFlowNode[]; edges: SysMLReactFlowEdge[] } => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const kept = new Set<string>();
+  const parentOf = (node: SysMLReactFlowNode) => {
+    const parentId = node.parentId ?? node.parentNode;
+    return parentId ? byId.get(parentId) : undefined;
+  };
+  ids.forEach((id) => {
+    for (let node = byId.get(id); node && !kept.has(node.id); node = parentOf(node)) {
+      kept.add(node.id);
+    }
+  });
+  return {
+    nodes: nodes.filter((node) => kept.has(node.id)),
+    edges: edges.filter((edge) => kept.has(edge.source) && kept.has(edge.target))
+  };
+};
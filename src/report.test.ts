@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { generateModelReport } from './report';
+import { requirementViewpoint, structuralDefinitionViewpoint } from './viewpoints';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    {
+      kind: 'part-definition',
+      spec: {
+        id: 'Vehicle',
+        name: 'Vehicle',
+        attributes: [{ name: 'mass', type: 'Real', value: '1500 [kg]' }],
+        ports: [{ name: 'fuel', type: 'FuelPort', direction: 'in' }]
+      }
+    },
+    { kind: 'part-definition', spec: { id: 'Brakes', name: 'Brakes' } },
+    {
+      kind: 'requirement-definition',
+      spec: { id: 'braking', name: 'Braking', reqId: 'R-1', text: 'Stop within 40 m <from 100 km/h>' }
+    },
+    { kind: 'requirement-usage', spec: { id: 'range', name: 'Range' } },
+    { kind: 'verification-case-usage', spec: { id: 'track', name: 'Track test', verificationMethod: 'test' } }
+  ],
+  relationships: [
+    { id: 's1', type: 'specialization', source: 'Brakes', target: 'Vehicle' },
+    { id: 'sat1', type: 'satisfy', source: 'Brakes', target: 'braking' },
+    { id: 'v1', type: 'verify', source: 'track', target: 'braking' }
+  ]
+};
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const rows = (document: Document, table: string) =>
+  Array.from(document.querySelectorAll(`#${table} tbody tr`)).map((row) =>
+    Array.from(row.querySelectorAll('td')).map((cell) => cell.textContent)
+  );
+
+describe('Model Report', () => {
+  it('should build a title page, contents and one captioned figure per non-empty viewpoint', async () => {
+    const document = parse(
+      await generateModelReport(model, { title: 'Vehicle PDR', subtitle: 'Milestone review', date: '2025-11-03' })
+    );
+
+    expect(document.title).toBe('Vehicle PDR');
+    expect(Array.from(document.querySelectorAll('.sysml-report-title p')).map((line) => line.textContent)).toEqual([
+      'Milestone review',
+      '2025-11-03'
+    ]);
+    expect(Array.from(document.querySelectorAll('#contents li')).map((entry) => entry.textContent)).toEqual([
+      '1. Structural Definition Viewpoint',
+      '2. Requirement Viewpoint',
+      '3. Verification Viewpoint',
+      'Attributes',
+      'Ports',
+      'Requirements',
+      'Element index'
+    ]);
+    expect(document.querySelectorAll('figure > svg')).toHaveLength(3);
+    expect(document.querySelector('#figure-1 figcaption')?.textContent).toBe(
+      'Figure 1: Structural Definition Viewpoint'
+    );
+    expect(document.querySelectorAll('#figure-1 svg .sysml-node')).toHaveLength(2);
+  });
+
+  it('should list attributes, ports and requirements with their verification status', async () => {
+    const document = parse(await generateModelReport(model, { title: 'Vehicle PDR', views: [] }));
+
+    expect(rows(document, 'attributes')).toEqual([['Vehicle', 'mass', 'Real', '', '1500 [kg]']]);
+    expect(rows(document, 'ports')).toEqual([['Vehicle', 'fuel', 'in', 'FuelPort']]);
+    expect(rows(document, 'requirements')).toEqual([
+      ['R-1', 'Braking', 'Stop within 40 m <from 100 km/h>', 'satisfied', 'verified (test)'],
+      ['range', 'Range', '', 'not satisfied', 'not verified']
+    ]);
+  });
+
+  it('should index element ids with links to the figures showing them', async () => {
+    const document = parse(
+      await generateModelReport(model, {
+        title: 'Vehicle PDR',
+        views: [{ viewpoint: requirementViewpoint, caption: 'Braking requirements' }, structuralDefinitionViewpoint]
+      })
+    );
+
+    expect(document.querySelector('#figure-1 figcaption')?.textContent).toBe('Figure 1: Braking requirements');
+    expect(rows(document, 'index')).toEqual([
+      ['Brakes', 'Brakes', 'part-definition', 'Figure 2'],
+      ['braking', 'Braking', 'requirement-definition', 'Figure 1'],
+      ['range', 'Range', 'requirement-usage', 'Figure 1'],
+      ['track', 'Track test', 'verification-case-usage', ''],
+      ['Vehicle', 'Vehicle', 'part-definition', 'Figure 2']
+    ]);
+    expect(document.querySelector('#requirements a')?.getAttribute('href')).toBe('#element-braking');
+    expect(document.getElementById('element-braking')).not.toBeNull();
+  });
+
+  it('should give element ids that differ only in spaces and dashes their own anchors', async () => {
+    const document = parse(
+      await generateModelReport(
+        {
+          nodes: [
+            { kind: 'part-definition', spec: { id: 'a b', name: 'A' } },
+            { kind: 'part-definition', spec: { id: 'a-b', name: 'B' } }
+          ],
+          relationships: []
+        },
+        { title: 'Anchors', views: [] }
+      )
+    );
+
+    const anchors = Array.from(document.querySelectorAll('#index span[id]')).map((span) => span.id);
+    expect(anchors).toEqual(['element-a%20b', 'element-a-b']);
+  });
+});
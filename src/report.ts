@@ -0,0 +1,277 @@
+import { computeRequirementCoverage, type RequirementCoverage } from './coverage';
+import { escapeXml, renderDiagramToSVG, type SysMLImageOptions } from './imageExport';
+import { layoutAndRoute, recommendedLayouts } from './layout';
+import { realizeViewpoint, sysmlViewpoints } from './viewpoints';
+import type { SysMLNodeSpec, SysMLPortSpec, SysMLPropertySpec } from './types';
+import type { SysMLViewpointDefinition } from './viewpointDefinitions';
+import type { SysMLModel, SysMLViewpoint, ViewMaterializationOptions } from './viewpoints';
+
+/** One diagram page of a report. */
+export interface SysMLReportView {
+  viewpoint: SysMLViewpoint | SysMLViewpointDefinition;
+  /** Recommended layout to apply (default the viewpoint's `layout`, or `bdd`). */
+  layout?: keyof typeof recommendedLayouts;
+  /** Figure caption; defaults to the viewpoint's name. */
+  caption?: string;
+  viewOptions?: ViewMaterializationOptions;
+}
+
+export interface SysMLReportOptions {
+  title: string;
+  subtitle?: string;
+  author?: string;
+  /** Shown on the title page as given, e.g. a review date or a model version. */
+  date?: string;
+  /** Diagram pages in order (default one per viewpoint of `sysmlViewpoints`). Views without elements are left out. */
+  views?: Array<SysMLViewpoint | SysMLViewpointDefinition | SysMLReportView>;
+  /** Options of the diagram images (default light theme). */
+  image?: SysMLImageOptions;
+  /** Measure the nodes before layout; needs a browser (default false). */
+  measure?: boolean;
+}
+
+export class SysMLReportError extends Error {}
+
+const requirementKinds = ['requirement-definition', 'requirement-usage'];
+
+const styles = `
+@page { size: A4; margin: 18mm; }
+body { font-family: "IBM Plex Sans", system-ui, sans-serif; color: #161616; margin: 0; }
+section { break-after: page; padding: 24px 0; }
+.sysml-report-title { display: flex; flex-direction: column; justify-content: center; min-height: 80vh; }
+.sysml-report-title h1 { font-size: 36px; margin: 0 0 8px; }
+h2 { font-size: 22px; border-bottom: 2px solid #0f62fe; padding-bottom: 4px; }
+figure { margin: 16px 0; break-inside: avoid; }
+figure svg { max-width: 100%; height: auto; }
+figcaption { font-size: 13px; color: #525252; margin-top: 8px; }
+table { border-collapse: collapse; width: 100%; font-size: 12px; margin-bottom: 24px; }
+th, td { border: 1px solid #c6c6c6; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }
+tr { break-inside: avoid; }
+a { color: #0f62fe; }
+`;
+
+interface Figure {
+  anchor: string;
+  number: number;
+  title: string;
+  description: string;
+  caption: string;
+  svg: string;
+  elementIds: string[];
+}
+
+const toView = (view: SysMLViewpoint | SysMLViewpointDefinition | SysMLReportView): SysMLReportView =>
+  'viewpoint' in view ? view : { viewpoint: view };
+
+const nameOf = (node: SysMLNodeSpec) => ('name' in node.spec ? node.spec.name : node.spec.id);
+
+// Element ids may contain anything a SysML name can; encoding keeps their anchors distinct
+const elementAnchor = (id: string) => `element-${encodeURIComponent(id)}`;
+
+const elementLink = (id: string, label = id) => `<a href="#${escapeXml(elementAnchor(id))}">${escapeXml(label)}</a>`;
+
+const table = (headers: string[], rows: string[][]) =>
+  `<table><thead><tr>${headers.map((header) => `<th>${escapeXml(header)}</th>`).join('')}</tr></thead><tbody>${rows
+    .map((cells) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`)
+    .join('')}</tbody></table>`;
+
+const cell = (value?: string) => escapeXml(value ?? '');
+
+const renderFigure = async (
+  model: SysMLModel,
+  view: SysMLReportView,
+  number: number,
+  options: SysMLReportOptions
+): Promise<Figure | undefined> => {
+  const { viewpoint } = view;
+  const layoutName = view.layout ?? viewpoint.layout ?? 'bdd';
+  const layoutOptions = recommendedLayouts[layoutName];
+  if (!layoutOptions) {
+    throw new SysMLReportError(`Unknown layout '${String(layoutName)}' for ${viewpoint.name}`);
+  }
+  const realized = realizeViewpoint(model, viewpoint, view.viewOptions);
+  if (realized.nodes.length === 0) {
+    return undefined;
+  }
+  const layout = await layoutAndRoute(realized.nodes, realized.edges, {
+    ...layoutOptions,
+    measure: options.measure ?? false
+  });
+  return {
+    anchor: `figure-${number}`,
+    number,
+    title: viewpoint.name,
+    description: viewpoint.description,
+    caption: view.caption ?? viewpoint.name,
+    svg: renderDiagramToSVG(layout, { theme: 'light', ...options.image }),
+    elementIds: realized.nodes.map((node) => node.id)
+  };
+};
+
+const attributeRows = (model: SysMLModel) =>
+  model.nodes.flatMap((node) =>
+    ((node.spec as { attributes?: SysMLPropertySpec[] }).attributes ?? []).map((attribute) => [
+      elementLink(node.spec.id, nameOf(node)),
+      cell(attribute.name),
+      cell(attribute.type),
+      cell(attribute.multiplicity),
+      cell(attribute.value)
+    ])
+  );
+
+const portRows = (model: SysMLModel) =>
+  model.nodes.flatMap((node) =>
+    ((node.spec as { ports?: SysMLPortSpec[] }).ports ?? []).map((port) => [
+      elementLink(node.spec.id, nameOf(node)),
+      cell(port.name),
+      cell(port.direction),
+      cell(port.type)
+    ])
+  );
+
+const verificationStatus = (coverage?: RequirementCoverage) => {
+  if (!coverage || !coverage.verified) {
+    return 'not verified';
+  }
+  return coverage.verificationMethods.length > 0
+    ? `verified (${coverage.verificationMethods.join(', ')})`
+    : 'verified';
+};
+
+const requirementRows = (model: SysMLModel) => {
+  const coverage = new Map(
+    computeRequirementCoverage(model).requirements.map((requirement) => [requirement.requirementId, requirement])
+  );
+  return model.nodes
+    .filter((node) => requirementKinds.includes(node.kind))
+    .map((node) => {
+      const spec = node.spec as { reqId?: string; text?: string };
+      const requirement = coverage.get(node.spec.id);
+      return [
+        elementLink(node.spec.id, spec.reqId ?? node.spec.id),
+        cell(nameOf(node)),
+        cell(spec.text),
+        requirement?.satisfied ? 'satisfied' : 'not satisfied',
+        cell(verificationStatus(requirement))
+      ];
+    });
+};
+
+const section = (id: string, heading: string, content: string) =>
+  `<section id="${escapeXml(id)}"><h2>${escapeXml(heading)}</h2>${content}</section>`;
+
+const contentsEntry = (entry: { anchor: string; label: string }) =>
+  `<li><a href="#${entry.anchor}">${escapeXml(entry.label)}</a></li>`;
+
+const figureSection = (figure: Figure) =>
+  section(
+    figure.anchor,
+    `${figure.number}. ${figure.title}`,
+    `<p>${escapeXml(figure.description)}</p><figure>${figure.svg}` +
+      `<figcaption>Figure ${figure.number}: ${escapeXml(figure.caption)}</figcaption></figure>`
+  );
+
+/**
+ * Build a review document for a model as a standalone, printable HTML page:
+ * a title page, a table of contents, one captioned diagram per viewpoint,
+ * tables of attributes, ports and requirements with their verification
+ * status, and an index of element ids. Diagrams are inline SVG and nothing is
+ * loaded from the network, so the report works offline; print it to PDF from
+ * a browser (see `printModelReport`) or a headless one in CI.
+ *
+ * @example
+ * ```typescript
+ * const html = await generateModelReport(model, { title: 'Vehicle PDR', date: '2025-11-03' });
+ * ```
+ */
+export const generateModelReport = async (model: SysMLModel, options: SysMLReportOptions): Promise<string> => {
+  const views = (options.views ?? Object.values(sysmlViewpoints)).map(toView);
+  const figures: Figure[] = [];
+  // One at a time: each layout is a full ELK run
+  for (const view of views) {
+    const figure = await renderFigure(model, view, figures.length + 1, options);
+    if (figure) {
+      figures.push(figure);
+    }
+  }
+
+  const tables = [
+    {
+      id: 'attributes',
+      heading: 'Attributes',
+      headers: ['Element', 'Attribute', 'Type', 'Multiplicity', 'Value'],
+      rows: attributeRows(model)
+    },
+    { id: 'ports', heading: 'Ports', headers: ['Element', 'Port', 'Direction', 'Type'], rows: portRows(model) },
+    {
+      id: 'requirements',
+      heading: 'Requirements',
+      headers: ['Id', 'Name', 'Text', 'Satisfaction', 'Verification'],
+      rows: requirementRows(model)
+    }
+  ].filter((entry) => entry.rows.length > 0);
+
+  const contents = [
+    ...figures.map((figure) => ({ anchor: figure.anchor, label: `${figure.number}. ${figure.title}` })),
+    ...tables.map((entry) => ({ anchor: entry.id, label: entry.heading })),
+    { anchor: 'index', label: 'Element index' }
+  ];
+
+  const indexRows = [...model.nodes]
+    .sort((a, b) => a.spec.id.localeCompare(b.spec.id))
+    .map((node) => [
+      `<span id="${escapeXml(elementAnchor(node.spec.id))}">${cell(node.spec.id)}</span>`,
+      cell(nameOf(node)),
+      cell(node.kind),
+      figures
+        .filter((figure) => figure.elementIds.includes(node.spec.id))
+        .map((figure) => `<a href="#${figure.anchor}">Figure ${figure.number}</a>`)
+        .join(', ')
+    ]);
+
+  const titlePage = `<section class="sysml-report-title"><h1>${escapeXml(options.title)}</h1>${[
+    options.subtitle,
+    options.author,
+    options.date
+  ]
+    .filter((line): line is string => Boolean(line))
+    .map((line) => `<p>${escapeXml(line)}</p>`)
+    .join('')}</section>`;
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="en"><head><meta charset="utf-8"><title>${escapeXml(options.title)}</title>`,
+    `<style>${styles}</style></head><body>`,
+    titlePage,
+    section('contents', 'Contents', `<ol>${contents.map(contentsEntry).join('')}</ol>`),
+    ...figures.map(figureSection),
+    ...tables.map((entry) => section(entry.id, entry.heading, table(entry.headers, entry.rows))),
+    section('index', 'Element index', table(['Id', 'Name', 'Kind', 'Shown in'], indexRows)),
+    '</body></html>'
+  ].join('\n');
+};
+
+/** Open the print dialog for a report, e.g. to save it as a PDF. */
+export const printModelReport = (html: string) => {
+  if (typeof document === 'undefined') {
+    throw new SysMLReportError('Printing needs a browser; open the report HTML in one instead');
+  }
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new SysMLReportError('The report could not be opened for printing');
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+};
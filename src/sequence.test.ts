@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSequenceFragmentNode,
+  createSequenceLifelineNode,
+  createSequenceMessageEdge
+} from './factories';
+import { applyLayout } from './layout';
+import { layoutSequence, orderMessages } from './sequence';
+import type { SysMLSequenceMessageSpec } from './types';
+
+const lifelines = (...ids: string[]) => ids.map((id) => createSequenceLifelineNode({ id, name: id }));
+const message = (id: string, type: SysMLSequenceMessageSpec['type'], source: string, target: string, order?: number) =>
+  createSequenceMessageEdge({ id, type, source, target, label: `${id}()`, order });
+const options = { lifelineSpacing: 300, messageSpacing: 60 };
+
+describe('Sequence Layout', () => {
+  it('should order messages by order, then by position', () => {
+    const edges = [
+      message('m3', 'sync', 'a', 'b', 3),
+      message('m1', 'sync', 'a', 'b', 1),
+      message('x', 'sync', 'a', 'b'),
+      message('m2', 'sync', 'a', 'b', 1)
+    ];
+
+    expect(orderMessages(edges).map((edge) => edge.id)).toEqual(['m1', 'm2', 'x', 'm3']);
+  });
+
+  it('should route messages as horizontal arrows between activation bars', () => {
+    const { nodes, edges } = layoutSequence(
+      lifelines('A', 'B', 'C'),
+      [
+        message('m3', 'return', 'C', 'B', 3),
+        message('m1', 'sync', 'A', 'B', 1),
+        message('m4', 'return', 'B', 'A', 4),
+        message('m2', 'sync', 'B', 'C', 2)
+      ],
+      options
+    );
+
+    expect(nodes.map((node) => node.position)).toEqual([
+      { x: 0, y: 0 },
+      { x: 300, y: 0 },
+      { x: 600, y: 0 }
+    ]);
+    expect(edges.map((edge) => [edge.id, edge.data?.route?.points])).toEqual([
+      ['m3', [{ x: 665, y: 220 }, { x: 375, y: 220 }]],
+      ['m1', [{ x: 70, y: 100 }, { x: 365, y: 100 }]],
+      ['m4', [{ x: 365, y: 280 }, { x: 70, y: 280 }]],
+      ['m2', [{ x: 375, y: 160 }, { x: 665, y: 160 }]]
+    ]);
+    expect(nodes.map((node) => node.data.lifeline)).toEqual([
+      { height: 340, activations: [] },
+      { height: 340, activations: [{ top: 100, bottom: 280, depth: 0 }] },
+      { height: 340, activations: [{ top: 160, bottom: 220, depth: 0 }] }
+    ]);
+  });
+
+  it('should loop self-messages back onto a nested activation', () => {
+    const { nodes, edges } = layoutSequence(
+      lifelines('A', 'B'),
+      [message('s1', 'sync', 'A', 'B'), message('s2', 'sync', 'B', 'B'), message('s3', 'async', 'B', 'A')],
+      options
+    );
+
+    expect(edges[1].data?.route?.points).toEqual([
+      { x: 375, y: 160 },
+      { x: 420, y: 160 },
+      { x: 420, y: 190 },
+      { x: 380, y: 190 }
+    ]);
+    expect(edges[2].data?.route?.points).toEqual([
+      { x: 370, y: 250 },
+      { x: 70, y: 250 }
+    ]);
+    // Bars left open run past the last message
+    expect(nodes[1].data.lifeline).toEqual({
+      height: 310,
+      activations: [
+        { top: 100, bottom: 280, depth: 0 },
+        { top: 190, bottom: 280, depth: 1 }
+      ]
+    });
+  });
+
+  it('should frame combined fragments around their messages', () => {
+    const { nodes, edges } = layoutSequence(
+      [
+        ...lifelines('A', 'B'),
+        createSequenceFragmentNode({
+          id: 'check',
+          name: 'check',
+          operator: 'alt',
+          operands: [
+            { guard: 'ok', messages: ['m1'] },
+            { guard: 'else', messages: ['m2'] }
+          ]
+        }),
+        createSequenceFragmentNode({ id: 'retry', name: 'retry', operator: 'loop', operands: [{ messages: ['m1', 'm2', 'm3'] }] }),
+        createSequenceFragmentNode({ id: 'other', name: 'other', operator: 'opt', operands: [{ messages: ['elsewhere'] }] })
+      ],
+      [message('m1', 'async', 'A', 'B'), message('m2', 'async', 'B', 'A'), message('m3', 'async', 'A', 'B')],
+      options
+    );
+
+    expect(edges.map((edge) => edge.data?.route?.points[0].y)).toEqual([148, 232, 304]);
+    expect(nodes[0].data.lifeline?.height).toBe(376);
+
+    const [alt, loop, opt] = nodes.slice(2);
+    expect([alt.position, alt.style]).toEqual([
+      { x: -12, y: 94 },
+      { pointerEvents: 'none', width: 464, height: 150 }
+    ]);
+    expect(alt.data.fragment?.operands).toEqual([
+      { guard: 'ok', messages: ['m1'], top: 0 },
+      { guard: 'else', messages: ['m2'], top: 84 }
+    ]);
+    // The enclosing loop starts above the alt and sits further out
+    expect([loop.position, loop.style]).toEqual([
+      { x: -24, y: 70 },
+      { pointerEvents: 'none', width: 488, height: 246 }
+    ]);
+    expect(opt.position).toEqual({ x: 0, y: 0 });
+    expect(opt.data.fragment?.operands[0].top).toBeUndefined();
+  });
+
+  it('should lay out sequences through applyLayout', async () => {
+    const { nodes, edges } = await applyLayout(lifelines('A', 'B'), [message('m1', 'async', 'A', 'B')], {
+      algorithm: 'sequence',
+      nodeSpacing: 100,
+      nodeWidth: 200,
+      layerSpacing: 80
+    });
+
+    expect(nodes[1].position).toEqual({ x: 300, y: 0 });
+    expect(edges[0].data?.route).toEqual({
+      points: [
+        { x: 70, y: 120 },
+        { x: 370, y: 120 }
+      ],
+      routing: 'orthogonal'
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import type { Edge, Node } from 'reactflow';
+
+import type { SysMLActivation, SysMLEdgeData, SysMLNodeData, SysMLRoutePoint } from './types';
+
+/** Width of a lifeline node; messages attach to its centre line. */
+export const lifelineWidth = 140;
+/** Height of the lifeline head above the first message. */
+export const lifelineHeaderHeight = 40;
+/** Height of a lifeline before the sequence layout sizes it. */
+export const defaultLifelineHeight = 320;
+export const activationWidth = 10;
+/** Horizontal shift of each nested activation bar. */
+export const activationIndent = 5;
+
+/** Room above the first message of a fragment operand for its operator tab or guard. */
+const operandHeaderHeight = 24;
+const fragmentPadding = 12;
+const selfMessageWidth = 40;
+
+export interface SequenceLayoutOptions {
+  /** Distance between the left edges of neighbouring lifelines. */
+  lifelineSpacing: number;
+  /** Vertical distance between consecutive messages. */
+  messageSpacing: number;
+}
+
+export interface SequenceLayoutResult {
+  nodes: Node<SysMLNodeData>[];
+  edges: Edge<SysMLEdgeData>[];
+}
+
+interface OpenActivation {
+  top: number;
+  depth: number;
+}
+
+interface FragmentSpan {
+  node: Node<SysMLNodeData>;
+  index: number;
+  first: number;
+  last: number;
+  /** Index of the first message of each operand, if it has one. */
+  operandStarts: (number | undefined)[];
+}
+
+/** Messages in diagram order: by `order`, then by position in the edge list. */
+export const orderMessages = (edges: Edge<SysMLEdgeData>[]): Edge<SysMLEdgeData>[] =>
+  edges
+    .filter((edge) => edge.data?.kind === 'message')
+    .map((edge, index) => ({ edge, index, order: edge.data?.order ?? index }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ edge }) => edge);
+
+/**
+ * Lay out a sequence diagram. Lifelines are spread horizontally and grow with
+ * the number of messages; messages become horizontal routes at increasing
+ * heights in message order, self-messages loop back to their lifeline. A
+ * `sync` message opens an activation bar on its target that the next `return`
+ * from that lifeline closes. Combined fragments are sized to frame their
+ * messages across the lifelines those messages connect.
+ */
+export const layoutSequence = (
+  nodes: Node<SysMLNodeData>[],
+  edges: Edge<SysMLEdgeData>[],
+  { lifelineSpacing, messageSpacing }: SequenceLayoutOptions
+): SequenceLayoutResult => {
+  const lifelines = nodes.filter((node) => node.data.kind === 'sequence-lifeline');
+  const columns = new Map(lifelines.map((node, index) => [node.id, index]));
+  const centerOf = (id: string) => (columns.get(id) ?? 0) * lifelineSpacing + lifelineWidth / 2;
+
+  const messages = orderMessages(edges).filter((edge) => columns.has(edge.source) && columns.has(edge.target));
+  const messageIndex = new Map(messages.map((edge, index) => [edge.id, index]));
+
+  const spans: FragmentSpan[] = nodes.flatMap((node, index) => {
+    const operandStarts = (node.data.fragment?.operands ?? []).map((operand) => {
+      const positions = operand.messages.flatMap((id) => messageIndex.get(id) ?? []);
+      return positions.length > 0 ? Math.min(...positions) : undefined;
+    });
+    const positions = (node.data.fragment?.operands ?? []).flatMap((operand) =>
+      operand.messages.flatMap((id) => messageIndex.get(id) ?? [])
+    );
+    return positions.length > 0
+      ? [{ node, index, first: Math.min(...positions), last: Math.max(...positions), operandStarts }]
+      : [];
+  });
+  // Fragments with the same messages nest in declaration order
+  const contains = (outer: FragmentSpan, inner: FragmentSpan) =>
+    outer !== inner &&
+    outer.first <= inner.first &&
+    inner.last <= outer.last &&
+    (outer.last - outer.first > inner.last - inner.first || outer.index < inner.index);
+  const outerFirst = (a: FragmentSpan, b: FragmentSpan) => b.last - b.first - (a.last - a.first) || a.index - b.index;
+  const nestedLevels = (span: FragmentSpan): number =>
+    Math.max(-1, ...spans.filter((inner) => contains(span, inner)).map(nestedLevels)) + 1;
+  const outermostFirst = [...spans].sort(outerFirst);
+  const innermostFirst = [...outermostFirst].reverse();
+
+  // Walk the messages top to bottom
+  const operandTops = new Map<string, number>();
+  const fragmentBottoms = new Map<string, number>();
+  const open = new Map<string, OpenActivation[]>(lifelines.map((node) => [node.id, []]));
+  const activations = new Map<string, SysMLActivation[]>(lifelines.map((node) => [node.id, []]));
+  const routes = new Map<string, SysMLRoutePoint[]>();
+
+  // Where a message leaves or reaches a lifeline: the side of its innermost bar, if any
+  const attachX = (id: string, towards: 1 | -1) => {
+    const bars = open.get(id) ?? [];
+    const bar = bars[bars.length - 1];
+    return bar
+      ? centerOf(id) + bar.depth * activationIndent + (towards * activationWidth) / 2
+      : centerOf(id);
+  };
+
+  let y = lifelineHeaderHeight;
+  messages.forEach((message, index) => {
+    y += messageSpacing / 2;
+    outermostFirst.forEach((span) => {
+      span.operandStarts.forEach((start, operand) => {
+        if (start === index) {
+          operandTops.set(`${span.node.id}#${operand}`, y);
+          y += operandHeaderHeight;
+        }
+      });
+    });
+    y += messageSpacing / 2;
+
+    const { source, target } = message;
+    const self = source === target;
+    const towards = self || centerOf(target) > centerOf(source) ? 1 : -1;
+    const arrival = self ? y + messageSpacing / 2 : y;
+    const sourceX = attachX(source, towards);
+
+    const type = message.data?.messageType;
+    if (type === 'return') {
+      const bar = open.get(source)?.pop();
+      if (bar) {
+        activations.get(source)?.push({ top: bar.top, bottom: y, depth: bar.depth });
+      }
+    }
+    if (type === 'sync') {
+      const bars = open.get(target) ?? [];
+      bars.push({ top: arrival, depth: bars.length });
+    }
+    const targetX = self ? attachX(target, 1) : attachX(target, towards === 1 ? -1 : 1);
+
+    routes.set(
+      message.id,
+      self
+        ? [
+            { x: sourceX, y },
+            { x: Math.max(sourceX, targetX) + selfMessageWidth, y },
+            { x: Math.max(sourceX, targetX) + selfMessageWidth, y: arrival },
+            { x: targetX, y: arrival }
+          ]
+        : [
+            { x: sourceX, y },
+            { x: targetX, y }
+          ]
+    );
+    y = arrival;
+
+    innermostFirst.forEach((span) => {
+      if (span.last === index) {
+        y += fragmentPadding;
+        fragmentBottoms.set(span.node.id, y);
+      }
+    });
+  });
+
+  // Bars still open at the end run to just below the last message
+  open.forEach((bars, id) =>
+    bars.forEach((bar) => activations.get(id)?.push({ top: bar.top, bottom: y + messageSpacing / 2, depth: bar.depth }))
+  );
+  const height = y + messageSpacing;
+
+  const layoutedNodes = nodes.map((node) => {
+    const column = columns.get(node.id);
+    if (column !== undefined) {
+      return {
+        ...node,
+        position: { x: column * lifelineSpacing, y: 0 },
+        ...(messages.length > 0
+          ? {
+              data: {
+                ...node.data,
+                lifeline: {
+                  height,
+                  activations: [...(activations.get(node.id) ?? [])].sort((a, b) => a.top - b.top || a.depth - b.depth)
+                }
+              }
+            }
+          : {})
+      };
+    }
+
+    const span = spans.find((candidate) => candidate.node === node);
+    if (!span || !node.data.fragment) {
+      return node;
+    }
+    const covered = node.data.fragment.operands.flatMap((operand) =>
+      operand.messages.flatMap((id) => {
+        const message = messages[messageIndex.get(id) ?? -1];
+        return message ? [columns.get(message.source) ?? 0, columns.get(message.target) ?? 0] : [];
+      })
+    );
+    const inset = fragmentPadding * (nestedLevels(span) + 1);
+    const left = Math.min(...covered) * lifelineSpacing - inset;
+    const right = Math.max(...covered) * lifelineSpacing + lifelineWidth + inset;
+    const tops = node.data.fragment.operands.map((_, index) => operandTops.get(`${node.id}#${index}`));
+    const top = Math.min(...tops.flatMap((operandTop) => operandTop ?? []));
+    const bottom = fragmentBottoms.get(node.id) ?? top;
+
+    return {
+      ...node,
+      position: { x: left, y: top },
+      style: { ...node.style, width: right - left, height: bottom - top },
+      data: {
+        ...node.data,
+        fragment: {
+          ...node.data.fragment,
+          operands: node.data.fragment.operands.map((operand, index) => ({
+            ...operand,
+            top: tops[index] === undefined ? undefined : tops[index] - top
+          }))
+        }
+      }
+    };
+  });
+
+  const layoutedEdges = edges.map((edge) => {
+    const points = routes.get(edge.id);
+    return points && edge.data ? { ...edge, data: { ...edge.data, route: { points, routing: 'orthogonal' as const } } } : edge;
+  });
+
+  return { nodes: layoutedNodes, edges: layoutedEdges };
+};
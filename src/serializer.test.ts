@@ -0,0 +1,293 @@
+import { describe, it, expect } from 'vitest';
+import { serializeModel } from './serializer';
+import { parseSysML } from './parser';
+import { sysmlEdgeKinds } from './notation';
+import type { SysMLModel } from './viewpoints';
+
+// Inline `:> Base` specializations are read back ahead of the other relationships.
+const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+
+const roundTrip = (model: SysMLModel) => {
+  const { model: parsed, diagnostics } = parseSysML(serializeModel(model));
+  expect(diagnostics).toEqual([]);
+  return { nodes: parsed.nodes, relationships: [...parsed.relationships].sort(byId) };
+};
+
+describe('SysML v2 Textual Serializer', () => {
+  describe('Formatting', () => {
+    it('should write definitions with bodies, ports and specialization', () => {
+      const text = serializeModel({
+        nodes: [
+          { kind: 'part-definition', spec: { id: 'Base', name: 'Base' } },
+          {
+            kind: 'part-definition',
+            spec: {
+              id: 'Vehicle',
+              name: 'Vehicle',
+              stereotype: 'system',
+              description: 'A road vehicle.',
+              attributes: [{ name: 'mass', type: 'Real', multiplicity: '1', value: '1500' }],
+              ports: [{ name: 'bus', type: '~CanPort', direction: 'inout' }]
+            }
+          }
+        ],
+        relationships: [{ id: 'Vehicle-specialization-Base', type: 'specialization', source: 'Vehicle', target: 'Base' }]
+      });
+
+      expect(text).toBe(
+        [
+          'part def Base;',
+          '',
+          '#system part def Vehicle :> Base {',
+          '  doc /* A road vehicle. */',
+          '  attribute mass : Real [1] = 1500;',
+          '  inout port bus : ~CanPort;',
+          '}',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should nest package members and only write short ids when needed', () => {
+      const text = serializeModel({
+        nodes: [
+          { kind: 'package', spec: { id: 'pkg-1', name: 'Vehicles', imports: ['ISQ::*'], members: ['Vehicles::Car', 'part-2'] } },
+          { kind: 'part-definition', spec: { id: 'Vehicles::Car', name: 'Car' } },
+          { kind: 'part-usage', spec: { id: 'part-2', name: 'engine', definition: 'Engine', redefines: ['power'] } }
+        ],
+        relationships: []
+      });
+
+      expect(text).toBe(
+        [
+          "package <'pkg-1'> Vehicles {",
+          '  import ISQ::*;',
+          '  part def Car;',
+          "  part <'part-2'> engine : Engine :>> power;",
+          '}',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should write requirement text, constraints and native relationship forms', () => {
+      const text = serializeModel({
+        nodes: [
+          {
+            kind: 'requirement-definition',
+            spec: {
+              id: 'REQ-1',
+              name: 'MaxMass',
+              text: 'The vehicle mass shall not exceed 2000 kg.',
+              assumeConstraint: ['fuel > 0'],
+              requireConstraint: ['mass <= 2000']
+            }
+          }
+        ],
+        relationships: [
+          { id: 'Car-satisfy-REQ-1', type: 'satisfy', source: 'Car', target: 'REQ-1' },
+          { id: 'Idle-transition-Running', type: 'transition', source: 'Idle', target: 'Running', trigger: 'go', guard: 'ready', effect: 'beep()' },
+          { id: 'a-succession-b', type: 'succession', source: 'a', target: 'b', rationale: 'Ordering' }
+        ]
+      });
+
+      expect(text).toBe(
+        [
+          "requirement def <'REQ-1'> MaxMass {",
+          '  doc /* The vehicle mass shall not exceed 2000 kg. */',
+          '  assume constraint { fuel > 0 }',
+          '  require constraint { mass <= 2000 }',
+          '}',
+          '',
+          "satisfy 'REQ-1' by Car;",
+          'transition first Idle accept go if ready do beep() then Running;',
+          'first a then b { doc /* Ordering */ }',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should quote names and values that do not read back verbatim', () => {
+      const text = serializeModel({
+        nodes: [
+          {
+            kind: 'attribute-usage',
+            spec: { id: 'part', name: 'part', value: 'a; b' }
+          },
+          {
+            kind: 'requirement-usage',
+            spec: { id: 'r', name: 'r', text: '  indented', reqId: '"R-1"' }
+          }
+        ],
+        relationships: []
+      });
+
+      expect(text).toContain(`attribute 'part' = "a; b";`);
+      expect(text).toContain('doc "  indented"');
+      expect(text).toContain('reqId "\\"R-1\\"";');
+    });
+
+    it('should write multi-line documentation as a block comment', () => {
+      const text = serializeModel({
+        nodes: [{ kind: 'part-definition', spec: { id: 'A', name: 'A', description: 'First line.\n\nSecond line.' } }],
+        relationships: []
+      });
+
+      expect(text).toBe(['part def A {', '  doc', '    /*', '     * First line.', '     *', '     * Second line.', '     */', '}', ''].join('\n'));
+    });
+
+    it('should return an empty string for an empty model', () => {
+      expect(serializeModel({ nodes: [], relationships: [] })).toBe('');
+    });
+  });
+
+  describe('Round trip', () => {
+    it('should reproduce every element kind parsed from text', () => {
+      const { model, diagnostics } = parseSysML(`
+        package Vehicles {
+          import ISQ::*;
+          part def Vehicle { attribute mass : Real = 1500; in port fuel : Fuel; action drive; state parked; }
+          part vehicle : Vehicle :> fleet :>> base { part engine; }
+          abstract attribute def Mass : Real = 0;
+          readonly derived attribute m : Mass { type Real; }
+          out port def FuelPort { item fuel : Fuel; }
+          port fuelIn : FuelPort;
+          item def Fuel { unit L; quantityKind Volume; }
+          variation part def Trim;
+          item fuel : Fuel;
+          abstract connection def Link { end a : A; attribute bandwidth : Real; }
+          connection link : Link { connect a; connect b; }
+          interface def Bus { port p : P; conjugate Bus2; }
+          interface bus : Bus { connect p1; }
+          allocation def Alloc { source A; target B; }
+          allocation alloc : Alloc { from A; to B; }
+          ref driver : Person;
+          individual occurrence def Trip { lifeClass TripLife; }
+          snapshot occurrence trip : Trip { portionOf journey; }
+        }
+        package Behavior {
+          action def Drive { in speed : Real; out distance : Real; }
+          action driving : Drive;
+          initial I; final Z; fork F; join J; decide D; merge M;
+          calc def Sum { in a : Real; expression a + 1; return result; }
+          calc total : Sum { expression a * 2; }
+          perform drive : Drive;
+          send notify { payload Alert; via bus; to operator; }
+          accept onAlert : Alert { via bus; }
+          assign update = speed + 1 { target speed; }
+          if check { condition speed > 0; then go; else stop; }
+          for each { variable w; collection wheels; body inflate; }
+          while loop { condition running; body step; }
+          simple state Legacy { entry init; do run; exit stop; status draft; }
+          state machine Controller { state Idle { entry init; } state <'s-run'> Running; }
+          parallel state def Modes { state a; }
+          state operating : Modes { entry start; do operate; exit halt; state sub; }
+          parallel state cruising { state lights; state motion; }
+          initial state powerUp;
+          final state powerDown { doc /* Powered off. */ }
+          choice state modeChoice;
+          deep history state resume;
+          fork state split;
+          transition Start first Idle accept go if ready do beep() then Running;
+          exhibit modes : Modes { performer vehicle; }
+        }
+        package Requirements {
+          requirement def <'REQ-1'> MaxMass {
+            doc /* The vehicle mass shall not exceed 2000 kg. */
+            comment /* Derived from regulation. */
+            reqId "R-001";
+            subject vehicle;
+            assume constraint { fuel > 0 }
+            require constraint { mass <= 2000 }
+            frame safety;
+            actor driver;
+          }
+          requirement maxMass : MaxMass { status approved; }
+          constraint def Limit { expression x < 1; }
+          not constraint limit : Limit;
+          verification def Test { verify MaxMass; subject vehicle; objective obj; }
+          verification test : Test { method test; status draft; }
+          analysis def Study { in payload : Real = car.payload; action simulate; return mass; subject vehicle; }
+          analysis study : Study { in margin = 0.1; status completed; }
+          use case def Drive { include Start; subject vehicle; objective arrive; }
+          use case driveHome : Drive { actor driver; include start; extend park; status draft; }
+          concern def Safety { doc /* Stay safe. */ }
+          concern safety : Safety { stakeholder driver; }
+        }
+        standard library package Lib { member Vehicles; }
+        private package Internal;
+        lifeline l1 : Vehicle;
+        interaction Startup { participant l1; message start; }
+        fragment retry { operator loop; operand [attempts < 3] { message start; } operand { } }
+        metadata def SafetyMeta : Meta { attribute level : String; }
+        metadata Safety : SafetyMeta about Vehicles::Vehicle { level = "ASIL-B"; }
+        comment <'c1'> about Vehicles::Vehicle locale "en-US" /* Needs review. */
+        doc <'d1'> about Vehicles::Vehicle /* Vehicle overview. */
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(roundTrip(model)).toEqual({ ...model, relationships: [...model.relationships].sort(byId) });
+    });
+
+    it('should reproduce every relationship kind', () => {
+      const model: SysMLModel = {
+        nodes: [
+          { kind: 'part-definition', spec: { id: 'A', name: 'A' } },
+          { kind: 'part-definition', spec: { id: 'B', name: 'B' } }
+        ],
+        relationships: sysmlEdgeKinds.flatMap((type) => [
+          { id: `A-${type}-B`, type, source: 'A', target: 'B' },
+          { id: `${type}-labelled`, type, source: 'B', target: 'A', label: 'label', rationale: 'Because.' }
+        ])
+      };
+
+      expect(roundTrip(model)).toEqual({ ...model, relationships: [...model.relationships].sort(byId) });
+    });
+
+    it('should reproduce models built with factory-style ids', () => {
+      const model: SysMLModel = {
+        nodes: [
+          { kind: 'package', spec: { id: 'pkg-1', name: 'System', members: ['part-1', 'missing'] } },
+          { kind: 'part-definition', spec: { id: 'part-1', name: 'Flight Computer', description: 'Line one\nLine two' } },
+          { kind: 'state-machine', spec: { id: 'sm-1', name: 'Modes', states: [{ id: 'off', name: 'Off', status: 'draft' }] } },
+          { kind: 'comment', spec: { id: 'comment-1', body: 'Check */ this' } }
+        ],
+        relationships: [
+          { id: 'edge-1', type: 'transition', source: 'off', target: 'off', trigger: 'reset; now', guard: 'x then y' },
+          { id: 'part-1-dependency-sm-1', type: 'dependency', source: 'part-1', target: 'sm-1' },
+          { id: 'part-1-dependency-sm-1-2', type: 'dependency', source: 'part-1', target: 'sm-1' }
+        ]
+      };
+
+      const parsed = parseSysML(serializeModel(model)).model;
+      expect(parsed.nodes.slice(0, 3)).toEqual(model.nodes.slice(0, 3));
+      expect(parsed.nodes[3]).toEqual({ kind: 'comment', spec: { id: 'comment-1', body: 'Check * / this' } });
+      expect(parsed.relationships).toEqual(model.relationships);
+    });
+
+    it('should reproduce the SysML forms read into spec fields', () => {
+      const { model, diagnostics } = parseSysML(`
+        use case def Park;
+        use case def Drive { actor driver; include use case Park; }
+        constraint def MassLimit { in mass : Real; mass <= 2000 }
+        interface def Fuel { end port supply : FuelPort; }
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(model.nodes[1].spec).toMatchObject({ includedUseCases: ['Park'] });
+      expect(roundTrip(model)).toEqual(model);
+    });
+
+    it('should reproduce transition usages the parser reported as missing an end', () => {
+      ['state A;\ntransition t;', 'state A;\ntransition t first A accept go;'].forEach((source) => {
+        const { model, diagnostics } = parseSysML(source);
+        const reparsed = parseSysML(serializeModel(model));
+
+        expect(reparsed.model).toEqual(model);
+        expect(reparsed.diagnostics.map((diagnostic) => diagnostic.message)).toEqual(
+          diagnostics.map((diagnostic) => diagnostic.message)
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import type {
+  SysMLFragmentOperandSpec,
+  SysMLNodeSpec,
+  SysMLPortSpec,
+  SysMLPropertySpec,
+  SysMLRelationshipSpec,
+  SysMLStateSpec
+} from './types';
+import type { SysMLModel } from './viewpoints';
+import {
+  defaultRelationshipId,
+  formatName,
+  formatReference,
+  formatString,
+  quoteName,
+  sysmlNodeSyntax,
+  tokenizeSysML,
+  type SysMLNodeSyntax,
+  type SysMLStatementSyntax
+} from './notation';
+
+type SpecRecord = Record<string, unknown>;
+
+interface SerializerState {
+  nodesById: Map<string, SysMLNodeSpec>;
+  /** Package that declares each nested member. */
+  owners: Map<string, string>;
+  /** Plain specialization relationships written inline as `:> Base` on their definition. */
+  specializations: Map<string, SysMLRelationshipSpec[]>;
+}
+
+const indentUnit = '  ';
+
+const transitionStopWords = {
+  trigger: ['if', 'do', 'then'],
+  guard: ['do', 'then'],
+  effect: ['then']
+};
+
+/**
+ * Serialize a {@link SysMLModel} to SysML v2 textual notation.
+ *
+ * Package members are nested inside their package, relationships follow the
+ * element declarations, and short ids (`<'id'>`) are only written when an id
+ * differs from the one {@link parseSysML} would derive, so
+ * `parseSysML(serializeModel(model)).model` reproduces the model.
+ *
+ * @example
+ * ```typescript
+ * const text = serializeModel({
+ *   nodes: [{ kind: 'part-definition', spec: { id: 'Vehicle', name: 'Vehicle' } }],
+ *   relationships: []
+ * });
+ * // part def Vehicle;
+ * ```
+ */
+export const serializeModel = (model: SysMLModel): string => {
+  const state: SerializerState = {
+    nodesById: new Map(model.nodes.map((node) => [node.spec.id, node])),
+    owners: new Map(),
+    specializations: new Map()
+  };
+
+  const inline = new Set<SysMLRelationshipSpec>();
+  model.relationships.forEach((relationship) => {
+    const owner = state.nodesById.get(relationship.source);
+    if (owner && isInlineSpecialization(owner, relationship)) {
+      state.specializations.set(owner.spec.id, [...(state.specializations.get(owner.spec.id) ?? []), relationship]);
+      inline.add(relationship);
+    }
+  });
+
+  // The parser lists a package before the members it declares, so a member
+  // that precedes its package is a `member` reference rather than a nested
+  // declaration.
+  const positions = new Map(model.nodes.map((node, index) => [node.spec.id, index]));
+  model.nodes.forEach((node, index) => {
+    if (!sysmlNodeSyntax[node.kind].container) {
+      return;
+    }
+    readList(node.spec, 'members').forEach((memberId) => {
+      if ((positions.get(memberId) ?? -1) > index && !state.owners.has(memberId)) {
+        state.owners.set(memberId, node.spec.id);
+      }
+    });
+  });
+
+  const blocks = model.nodes
+    .filter((node) => !state.owners.has(node.spec.id))
+    .map((node) => serializeNode(state, node, []));
+
+  const relationships = model.relationships
+    .filter((relationship) => !inline.has(relationship))
+    .map(serializeRelationship);
+
+  const sections = [joinBlocks(blocks), relationships.flat().join('\n')].filter((section) => section.length > 0);
+  return sections.length > 0 ? `${sections.join('\n\n')}\n` : '';
+};
+
+/**
+ * Separate multi-line declarations with a blank line; keep runs of
+ * single-line declarations together.
+ */
+function joinBlocks(blocks: string[][]): string {
+  return blocks
+    .map((block, index) => {
+      const previous = blocks[index - 1];
+      const spaced = previous !== undefined && (previous.length > 1 || block.length > 1);
+      return `${spaced ? '\n' : ''}${block.join('\n')}`;
+    })
+    .join('\n');
+}
+
+function indent(lines: string[]): string[] {
+  return lines.map((line) => (line.length > 0 ? `${indentUnit}${line}` : line));
+}
+
+function readList(spec: object, field: string): string[] {
+  const value = (spec as SpecRecord)[field];
+  return Array.isArray(value) ? (value as string[]) : [];
+}
+
+function isDefinitionSyntax(syntax: SysMLNodeSyntax): boolean {
+  return syntax.keywords[syntax.keywords.length - 1] === 'def';
+}
+
+function isInlineSpecialization(owner: SysMLNodeSpec, relationship: SysMLRelationshipSpec): boolean {
+  const { id, type, source, target, ...rest } = relationship;
+  return (
+    type === 'specialization' &&
+    isDefinitionSyntax(sysmlNodeSyntax[owner.kind]) &&
+    id === defaultRelationshipId(type, source, target) &&
+    Object.values(rest).every((value) => value === undefined)
+  );
+}
+
+// Values
+
+/**
+ * Write an expression as-is when the parser reads it back verbatim, otherwise
+ * as a string literal (a lone string literal is read back as its contents).
+ */
+function formatExpression(text: string, stopWords: string[] = []): string {
+  return isVerbatim(text, stopWords) ? text : formatString(text);
+}
+
+function isVerbatim(text: string, stopWords: string[]): boolean {
+  if (text.includes('\n') || text.includes('//')) {
+    return false;
+  }
+  const { tokens, errors } = tokenizeSysML(text);
+  const body = tokens.filter((token) => token.type !== 'eof');
+  if (
+    errors.length > 0 ||
+    body.length === 0 ||
+    body[0].start !== 0 ||
+    body[body.length - 1].end !== text.length ||
+    (body.length === 1 && body[0].type === 'string')
+  ) {
+    return false;
+  }
+
+  let depth = 0;
+  for (const token of body) {
+    if (token.type === 'comment') {
+      return false;
+    }
+    if (depth === 0 && token.type === 'word' && stopWords.includes(token.value)) {
+      return false;
+    }
+    if (token.type === 'symbol') {
+      if (depth === 0 && [';', '{', '}'].includes(token.value)) {
+        return false;
+      }
+      if (['(', '[', '{'].includes(token.value)) {
+        depth += 1;
+      } else if ([')', ']', '}'].includes(token.value)) {
+        depth -= 1;
+        if (depth < 0) {
+          return false;
+        }
+      }
+    }
+  }
+  return depth === 0;
+}
+
+function formatType(reference: string): string {
+  return reference.startsWith('~') ? `~${formatReference(reference.slice(1))}` : formatReference(reference);
+}
+
+/**
+ * Format text as a block comment, or `undefined` when the comment would not
+ * read back unchanged (the parser trims lines and strips a leading `*`).
+ */
+function formatComment(text: string): string[] | undefined {
+  const lines = text.split('\n');
+  const representable =
+    !text.includes('*/') &&
+    lines.every((line) => line === line.trim() && !line.startsWith('*')) &&
+    (lines.length === 1 || (lines[0] !== '' && lines[lines.length - 1] !== ''));
+  if (!representable) {
+    return undefined;
+  }
+  if (lines.length === 1) {
+    return [text.length > 0 ? `/* ${text} */` : '/* */'];
+  }
+  return ['/*', ...lines.map((line) => (line.length > 0 ? ` * ${line}` : ' *')), ' */'];
+}
+
+/**
+ * Prefix a comment or string with `keyword`, keeping single-line text on the
+ * keyword's line.
+ */
+function textStatement(keyword: string, text: string): string[] {
+  const comment = formatComment(text) ?? [formatString(text)];
+  return comment.length === 1 ? [`${keyword} ${comment[0]}`] : [keyword, ...indent(comment)];
+}
+
+// Elements
+
+function serializeNode(state: SerializerState, node: SysMLNodeSpec, scope: string[]): string[] {
+  const syntax = sysmlNodeSyntax[node.kind];
+  const spec: SpecRecord = { ...node.spec };
+  const { id } = node.spec;
+  const name = syntax.nameless ? undefined : (('name' in node.spec ? node.spec.name : undefined) ?? id);
+
+  const header = [...serializePrefix(syntax, spec)];
+  if (syntax.nameless || [...scope, name].join('::') !== id) {
+    header.push(`<${quoteName(id)}>`);
+  }
+  if (name !== undefined) {
+    header.push(formatName(name));
+  }
+  header.push(...serializeHeaderClauses(state, syntax, spec));
+
+  if (syntax.annotation?.body) {
+    const body = (spec[syntax.annotation.body] as string | undefined) ?? '';
+    // Annotation bodies can only be block comments, so fall back to a lossy form.
+    const comment =
+      formatComment(body) ??
+      formatComment(
+        body
+          .replace(/\*\//g, '* /')
+          .split('\n')
+          .map((line) => line.trim().replace(/^\*+\s*/, ''))
+          .join('\n')
+          .trim()
+      ) ?? ['/* */'];
+    const line = header.join(' ');
+    return comment.length === 1 ? [`${line} ${comment[0]}`] : [line, ...indent(comment)];
+  }
+
+  const body = serializeBody(state, syntax, spec, syntax.container ? [...scope, name ?? id] : scope);
+  return body.length > 0 ? [`${header.join(' ')} {`, ...indent(body), '}'] : [`${header.join(' ')};`];
+}
+
+function serializePrefix(syntax: SysMLNodeSyntax, spec: SpecRecord): string[] {
+  const prefix: string[] = [];
+  if (syntax.stereotype !== false && typeof spec.stereotype === 'string') {
+    prefix.push(`#${formatName(spec.stereotype)}`);
+  }
+  Object.entries(syntax.flags ?? {}).forEach(([modifier, field]) => {
+    if (spec[field] === true) {
+      prefix.push(modifier);
+    }
+  });
+  Object.entries(syntax.enums ?? {}).forEach(([field, values]) => {
+    const value = spec[field];
+    if (typeof value === 'string' && values.includes(value)) {
+      prefix.push(value);
+    }
+  });
+  const variant = syntax.variants ? syntax.variants.keywords[spec[syntax.variants.field] as string] : undefined;
+  prefix.push(...(variant ?? syntax.keywords));
+  return prefix;
+}
+
+function serializeHeaderClauses(state: SerializerState, syntax: SysMLNodeSyntax, spec: SpecRecord): string[] {
+  const clauses: string[] = [];
+
+  if (syntax.typedBy && typeof spec[syntax.typedBy] === 'string') {
+    clauses.push(`: ${formatType(spec[syntax.typedBy] as string)}`);
+  }
+
+  const specializations = state.specializations.get(spec.id as string) ?? [];
+  if (specializations.length > 0) {
+    clauses.push(`:> ${specializations.map((relationship) => formatReference(relationship.target)).join(', ')}`);
+  } else if (syntax.subsets && readList(spec, 'subsets').length > 0) {
+    clauses.push(`:> ${readList(spec, 'subsets').map(formatReference).join(', ')}`);
+  }
+  if (syntax.redefines && readList(spec, 'redefines').length > 0) {
+    clauses.push(`:>> ${readList(spec, 'redefines').map(formatReference).join(', ')}`);
+  }
+
+  if (syntax.value && typeof spec[syntax.value] === 'string') {
+    clauses.push(`= ${formatExpression(spec[syntax.value] as string)}`);
+  }
+
+  if (syntax.annotation) {
+    const about = spec[syntax.annotation.about];
+    if (typeof about === 'string') {
+      clauses.push(`about ${formatReference(about)}`);
+    }
+    const locale = syntax.annotation.locale ? spec[syntax.annotation.locale] : undefined;
+    if (typeof locale === 'string') {
+      clauses.push(`locale ${formatString(locale)}`);
+    }
+  }
+
+  // Transition usages the parser reported as missing an end keep the ends they have
+  if (syntax.transition && typeof spec.source === 'string') {
+    const target = typeof spec.target === 'string' ? ` then ${formatReference(spec.target)}` : '';
+    clauses.push(`first ${formatReference(spec.source)}${serializeTransitionClauses(spec)}${target}`);
+  }
+
+  return clauses;
+}
+
+function serializeTransitionClauses(spec: { trigger?: unknown; guard?: unknown; effect?: unknown }): string {
+  const keywords = { trigger: 'accept', guard: 'if', effect: 'do' };
+  return (Object.keys(keywords) as (keyof typeof keywords)[])
+    .filter((field) => typeof spec[field] === 'string')
+    .map((field) => ` ${keywords[field]} ${formatExpression(spec[field] as string, transitionStopWords[field])}`)
+    .join('');
+}
+
+function serializeBody(state: SerializerState, syntax: SysMLNodeSyntax, spec: SpecRecord, scope: string[]): string[] {
+  const lines: string[] = [];
+
+  const docField = syntax.docField === undefined ? 'description' : syntax.docField;
+  if (docField && typeof spec[docField] === 'string') {
+    lines.push(...textStatement('doc', spec[docField] as string));
+  }
+  if (syntax.commentField && typeof spec[syntax.commentField] === 'string') {
+    lines.push(...textStatement('comment', spec[syntax.commentField] as string));
+  }
+
+  (syntax.statements ?? []).forEach((statement) => {
+    if (syntax.container && statement.field === 'members') {
+      lines.push(...serializeMembers(state, spec, scope, statement));
+      return;
+    }
+    lines.push(...serializeStatement(statement, spec[statement.field]));
+  });
+
+  return lines;
+}
+
+function serializeMembers(
+  state: SerializerState,
+  spec: SpecRecord,
+  scope: string[],
+  statement: SysMLStatementSyntax
+): string[] {
+  const blocks = readList(spec, statement.field).map((memberId) => {
+    const member = state.nodesById.get(memberId);
+    return member && state.owners.get(memberId) === spec.id
+      ? serializeNode(state, member, scope)
+      : [`${statement.keyword} ${formatExpression(memberId)};`];
+  });
+  return blocks.length > 0 ? joinBlocks(blocks).split('\n') : [];
+}
+
+function serializeStatement(statement: SysMLStatementSyntax, value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  switch (statement.form) {
+    case 'scalar':
+      return [`${statement.keyword} ${formatExpression(String(value))};`];
+    case 'list':
+      return (value as string[]).map((entry) => `${statement.keyword} ${formatExpression(entry)};`);
+    case 'constraint':
+      return (value as string[]).map((expression) =>
+        isVerbatim(expression, [])
+          ? `${statement.keyword} constraint { ${expression} }`
+          : `${statement.keyword} ${formatString(expression)};`
+      );
+    case 'property':
+      return (value as SysMLPropertySpec[]).map((property) => `${statement.keyword} ${serializeProperty(property)};`);
+    case 'port':
+      return (value as SysMLPortSpec[]).map(serializePort);
+    case 'state':
+      return (value as SysMLStateSpec[]).map(serializeStateEntry);
+    case 'operand':
+      return (value as SysMLFragmentOperandSpec[]).map(serializeOperand);
+    case 'record':
+      return Object.entries(value as Record<string, string>).map(
+        ([key, entry]) => `${formatName(key)} = ${formatExpression(entry)};`
+      );
+    default: {
+      const _exhaustive: never = statement.form;
+      throw new Error(`Unhandled statement form ${String(_exhaustive)}`);
+    }
+  }
+}
+
+function serializeProperty(property: SysMLPropertySpec): string {
+  let text = formatName(property.name);
+  if (property.type !== undefined) {
+    text += ` : ${formatType(property.type)}`;
+  }
+  if (property.multiplicity !== undefined) {
+    text += ` [${property.multiplicity}]`;
+  }
+  if (property.value !== undefined) {
+    text += ` = ${formatExpression(property.value)}`;
+  }
+  return text;
+}
+
+function serializePort(port: SysMLPortSpec): string {
+  const direction = port.direction ? `${port.direction} ` : '';
+  const type = port.type !== undefined ? ` : ${formatType(port.type)}` : '';
+  return `${direction}port ${formatName(port.name)}${type};`;
+}
+
+function serializeStateEntry(entry: SysMLStateSpec): string {
+  const shortId = entry.id !== entry.name ? ` <${quoteName(entry.id)}>` : '';
+  const actions = (
+    [
+      ['entry', entry.entryAction],
+      ['do', entry.doActivity],
+      ['exit', entry.exitAction],
+      ['status', entry.status]
+    ] as const
+  )
+    .filter(([, action]) => action !== undefined)
+    .map(([keyword, action]) => `${keyword} ${formatExpression(action as string)};`);
+  const head = `state${shortId} ${formatName(entry.name)}`;
+  return actions.length > 0 ? `${head} { ${actions.join(' ')} }` : `${head};`;
+}
+
+function serializeOperand(operand: SysMLFragmentOperandSpec): string {
+  const guard = operand.guard !== undefined ? ` [${formatExpression(operand.guard)}]` : '';
+  const messages = operand.messages.map((message) => `message ${formatName(message)};`);
+  return messages.length > 0 ? `operand${guard} { ${messages.join(' ')} }` : `operand${guard} { }`;
+}
+
+// Relationships
+
+function serializeRelationship(relationship: SysMLRelationshipSpec): string[] {
+  const { id, type, label, rationale } = relationship;
+  const source = formatReference(relationship.source);
+  const target = formatReference(relationship.target);
+  const explicitId = id !== defaultRelationshipId(type, relationship.source, relationship.target);
+  const decoration = `${explicitId ? ` <${quoteName(id)}>` : ''}${label !== undefined ? ` ${formatString(label)}` : ''}`;
+  const clauses = serializeTransitionClauses(relationship);
+
+  let text: string;
+  if (type === 'succession' && decoration === '') {
+    text = `first ${source}${clauses} then ${target}`;
+  } else if (type === 'binding-connector' && decoration === '' && clauses === '') {
+    text = `bind ${source} = ${target}`;
+  } else if (type === 'transition') {
+    text = `transition${decoration} first ${source}${clauses} then ${target}`;
+  } else if ((type === 'satisfy' || type === 'verify') && clauses === '') {
+    text = `${type}${decoration} ${target} by ${source}`;
+  } else if (type === 'allocate' && clauses === '') {
+    text = `allocate${decoration} ${source} to ${target}`;
+  } else {
+    text = `${type}${decoration} from ${source} to ${target}${clauses}`;
+  }
+
+  if (rationale === undefined) {
+    return [`${text};`];
+  }
+  const doc = textStatement('doc', rationale);
+  return doc.length === 1 ? [`${text} { ${doc[0]} }`] : [`${text} {`, ...indent(doc), '}'];
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import { createStateTransitionEdge, createStateUsageNode } from './factories';
+import {
+  attachSimulation,
+  createStateMachineSimulation,
+  getAvailableEvents,
+  getStateMachineDefinition,
+  queueSimulationEvent,
+  resetSimulation,
+  runSimulation,
+  sendSimulationEvent,
+  stepSimulation,
+  type SysMLStateMachineDefinition
+} from './simulation';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    {
+      kind: 'state-machine',
+      spec: {
+        id: 'controller',
+        name: 'Controller',
+        states: [{ id: 'off', name: 'Off', exitAction: 'boots := boots + 1' }]
+      }
+    },
+    { kind: 'pseudo-state', spec: { id: 'start', name: 'start', pseudoType: 'initial' } },
+    {
+      kind: 'state-usage',
+      spec: { id: 'on', name: 'On', entryAction: 'lamp := true', exitAction: 'lamp := false', substates: ['idle', 'busy', 'resume'] }
+    },
+    { kind: 'state-usage', spec: { id: 'idle', name: 'Idle' } },
+    { kind: 'state-usage', spec: { id: 'busy', name: 'Busy', doAction: 'process' } },
+    { kind: 'pseudo-state', spec: { id: 'resume', name: 'resume', pseudoType: 'shallow-history' } },
+    { kind: 'state-usage', spec: { id: 'elsewhere', name: 'Elsewhere' } }
+  ],
+  relationships: [
+    { id: 't0', type: 'transition', source: 'start', target: 'off' },
+    { id: 't1', type: 'transition', source: 'off', target: 'on', trigger: 'powerOn' },
+    { id: 't2', type: 'transition', source: 'idle', target: 'busy', trigger: 'job(size)', guard: '[boots < 3]', effect: 'jobs := jobs + 1' },
+    { id: 't3', type: 'transition', source: 'on', target: 'off', trigger: 'powerOff' },
+    { id: 't4', type: 'transition', source: 'off', target: 'resume', trigger: 'wake' },
+    { id: 't5', type: 'transition', source: 'busy', target: 'idle', trigger: 'powerOff', guard: 'jobs > 1' }
+  ]
+};
+
+const start = (variables = {}) =>
+  createStateMachineSimulation(getStateMachineDefinition(model), {
+    variables: { boots: 0, jobs: 0, lamp: false, ...variables }
+  });
+
+describe('State Machine Simulation', () => {
+  it('should collect states with their owners and transitions between them', () => {
+    const { states, transitions } = getStateMachineDefinition(model);
+
+    expect(states.find((state) => state.id === 'busy')).toEqual({ id: 'busy', name: 'Busy', parent: 'on', doActivity: 'process' });
+    expect(states.find((state) => state.id === 'resume')).toEqual({
+      id: 'resume',
+      name: 'resume',
+      parent: 'on',
+      pseudoType: 'shallow-history'
+    });
+    expect(transitions.map((transition) => transition.id)).toEqual(['t0', 't1', 't2', 't3', 't4', 't5']);
+    expect(getStateMachineDefinition(model, 'controller').states.map((state) => state.id)).toEqual(['off']);
+  });
+
+  it('should start in the initial state', () => {
+    const simulation = start();
+
+    expect(simulation.active).toEqual(['off']);
+    expect(simulation.fired).toEqual(['t0']);
+    expect(getAvailableEvents(simulation)).toEqual(['powerOn', 'wake']);
+  });
+
+  it('should fire triggered transitions with guards, effects and entry/exit actions', () => {
+    let simulation = sendSimulationEvent(start(), 'powerOn');
+    expect(simulation.active).toEqual(['on', 'idle']);
+    expect(simulation.variables).toEqual({ boots: 1, jobs: 0, lamp: true });
+
+    simulation = sendSimulationEvent(simulation, 'job(42)');
+    expect(simulation.active).toEqual(['on', 'busy']);
+    expect(simulation.variables.jobs).toBe(1);
+    expect(simulation.trace.filter((entry) => entry.step === 2)).toEqual([
+      { step: 2, type: 'event', element: 'job(42)' },
+      { step: 2, type: 'exit', element: 'idle' },
+      { step: 2, type: 'transition', element: 't2' },
+      { step: 2, type: 'effect', element: 't2', detail: 'jobs := jobs + 1' },
+      { step: 2, type: 'entry', element: 'busy' },
+      { step: 2, type: 'do', element: 'busy', detail: 'process' }
+    ]);
+  });
+
+  it('should prefer transitions from inner states over their owners', () => {
+    let simulation = sendSimulationEvent(sendSimulationEvent(start({ jobs: 1 }), 'powerOn'), 'job');
+    simulation = sendSimulationEvent(simulation, 'powerOff');
+
+    expect(simulation.fired).toEqual(['t5']);
+    expect(simulation.active).toEqual(['on', 'idle']);
+
+    simulation = sendSimulationEvent(simulation, 'powerOff');
+    expect(simulation.fired).toEqual(['t3']);
+    expect(simulation.active).toEqual(['off']);
+    expect(simulation.variables.lamp).toBe(false);
+  });
+
+  it('should record unhandled events and treat failing guards as false', () => {
+    let simulation = sendSimulationEvent(start(), 'job');
+    expect(simulation.trace[simulation.trace.length - 1]).toEqual({ step: 1, type: 'unhandled', element: 'job' });
+
+    simulation = createStateMachineSimulation(simulation.definition);
+    simulation = sendSimulationEvent(sendSimulationEvent(simulation, 'powerOn'), 'job');
+    expect(simulation.active).toEqual(['on', 'idle']);
+    expect(simulation.trace).toContainEqual({ step: 2, type: 'error', element: 't2', detail: "Unknown variable 'boots'" });
+  });
+
+  it('should restore the last active substate through history', () => {
+    expect(sendSimulationEvent(start(), 'wake').active).toEqual(['on', 'idle']);
+
+    let simulation = start();
+    ['powerOn', 'job', 'powerOff'].forEach((event) => {
+      simulation = sendSimulationEvent(simulation, event);
+    });
+    expect(simulation.history.on).toEqual({ shallow: 'busy', deep: ['busy'] });
+
+    simulation = sendSimulationEvent(simulation, 'wake');
+    expect(simulation.active).toEqual(['on', 'busy']);
+  });
+
+  it('should queue events and process them one step at a time', () => {
+    let simulation = queueSimulationEvent(queueSimulationEvent(start(), 'powerOn'), 'job');
+    expect(simulation.queue).toEqual(['powerOn', 'job']);
+
+    simulation = stepSimulation(simulation);
+    expect([simulation.step, simulation.active, simulation.queue]).toEqual([1, ['on', 'idle'], ['job']]);
+
+    simulation = runSimulation(simulation);
+    expect([simulation.step, simulation.active, simulation.queue]).toEqual([2, ['on', 'busy'], []]);
+    expect(stepSimulation(simulation)).toBe(simulation);
+
+    expect(resetSimulation(simulation)).toEqual(start());
+  });
+
+  it('should enter every region of a parallel state and fork and join them', () => {
+    const definition: SysMLStateMachineDefinition = {
+      states: [
+        { id: 'init', name: 'init', pseudoType: 'initial' },
+        { id: 'ready', name: 'Ready' },
+        { id: 'split', name: 'split', pseudoType: 'fork' },
+        { id: 'driving', name: 'Driving', isParallel: true },
+        { id: 'lights', name: 'Lights', parent: 'driving' },
+        { id: 'dim', name: 'Dim', parent: 'lights' },
+        { id: 'bright', name: 'Bright', parent: 'lights' },
+        { id: 'motion', name: 'Motion', parent: 'driving' },
+        { id: 'slow', name: 'Slow', parent: 'motion' },
+        { id: 'fast', name: 'Fast', parent: 'motion' },
+        { id: 'merge', name: 'merge', pseudoType: 'join' },
+        { id: 'parked', name: 'Parked' }
+      ],
+      transitions: [
+        { id: 'i', source: 'init', target: 'ready' },
+        { id: 'go', source: 'ready', target: 'split', trigger: 'go' },
+        { id: 'f1', source: 'split', target: 'bright' },
+        { id: 'f2', source: 'split', target: 'fast' },
+        { id: 'j1', source: 'dim', target: 'merge', trigger: 'park' },
+        { id: 'j2', source: 'slow', target: 'merge', trigger: 'park' },
+        { id: 'out', source: 'merge', target: 'parked' },
+        { id: 'calm', source: 'fast', target: 'slow', trigger: 'brake' },
+        { id: 'dip', source: 'bright', target: 'dim', trigger: 'dip' }
+      ]
+    };
+    let simulation = sendSimulationEvent(createStateMachineSimulation(definition), 'go');
+    expect(simulation.active).toEqual(['driving', 'lights', 'motion', 'bright', 'fast']);
+    expect(simulation.fired).toEqual(['go', 'f1', 'f2']);
+
+    // The join waits for both regions
+    simulation = sendSimulationEvent(sendSimulationEvent(simulation, 'brake'), 'park');
+    expect(simulation.active).toEqual(['driving', 'lights', 'motion', 'bright', 'slow']);
+
+    simulation = sendSimulationEvent(sendSimulationEvent(simulation, 'dip'), 'park');
+    expect(simulation.active).toEqual(['parked']);
+    expect(simulation.fired).toEqual(['j1', 'j2', 'out']);
+  });
+
+  it('should branch at choices and complete at final states', () => {
+    const definition: SysMLStateMachineDefinition = {
+      states: [
+        { id: 'checking', name: 'Checking' },
+        { id: 'which', name: 'which', pseudoType: 'choice' },
+        { id: 'charging', name: 'Charging', entryAction: 'charge := 100' },
+        { id: 'done', name: 'done', pseudoType: 'final' }
+      ],
+      transitions: [
+        { id: 'check', source: 'checking', target: 'which', trigger: 'plug' },
+        { id: 'low', source: 'which', target: 'charging', guard: 'charge < 20' },
+        { id: 'else', source: 'which', target: 'done', guard: 'else' },
+        { id: 'full', source: 'charging', target: 'done' }
+      ]
+    };
+
+    const charged = sendSimulationEvent(createStateMachineSimulation(definition, { variables: { charge: 10 } }), 'plug');
+    expect(charged.fired).toEqual(['check', 'low', 'full']);
+    expect([charged.active, charged.variables.charge, charged.completed]).toEqual([['done'], 100, true]);
+
+    const skipped = sendSimulationEvent(createStateMachineSimulation(definition, { variables: { charge: 50 } }), 'plug');
+    expect(skipped.fired).toEqual(['check', 'else']);
+  });
+
+  it('should stop completion transitions that never settle', () => {
+    const simulation = createStateMachineSimulation(
+      {
+        states: [
+          { id: 'a', name: 'A' },
+          { id: 'b', name: 'B' }
+        ],
+        transitions: [
+          { id: 'ab', source: 'a', target: 'b' },
+          { id: 'ba', source: 'b', target: 'a' }
+        ]
+      },
+      { maxCompletionSteps: 5 }
+    );
+
+    expect(simulation.fired).toHaveLength(5);
+    expect(simulation.trace[simulation.trace.length - 1]).toMatchObject({ type: 'error', element: 'completion' });
+  });
+
+  it('should mark active states and fired transitions', () => {
+    const simulation = sendSimulationEvent(start(), 'powerOn');
+    const { nodes, edges } = attachSimulation(
+      [createStateUsageNode({ id: 'on', name: 'On' }), createStateUsageNode({ id: 'busy', name: 'Busy' })],
+      [
+        createStateTransitionEdge({ id: 't1', source: 'off', target: 'on' }),
+        createStateTransitionEdge({ id: 't3', source: 'on', target: 'off' })
+      ],
+      simulation
+    );
+
+    expect(nodes.map((node) => node.data.active)).toEqual([true, undefined]);
+    expect(edges.map((edge) => edge.data?.fired)).toEqual([true, undefined]);
+  });
+});
@@ -0,0 +1,576 @@
+import { getContainment } from './containment';
+import { evaluateExpression, SysMLExpressionError, type SysMLVariables } from './expressions';
+import type {
+  SysMLEdgeData,
+  SysMLPseudoStateType,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode,
+  SysMLStateTransitionSpec
+} from './types';
+import type { SysMLModel } from './viewpoints';
+
+/** A state or pseudostate of a simulated state machine. */
+export interface SysMLSimulationState {
+  id: string;
+  name: string;
+  /** Composite state owning this one; top-level states have none. */
+  parent?: string;
+  /** Substates are orthogonal regions, entered and active together. */
+  isParallel?: boolean;
+  pseudoType?: SysMLPseudoStateType;
+  entryAction?: string;
+  doActivity?: string;
+  exitAction?: string;
+}
+
+export interface SysMLStateMachineDefinition {
+  states: SysMLSimulationState[];
+  transitions: SysMLStateTransitionSpec[];
+}
+
+export interface SysMLSimulationOptions {
+  /** Variables that guards and actions read and assign. */
+  variables?: SysMLVariables;
+  /** Completion transitions fired in a row before the step is abandoned (default 100). */
+  maxCompletionSteps?: number;
+}
+
+export interface SysMLSimulationTraceEntry {
+  /** Number of the event that caused the entry; 0 while starting. */
+  step: number;
+  type: 'event' | 'exit' | 'transition' | 'effect' | 'entry' | 'do' | 'unhandled' | 'error';
+  /** Event name, or id of the state or transition. */
+  element: string;
+  /** Executed action or error message. */
+  detail?: string;
+}
+
+export interface SysMLStateMachineSimulation {
+  definition: SysMLStateMachineDefinition;
+  options: SysMLSimulationOptions;
+  /** Active states with their active ancestors, in entry order. */
+  active: string[];
+  variables: SysMLVariables;
+  /** Events waiting to be processed, oldest first. */
+  queue: string[];
+  /** Transitions fired by the last step. */
+  fired: string[];
+  trace: SysMLSimulationTraceEntry[];
+  /** Number of processed events. */
+  step: number;
+  /** Active substates of exited composite states, restored by history pseudostates. */
+  history: Record<string, { shallow: string; deep: string[] }>;
+  /** A top-level final state is active. */
+  completed: boolean;
+}
+
+/** Color of active states and fired transitions in a diagram. */
+export const simulationHighlightColor = '#42be65';
+
+/**
+ * States, pseudostates and transitions of a model, optionally only those
+ * owned (directly or through substates) by the given state machine. State
+ * machine states, state usages, state definitions and simple states become
+ * states; `transition` relationships and transition usages become transitions.
+ */
+export const getStateMachineDefinition = (model: SysMLModel, stateMachineId?: string): SysMLStateMachineDefinition => {
+  const candidates: SysMLSimulationState[] = [];
+  const add = (state: SysMLSimulationState) => {
+    if (!candidates.some((candidate) => candidate.id === state.id)) {
+      candidates.push(state);
+    }
+  };
+  model.nodes.forEach((node) => {
+    switch (node.kind) {
+      case 'state':
+        add(node.spec);
+        break;
+      case 'state-definition':
+        add({ id: node.spec.id, name: node.spec.name, isParallel: node.spec.isParallel });
+        break;
+      case 'state-usage': {
+        const { id, name, isParallel, entryAction, doAction, exitAction } = node.spec;
+        add({ id, name, isParallel, entryAction, doActivity: doAction, exitAction });
+        break;
+      }
+      case 'pseudo-state':
+        add({ id: node.spec.id, name: node.spec.name, pseudoType: node.spec.pseudoType });
+        break;
+    }
+  });
+  // Inline states of a state machine come after elements declared on their own
+  model.nodes.forEach((node) => {
+    if (node.kind === 'state-machine') {
+      node.spec.states.forEach(add);
+    }
+  });
+
+  const containment = getContainment(model);
+  const ids = new Set(candidates.map((state) => state.id));
+  const isOwnedByMachine = (id: string) => {
+    for (let current = containment[id]; current !== undefined; current = containment[current]) {
+      if (current === stateMachineId) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const states = candidates
+    .filter((state) => stateMachineId === undefined || isOwnedByMachine(state.id))
+    .map(({ id, name, isParallel, pseudoType, entryAction, doActivity, exitAction }) => {
+      const owner = containment[id];
+      const state: SysMLSimulationState = { id, name };
+      if (owner !== undefined && ids.has(owner)) {
+        state.parent = owner;
+      }
+      Object.assign(
+        state,
+        Object.fromEntries(
+          Object.entries({ isParallel, pseudoType, entryAction, doActivity, exitAction }).filter(
+            ([, value]) => value !== undefined
+          )
+        )
+      );
+      return state;
+    });
+  const stateIds = new Set(states.map((state) => state.id));
+
+  const transitions: SysMLStateTransitionSpec[] = [
+    ...model.relationships
+      .filter((relationship) => relationship.type === 'transition')
+      .map(({ id, source, target, trigger, guard, effect }) => ({ id, source, target, trigger, guard, effect })),
+    ...model.nodes.flatMap((node) =>
+      node.kind === 'transition-usage'
+        ? [
+            {
+              id: node.spec.id,
+              source: node.spec.source,
+              target: node.spec.target,
+              trigger: node.spec.trigger,
+              guard: node.spec.guard,
+              effect: node.spec.effect
+            }
+          ]
+        : []
+    )
+  ].filter((transition) => stateIds.has(transition.source) && stateIds.has(transition.target));
+
+  return { states, transitions };
+};
+
+// Event name without arguments: `timeout(10s)` is triggered by `timeout`
+const eventName = (event: string) => event.replace(/\(.*$/s, '').trim();
+
+const assignmentPattern = /^(?:assign\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*:=\s*(.+)$/s;
+
+/** Working state of one step; the simulation itself is never mutated. */
+const createStep = (
+  definition: SysMLStateMachineDefinition,
+  simulation: Pick<SysMLStateMachineSimulation, 'active' | 'variables' | 'history'>,
+  stepNumber: number
+) => {
+  const states = new Map(definition.states.map((state) => [state.id, state]));
+  const children = new Map<string | undefined, SysMLSimulationState[]>();
+  definition.states.forEach((state) => {
+    const parent = state.parent !== undefined && states.has(state.parent) ? state.parent : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), state]);
+  });
+  const active = [...simulation.active];
+  const variables = { ...simulation.variables };
+  const history = { ...simulation.history };
+  const trace: SysMLSimulationTraceEntry[] = [];
+  const fired: string[] = [];
+
+  const record = (type: SysMLSimulationTraceEntry['type'], element: string, detail?: string) => {
+    trace.push(detail === undefined ? { step: stepNumber, type, element } : { step: stepNumber, type, element, detail });
+  };
+
+  const parentOf = (id: string) => {
+    const parent = states.get(id)?.parent;
+    return parent !== undefined && states.has(parent) ? parent : undefined;
+  };
+  const ancestors = (id: string): string[] => {
+    const result: string[] = [];
+    for (let current = parentOf(id); current !== undefined; current = parentOf(current)) {
+      result.push(current);
+    }
+    return result;
+  };
+  const isDescendant = (id: string, ancestor: string) => ancestors(id).includes(ancestor);
+  const isActive = (id: string) => active.includes(id);
+  const substates = (id: string | undefined) =>
+    (children.get(id) ?? []).filter((state) => state.pseudoType === undefined);
+  const pseudostate = (parent: string | undefined, type: SysMLPseudoStateType) =>
+    (children.get(parent) ?? []).find((state) => state.pseudoType === type);
+  const outgoing = (id: string) => definition.transitions.filter((transition) => transition.source === id);
+  const incoming = (id: string) => definition.transitions.filter((transition) => transition.target === id);
+
+  /** Innermost state containing all the given vertices, or undefined for the top level. */
+  const commonAncestor = ([first, ...rest]: string[]) =>
+    ancestors(first).find((candidate) => rest.every((id) => isDescendant(id, candidate)));
+
+  /** Evaluate a guard; errors are traced and count as false. */
+  const guardHolds = (transition: SysMLStateTransitionSpec) => {
+    const guard = transition.guard?.trim().replace(/^\[(.*)\]$/s, '$1').trim();
+    if (!guard) {
+      return true;
+    }
+    try {
+      const value = evaluateExpression(guard, variables);
+      if (typeof value !== 'boolean') {
+        throw new SysMLExpressionError(`Guard '${guard}' is not a boolean`);
+      }
+      return value;
+    } catch (error) {
+      record('error', transition.id, (error as Error).message);
+      return false;
+    }
+  };
+
+  /**
+   * Trace an action and apply its assignments (`count := count + 1`). Entries
+   * and exits are traced even without an action.
+   */
+  const execute = (type: 'entry' | 'exit' | 'effect' | 'do', element: string, action?: string) => {
+    if (action || type === 'entry' || type === 'exit') {
+      record(type, element, action || undefined);
+    }
+    if (!action || type === 'do') {
+      return;
+    }
+    action.split(';').forEach((statement) => {
+      const assignment = assignmentPattern.exec(statement.trim());
+      if (!assignment) {
+        return;
+      }
+      try {
+        variables[assignment[1]] = evaluateExpression(assignment[2], variables);
+      } catch (error) {
+        record('error', element, (error as Error).message);
+      }
+    });
+  };
+
+  const activate = (id: string) => {
+    const state = states.get(id);
+    if (!state || isActive(id)) {
+      return;
+    }
+    active.push(id);
+    execute('entry', id, state.entryAction);
+    execute('do', id, state.doActivity);
+  };
+
+  /** Exit a state and its active substates, innermost first, remembering them for history. */
+  const exit = (id: string) => {
+    if (!isActive(id)) {
+      return;
+    }
+    const descendants = active.filter((other) => isDescendant(other, id));
+    [...descendants, id]
+      .filter((composite) => substates(composite).length > 0)
+      .forEach((composite) => {
+        const inside = active.filter((other) => isDescendant(other, composite));
+        const shallow = inside.find((other) => parentOf(other) === composite);
+        if (shallow !== undefined) {
+          const deep = inside.filter((other) => !inside.some((inner) => parentOf(inner) === other));
+          history[composite] = { shallow, deep };
+        }
+      });
+    [...descendants.reverse(), id].forEach((state) => {
+      execute('exit', state, states.get(state)?.exitAction);
+      active.splice(active.indexOf(state), 1);
+    });
+  };
+
+  /** Enter the initial substate of a composite state, or every region of a parallel one. */
+  const enterDefault = (parent: string | undefined) => {
+    if (parent !== undefined && states.get(parent)?.isParallel) {
+      substates(parent).forEach((region) => enter(region.id));
+      return;
+    }
+    const initial = pseudostate(parent, 'initial') ?? substates(parent)[0];
+    if (initial) {
+      enter(initial.id);
+    }
+  };
+
+  /**
+   * Enter the targets and the inactive states between them and `scope`.
+   * Regions of parallel states that no target lies in are entered by default.
+   */
+  const enterAll = (targets: string[], scope: string | undefined) => {
+    const path = new Set(
+      targets.flatMap((target) => [
+        ...ancestors(target).filter((id) => scope === undefined || isDescendant(id, scope)),
+        target
+      ])
+    );
+    [...path]
+      .sort((a, b) => ancestors(a).length - ancestors(b).length)
+      .forEach((id) => {
+        if (targets.includes(id)) {
+          enter(id);
+          return;
+        }
+        activate(id);
+        if (states.get(id)?.isParallel) {
+          substates(id)
+            .filter((region) => !path.has(region.id) && !isActive(region.id))
+            .forEach((region) => enter(region.id));
+        }
+      });
+  };
+
+  /** Enter a vertex: activate a state with its default substates, or act on a pseudostate. */
+  const enter = (id: string): void => {
+    const state = states.get(id);
+    if (!state) {
+      return;
+    }
+    switch (state.pseudoType) {
+      case undefined:
+        activate(id);
+        enterDefault(id);
+        return;
+      case 'final':
+        activate(id);
+        return;
+      case 'shallow-history':
+      case 'deep-history': {
+        const parent = parentOf(id);
+        const remembered = parent === undefined ? undefined : history[parent];
+        if (remembered) {
+          enterAll(state.pseudoType === 'deep-history' ? remembered.deep : [remembered.shallow], parent);
+          return;
+        }
+        const fallback = outgoing(id).find(guardHolds);
+        if (fallback) {
+          fire(fallback);
+        } else {
+          enterDefault(parent);
+        }
+        return;
+      }
+      case 'fork': {
+        const branches = outgoing(id);
+        branches.forEach((branch) => {
+          fired.push(branch.id);
+          record('transition', branch.id);
+          execute('effect', branch.id, branch.effect);
+        });
+        const targets = branches.map((branch) => branch.target);
+        enterAll(targets, commonAncestor([id, ...targets]));
+        return;
+      }
+      default: {
+        // Initial, choice, junction and join continue along the first enabled outgoing transition
+        const isElse = (transition: SysMLStateTransitionSpec) => transition.guard?.trim() === 'else';
+        const branch =
+          outgoing(id).find((transition) => !isElse(transition) && guardHolds(transition)) ?? outgoing(id).find(isElse);
+        if (branch) {
+          fire(branch);
+        } else {
+          record('error', id, `No enabled transition leaves ${state.pseudoType} '${state.name}'`);
+        }
+      }
+    }
+  };
+
+  /** Fire a transition: exit the source up to the common ancestor, run the effect and enter the target. */
+  const fire = (transition: SysMLStateTransitionSpec) => {
+    const scope = commonAncestor([transition.source, transition.target]);
+    const left = [transition.source, ...ancestors(transition.source)].find((id) => parentOf(id) === scope);
+    if (left !== undefined) {
+      exit(left);
+    }
+    fired.push(transition.id);
+    record('transition', transition.id);
+    execute('effect', transition.id, transition.effect);
+    // A join is entered once, after all of its incoming transitions fired
+    if (states.get(transition.target)?.pseudoType !== 'join') {
+      enterAll([transition.target], scope);
+    }
+  };
+
+  const joinReady = (transition: SysMLStateTransitionSpec) =>
+    states.get(transition.target)?.pseudoType !== 'join' ||
+    incoming(transition.target).every((other) => isActive(other.source));
+
+  /** A state is complete when it is simple, or each of its regions reached a final state. */
+  const isComplete = (id: string) => {
+    const reachedFinal = (parent: string) =>
+      (children.get(parent) ?? []).some((state) => state.pseudoType === 'final' && isActive(state.id));
+    if (states.get(id)?.isParallel) {
+      return substates(id).every((region) => (children.get(region.id) ?? []).length === 0 || reachedFinal(region.id));
+    }
+    return (children.get(id) ?? []).length === 0 || reachedFinal(id);
+  };
+
+  /** Enabled transitions leaving the active states, innermost sources first. */
+  const enabled = (matches: (transition: SysMLStateTransitionSpec) => boolean) =>
+    [...active]
+      .sort((a, b) => ancestors(b).length - ancestors(a).length)
+      .flatMap((id) =>
+        outgoing(id).filter((transition) => matches(transition) && joinReady(transition) && guardHolds(transition))
+      );
+
+  /** Fire transitions in order; one leaving an enclosing state yields to a substate that already fired. */
+  const fireAll = (transitions: SysMLStateTransitionSpec[]) => {
+    const firedSources: string[] = [];
+    transitions.forEach((transition) => {
+      const blocked = firedSources.some(
+        (source) => source === transition.source || isDescendant(source, transition.source)
+      );
+      if (blocked || !isActive(transition.source)) {
+        return;
+      }
+      firedSources.push(transition.source);
+      if (states.get(transition.target)?.pseudoType === 'join') {
+        incoming(transition.target)
+          .filter((other) => isActive(other.source))
+          .forEach(fire);
+        enter(transition.target);
+      } else {
+        fire(transition);
+      }
+    });
+    return firedSources.length;
+  };
+
+  return {
+    active,
+    variables,
+    history,
+    trace,
+    fired,
+    start: () => enterDefault(undefined),
+    dispatch: (event: string) => {
+      record('event', event);
+      const name = eventName(event);
+      const count = fireAll(
+        enabled((transition) => transition.trigger !== undefined && eventName(transition.trigger) === name)
+      );
+      if (count === 0) {
+        record('unhandled', event);
+      }
+    },
+    /** Fire completion transitions (no trigger) one at a time until none is enabled. */
+    complete: (limit: number) => {
+      for (let count = 0; count < limit; count += 1) {
+        const [next] = enabled(
+          (transition) =>
+            !transition.trigger?.trim() &&
+            states.get(transition.source)?.pseudoType === undefined &&
+            isComplete(transition.source)
+        );
+        if (!next) {
+          return;
+        }
+        fireAll([next]);
+      }
+      record('error', 'completion', `Completion transitions did not settle after ${limit} steps`);
+    },
+    completed: () => active.some((id) => states.get(id)?.pseudoType === 'final' && parentOf(id) === undefined)
+  };
+};
+
+const finish = (
+  simulation: Pick<SysMLStateMachineSimulation, 'definition' | 'options' | 'queue' | 'trace' | 'step'>,
+  step: ReturnType<typeof createStep>
+): SysMLStateMachineSimulation => {
+  step.complete(simulation.options.maxCompletionSteps ?? 100);
+  return {
+    ...simulation,
+    active: step.active,
+    variables: step.variables,
+    history: step.history,
+    fired: step.fired,
+    trace: [...simulation.trace, ...step.trace],
+    completed: step.completed()
+  };
+};
+
+/**
+ * Start a simulation: enter the top-level initial state (or the first state)
+ * and fire completion transitions.
+ *
+ * @example
+ * ```typescript
+ * let simulation = createStateMachineSimulation(getStateMachineDefinition(model), { variables: { charge: 80 } });
+ * simulation = sendSimulationEvent(simulation, 'powerOn');
+ * simulation.active; // ['on', 'idle']
+ * ```
+ */
+export const createStateMachineSimulation = (
+  definition: SysMLStateMachineDefinition,
+  options: SysMLSimulationOptions = {}
+): SysMLStateMachineSimulation => {
+  const step = createStep(definition, { active: [], variables: options.variables ?? {}, history: {} }, 0);
+  step.start();
+  return finish({ definition, options, queue: [], trace: [], step: 0 }, step);
+};
+
+/** Add an event to the queue without processing it. */
+export const queueSimulationEvent = (
+  simulation: SysMLStateMachineSimulation,
+  event: string
+): SysMLStateMachineSimulation => ({ ...simulation, queue: [...simulation.queue, event] });
+
+/**
+ * Process the next queued event: fire the enabled transitions it triggers,
+ * innermost states first and one per region, then completion transitions.
+ * A no-op when the queue is empty.
+ */
+export const stepSimulation = (simulation: SysMLStateMachineSimulation): SysMLStateMachineSimulation => {
+  const [event, ...queue] = simulation.queue;
+  if (event === undefined) {
+    return simulation;
+  }
+  const step = createStep(simulation.definition, simulation, simulation.step + 1);
+  step.dispatch(event);
+  return finish({ ...simulation, queue, step: simulation.step + 1 }, step);
+};
+
+/** Queue an event and process it. Events queued earlier are processed first. */
+export const sendSimulationEvent = (simulation: SysMLStateMachineSimulation, event: string) => {
+  let next = queueSimulationEvent(simulation, event);
+  while (next.queue.length > 0) {
+    next = stepSimulation(next);
+  }
+  return next;
+};
+
+/** Process every queued event. */
+export const runSimulation = (simulation: SysMLStateMachineSimulation): SysMLStateMachineSimulation =>
+  simulation.queue.length > 0 ? runSimulation(stepSimulation(simulation)) : simulation;
+
+/** Start over from the initial state with the initial variables. */
+export const resetSimulation = (simulation: SysMLStateMachineSimulation) =>
+  createStateMachineSimulation(simulation.definition, simulation.options);
+
+/** Triggers of the transitions leaving the active states, e.g. to offer as event buttons. */
+export const getAvailableEvents = (simulation: SysMLStateMachineSimulation): string[] => [
+  ...new Set(
+    simulation.definition.transitions
+      .filter((transition) => transition.trigger?.trim() && simulation.active.includes(transition.source))
+      .map((transition) => eventName(transition.trigger as string))
+  )
+];
+
+/** Mark the active states and the transitions fired by the last step for rendering. */
+export const attachSimulation = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[],
+  simulation: SysMLStateMachineSimulation
+): { nodes: SysMLReactFlowNode[]; edges: SysMLReactFlowEdge[] } => {
+  const active = new Set(simulation.active);
+  const fired = new Set(simulation.fired);
+  return {
+    nodes: nodes.map((node) => (active.has(node.id) ? { ...node, data: { ...node.data, active: true } } : node)),
+    edges: edges.map((edge) =>
+      fired.has(edge.id) ? { ...edge, data: { ...(edge.data as SysMLEdgeData), fired: true } } : edge
+    )
+  };
+};
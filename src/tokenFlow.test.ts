@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { createActionUsageNode, createEdgesFromRelationships } from './factories';
+import {
+  activityFlowRule,
+  analyzeActivity,
+  attachTokenFlow,
+  createTokenFlowSimulation,
+  getActivityDefinition,
+  resetTokenFlow,
+  runTokenFlow,
+  sendTokenFlowSignal,
+  stepTokenFlow
+} from './tokenFlow';
+import { validateModel } from './validation';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'activity-control', spec: { id: 'start', name: 'start', controlType: 'initial' } },
+    { kind: 'action-usage', spec: { id: 'prepare', name: 'prepare' } },
+    { kind: 'activity-control', spec: { id: 'split', name: 'split', controlType: 'fork' } },
+    { kind: 'action-usage', spec: { id: 'heat', name: 'heat' } },
+    { kind: 'activity-control', spec: { id: 'check', name: 'check', controlType: 'decision' } },
+    { kind: 'action-usage', spec: { id: 'grind', name: 'grind' } },
+    { kind: 'action-usage', spec: { id: 'skip', name: 'skip' } },
+    { kind: 'activity-control', spec: { id: 'sync', name: 'sync', controlType: 'join' } },
+    { kind: 'action-usage', spec: { id: 'brew', name: 'brew' } },
+    { kind: 'activity-control', spec: { id: 'end', name: 'end', controlType: 'final' } },
+    { kind: 'action-usage', spec: { id: 'orphan', name: 'orphan' } },
+    { kind: 'part-usage', spec: { id: 'machine', name: 'machine' } }
+  ],
+  relationships: [
+    { id: 'f1', type: 'control-flow', source: 'start', target: 'prepare' },
+    { id: 'f2', type: 'succession', source: 'prepare', target: 'split' },
+    { id: 'f3', type: 'control-flow', source: 'split', target: 'heat' },
+    { id: 'f4', type: 'control-flow', source: 'split', target: 'check' },
+    { id: 'f5', type: 'control-flow', source: 'check', target: 'grind', guard: '[beans > 0]' },
+    { id: 'f6', type: 'control-flow', source: 'check', target: 'skip', guard: 'else' },
+    { id: 'f7', type: 'control-flow', source: 'heat', target: 'sync' },
+    { id: 'f8', type: 'control-flow', source: 'grind', target: 'sync' },
+    { id: 'f9', type: 'control-flow', source: 'sync', target: 'brew' },
+    { id: 'f10', type: 'control-flow', source: 'brew', target: 'end' },
+    { id: 'd1', type: 'dependency', source: 'brew', target: 'machine' }
+  ]
+};
+
+const definition = getActivityDefinition(model);
+
+describe('Activity Token Flow', () => {
+  it('should collect actions, control nodes and the flows between them', () => {
+    expect(definition.nodes.map((node) => `${node.id}:${node.type}`)).toEqual([
+      'start:initial',
+      'prepare:action',
+      'split:fork',
+      'heat:action',
+      'check:decision',
+      'grind:action',
+      'skip:action',
+      'sync:join',
+      'brew:action',
+      'end:final',
+      'orphan:action'
+    ]);
+    expect(definition.flows).toHaveLength(10);
+    expect(definition.flows[4]).toEqual({ id: 'f5', source: 'check', target: 'grind', guard: '[beans > 0]' });
+  });
+
+  it('should start with tokens on the flows leaving initial nodes', () => {
+    const simulation = createTokenFlowSimulation(definition);
+
+    expect([simulation.tokens, simulation.fired, simulation.moved]).toEqual([{ f1: 1 }, ['start'], ['f1']]);
+    expect(simulation.completed).toBe(false);
+  });
+
+  it('should split at forks, choose by guard at decisions and synchronize at joins', () => {
+    let simulation = createTokenFlowSimulation(definition, { variables: { beans: 3 } });
+    simulation = stepTokenFlow(stepTokenFlow(simulation));
+    expect([simulation.fired, simulation.tokens]).toEqual([['split'], { f3: 1, f4: 1 }]);
+
+    simulation = stepTokenFlow(simulation);
+    expect([simulation.fired, simulation.tokens]).toEqual([['heat', 'check'], { f7: 1, f5: 1 }]);
+
+    // The join waits for grind
+    simulation = stepTokenFlow(simulation);
+    expect([simulation.fired, simulation.tokens]).toEqual([['grind'], { f7: 1, f8: 1 }]);
+
+    simulation = runTokenFlow(simulation);
+    expect(simulation.trace.slice(-3).map((entry) => entry.element)).toEqual(['sync', 'brew', 'end']);
+    expect([simulation.step, simulation.completed, simulation.tokens, simulation.blocked]).toEqual([7, true, {}, []]);
+    expect(stepTokenFlow(simulation)).toBe(simulation);
+  });
+
+  it('should report a join waiting forever', () => {
+    const simulation = runTokenFlow(createTokenFlowSimulation(definition, { variables: { beans: 0 } }));
+
+    expect(simulation.trace.map((entry) => entry.element)).toContain('skip');
+    expect(simulation.completed).toBe(false);
+    expect(simulation.blocked).toEqual([{ nodeId: 'sync', missing: ['f8'] }]);
+    expect(resetTokenFlow(simulation)).toEqual(createTokenFlowSimulation(definition, { variables: { beans: 0 } }));
+  });
+
+  it('should trace failing guards and take the else branch', () => {
+    const simulation = runTokenFlow(createTokenFlowSimulation(definition));
+
+    expect(simulation.trace).toContainEqual({ step: 3, type: 'error', element: 'f5', detail: "Unknown variable 'beans'" });
+    expect(simulation.trace.map((entry) => entry.element)).toContain('skip');
+  });
+
+  it('should report a decision none of whose guards holds', () => {
+    const stuck = getActivityDefinition({
+      nodes: [
+        { kind: 'activity-control', spec: { id: 'start', name: 'start', controlType: 'initial' } },
+        { kind: 'activity-control', spec: { id: 'check', name: 'check', controlType: 'decision' } },
+        { kind: 'action-usage', spec: { id: 'grind', name: 'grind' } }
+      ],
+      relationships: [
+        { id: 'f1', type: 'control-flow', source: 'start', target: 'check' },
+        { id: 'f2', type: 'control-flow', source: 'check', target: 'grind', guard: '[beans > 0]' }
+      ]
+    });
+    const simulation = createTokenFlowSimulation(stuck, { variables: { beans: 0 } });
+
+    expect(simulation.completed).toBe(false);
+    expect(simulation.blocked).toEqual([{ nodeId: 'check', missing: [], guards: ['[beans > 0]'] }]);
+    expect(stepTokenFlow(simulation)).toBe(simulation);
+    expect(runTokenFlow(simulation)).toBe(simulation);
+  });
+
+  it('should pass a token through a merge to its first outgoing flow only', () => {
+    const merged: SysMLModel = {
+      nodes: [
+        { kind: 'activity-control', spec: { id: 'start', name: 'start', controlType: 'initial' } },
+        { kind: 'activity-control', spec: { id: 'join', name: 'join', controlType: 'merge' } },
+        { kind: 'action-usage', spec: { id: 'heat', name: 'heat' } },
+        { kind: 'action-usage', spec: { id: 'grind', name: 'grind' } }
+      ],
+      relationships: [
+        { id: 'f1', type: 'control-flow', source: 'start', target: 'join' },
+        { id: 'f2', type: 'control-flow', source: 'join', target: 'heat' },
+        { id: 'f3', type: 'control-flow', source: 'join', target: 'grind' }
+      ]
+    };
+
+    expect(stepTokenFlow(createTokenFlowSimulation(getActivityDefinition(merged))).tokens).toEqual({ f2: 1 });
+    expect(validateModel(merged, { rules: [activityFlowRule] })).toContainEqual({
+      severity: 'warning',
+      ruleId: 'sysml.activity-flow',
+      elementId: 'join',
+      message: "'join' is a merge with several outgoing flows; only f2 is taken"
+    });
+  });
+
+  it('should pass signals from send to accept actions', () => {
+    const signals = getActivityDefinition({
+      nodes: [
+        { kind: 'activity-control', spec: { id: 'start', name: 'start', controlType: 'initial' } },
+        { kind: 'send-action', spec: { id: 'notify', name: 'notify', payload: 'Alert' } },
+        { kind: 'accept-action', spec: { id: 'onAlert', name: 'onAlert', payloadType: 'Alert' } },
+        { kind: 'action-usage', spec: { id: 'react', name: 'react' } },
+        { kind: 'accept-action', spec: { id: 'onStop', name: 'Stop' } },
+        { kind: 'action-usage', spec: { id: 'halt', name: 'halt' } }
+      ],
+      relationships: [
+        { id: 'f1', type: 'control-flow', source: 'start', target: 'notify' },
+        { id: 'f2', type: 'control-flow', source: 'onAlert', target: 'react' },
+        { id: 'f3', type: 'control-flow', source: 'react', target: 'onStop' },
+        { id: 'f4', type: 'control-flow', source: 'onStop', target: 'halt' }
+      ]
+    });
+
+    let simulation = runTokenFlow(createTokenFlowSimulation(signals));
+    expect(simulation.trace.map((entry) => `${entry.type} ${entry.element}`)).toEqual([
+      'fire start',
+      'fire notify',
+      'signal Alert',
+      'fire onAlert',
+      'fire react'
+    ]);
+    expect(simulation.blocked).toEqual([{ nodeId: 'onStop', missing: [], signal: 'Stop' }]);
+
+    simulation = runTokenFlow(sendTokenFlowSignal(simulation, 'Stop'));
+    expect([simulation.fired, simulation.completed]).toEqual([['halt'], true]);
+  });
+
+  it('should find unreachable nodes and possible deadlocks across all runs', () => {
+    expect(analyzeActivity(definition)).toEqual({
+      unreachable: ['orphan'],
+      deadlocks: [{ nodeId: 'sync', missing: ['f8'] }],
+      completes: true,
+      truncated: false
+    });
+  });
+
+  it('should stop exploring at maxMarkings', () => {
+    // Every round through the fork adds a token
+    const loop = getActivityDefinition({
+      nodes: [
+        { kind: 'activity-control', spec: { id: 'start', name: 'start', controlType: 'initial' } },
+        { kind: 'activity-control', spec: { id: 'again', name: 'again', controlType: 'merge' } },
+        { kind: 'activity-control', spec: { id: 'more', name: 'more', controlType: 'fork' } }
+      ],
+      relationships: [
+        { id: 'f1', type: 'control-flow', source: 'start', target: 'again' },
+        { id: 'f2', type: 'control-flow', source: 'again', target: 'more' },
+        { id: 'f3', type: 'control-flow', source: 'more', target: 'again' },
+        { id: 'f4', type: 'control-flow', source: 'more', target: 'again' }
+      ]
+    });
+
+    expect(analyzeActivity(loop, { maxMarkings: 10 }).truncated).toBe(true);
+  });
+
+  it('should report findings as validation diagnostics', () => {
+    expect(validateModel(model, { rules: [activityFlowRule] })).toEqual([
+      {
+        severity: 'warning',
+        ruleId: 'sysml.activity-flow',
+        elementId: 'orphan',
+        message: "'orphan' is never reached from an initial node"
+      },
+      { severity: 'warning', ruleId: 'sysml.activity-flow', elementId: 'sync', message: "'sync' can wait forever for f8" }
+    ]);
+    expect(validateModel({ nodes: model.nodes.slice(1), relationships: [] }, { rules: [activityFlowRule] })).toEqual([]);
+  });
+
+  it('should mark fired nodes and waiting tokens', () => {
+    const simulation = stepTokenFlow(createTokenFlowSimulation(definition));
+    const { nodes, edges } = attachTokenFlow(
+      [createActionUsageNode({ id: 'prepare', name: 'prepare' }), createActionUsageNode({ id: 'heat', name: 'heat' })],
+      createEdgesFromRelationships(model.relationships.slice(0, 4)),
+      simulation
+    );
+
+    expect(nodes.map((node) => node.data.active)).toEqual([true, undefined]);
+    expect(edges.map((edge) => [edge.data?.tokens, edge.data?.fired])).toEqual([
+      [undefined, undefined],
+      [1, true],
+      [undefined, undefined],
+      [undefined, undefined]
+    ]);
+  });
+});
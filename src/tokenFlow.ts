@@ -0,0 +1,535 @@
+import { evaluateExpression, SysMLExpressionError, type SysMLVariables } from './expressions';
+import type { SysMLEdgeData, SysMLEdgeKind, SysMLReactFlowEdge, SysMLReactFlowNode } from './types';
+import type { SysMLValidationRule } from './validation';
+import type { SysMLModel } from './viewpoints';
+
+export type SysMLActivityNodeType =
+  | 'action'
+  | 'initial'
+  | 'final'
+  | 'fork'
+  | 'join'
+  | 'decision'
+  | 'merge'
+  | 'send'
+  | 'accept';
+
+export interface SysMLActivityNode {
+  id: string;
+  name: string;
+  type: SysMLActivityNodeType;
+  /** Signal a send action emits or an accept action waits for. */
+  signal?: string;
+}
+
+export interface SysMLActivityFlow {
+  id: string;
+  source: string;
+  target: string;
+  /** Guard of a flow leaving a decision; `else` is taken when no other guard holds. */
+  guard?: string;
+}
+
+export interface SysMLActivityDefinition {
+  nodes: SysMLActivityNode[];
+  flows: SysMLActivityFlow[];
+}
+
+export interface SysMLTokenFlowOptions {
+  /** Variables that decision guards read. */
+  variables?: SysMLVariables;
+  /** Steps `runTokenFlow` takes at most (default 100). */
+  maxSteps?: number;
+}
+
+export interface SysMLTokenFlowTraceEntry {
+  /** Step that caused the entry; 0 while starting. */
+  step: number;
+  type: 'fire' | 'signal' | 'error';
+  /** Node id, or the signal name. */
+  element: string;
+  detail?: string;
+}
+
+/** A node holding tokens that it cannot consume. */
+export interface SysMLActivityBlockage {
+  nodeId: string;
+  /** Incoming flows without a token. */
+  missing: string[];
+  /** Signal an accept action is waiting for. */
+  signal?: string;
+  /** Guards of a decision's outgoing flows when none of them holds. */
+  guards?: string[];
+}
+
+export interface SysMLTokenFlowSimulation {
+  definition: SysMLActivityDefinition;
+  options: SysMLTokenFlowOptions;
+  /** Tokens waiting on each flow, by flow id; flows without tokens are left out. */
+  tokens: Record<string, number>;
+  /** Signals sent but not yet accepted, oldest first. */
+  signals: string[];
+  variables: SysMLVariables;
+  step: number;
+  /** Nodes fired by the last step. */
+  fired: string[];
+  /** Flows that received a token in the last step. */
+  moved: string[];
+  trace: SysMLTokenFlowTraceEntry[];
+  /** A final node was reached, or no tokens are left. */
+  completed: boolean;
+  /** Nodes holding tokens when no node can fire; a deadlock unless a signal is awaited. */
+  blocked: SysMLActivityBlockage[];
+}
+
+export interface SysMLActivityAnalysisOptions {
+  /** Token distributions explored before giving up (default 1000). */
+  maxMarkings?: number;
+}
+
+export interface SysMLActivityAnalysis {
+  /** Nodes that no run starting at the initial nodes fires. */
+  unreachable: string[];
+  /** Nodes that some run leaves waiting forever, e.g. a join after exclusive decision branches. */
+  deadlocks: SysMLActivityBlockage[];
+  /** Some run reaches a final node or consumes every token. */
+  completes: boolean;
+  /** The exploration stopped at `maxMarkings`; the findings may be incomplete. */
+  truncated: boolean;
+}
+
+const flowKinds: SysMLEdgeKind[] = ['control-flow', 'succession'];
+
+/**
+ * Actions, control nodes and send/accept actions of a model with the control
+ * flows and successions between them.
+ */
+export const getActivityDefinition = (model: SysMLModel): SysMLActivityDefinition => {
+  const nodes = model.nodes.flatMap((node): SysMLActivityNode[] => {
+    switch (node.kind) {
+      case 'action-usage':
+      case 'perform-action':
+        return [{ id: node.spec.id, name: node.spec.name, type: 'action' }];
+      case 'activity-control':
+        return [{ id: node.spec.id, name: node.spec.name, type: node.spec.controlType }];
+      case 'send-action':
+        return [{ id: node.spec.id, name: node.spec.name, type: 'send', signal: node.spec.payload ?? node.spec.name }];
+      case 'accept-action':
+        return [
+          { id: node.spec.id, name: node.spec.name, type: 'accept', signal: node.spec.payloadType ?? node.spec.name }
+        ];
+      default:
+        return [];
+    }
+  });
+  const ids = new Set(nodes.map((node) => node.id));
+  const flows = model.relationships
+    .filter(
+      (relationship) =>
+        flowKinds.includes(relationship.type) && ids.has(relationship.source) && ids.has(relationship.target)
+    )
+    .map(({ id, source, target, guard }) => (guard === undefined ? { id, source, target } : { id, source, target, guard }));
+  return { nodes, flows };
+};
+
+interface Firing {
+  node: SysMLActivityNode;
+  consume: string[];
+  produce: string[];
+  /** Signal an accept action consumes. */
+  accepts?: string;
+}
+
+const isElse = (flow: SysMLActivityFlow) => flow.guard?.trim() === 'else';
+
+/**
+ * Decision branches to take with the given variables: the first flow whose
+ * guard holds, else the `else` flow. Guards that cannot be evaluated do not
+ * hold and are passed to `onError`.
+ */
+const createBranchChooser = (
+  variables: SysMLVariables,
+  onError: (flow: SysMLActivityFlow, message: string) => void = () => undefined
+) => {
+  const guardHolds = (flow: SysMLActivityFlow) => {
+    const guard = flow.guard?.trim().replace(/^\[(.*)\]$/s, '$1').trim();
+    if (!guard) {
+      return true;
+    }
+    try {
+      const value = evaluateExpression(guard, variables);
+      if (typeof value !== 'boolean') {
+        throw new SysMLExpressionError(`Guard '${guard}' is not a boolean`);
+      }
+      return value;
+    } catch (error) {
+      onError(flow, (error as Error).message);
+      return false;
+    }
+  };
+  return (flows: SysMLActivityFlow[]) => {
+    const branch = flows.find((flow) => !isElse(flow) && guardHolds(flow)) ?? flows.find(isElse);
+    return branch ? [branch] : [];
+  };
+};
+
+/** Graph of a definition with the firing rules of the token game. */
+const createTokenGame = (definition: SysMLActivityDefinition) => {
+  const incoming = new Map<string, SysMLActivityFlow[]>();
+  const outgoing = new Map<string, SysMLActivityFlow[]>();
+  definition.flows.forEach((flow) => {
+    incoming.set(flow.target, [...(incoming.get(flow.target) ?? []), flow]);
+    outgoing.set(flow.source, [...(outgoing.get(flow.source) ?? []), flow]);
+  });
+  const inputs = (id: string) => incoming.get(id) ?? [];
+  const outputs = (id: string) => outgoing.get(id) ?? [];
+
+  /**
+   * Ways a node can fire with the given tokens: none when it is not enabled,
+   * one per branch for a decision. `branches` picks the decision branches.
+   */
+  const firings = (
+    node: SysMLActivityNode,
+    tokens: Record<string, number>,
+    branches: (flows: SysMLActivityFlow[]) => SysMLActivityFlow[],
+    signals?: string[]
+  ): Firing[] => {
+    const marked = inputs(node.id).filter((flow) => (tokens[flow.id] ?? 0) > 0);
+    switch (node.type) {
+      case 'initial':
+        return [];
+      case 'merge':
+      case 'decision': {
+        if (marked.length === 0) {
+          return [];
+        }
+        const consume = [marked[0].id];
+        // A merge passes its token on to its first outgoing flow only
+        return node.type === 'merge'
+          ? [{ node, consume, produce: outputs(node.id).slice(0, 1).map((flow) => flow.id) }]
+          : branches(outputs(node.id)).map((flow) => ({ node, consume, produce: [flow.id] }));
+      }
+      default: {
+        // Actions, forks, joins and final nodes wait for a token on every incoming flow
+        if (marked.length < inputs(node.id).length) {
+          return [];
+        }
+        // Without `signals`, an accept action with its tokens is assumed to receive its signal
+        const ready =
+          node.type === 'accept' && signals ? signals.includes(node.signal ?? node.name) : marked.length > 0;
+        if (!ready) {
+          return [];
+        }
+        return [
+          {
+            node,
+            consume: marked.map((flow) => flow.id),
+            produce: node.type === 'final' ? [] : outputs(node.id).map((flow) => flow.id),
+            accepts: node.type === 'accept' ? (node.signal ?? node.name) : undefined
+          }
+        ];
+      }
+    }
+  };
+
+  /**
+   * Nodes holding tokens, with the incoming flows they still lack; decisions
+   * with the guards of their outgoing flows.
+   */
+  const blockages = (tokens: Record<string, number>): SysMLActivityBlockage[] =>
+    definition.nodes.flatMap((node): SysMLActivityBlockage[] => {
+      const flows = inputs(node.id);
+      const missing = flows.filter((flow) => !tokens[flow.id]).map((flow) => flow.id);
+      if (missing.length === flows.length) {
+        return [];
+      }
+      if (node.type === 'decision') {
+        return [{ nodeId: node.id, missing: [], guards: outputs(node.id).map((flow) => flow.guard ?? '') }];
+      }
+      return [
+        node.type === 'accept' && missing.length === 0
+          ? { nodeId: node.id, missing, signal: node.signal ?? node.name }
+          : { nodeId: node.id, missing }
+      ];
+    });
+
+  const fire = (tokens: Record<string, number>, { consume, produce }: Firing) => {
+    const next = { ...tokens };
+    consume.forEach((id) => {
+      next[id] -= 1;
+      if (next[id] === 0) {
+        delete next[id];
+      }
+    });
+    produce.forEach((id) => {
+      next[id] = (next[id] ?? 0) + 1;
+    });
+    return next;
+  };
+
+  /** Tokens after the given nodes offered one on each of their outgoing flows. */
+  const start = (entries: SysMLActivityNode[]) =>
+    entries.reduce<Record<string, number>>(
+      (tokens, node) => fire(tokens, { node, consume: [], produce: outputs(node.id).map((flow) => flow.id) }),
+      {}
+    );
+
+  return { inputs, firings, blockages, fire, start };
+};
+
+const finish = (
+  simulation: Omit<SysMLTokenFlowSimulation, 'completed' | 'blocked'>,
+  game: ReturnType<typeof createTokenGame>,
+  reachedFinal: boolean
+): SysMLTokenFlowSimulation => {
+  const tokens = reachedFinal ? {} : simulation.tokens;
+  // A decision is only enabled when one of its branches can be taken
+  const chooseBranch = createBranchChooser(simulation.variables);
+  const enabled = simulation.definition.nodes.some(
+    (node) => game.firings(node, tokens, chooseBranch, simulation.signals).length > 0
+  );
+  const completed = reachedFinal || (!enabled && Object.keys(tokens).length === 0);
+  return {
+    ...simulation,
+    tokens,
+    completed,
+    blocked: completed || enabled ? [] : game.blockages(tokens)
+  };
+};
+
+/**
+ * Start a token game: every initial node offers a token on each of its
+ * outgoing flows.
+ *
+ * @example
+ * ```typescript
+ * let simulation = createTokenFlowSimulation(getActivityDefinition(model), { variables: { charge: 80 } });
+ * simulation = runTokenFlow(simulation);
+ * simulation.blocked; // [{ nodeId: 'sync', missing: ['f4'] }] when a join waits forever
+ * ```
+ */
+export const createTokenFlowSimulation = (
+  definition: SysMLActivityDefinition,
+  options: SysMLTokenFlowOptions = {}
+): SysMLTokenFlowSimulation => {
+  const game = createTokenGame(definition);
+  const initialNodes = definition.nodes.filter((node) => node.type === 'initial');
+  const tokens = game.start(initialNodes);
+  const initial = initialNodes.map((node) => node.id);
+  return finish(
+    {
+      definition,
+      options,
+      tokens,
+      signals: [],
+      variables: { ...options.variables },
+      step: 0,
+      fired: initial,
+      moved: Object.keys(tokens),
+      trace: initial.map((id) => ({ step: 0, type: 'fire' as const, element: id }))
+    },
+    game,
+    false
+  );
+};
+
+/**
+ * Fire every node enabled at the start of the step once: actions, forks and
+ * joins consume a token from each incoming flow and offer one on each
+ * outgoing flow, merges pass one token on to their first outgoing flow,
+ * decisions take the first branch whose guard holds (else the `else`
+ * branch), send actions emit their signal and accept actions consume one.
+ * A final node ends the flow.
+ */
+export const stepTokenFlow = (simulation: SysMLTokenFlowSimulation): SysMLTokenFlowSimulation => {
+  if (simulation.completed || simulation.blocked.length > 0) {
+    return simulation;
+  }
+  const step = simulation.step + 1;
+  const game = createTokenGame(simulation.definition);
+  const trace: SysMLTokenFlowTraceEntry[] = [];
+  const chooseBranch = createBranchChooser(simulation.variables, (flow, message) =>
+    trace.push({ step, type: 'error', element: flow.id, detail: message })
+  );
+
+  const firings = simulation.definition.nodes.flatMap((node) =>
+    game.firings(node, simulation.tokens, chooseBranch, simulation.signals).slice(0, 1)
+  );
+  // A step firing nothing is no step, e.g. with tokens on flows into unknown nodes
+  if (firings.length === 0) {
+    return simulation;
+  }
+  let tokens = simulation.tokens;
+  let signals = simulation.signals;
+  firings.forEach((firing) => {
+    tokens = game.fire(tokens, firing);
+    trace.push({ step, type: 'fire', element: firing.node.id });
+    if (firing.accepts !== undefined) {
+      const index = signals.indexOf(firing.accepts);
+      signals = [...signals.slice(0, index), ...signals.slice(index + 1)];
+    }
+    if (firing.node.type === 'send') {
+      const signal = firing.node.signal ?? firing.node.name;
+      signals = [...signals, signal];
+      trace.push({ step, type: 'signal', element: signal, detail: firing.node.id });
+    }
+  });
+
+  return finish(
+    {
+      ...simulation,
+      tokens,
+      signals,
+      step,
+      fired: firings.map((firing) => firing.node.id),
+      moved: [...new Set(firings.flatMap((firing) => firing.produce))],
+      trace: [...simulation.trace, ...trace]
+    },
+    game,
+    firings.some((firing) => firing.node.type === 'final')
+  );
+};
+
+/** Step until the flow completes or blocks, at most `options.maxSteps` times. */
+export const runTokenFlow = (simulation: SysMLTokenFlowSimulation): SysMLTokenFlowSimulation => {
+  let current = simulation;
+  for (let count = 0; count < (simulation.options.maxSteps ?? 100); count += 1) {
+    const next = stepTokenFlow(current);
+    if (next === current) {
+      break;
+    }
+    current = next;
+  }
+  return current;
+};
+
+/** Send a signal from outside the activity, e.g. for an accept action waiting on it. */
+export const sendTokenFlowSignal = (simulation: SysMLTokenFlowSimulation, signal: string): SysMLTokenFlowSimulation =>
+  finish({ ...simulation, signals: [...simulation.signals, signal] }, createTokenGame(simulation.definition), false);
+
+/** Start over with the initial tokens and variables. */
+export const resetTokenFlow = (simulation: SysMLTokenFlowSimulation) =>
+  createTokenFlowSimulation(simulation.definition, simulation.options);
+
+/**
+ * Explore every run of the token game, taking each decision branch regardless
+ * of guards and assuming accept actions receive their signals, to find nodes
+ * that no run reaches and joins or actions that some run leaves waiting forever.
+ */
+export const analyzeActivity = (
+  definition: SysMLActivityDefinition,
+  { maxMarkings = 1000 }: SysMLActivityAnalysisOptions = {}
+): SysMLActivityAnalysis => {
+  const game = createTokenGame(definition);
+  const keyOf = (tokens: Record<string, number>) =>
+    Object.entries(tokens)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([id, count]) => `${id}:${count}`)
+      .join(',');
+
+  // Accept actions without incoming flows start a flow whenever their signal arrives
+  const entries = definition.nodes.filter(
+    (node) => node.type === 'initial' || (node.type === 'accept' && game.inputs(node.id).length === 0)
+  );
+  const reached = new Set(entries.map((node) => node.id));
+  const deadlocks = new Map<string, Set<string>>();
+  let completes = false;
+  const start = game.start(entries);
+  const seen = new Set([keyOf(start)]);
+  const pending = [start];
+
+  while (pending.length > 0 && seen.size <= maxMarkings) {
+    const tokens = pending.shift() as Record<string, number>;
+    const firings = definition.nodes.flatMap((node) => game.firings(node, tokens, (flows) => flows));
+    if (firings.length === 0) {
+      if (Object.keys(tokens).length === 0) {
+        completes = true;
+      }
+      game.blockages(tokens).forEach(({ nodeId, missing }) => {
+        deadlocks.set(nodeId, new Set([...(deadlocks.get(nodeId) ?? []), ...missing]));
+      });
+    }
+    firings.forEach((firing) => {
+      reached.add(firing.node.id);
+      if (firing.node.type === 'final') {
+        completes = true;
+        return;
+      }
+      const next = game.fire(tokens, firing);
+      const key = keyOf(next);
+      if (!seen.has(key)) {
+        seen.add(key);
+        pending.push(next);
+      }
+    });
+  }
+
+  return {
+    unreachable: definition.nodes.filter((node) => !reached.has(node.id)).map((node) => node.id),
+    deadlocks: definition.nodes
+      .filter((node) => deadlocks.has(node.id))
+      .map((node) => ({ nodeId: node.id, missing: [...(deadlocks.get(node.id) ?? [])] })),
+    completes,
+    truncated: pending.length > 0
+  };
+};
+
+/**
+ * Merges with more than one outgoing flow, and unreachable nodes and possible
+ * deadlocks in activities with an initial node. Not part of
+ * `sysmlValidationRules`; add it to `validateModel`'s rules.
+ */
+export const activityFlowRule: SysMLValidationRule = {
+  id: 'sysml.activity-flow',
+  name: 'Activity token flow',
+  description:
+    'Every action must be reachable from an initial node, no join may wait forever, and merges have one outgoing flow.',
+  severity: 'warning',
+  validate: ({ model }) => {
+    const definition = getActivityDefinition(model);
+    const nameOf = (id: string) => definition.nodes.find((node) => node.id === id)?.name ?? id;
+    // A merge passes its token on to one flow; a fork offers one on each
+    const forkingMerges = definition.nodes
+      .filter((node) => node.type === 'merge')
+      .flatMap((node) => {
+        const flows = definition.flows.filter((flow) => flow.source === node.id);
+        const message = `'${node.name}' is a merge with several outgoing flows; only ${flows[0]?.id} is taken`;
+        return flows.length > 1 ? [{ elementId: node.id, message }] : [];
+      });
+    if (!definition.nodes.some((node) => node.type === 'initial')) {
+      return forkingMerges;
+    }
+    const analysis = analyzeActivity(definition);
+    return [
+      ...forkingMerges,
+      ...analysis.unreachable.map((id) => ({
+        elementId: id,
+        message: `'${nameOf(id)}' is never reached from an initial node`
+      })),
+      ...analysis.deadlocks.map(({ nodeId, missing }) => ({
+        elementId: nodeId,
+        message: `'${nameOf(nodeId)}' can wait forever for ${missing.join(', ')}`
+      }))
+    ];
+  }
+};
+
+/** Mark the nodes fired by the last step and the tokens waiting on each flow for rendering. */
+export const attachTokenFlow = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[],
+  simulation: SysMLTokenFlowSimulation
+): { nodes: SysMLReactFlowNode[]; edges: SysMLReactFlowEdge[] } => {
+  const fired = new Set(simulation.fired);
+  const moved = new Set(simulation.moved);
+  return {
+    nodes: nodes.map((node) => (fired.has(node.id) ? { ...node, data: { ...node.data, active: true } } : node)),
+    edges: edges.map((edge) => {
+      const tokens = simulation.tokens[edge.id];
+      if (!tokens) {
+        return edge;
+      }
+      return { ...edge, data: { ...(edge.data as SysMLEdgeData), tokens, fired: moved.has(edge.id) } };
+    })
+  };
+};
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { buildTraceabilityMatrix, getTraceSelection } from './traceability';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'requirement-definition', spec: { id: 'REQ-1', name: 'Vehicle Mass', reqId: 'R-1' } },
+    { kind: 'requirement-usage', spec: { id: 'REQ-1.1', name: 'Chassis Mass', status: 'approved' } },
+    { kind: 'requirement-usage', spec: { id: 'REQ-1.2', name: 'Engine Mass', status: 'draft' } },
+    { kind: 'requirement-usage', spec: { id: 'REQ-2', name: 'Range', status: 'draft' } },
+    { kind: 'part-definition', spec: { id: 'chassis', name: 'Chassis' } },
+    { kind: 'part-definition', spec: { id: 'engine', name: 'Engine' } },
+    { kind: 'action-usage', spec: { id: 'drive', name: 'drive' } },
+    { kind: 'verification-case-usage', spec: { id: 'weigh', name: 'weigh' } },
+    { kind: 'analysis-case-usage', spec: { id: 'study', name: 'study' } }
+  ],
+  relationships: [
+    { id: 'r1', type: 'refine', source: 'REQ-1.1', target: 'REQ-1' },
+    { id: 'r2', type: 'refine', source: 'REQ-1.2', target: 'REQ-1' },
+    { id: 's1', type: 'satisfy', source: 'chassis', target: 'REQ-1.1' },
+    { id: 's2', type: 'satisfy', source: 'engine', target: 'REQ-1.2' },
+    { id: 'v1', type: 'verify', source: 'weigh', target: 'REQ-1' },
+    { id: 'a1', type: 'allocate', source: 'REQ-2', target: 'drive' },
+    { id: 's3', type: 'satisfy', source: 'study', target: 'REQ-2' },
+    { id: 'd1', type: 'dependency', source: 'engine', target: 'REQ-2' }
+  ]
+};
+
+describe('Traceability Matrix', () => {
+  it('should use requirements as rows and traceable elements as columns', () => {
+    const matrix = buildTraceabilityMatrix(model);
+
+    expect(matrix.rows.map((row) => row.id)).toEqual(['REQ-1', 'REQ-1.1', 'REQ-1.2', 'REQ-2']);
+    expect(matrix.columns.map((column) => column.id)).toEqual(['chassis', 'engine', 'drive', 'weigh']);
+    expect(matrix.rows[0]).toMatchObject({ reqId: 'R-1', refinedBy: ['REQ-1.1', 'REQ-1.2'] });
+    expect(matrix.rows[1].status).toBe('approved');
+  });
+
+  it('should populate cells from direct and allocation traces', () => {
+    const { cells } = buildTraceabilityMatrix(model);
+
+    expect(cells['REQ-1.1'].chassis.links).toEqual([{ kind: 'satisfy', via: [], relationshipIds: ['s1'] }]);
+    expect(cells['REQ-2'].drive.links).toEqual([{ kind: 'allocate', via: [], relationshipIds: ['a1'] }]);
+    expect(cells['REQ-2'].engine).toBeUndefined();
+  });
+
+  it('should inherit traces through refine chains', () => {
+    const { cells, rows } = buildTraceabilityMatrix({
+      nodes: [...model.nodes, { kind: 'requirement-usage', spec: { id: 'REQ-1.1.1', name: 'Frame Mass' } }],
+      relationships: [
+        ...model.relationships,
+        { id: 'r3', type: 'refine', source: 'REQ-1.1.1', target: 'REQ-1.1' },
+        { id: 's4', type: 'satisfy', source: 'engine', target: 'REQ-1.1.1' }
+      ]
+    });
+
+    expect(cells['REQ-1'].chassis.links).toEqual([{ kind: 'satisfy', via: ['REQ-1.1'], relationshipIds: ['s1', 'r1'] }]);
+    expect(cells['REQ-1'].engine.links).toEqual([
+      { kind: 'satisfy', via: ['REQ-1.1', 'REQ-1.1.1'], relationshipIds: ['s4', 'r3', 'r1'] },
+      { kind: 'satisfy', via: ['REQ-1.2'], relationshipIds: ['s2', 'r2'] }
+    ]);
+    expect(rows[0].satisfiedBy).toEqual(['chassis', 'engine']);
+  });
+
+  it('should report unsatisfied and unverified requirements', () => {
+    const { rows, gaps } = buildTraceabilityMatrix(model);
+
+    // REQ-1 is satisfied through both refinements and verified directly.
+    expect(rows[0].gaps).toEqual([]);
+    expect(rows[1].gaps).toEqual(['unverified']);
+    // Satisfied by an analysis case, which is not a column.
+    expect(rows[3].gaps).toEqual(['unverified']);
+    expect(gaps.map((gap) => [gap.requirementId, gap.kind])).toEqual([
+      ['REQ-1.1', 'unverified'],
+      ['REQ-1.2', 'unverified'],
+      ['REQ-2', 'unverified']
+    ]);
+  });
+
+  it('should not count a parent as satisfied when a refinement is not', () => {
+    const { rows } = buildTraceabilityMatrix({
+      nodes: model.nodes,
+      relationships: model.relationships.filter((relationship) => relationship.id !== 's2')
+    });
+
+    expect(rows[0].gaps).toEqual(['unsatisfied']);
+  });
+
+  it('should tolerate refine cycles', () => {
+    const { rows } = buildTraceabilityMatrix({
+      nodes: model.nodes.slice(0, 2),
+      relationships: [
+        { id: 'r1', type: 'refine', source: 'REQ-1.1', target: 'REQ-1' },
+        { id: 'r2', type: 'refine', source: 'REQ-1', target: 'REQ-1.1' }
+      ]
+    });
+
+    expect(rows.map((row) => row.gaps)).toEqual([
+      ['unsatisfied', 'unverified'],
+      ['unsatisfied', 'unverified']
+    ]);
+  });
+
+  it('should keep the traces of a refinement reached along two refine chains', () => {
+    const { cells } = buildTraceabilityMatrix({
+      nodes: model.nodes,
+      relationships: [
+        ...model.relationships,
+        { id: 'r3', type: 'refine', source: 'REQ-2', target: 'REQ-1.1' },
+        { id: 'r4', type: 'refine', source: 'REQ-2', target: 'REQ-1.2' }
+      ]
+    });
+
+    expect(cells['REQ-1'].drive.links).toEqual([
+      { kind: 'allocate', via: ['REQ-1.1', 'REQ-2'], relationshipIds: ['a1', 'r3', 'r1'] },
+      { kind: 'allocate', via: ['REQ-1.2', 'REQ-2'], relationshipIds: ['a1', 'r4', 'r2'] }
+    ]);
+  });
+
+  it('should decide a refine cycle before caching the coverage of its requirements', () => {
+    const { rows } = buildTraceabilityMatrix({
+      nodes: model.nodes,
+      relationships: [
+        ...model.relationships.filter((relationship) => relationship.id !== 's1'),
+        { id: 'r3', type: 'refine', source: 'REQ-1', target: 'REQ-1.1' },
+        { id: 'r4', type: 'refine', source: 'REQ-2', target: 'REQ-1.1' }
+      ]
+    });
+
+    // Within the cycle REQ-1.1 is satisfied through REQ-2, so both REQ-1 refinements are.
+    expect(rows[0].gaps).toEqual([]);
+    expect(rows[1].gaps).toEqual(['unverified']);
+  });
+
+  it('should collect the nodes and relationships of a trace', () => {
+    const matrix = buildTraceabilityMatrix(model);
+
+    expect(getTraceSelection(matrix, 'REQ-1', 'chassis').elementIds).toEqual(['REQ-1', 'chassis', 'REQ-1.1', 's1', 'r1']);
+    expect(getTraceSelection(matrix, 'REQ-1').elementIds).toEqual([
+      'REQ-1',
+      'weigh',
+      'v1',
+      'chassis',
+      'REQ-1.1',
+      's1',
+      'r1',
+      'engine',
+      'REQ-1.2',
+      's2',
+      'r2'
+    ]);
+  });
+});
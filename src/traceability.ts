@@ -0,0 +1,291 @@
+import type { SysMLNodeKind, SysMLNodeSpec } from './types';
+import type { SysMLModel } from './viewpoints';
+
+export type SysMLTraceKind = 'satisfy' | 'verify' | 'refine' | 'allocate';
+
+export type TraceabilityGapKind = 'unsatisfied' | 'unverified';
+
+export interface TraceabilityMatrixOptions {
+  /** Node kinds shown as columns; defaults to parts, actions and verification cases. */
+  columnKinds?: SysMLNodeKind[];
+  /** Relationship kinds that populate cells; defaults to all four trace kinds. */
+  traceKinds?: SysMLTraceKind[];
+}
+
+export interface TraceLink {
+  kind: SysMLTraceKind;
+  /**
+   * Requirements the trace is inherited through, from the one refining the row
+   * requirement down to the one the element traces to. Empty for direct traces.
+   */
+  via: string[];
+  /** The trace relationship followed by the refine relationships up to the row requirement. */
+  relationshipIds: string[];
+}
+
+export interface TraceabilityCell {
+  requirementId: string;
+  elementId: string;
+  links: TraceLink[];
+}
+
+export interface TraceabilityColumn {
+  id: string;
+  name: string;
+  kind: SysMLNodeKind;
+}
+
+export interface TraceabilityRow {
+  id: string;
+  name: string;
+  kind: 'requirement-definition' | 'requirement-usage';
+  reqId?: string;
+  status?: string;
+  /** Elements satisfying the requirement, directly or through refining requirements. */
+  satisfiedBy: string[];
+  verifiedBy: string[];
+  /** Requirements that directly refine this one. */
+  refinedBy: string[];
+  gaps: TraceabilityGapKind[];
+}
+
+export interface TraceabilityGap {
+  requirementId: string;
+  kind: TraceabilityGapKind;
+  message: string;
+}
+
+export interface TraceabilityMatrix {
+  rows: TraceabilityRow[];
+  columns: TraceabilityColumn[];
+  /** Populated cells, keyed by requirement id and then element id. */
+  cells: Record<string, Record<string, TraceabilityCell>>;
+  gaps: TraceabilityGap[];
+}
+
+/** Nodes and relationships making up a trace, ready for `SysMLDiagram`'s `highlightedElements`. */
+export interface TraceSelection {
+  requirementId: string;
+  elementId?: string;
+  elementIds: string[];
+}
+
+export const traceKinds: SysMLTraceKind[] = ['satisfy', 'verify', 'refine', 'allocate'];
+
+export const defaultTraceabilityColumnKinds: SysMLNodeKind[] = [
+  'part-definition',
+  'part-usage',
+  'action-definition',
+  'action-usage',
+  'verification-case-definition',
+  'verification-case-usage'
+];
+
+const requirementKinds: SysMLNodeKind[] = ['requirement-definition', 'requirement-usage'];
+
+interface DirectTrace {
+  elementId: string;
+  kind: SysMLTraceKind;
+  relationshipId: string;
+}
+
+interface Refinement {
+  requirementId: string;
+  relationshipId: string;
+}
+
+const push = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  const values = map.get(key);
+  if (values) {
+    values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+};
+
+const nameOf = (node: SysMLNodeSpec) => ('name' in node.spec ? node.spec.name : node.spec.id);
+
+/**
+ * Compute a requirements traceability matrix from `satisfy`, `verify`, `refine`
+ * and `allocate` relationships.
+ *
+ * A trace relationship links a requirement to the element at its other end,
+ * whichever direction it is drawn in. A `refine` between two requirements
+ * makes the source a refinement of the target: traces to the refinement also
+ * appear, as inherited links, in the target's row. A requirement without
+ * direct `satisfy` (or `verify`) traces is covered when all of its
+ * refinements are; refinements leading back round a refine cycle are left
+ * out.
+ */
+export const buildTraceabilityMatrix = (
+  model: SysMLModel,
+  options: TraceabilityMatrixOptions = {}
+): TraceabilityMatrix => {
+  const columnKinds = options.columnKinds ?? defaultTraceabilityColumnKinds;
+  const kinds = options.traceKinds ?? traceKinds;
+  const nodesById = new Map(model.nodes.map((node) => [node.spec.id, node]));
+  const isRequirement = (id: string) => {
+    const node = nodesById.get(id);
+    return Boolean(node && requirementKinds.includes(node.kind));
+  };
+
+  const directTraces = new Map<string, DirectTrace[]>();
+  const refinements = new Map<string, Refinement[]>();
+
+  model.relationships.forEach((relationship) => {
+    const kind = relationship.type as SysMLTraceKind;
+    if (!kinds.includes(kind) || !nodesById.has(relationship.source) || !nodesById.has(relationship.target)) {
+      return;
+    }
+
+    const sourceIsRequirement = isRequirement(relationship.source);
+    const targetIsRequirement = isRequirement(relationship.target);
+    if (sourceIsRequirement && targetIsRequirement) {
+      if (kind === 'refine') {
+        push(refinements, relationship.target, { requirementId: relationship.source, relationshipId: relationship.id });
+      }
+    } else if (targetIsRequirement) {
+      push(directTraces, relationship.target, { elementId: relationship.source, kind, relationshipId: relationship.id });
+    } else if (sourceIsRequirement) {
+      push(directTraces, relationship.source, { elementId: relationship.target, kind, relationshipId: relationship.id });
+    }
+  });
+
+  const collectTraces = (
+    requirementId: string,
+    via: string[],
+    refineIds: string[],
+    visited: Set<string>,
+    traces: Array<{ elementId: string; link: TraceLink }>
+  ) => {
+    (directTraces.get(requirementId) ?? []).forEach(({ elementId, kind, relationshipId }) => {
+      traces.push({ elementId, link: { kind, via, relationshipIds: [relationshipId, ...refineIds] } });
+    });
+    // Only the requirements on this path are skipped, so a refinement reached along two paths keeps both.
+    (refinements.get(requirementId) ?? []).forEach((refinement) => {
+      if (visited.has(refinement.requirementId)) {
+        return;
+      }
+      collectTraces(
+        refinement.requirementId,
+        [...via, refinement.requirementId],
+        [refinement.relationshipId, ...refineIds],
+        new Set([...visited, refinement.requirementId]),
+        traces
+      );
+    });
+  };
+
+  // Refinements leading back to a requirement on the current path are left out.
+  // A result that left one out holds only within that cycle, so it is cached
+  // once the requirement the cycle returns to has been decided.
+  const coverage = new Map<string, boolean>();
+  const isCovered = (
+    requirementId: string,
+    kind: 'satisfy' | 'verify',
+    path: Set<string>,
+    cycleEnds: Set<string> = new Set()
+  ): boolean => {
+    const key = `${kind}:${requirementId}`;
+    const known = coverage.get(key);
+    if (known !== undefined) {
+      return known;
+    }
+    if ((directTraces.get(requirementId) ?? []).some((trace) => trace.kind === kind)) {
+      coverage.set(key, true);
+      return true;
+    }
+    path.add(requirementId);
+    const ends = new Set<string>();
+    const children = (refinements.get(requirementId) ?? []).filter((child) => {
+      if (path.has(child.requirementId)) {
+        ends.add(child.requirementId);
+        return false;
+      }
+      return true;
+    });
+    const covered = children.length > 0 && children.every((child) => isCovered(child.requirementId, kind, path, ends));
+    path.delete(requirementId);
+    ends.delete(requirementId);
+    if (ends.size === 0) {
+      coverage.set(key, covered);
+    }
+    ends.forEach((id) => cycleEnds.add(id));
+    return covered;
+  };
+
+  const columns: TraceabilityColumn[] = model.nodes
+    .filter((node) => columnKinds.includes(node.kind))
+    .map((node) => ({ id: node.spec.id, name: nameOf(node), kind: node.kind }));
+  const columnIds = new Set(columns.map((column) => column.id));
+
+  const cells: TraceabilityMatrix['cells'] = {};
+  const gaps: TraceabilityGap[] = [];
+
+  const rows = model.nodes
+    .filter((node) => requirementKinds.includes(node.kind))
+    .map((node): TraceabilityRow => {
+      const id = node.spec.id;
+      const name = nameOf(node);
+      const traces: Array<{ elementId: string; link: TraceLink }> = [];
+      collectTraces(id, [], [], new Set([id]), traces);
+
+      traces.forEach(({ elementId, link }) => {
+        if (!columnIds.has(elementId)) {
+          return;
+        }
+        const row = (cells[id] ??= {});
+        const cell = (row[elementId] ??= { requirementId: id, elementId, links: [] });
+        cell.links.push(link);
+      });
+
+      const tracedBy = (kind: SysMLTraceKind) =>
+        Array.from(new Set(traces.filter(({ link }) => link.kind === kind).map(({ elementId }) => elementId)));
+
+      const rowGaps: TraceabilityGapKind[] = [];
+      if (!isCovered(id, 'satisfy', new Set())) {
+        rowGaps.push('unsatisfied');
+        gaps.push({ requirementId: id, kind: 'unsatisfied', message: `Requirement '${name}' is not satisfied by any element` });
+      }
+      if (!isCovered(id, 'verify', new Set())) {
+        rowGaps.push('unverified');
+        gaps.push({ requirementId: id, kind: 'unverified', message: `Requirement '${name}' is not verified by any verification case` });
+      }
+
+      return {
+        id,
+        name,
+        kind: node.kind as TraceabilityRow['kind'],
+        reqId: 'reqId' in node.spec ? node.spec.reqId : undefined,
+        status: 'status' in node.spec ? node.spec.status : undefined,
+        satisfiedBy: tracedBy('satisfy'),
+        verifiedBy: tracedBy('verify'),
+        refinedBy: (refinements.get(id) ?? []).map((refinement) => refinement.requirementId),
+        gaps: rowGaps
+      };
+    });
+
+  return { rows, columns, cells, gaps };
+};
+
+/**
+ * Nodes and relationships of the traces from a requirement to one element, or
+ * to every column element when `elementId` is omitted.
+ */
+export const getTraceSelection = (
+  matrix: TraceabilityMatrix,
+  requirementId: string,
+  elementId?: string
+): TraceSelection => {
+  const row = matrix.cells[requirementId] ?? {};
+  const cells = elementId ? (row[elementId] ? [row[elementId]] : []) : Object.values(row);
+  const elementIds = new Set([requirementId]);
+  cells.forEach((cell) => {
+    elementIds.add(cell.elementId);
+    cell.links.forEach((link) => {
+      link.via.forEach((id) => elementIds.add(id));
+      link.relationshipIds.forEach((id) => elementIds.add(id));
+    });
+  });
+  return { requirementId, elementId, elementIds: Array.from(elementIds) };
+};
@@ -38,6 +38,7 @@ export type SysMLNodeKind =
   | 'state-usage'
   | 'transition-usage'
   | 'exhibit-state'
+  | 'pseudo-state'
   // Requirements & Cases
   | 'requirement-definition'
   | 'requirement-usage'
@@ -56,6 +57,7 @@ export type SysMLNodeKind =
   | 'library-package'
   // Interactions
   | 'sequence-lifeline'
+  | 'sequence-fragment'
   | 'interaction'
   // Metadata
   | 'metadata-definition'
@@ -126,6 +128,104 @@ export interface SysMLCompartment {
   items: SysMLCompartmentItem[];
 }
 
+export type SysMLProblemSeverity = 'error' | 'warning' | 'info';
+
+/** A validation problem attached to a rendered node or edge. */
+export interface SysMLProblemMarker {
+  severity: SysMLProblemSeverity;
+  message: string;
+  ruleId?: string;
+}
+
+/** A problem reported against a node or relationship id, e.g. from `validateModel`. */
+export interface SysMLElementDiagnostic extends SysMLProblemMarker {
+  elementId: string;
+}
+
+/** Requirement coverage rendered as a ring on requirement nodes. */
+export interface SysMLCoverageMarker {
+  satisfied: boolean;
+  verified: boolean;
+  /** Roll-up over the requirement and its sub-requirements, 0-100. */
+  satisfiedPercent: number;
+  verifiedPercent: number;
+  verificationMethods?: string[];
+}
+
+/** Result of evaluating a constraint, calculation or attribute (see `attachEvaluation`). */
+export interface SysMLEvaluationMarker {
+  status: 'satisfied' | 'violated' | 'computed' | 'error';
+  /** Computed value, or the error message. */
+  value?: string;
+  /** Values of the references in a constraint expression. */
+  inputs?: SysMLCompartmentItem[];
+}
+
+/** Set on nodes that render other nodes nested inside them. */
+export interface SysMLContainerMarker {
+  /** Direct children in the view. */
+  childCount: number;
+  collapsed: boolean;
+  /** Separators between the orthogonal regions of a parallel state. */
+  regions?: SysMLRegionSeparator[];
+}
+
+/**
+ * Dashed line between two regions, starting at `x`/`y` relative to the
+ * container and running to its bottom (vertical) or right (horizontal) border.
+ */
+export interface SysMLRegionSeparator {
+  orientation: 'vertical' | 'horizontal';
+  x: number;
+  y: number;
+}
+
+/** Activation bar on a lifeline, measured from the top of the lifeline. */
+export interface SysMLActivation {
+  top: number;
+  bottom: number;
+  /** Nesting level, 0 for a bar directly on the lifeline. */
+  depth: number;
+}
+
+/** Set on lifelines by the sequence layout. */
+export interface SysMLLifelineMarker {
+  height: number;
+  activations: SysMLActivation[];
+}
+
+export interface SysMLFragmentOperandMarker extends SysMLFragmentOperandSpec {
+  /** Offset from the top of the fragment, set by the sequence layout. */
+  top?: number;
+}
+
+/** Set on the nodes and edges of a diff view by `attachDiff`. */
+export interface SysMLDiffMarker {
+  type: 'added' | 'removed' | 'modified';
+  /** Changed fields of a modified element, e.g. `attributes.mass.multiplicity: 1 → 0..1`. */
+  changes?: string[];
+}
+
+/** Set on edges standing for a chain of relationships through elements left out of a view. */
+export interface SysMLDerivedMarker {
+  /** Ids of the elements the chain passes through, in order. */
+  via: string[];
+}
+
+/** Set on variation points and their variants by `attachConfiguration`. */
+export interface SysMLVariabilityMarker {
+  /** Variation points are `resolved` once the configuration selects one of their variants. */
+  variation?: 'resolved' | 'unresolved';
+  /** Variants of a resolved variation point. */
+  variant?: 'selected' | 'unselected';
+}
+
+/** Set on combined fragment nodes. */
+export interface SysMLFragmentMarker {
+  operator: SysMLFragmentOperator;
+  operands: SysMLFragmentOperandMarker[];
+}
+
 export interface SysMLNodeData {
   id: string;
   kind: SysMLNodeKind;
@@ -140,7 +240,28 @@ export interface SysMLNodeData {
   baseDefinition?: string;
   redefines?: string[];
   subsets?: string[];
-  controlType?: 'fork' | 'join' | 'decision' | 'merge';
+  controlType?: SysMLActivityControlSpec['controlType'];
+  pseudoType?: SysMLPseudoStateType;
+  /** Substates are orthogonal regions that are active at the same time. */
+  isParallel?: boolean;
+  problems?: SysMLProblemMarker[];
+  /** The state is active in a running simulation (see `attachSimulation`). */
+  active?: boolean;
+  coverage?: SysMLCoverageMarker;
+  evaluation?: SysMLEvaluationMarker;
+  variability?: SysMLVariabilityMarker;
+  diff?: SysMLDiffMarker;
+  container?: SysMLContainerMarker;
+  /** Ports of the node, each with its own connection handle. */
+  ports?: SysMLBoundaryPort[];
+  /** Draw `ports` as squares on the border instead of invisible anchors (see `placePortsOnBoundary`). */
+  portsOnBoundary?: boolean;
+  lifeline?: SysMLLifelineMarker;
+  fragment?: SysMLFragmentMarker;
+  /** Overrides the accent color of the node kind (see `SysMLViewpoint.style`). */
+  accent?: string;
+  /** Shown as context around the elements of a view (see `ViewMaterializationOptions.contextHops`). */
+  context?: boolean;
 }
 
 export interface SysMLPropertySpec {
@@ -152,10 +273,22 @@ export interface SysMLPropertySpec {
 
 export interface SysMLPortSpec {
   name: string;
+  /** Port definition; a leading `~` marks a conjugated port (`~FuelPort`). */
   type?: string;
   direction?: 'in' | 'out' | 'inout';
 }
 
+/** A port placed on a node border. */
+export interface SysMLBoundaryPort {
+  name: string;
+  type?: string;
+  direction?: SysMLPortSpec['direction'];
+  conjugated: boolean;
+  side: 'left' | 'right';
+  /** Position along the side as a fraction of the node height. */
+  offset: number;
+}
+
 export interface SysMLPartDefinitionSpec {
   id: string;
   name: string;
@@ -165,6 +298,9 @@ export interface SysMLPartDefinitionSpec {
   ports?: SysMLPortSpec[];
   actions?: string[];
   states?: string[];
+  /** Variation point whose variants are the targets of its `variant-membership` relationships. */
+  isVariation?: boolean;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLPartUsageSpec {
@@ -178,6 +314,9 @@ export interface SysMLPartUsageSpec {
   attributes?: SysMLPropertySpec[];
   ports?: SysMLPortSpec[];
   parts?: string[];
+  /** Variation point whose variants are the targets of its `variant-membership` relationships. */
+  isVariation?: boolean;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLActionDefinitionSpec {
@@ -187,6 +326,9 @@ export interface SysMLActionDefinitionSpec {
   description?: string;
   inputs?: SysMLPropertySpec[];
   outputs?: SysMLPropertySpec[];
+  /** Variation point whose variants are the targets of its `variant-membership` relationships. */
+  isVariation?: boolean;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLActionUsageSpec extends SysMLActionDefinitionSpec {
@@ -201,6 +343,7 @@ export interface SysMLPortDefinitionSpec {
   description?: string;
   direction?: 'in' | 'out' | 'inout';
   items?: SysMLPropertySpec[];
+  tags?: SysMLTag[];
 }
 
 export interface SysMLPortUsageSpec extends SysMLPortDefinitionSpec {
@@ -214,6 +357,7 @@ export interface SysMLItemDefinitionSpec {
   description?: string;
   unit?: string;
   quantityKind?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLItemUsageSpec extends SysMLItemDefinitionSpec {
@@ -223,8 +367,28 @@ export interface SysMLItemUsageSpec extends SysMLItemDefinitionSpec {
 export interface SysMLActivityControlSpec {
   id: string;
   name: string;
-  controlType: 'fork' | 'join' | 'decision' | 'merge';
+  /** `initial` starts the activity's token flow, `final` ends it. */
+  controlType: 'initial' | 'final' | 'fork' | 'join' | 'decision' | 'merge';
+  documentation?: string;
+  tags?: SysMLTag[];
+}
+
+export type SysMLPseudoStateType =
+  | 'initial'
+  | 'final'
+  | 'choice'
+  | 'junction'
+  | 'fork'
+  | 'join'
+  | 'shallow-history'
+  | 'deep-history';
+
+export interface SysMLPseudoStateSpec {
+  id: string;
+  name: string;
+  pseudoType: SysMLPseudoStateType;
   documentation?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLStateSpec {
@@ -234,6 +398,7 @@ export interface SysMLStateSpec {
   exitAction?: string;
   doActivity?: string;
   status?: 'draft' | 'reviewed' | 'approved' | 'deprecated';
+  tags?: SysMLTag[];
 }
 
 export interface SysMLStateMachineSpec {
@@ -241,6 +406,7 @@ export interface SysMLStateMachineSpec {
   name: string;
   stereotype?: string;
   states: SysMLStateSpec[];
+  tags?: SysMLTag[];
 }
 
 export interface SysMLStateTransitionSpec {
@@ -257,15 +423,39 @@ export interface SysMLSequenceLifelineSpec {
   name: string;
   classifier?: string;
   stereotype?: string;
+  tags?: SysMLTag[];
 }
 
+export type SysMLMessageType = 'sync' | 'async' | 'return';
+
 export interface SysMLSequenceMessageSpec {
   id: string;
-  type: 'sync' | 'async' | 'return';
+  type: SysMLMessageType;
   source: string;
   target: string;
   label: string;
   guard?: string;
+  /** Position in the interaction; messages without one keep their place in the edge list. */
+  order?: number;
+}
+
+export type SysMLFragmentOperator = 'alt' | 'opt' | 'loop' | 'par';
+
+/** One operand of a combined fragment and the messages (by id) it covers. */
+export interface SysMLFragmentOperandSpec {
+  guard?: string;
+  messages: string[];
+}
+
+/** Combined fragment (`alt`, `opt`, `loop`, `par`) framing messages of an interaction. */
+export interface SysMLSequenceFragmentSpec {
+  id: string;
+  name: string;
+  operator: SysMLFragmentOperator;
+  operands?: SysMLFragmentOperandSpec[];
+  stereotype?: string;
+  description?: string;
+  tags?: SysMLTag[];
 }
 
 // Attribute Definition and Usage
@@ -277,6 +467,7 @@ export interface SysMLAttributeDefinitionSpec {
   type?: string;
   defaultValue?: string;
   isAbstract?: boolean;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLAttributeUsageSpec {
@@ -291,6 +482,7 @@ export interface SysMLAttributeUsageSpec {
   isDerived?: boolean;
   redefines?: string[];
   subsets?: string[];
+  tags?: SysMLTag[];
 }
 
 // Connection Definition and Usage
@@ -302,6 +494,7 @@ export interface SysMLConnectionDefinitionSpec {
   ends?: SysMLPropertySpec[];
   attributes?: SysMLPropertySpec[];
   isAbstract?: boolean;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLConnectionUsageSpec {
@@ -313,6 +506,7 @@ export interface SysMLConnectionUsageSpec {
   connectedParts?: string[];
   attributes?: SysMLPropertySpec[];
   redefines?: string[];
+  tags?: SysMLTag[];
 }
 
 // Interface Definition and Usage
@@ -324,6 +518,7 @@ export interface SysMLInterfaceDefinitionSpec {
   ports?: SysMLPortSpec[];
   attributes?: SysMLPropertySpec[];
   conjugate?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLInterfaceUsageSpec {
@@ -333,6 +528,7 @@ export interface SysMLInterfaceUsageSpec {
   stereotype?: string;
   description?: string;
   connectedPorts?: string[];
+  tags?: SysMLTag[];
 }
 
 // Allocation Definition and Usage
@@ -343,6 +539,7 @@ export interface SysMLAllocationDefinitionSpec {
   description?: string;
   source?: string;
   target?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLAllocationUsageSpec {
@@ -353,6 +550,7 @@ export interface SysMLAllocationUsageSpec {
   description?: string;
   allocatedFrom?: string;
   allocatedTo?: string;
+  tags?: SysMLTag[];
 }
 
 // Reference Usage
@@ -363,6 +561,7 @@ export interface SysMLReferenceUsageSpec {
   description?: string;
   referencedElement?: string;
   redefines?: string[];
+  tags?: SysMLTag[];
 }
 
 // Occurrence Definition and Usage
@@ -373,6 +572,7 @@ export interface SysMLOccurrenceDefinitionSpec {
   description?: string;
   isIndividual?: boolean;
   lifeClass?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLOccurrenceUsageSpec {
@@ -383,6 +583,7 @@ export interface SysMLOccurrenceUsageSpec {
   description?: string;
   portionOf?: string;
   isSnapshot?: boolean;
+  tags?: SysMLTag[];
 }
 
 // Calculation Definition and Usage
@@ -395,6 +596,7 @@ export interface SysMLCalculationDefinitionSpec {
   outputs?: SysMLPropertySpec[];
   expression?: string;
   returnResult?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLCalculationUsageSpec {
@@ -406,6 +608,7 @@ export interface SysMLCalculationUsageSpec {
   inputs?: SysMLPropertySpec[];
   outputs?: SysMLPropertySpec[];
   calculationBody?: string;
+  tags?: SysMLTag[];
 }
 
 // Advanced Action Types
@@ -416,6 +619,7 @@ export interface SysMLPerformActionSpec {
   performedAction?: string;
   inputs?: SysMLPropertySpec[];
   outputs?: SysMLPropertySpec[];
+  tags?: SysMLTag[];
 }
 
 export interface SysMLSendActionSpec {
@@ -425,6 +629,7 @@ export interface SysMLSendActionSpec {
   payload?: string;
   target?: string;
   via?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLAcceptActionSpec {
@@ -434,6 +639,7 @@ export interface SysMLAcceptActionSpec {
   payloadType?: string;
   via?: string;
   receiver?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLAssignmentActionSpec {
@@ -442,6 +648,7 @@ export interface SysMLAssignmentActionSpec {
   stereotype?: string;
   targetFeature?: string;
   valueExpression?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLIfActionSpec {
@@ -451,6 +658,7 @@ export interface SysMLIfActionSpec {
   condition?: string;
   thenAction?: string;
   elseAction?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLForLoopActionSpec {
@@ -460,6 +668,7 @@ export interface SysMLForLoopActionSpec {
   variable?: string;
   collection?: string;
   body?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLWhileLoopActionSpec {
@@ -468,6 +677,7 @@ export interface SysMLWhileLoopActionSpec {
   stereotype?: string;
   condition?: string;
   body?: string;
+  tags?: SysMLTag[];
 }
 
 // State Definition and Usage (proper v2 version)
@@ -478,6 +688,7 @@ export interface SysMLStateDefinitionSpec {
   description?: string;
   isParallel?: boolean;
   substates?: string[];
+  tags?: SysMLTag[];
 }
 
 export interface SysMLStateUsageSpec {
@@ -488,7 +699,9 @@ export interface SysMLStateUsageSpec {
   entryAction?: string;
   doAction?: string;
   exitAction?: string;
+  isParallel?: boolean;
   substates?: string[];
+  tags?: SysMLTag[];
 }
 
 export interface SysMLTransitionUsageSpec {
@@ -499,6 +712,7 @@ export interface SysMLTransitionUsageSpec {
   trigger?: string;
   guard?: string;
   effect?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLExhibitStateSpec {
@@ -506,6 +720,7 @@ export interface SysMLExhibitStateSpec {
   name: string;
   exhibitedState?: string;
   performer?: string;
+  tags?: SysMLTag[];
 }
 
 // Requirement Definition and Usage (proper v2 version)
@@ -521,6 +736,7 @@ export interface SysMLRequirementDefinitionSpec {
   requireConstraint?: string[];
   framedConcerns?: string[];
   actors?: string[];
+  tags?: SysMLTag[];
 }
 
 export interface SysMLRequirementUsageSpec {
@@ -534,6 +750,7 @@ export interface SysMLRequirementUsageSpec {
   assumeConstraint?: string[];
   requireConstraint?: string[];
   status?: 'draft' | 'reviewed' | 'approved' | 'deprecated';
+  tags?: SysMLTag[];
 }
 
 // Constraint Definition and Usage
@@ -542,8 +759,10 @@ export interface SysMLConstraintDefinitionSpec {
   name: string;
   stereotype?: string;
   description?: string;
+  inputs?: SysMLPropertySpec[];
   expression?: string;
   isNegated?: boolean;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLConstraintUsageSpec {
@@ -551,8 +770,10 @@ export interface SysMLConstraintUsageSpec {
   name: string;
   definition?: string;
   stereotype?: string;
+  inputs?: SysMLPropertySpec[];
   expression?: string;
   isNegated?: boolean;
+  tags?: SysMLTag[];
 }
 
 // Verification Case Definition and Usage
@@ -564,6 +785,7 @@ export interface SysMLVerificationCaseDefinitionSpec {
   verifiedRequirement?: string;
   subjectParameter?: string;
   objectiveRequirement?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLVerificationCaseUsageSpec {
@@ -574,6 +796,7 @@ export interface SysMLVerificationCaseUsageSpec {
   verifiedRequirement?: string;
   verificationMethod?: 'analysis' | 'inspection' | 'test' | 'demonstration';
   status?: 'draft' | 'reviewed' | 'approved' | 'deprecated';
+  tags?: SysMLTag[];
 }
 
 // Analysis Case Definition and Usage
@@ -582,9 +805,12 @@ export interface SysMLAnalysisCaseDefinitionSpec {
   name: string;
   stereotype?: string;
   description?: string;
+  /** Parameters of the analysis, bound to model values by their value (`in payload = car.payload;`). */
+  inputs?: SysMLPropertySpec[];
   analysisAction?: string;
   resultExpression?: string;
   subjectParameter?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLAnalysisCaseUsageSpec {
@@ -592,9 +818,11 @@ export interface SysMLAnalysisCaseUsageSpec {
   name: string;
   definition?: string;
   stereotype?: string;
+  inputs?: SysMLPropertySpec[];
   analysisAction?: string;
   resultExpression?: string;
   status?: 'draft' | 'in-progress' | 'completed';
+  tags?: SysMLTag[];
 }
 
 // Use Case Definition and Usage (proper v2 version)
@@ -604,8 +832,10 @@ export interface SysMLUseCaseDefinitionSpec {
   stereotype?: string;
   description?: string;
   includedUseCases?: string[];
+  actors?: string[];
   subjectParameter?: string;
   objectiveRequirement?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLUseCaseUsageSpec {
@@ -618,6 +848,7 @@ export interface SysMLUseCaseUsageSpec {
   includes?: string[];
   extends?: string[];
   status?: 'draft' | 'reviewed' | 'approved' | 'deprecated';
+  tags?: SysMLTag[];
 }
 
 // Concern Definition and Usage
@@ -627,6 +858,7 @@ export interface SysMLConcernDefinitionSpec {
   stereotype?: string;
   description?: string;
   text?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLConcernUsageSpec {
@@ -636,6 +868,7 @@ export interface SysMLConcernUsageSpec {
   stereotype?: string;
   text?: string;
   stakeholders?: string[];
+  tags?: SysMLTag[];
 }
 
 // Package and Library Package
@@ -647,6 +880,7 @@ export interface SysMLPackageSpec {
   members?: string[];
   imports?: string[];
   visibility?: 'public' | 'private' | 'protected';
+  tags?: SysMLTag[];
 }
 
 export interface SysMLLibraryPackageSpec {
@@ -656,6 +890,7 @@ export interface SysMLLibraryPackageSpec {
   description?: string;
   isStandard?: boolean;
   members?: string[];
+  tags?: SysMLTag[];
 }
 
 // Interaction
@@ -666,6 +901,7 @@ export interface SysMLInteractionSpec {
   description?: string;
   participants?: string[];
   messages?: string[];
+  tags?: SysMLTag[];
 }
 
 // Metadata
@@ -676,6 +912,7 @@ export interface SysMLMetadataDefinitionSpec {
   description?: string;
   baseType?: string;
   attributes?: SysMLPropertySpec[];
+  tags?: SysMLTag[];
 }
 
 export interface SysMLMetadataUsageSpec {
@@ -684,6 +921,7 @@ export interface SysMLMetadataUsageSpec {
   definition?: string;
   metadataValues?: Record<string, string>;
   annotatedElement?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLCommentSpec {
@@ -691,18 +929,22 @@ export interface SysMLCommentSpec {
   body: string;
   locale?: string;
   annotatedElement?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLDocumentationSpec {
   id: string;
   body: string;
   documentedElement?: string;
+  tags?: SysMLTag[];
 }
 
 export interface SysMLRelationshipSpec {
   id: string;
   type: SysMLEdgeKind;
+  /** Node id, or `partId.portName` to attach to a port of the node. */
   source: string;
+  /** Node id, or `partId.portName` to attach to a port of the node. */
   target: string;
   label?: string;
   rationale?: string;
@@ -749,6 +991,7 @@ export type SysMLNodeSpec =
   | { kind: 'state-usage'; spec: SysMLStateUsageSpec }
   | { kind: 'transition-usage'; spec: SysMLTransitionUsageSpec }
   | { kind: 'exhibit-state'; spec: SysMLExhibitStateSpec }
+  | { kind: 'pseudo-state'; spec: SysMLPseudoStateSpec }
   // Requirements & Cases
   | { kind: 'requirement-definition'; spec: SysMLRequirementDefinitionSpec }
   | { kind: 'requirement-usage'; spec: SysMLRequirementUsageSpec }
@@ -767,6 +1010,7 @@ export type SysMLNodeSpec =
   | { kind: 'library-package'; spec: SysMLLibraryPackageSpec }
   // Interactions
   | { kind: 'sequence-lifeline'; spec: SysMLSequenceLifelineSpec }
+  | { kind: 'sequence-fragment'; spec: SysMLSequenceFragmentSpec }
   | { kind: 'interaction'; spec: SysMLInteractionSpec }
   // Metadata
   | { kind: 'metadata-definition'; spec: SysMLMetadataDefinitionSpec }
@@ -796,5 +1040,17 @@ export interface SysMLEdgeData {
   trigger?: string;
   guard?: string;
   effect?: string;
+  messageType?: SysMLMessageType;
+  /** Position of a message in its interaction. */
+  order?: number;
   route?: SysMLEdgeRoute;
+  problems?: SysMLProblemMarker[];
+  /** The transition fired, or the flow received a token, in the last simulation step. */
+  fired?: boolean;
+  /** Tokens waiting on a control flow in a token-flow simulation (see `attachTokenFlow`). */
+  tokens?: number;
+  diff?: SysMLDiffMarker;
+  /** Overrides the color of the relationship kind (see `SysMLViewpoint.style`). */
+  color?: string;
+  derived?: SysMLDerivedMarker;
 }
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { createAttributeUsageNode, createPartDefinitionNode } from './factories';
+import {
+  attachUnitSystem,
+  convertUnit,
+  formatQuantity,
+  getQuantityKindUnit,
+  imperialUnitSystem,
+  parseQuantity,
+  parseUnit,
+  siUnitSystem,
+  SysMLUnitError,
+  toBaseUnits,
+  unitConsistencyRule
+} from './units';
+import { validateModel } from './validation';
+import type { SysMLModel } from './viewpoints';
+
+describe('Units', () => {
+  it('should parse prefixed, derived and compound units', () => {
+    expect(parseUnit('kg')).toEqual({ symbol: 'kg', dimension: { mass: 1 }, factor: 1, offset: 0 });
+    expect(parseUnit('W').dimension).toEqual({ length: 2, mass: 1, time: -3 });
+    expect(parseUnit('kg·m²/s^2').dimension).toEqual(parseUnit('J').dimension);
+    expect(parseUnit('N*m').dimension).toEqual(parseUnit('kWh').dimension);
+    expect(parseUnit('m/(s*s)').dimension).toEqual({ length: 1, time: -2 });
+    expect(parseUnit('mm').factor).toBeCloseTo(1e-3);
+    expect(parseUnit('kWh').factor).toBe(3.6e6);
+    expect(parseUnit('min').factor).toBe(60);
+    expect(() => parseUnit('kgg')).toThrow(new SysMLUnitError("Unknown unit 'kgg'"));
+    expect(() => parseUnit('m/')).toThrow(SysMLUnitError);
+  });
+
+  it('should read quantities in brackets and with a unit suffix', () => {
+    expect(parseQuantity('12 [kg]')).toEqual({ value: 12, unit: 'kg' });
+    expect(parseQuantity('28VDC')).toEqual({ value: 28, unit: 'VDC' });
+    expect(parseQuantity('-1.5e3 km/h')).toEqual({ value: -1500, unit: 'km/h' });
+    expect(parseQuantity('1500')).toBeUndefined();
+    expect(parseQuantity('2 * mass')).toBeUndefined();
+    expect(() => parseQuantity('3 [furlong]')).toThrow("Unknown unit 'furlong'");
+  });
+
+  it('should convert between units of the same dimension', () => {
+    expect(convertUnit(100, 'km/h', 'mph')).toBeCloseTo(62.137, 3);
+    expect(convertUnit(100, '°C', '°F')).toBeCloseTo(212);
+    expect(toBaseUnits({ value: 20, unit: '°C' })).toBeCloseTo(293.15);
+    expect(toBaseUnits({ value: 12, unit: 'g' })).toBeCloseTo(0.012);
+    expect(() => convertUnit(1, 'V', 'W')).toThrow('Cannot convert V to W');
+  });
+
+  it('should map ISQ quantity kinds to units', () => {
+    expect(getQuantityKindUnit('ISQ::MassValue')).toBe('kg');
+    expect(getQuantityKindUnit('Power')).toBe('W');
+    expect(getQuantityKindUnit('Real')).toBeUndefined();
+  });
+
+  it('should format quantities in the units of a unit system', () => {
+    expect(formatQuantity({ value: 12, unit: 'kg' }, imperialUnitSystem)).toBe('26.4555 [lb]');
+    expect(formatQuantity({ value: 72, unit: 'km/h' }, siUnitSystem)).toBe('20 [m/s]');
+    expect(formatQuantity({ value: 3, unit: 'mol/s' }, imperialUnitSystem)).toBe('3 [mol/s]');
+
+    const [node] = attachUnitSystem(
+      [
+        createPartDefinitionNode({
+          id: 'Car',
+          name: 'Car',
+          attributes: [{ name: 'mass', type: 'Real', value: '1500 [kg]' }]
+        })
+      ],
+      imperialUnitSystem
+    );
+    expect(node.data.compartments?.[0].items).toEqual([{ label: 'mass', value: 'Real 3306.93 [lb]' }]);
+    const plain = createAttributeUsageNode({ id: 'n', name: 'n', value: '4' });
+    expect(attachUnitSystem([plain], siUnitSystem)[0].data).toEqual(plain.data);
+  });
+});
+
+describe('Unit Consistency Rule', () => {
+  const model: SysMLModel = {
+    nodes: [
+      { kind: 'item-definition', spec: { id: 'Fuel', name: 'Fuel', unit: 'L', quantityKind: 'Volume' } },
+      { kind: 'item-definition', spec: { id: 'Heat', name: 'Heat', unit: 'm', quantityKind: 'Energy' } },
+      { kind: 'port-definition', spec: { id: 'FuelPort', name: 'FuelPort', items: [{ name: 'fuel', type: 'Fuel' }] } },
+      {
+        kind: 'port-definition',
+        spec: { id: 'LoadPort', name: 'LoadPort', items: [{ name: 'draw', type: 'ISQ::PowerValue' }] }
+      },
+      {
+        kind: 'part-usage',
+        spec: {
+          id: 'battery',
+          name: 'battery',
+          attributes: [
+            { name: 'mass', type: 'ISQ::MassValue', value: '12 [m]' },
+            { name: 'capacity', value: '40 [Ahh]' }
+          ],
+          ports: [{ name: 'supply', type: '28VDC' }]
+        }
+      },
+      {
+        kind: 'part-usage',
+        spec: {
+          id: 'motor',
+          name: 'motor',
+          ports: [
+            { name: 'power', type: 'LoadPort' },
+            { name: 'intake', type: 'FuelPort' }
+          ]
+        }
+      },
+      { kind: 'part-usage', spec: { id: 'tank', name: 'tank', ports: [{ name: 'outlet', type: '~FuelPort' }] } }
+    ],
+    relationships: [
+      { id: 'c1', type: 'binding-connector', source: 'battery.supply', target: 'motor.power' },
+      { id: 'c2', type: 'flow-connection', source: 'tank.outlet', target: 'motor.intake' }
+    ]
+  };
+
+  it('should flag unknown units, mismatched values and connected ports of different dimensions', () => {
+    expect(validateModel(model, { rules: [unitConsistencyRule] }).map((diagnostic) => diagnostic.message)).toEqual([
+      "Unit 'm' is not a unit of Energy",
+      "'mass' : ISQ::MassValue cannot take 12 [m]",
+      "Unknown unit 'Ahh' in 'capacity'",
+      "'battery.supply' (VDC) is connected to 'motor.power' (PowerValue)"
+    ]);
+  });
+});
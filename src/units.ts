@@ -0,0 +1,619 @@
+import { getConnectorRelationships, getSpecPorts, resolvePortEndpoint } from './ports';
+import type { SysMLValidationContext, SysMLValidationFinding, SysMLValidationRule } from './validation';
+import type { SysMLEdgeKind, SysMLNodeSpec, SysMLPropertySpec, SysMLReactFlowNode } from './types';
+
+/**
+ * Units of measure modeled on the ISQ and SI: base and derived units, SI
+ * prefixes, common non-SI and US customary units, dimensional analysis and
+ * conversion between units of the same dimension.
+ */
+
+/** ISQ base quantities. */
+export type SysMLBaseDimension = 'length' | 'mass' | 'time' | 'current' | 'temperature' | 'amount' | 'luminosity';
+
+/** Exponent of each base quantity; omitted bases have exponent 0. */
+export type SysMLDimension = Partial<Record<SysMLBaseDimension, number>>;
+
+export interface SysMLUnit {
+  symbol: string;
+  dimension: SysMLDimension;
+  /** Value of one unit in coherent SI units. */
+  factor: number;
+  /** Added after scaling, for units with a different zero such as `°C`. */
+  offset: number;
+}
+
+/** A value with a unit, e.g. `12 [kg]`. */
+export interface SysMLQuantity {
+  value: number;
+  unit: string;
+}
+
+/** Preferred display units; values are shown in the first unit of matching dimension. */
+export interface SysMLUnitSystem {
+  name: string;
+  units: string[];
+}
+
+export class SysMLUnitError extends Error {}
+
+const baseDimensions: SysMLBaseDimension[] = [
+  'length',
+  'mass',
+  'time',
+  'current',
+  'temperature',
+  'amount',
+  'luminosity'
+];
+
+interface UnitEntry {
+  factor: number;
+  dimension: SysMLDimension;
+  offset?: number;
+  /** Accepts SI prefixes (`km`, `mA`, `kWh`). */
+  prefixable?: boolean;
+}
+
+const L = { length: 1 };
+const M = { mass: 1 };
+const T = { time: 1 };
+const dimensionless: SysMLDimension = {};
+const force = { mass: 1, length: 1, time: -2 };
+const energy = { mass: 1, length: 2, time: -2 };
+const power = { mass: 1, length: 2, time: -3 };
+const pressure = { mass: 1, length: -1, time: -2 };
+const voltage = { mass: 1, length: 2, time: -3, current: -1 };
+const resistance = { mass: 1, length: 2, time: -3, current: -2 };
+const speed = { length: 1, time: -1 };
+const volume = { length: 3 };
+
+const units: Record<string, UnitEntry> = {
+  // SI base units; the kilogram is the prefixed gram
+  m: { factor: 1, dimension: L, prefixable: true },
+  g: { factor: 1e-3, dimension: M, prefixable: true },
+  s: { factor: 1, dimension: T, prefixable: true },
+  A: { factor: 1, dimension: { current: 1 }, prefixable: true },
+  K: { factor: 1, dimension: { temperature: 1 }, prefixable: true },
+  mol: { factor: 1, dimension: { amount: 1 }, prefixable: true },
+  cd: { factor: 1, dimension: { luminosity: 1 }, prefixable: true },
+  // SI derived units
+  rad: { factor: 1, dimension: dimensionless, prefixable: true },
+  sr: { factor: 1, dimension: dimensionless },
+  Hz: { factor: 1, dimension: { time: -1 }, prefixable: true },
+  N: { factor: 1, dimension: force, prefixable: true },
+  Pa: { factor: 1, dimension: pressure, prefixable: true },
+  J: { factor: 1, dimension: energy, prefixable: true },
+  W: { factor: 1, dimension: power, prefixable: true },
+  C: { factor: 1, dimension: { time: 1, current: 1 }, prefixable: true },
+  V: { factor: 1, dimension: voltage, prefixable: true },
+  // Electrical supplies are often annotated with the kind of current
+  VDC: { factor: 1, dimension: voltage, prefixable: true },
+  VAC: { factor: 1, dimension: voltage, prefixable: true },
+  F: { factor: 1, dimension: { mass: -1, length: -2, time: 4, current: 2 }, prefixable: true },
+  Ω: { factor: 1, dimension: resistance, prefixable: true },
+  ohm: { factor: 1, dimension: resistance, prefixable: true },
+  S: { factor: 1, dimension: { mass: -1, length: -2, time: 3, current: 2 }, prefixable: true },
+  Wb: { factor: 1, dimension: { mass: 1, length: 2, time: -2, current: -1 }, prefixable: true },
+  T: { factor: 1, dimension: { mass: 1, time: -2, current: -1 }, prefixable: true },
+  H: { factor: 1, dimension: { mass: 1, length: 2, time: -2, current: -2 }, prefixable: true },
+  lm: { factor: 1, dimension: { luminosity: 1 }, prefixable: true },
+  lx: { factor: 1, dimension: { luminosity: 1, length: -2 }, prefixable: true },
+  Bq: { factor: 1, dimension: { time: -1 }, prefixable: true },
+  Gy: { factor: 1, dimension: { length: 2, time: -2 }, prefixable: true },
+  Sv: { factor: 1, dimension: { length: 2, time: -2 }, prefixable: true },
+  kat: { factor: 1, dimension: { amount: 1, time: -1 }, prefixable: true },
+  '°C': { factor: 1, offset: 273.15, dimension: { temperature: 1 } },
+  degC: { factor: 1, offset: 273.15, dimension: { temperature: 1 } },
+  // Non-SI units accepted for use with the SI
+  min: { factor: 60, dimension: T },
+  h: { factor: 3600, dimension: T },
+  d: { factor: 86400, dimension: T },
+  '°': { factor: Math.PI / 180, dimension: dimensionless },
+  deg: { factor: Math.PI / 180, dimension: dimensionless },
+  L: { factor: 1e-3, dimension: volume, prefixable: true },
+  l: { factor: 1e-3, dimension: volume, prefixable: true },
+  t: { factor: 1e3, dimension: M, prefixable: true },
+  bar: { factor: 1e5, dimension: pressure, prefixable: true },
+  Wh: { factor: 3600, dimension: energy, prefixable: true },
+  eV: { factor: 1.602176634e-19, dimension: energy, prefixable: true },
+  rpm: { factor: 1 / 60, dimension: { time: -1 } },
+  '%': { factor: 0.01, dimension: dimensionless },
+  // US customary units
+  in: { factor: 0.0254, dimension: L },
+  ft: { factor: 0.3048, dimension: L },
+  yd: { factor: 0.9144, dimension: L },
+  mi: { factor: 1609.344, dimension: L },
+  lb: { factor: 0.45359237, dimension: M },
+  oz: { factor: 0.028349523125, dimension: M },
+  lbf: { factor: 4.4482216152605, dimension: force },
+  psi: { factor: 6894.757293168, dimension: pressure },
+  mph: { factor: 0.44704, dimension: speed },
+  kn: { factor: 1852 / 3600, dimension: speed },
+  hp: { factor: 745.69987158227, dimension: power },
+  BTU: { factor: 1055.05585262, dimension: energy },
+  gal: { factor: 3.785411784e-3, dimension: volume },
+  '°F': { factor: 5 / 9, offset: (459.67 * 5) / 9, dimension: { temperature: 1 } },
+  degF: { factor: 5 / 9, offset: (459.67 * 5) / 9, dimension: { temperature: 1 } }
+};
+
+const prefixes: Record<string, number> = {
+  Y: 1e24,
+  Z: 1e21,
+  E: 1e18,
+  P: 1e15,
+  T: 1e12,
+  G: 1e9,
+  M: 1e6,
+  k: 1e3,
+  h: 1e2,
+  da: 1e1,
+  d: 1e-1,
+  c: 1e-2,
+  m: 1e-3,
+  µ: 1e-6,
+  μ: 1e-6,
+  u: 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+  f: 1e-15,
+  a: 1e-18,
+  z: 1e-21,
+  y: 1e-24
+};
+
+/** Coherent SI unit of each ISQ quantity kind. */
+const quantityKinds: Record<string, string> = {
+  length: 'm',
+  distance: 'm',
+  mass: 'kg',
+  time: 's',
+  duration: 's',
+  electriccurrent: 'A',
+  current: 'A',
+  thermodynamictemperature: 'K',
+  temperature: 'K',
+  amountofsubstance: 'mol',
+  luminousintensity: 'cd',
+  area: 'm^2',
+  volume: 'm^3',
+  speed: 'm/s',
+  velocity: 'm/s',
+  acceleration: 'm/s^2',
+  frequency: 'Hz',
+  angularvelocity: 'rad/s',
+  angle: 'rad',
+  planeangle: 'rad',
+  force: 'N',
+  torque: 'N*m',
+  pressure: 'Pa',
+  energy: 'J',
+  work: 'J',
+  power: 'W',
+  density: 'kg/m^3',
+  massflowrate: 'kg/s',
+  volumeflowrate: 'm^3/s',
+  electriccharge: 'C',
+  electricpotential: 'V',
+  electricpotentialdifference: 'V',
+  voltage: 'V',
+  resistance: 'Ω',
+  electricresistance: 'Ω',
+  capacitance: 'F',
+  inductance: 'H',
+  magneticflux: 'Wb',
+  magneticfluxdensity: 'T'
+};
+
+const superscripts: Record<string, string> = {
+  '⁰': '0',
+  '¹': '1',
+  '²': '2',
+  '³': '3',
+  '⁴': '4',
+  '⁵': '5',
+  '⁶': '6',
+  '⁷': '7',
+  '⁸': '8',
+  '⁹': '9',
+  '⁻': '-'
+};
+
+const combine = (left: SysMLDimension, right: SysMLDimension, exponent: number): SysMLDimension =>
+  Object.fromEntries(
+    baseDimensions
+      .map((base) => [base, (left[base] ?? 0) + (right[base] ?? 0) * exponent] as const)
+      .filter(([, value]) => value !== 0)
+  );
+
+/** Whether two dimensions have the same exponent for every base quantity. */
+export const isSameDimension = (left: SysMLDimension, right: SysMLDimension) =>
+  baseDimensions.every((base) => (left[base] ?? 0) === (right[base] ?? 0));
+
+const lookupSymbol = (symbol: string): UnitEntry | undefined => {
+  if (symbol in units) {
+    return units[symbol];
+  }
+  // Two-letter prefixes (`da`) are tried before one-letter ones
+  for (const length of [2, 1]) {
+    const prefix = symbol.slice(0, length);
+    const unit = units[symbol.slice(length)];
+    if (symbol.length > length && prefix in prefixes && unit?.prefixable) {
+      return { ...unit, factor: prefixes[prefix] * unit.factor };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Parse a unit expression: symbols with optional SI prefixes, combined with
+ * `*`, `·`, `/` and exponents (`m/s^2`, `kg·m²`, `N*m`, `kWh`). Throws a
+ * {@link SysMLUnitError} for unknown symbols and malformed expressions.
+ *
+ * @example
+ * ```typescript
+ * parseUnit('km/h'); // { symbol: 'km/h', dimension: { length: 1, time: -1 }, factor: 0.2777..., offset: 0 }
+ * ```
+ */
+export const parseUnit = (symbol: string): SysMLUnit => {
+  const source = symbol.trim().replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, (exponent) =>
+    `^${[...exponent].map((character) => superscripts[character]).join('')}`
+  );
+  const tokens = source.match(/[A-Za-zµμΩ°%]+|\d+|\^-?\d+|[*·/()]|\S/g) ?? [];
+  let index = 0;
+  const fail = () => new SysMLUnitError(`Unknown unit '${symbol}'`);
+
+  const parseFactor = (): Omit<SysMLUnit, 'symbol'> => {
+    const token = tokens[index++];
+    let unit: Omit<SysMLUnit, 'symbol'>;
+    if (token === '(') {
+      unit = parseProduct();
+      if (tokens[index++] !== ')') {
+        throw fail();
+      }
+    } else if (token === '1') {
+      unit = { dimension: {}, factor: 1, offset: 0 };
+    } else {
+      const entry = token === undefined ? undefined : lookupSymbol(token);
+      if (!entry) {
+        throw fail();
+      }
+      unit = { dimension: entry.dimension, factor: entry.factor, offset: entry.offset ?? 0 };
+    }
+    const exponent = tokens[index]?.startsWith('^') ? Number(tokens[index++].slice(1)) : 1;
+    return {
+      dimension: combine({}, unit.dimension, exponent),
+      factor: unit.factor ** exponent,
+      offset: exponent === 1 ? unit.offset : 0
+    };
+  };
+
+  const parseProduct = (): Omit<SysMLUnit, 'symbol'> => {
+    let unit = parseFactor();
+    while (index < tokens.length && tokens[index] !== ')') {
+      const operator = tokens[index] === '*' || tokens[index] === '·' || tokens[index] === '/' ? tokens[index++] : '*';
+      const next = parseFactor();
+      const sign = operator === '/' ? -1 : 1;
+      // Offsets only apply to a unit on its own: `°C/s` is a rate of temperature difference
+      unit = {
+        dimension: combine(unit.dimension, next.dimension, sign),
+        factor: unit.factor * next.factor ** sign,
+        offset: 0
+      };
+    }
+    return unit;
+  };
+
+  const unit = parseProduct();
+  if (index < tokens.length) {
+    throw fail();
+  }
+  return { symbol: symbol.trim(), ...unit };
+};
+
+/**
+ * Read a value with a unit: `12 [kg]` as written in SysML, or `12 kg`/`28VDC`.
+ * Returns `undefined` for text that is not a number followed by a unit.
+ * Throws a {@link SysMLUnitError} for an unknown unit in brackets.
+ */
+export const parseQuantity = (text: string): SysMLQuantity | undefined => {
+  const match = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)\s*(?:\[([^\]]*)\]|([^\s\d.[].*?))\s*$/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const [, value, bracketed, suffix] = match;
+  if (bracketed !== undefined) {
+    parseUnit(bracketed);
+    return { value: Number(value), unit: bracketed.trim() };
+  }
+  try {
+    parseUnit(suffix);
+  } catch {
+    return undefined;
+  }
+  return { value: Number(value), unit: suffix };
+};
+
+/** Value of a quantity in coherent SI units, e.g. `12 [g]` → `0.012`. */
+export const toBaseUnits = ({ value, unit }: SysMLQuantity) => {
+  const parsed = parseUnit(unit);
+  return value * parsed.factor + parsed.offset;
+};
+
+/**
+ * Convert a value between two units of the same dimension. Throws a
+ * {@link SysMLUnitError} when the dimensions differ.
+ *
+ * @example
+ * ```typescript
+ * convertUnit(100, 'km/h', 'mph'); // 62.137...
+ * ```
+ */
+export const convertUnit = (value: number, from: string, to: string): number => {
+  const source = parseUnit(from);
+  const target = parseUnit(to);
+  if (!isSameDimension(source.dimension, target.dimension)) {
+    throw new SysMLUnitError(`Cannot convert ${from} to ${to}`);
+  }
+  return (value * source.factor + source.offset - target.offset) / target.factor;
+};
+
+/**
+ * Coherent SI unit of an ISQ quantity kind, accepting value type names such
+ * as `ISQ::MassValue`. Returns `undefined` for names that are not quantity
+ * kinds (`Real`, `Boolean`, ...).
+ */
+export const getQuantityKindUnit = (kind: string): string | undefined => {
+  const name = kind
+    .replace(/^.*::/, '')
+    .replace(/Value$/, '')
+    .toLowerCase();
+  return quantityKinds[name];
+};
+
+export const siUnitSystem: SysMLUnitSystem = {
+  name: 'SI',
+  units: ['m', 'kg', 's', 'A', 'K', 'mol', 'cd', 'm^2', 'm^3', 'm/s', 'm/s^2', 'N', 'Pa', 'J', 'W', 'V', 'Ω', 'Hz']
+};
+
+export const imperialUnitSystem: SysMLUnitSystem = {
+  name: 'US customary',
+  units: ['ft', 'lb', 's', 'A', '°F', 'mol', 'cd', 'ft^2', 'gal', 'mph', 'ft/s^2', 'lbf', 'psi', 'ft*lbf', 'hp', 'V']
+};
+
+/**
+ * Express a quantity in the first unit of the system with the same
+ * dimension, as `value [unit]` rounded to six significant digits. Quantities
+ * the system has no unit for keep their unit.
+ */
+export const formatQuantity = (quantity: SysMLQuantity, system?: SysMLUnitSystem): string => {
+  const { dimension } = parseUnit(quantity.unit);
+  const unit = system?.units.find((candidate) => isSameDimension(parseUnit(candidate).dimension, dimension));
+  const value = unit === undefined ? quantity.value : convertUnit(quantity.value, quantity.unit, unit);
+  return `${Number(value.toPrecision(6))} [${unit ?? quantity.unit}]`;
+};
+
+const bracketedQuantities = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?\s*\[[^\]]*\]/g;
+
+/** Show the values with units on rendered nodes in the units of a unit system. */
+export const attachUnitSystem = (nodes: SysMLReactFlowNode[], system: SysMLUnitSystem): SysMLReactFlowNode[] => {
+  const convert = (text: string | undefined) =>
+    text?.replace(bracketedQuantities, (written) => {
+      try {
+        const quantity = parseQuantity(written);
+        return quantity ? formatQuantity(quantity, system) : written;
+      } catch {
+        return written;
+      }
+    });
+  return nodes.map((node) =>
+    node.data.compartments
+      ? {
+          ...node,
+          data: {
+            ...node.data,
+            compartments: node.data.compartments.map((compartment) => ({
+              ...compartment,
+              items: compartment.items.map((item) => ({
+                ...item,
+                label: convert(item.label) as string,
+                ...(item.value !== undefined && { value: convert(item.value) })
+              }))
+            }))
+          }
+        }
+      : node
+  );
+};
+
+interface Measured {
+  /** Unit or quantity kind the dimension was read from, for messages. */
+  label: string;
+  dimension: SysMLDimension;
+}
+
+const measureUnit = (unit: string, label = unit): Measured | undefined => {
+  try {
+    return { label, dimension: parseUnit(unit).dimension };
+  } catch {
+    return undefined;
+  }
+};
+
+// Dimension of a type: an item definition's unit or quantity kind, an ISQ quantity kind or a unit
+const measureType = (type: string, context: SysMLValidationContext): Measured | undefined => {
+  const resolved = context.resolve(type);
+  if (resolved?.kind === 'item-definition' || resolved?.kind === 'item-usage') {
+    const { unit, quantityKind } = resolved.spec;
+    return (
+      (unit !== undefined ? measureUnit(unit) : undefined) ??
+      (quantityKind !== undefined ? measureType(quantityKind, context) : undefined)
+    );
+  }
+  const kindUnit = getQuantityKindUnit(type);
+  if (resolved && kindUnit === undefined) {
+    return undefined;
+  }
+  return kindUnit !== undefined ? measureUnit(kindUnit, type.replace(/^.*::/, '')) : measureUnit(type);
+};
+
+const measureQuantity = (text: string): Measured | undefined => {
+  try {
+    const quantity = parseQuantity(text);
+    return quantity ? measureUnit(quantity.unit) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const measureProperty = (property: SysMLPropertySpec, context: SysMLValidationContext) =>
+  (property.value !== undefined ? measureQuantity(property.value) : undefined) ??
+  (property.type !== undefined ? measureType(property.type, context) : undefined);
+
+// A port carries the first item with a known dimension
+const measureItems = (items: SysMLPropertySpec[] = [], context: SysMLValidationContext) =>
+  items.map((item) => measureProperty(item, context)).find((measured) => measured !== undefined);
+
+const measurePortType = (type: string, context: SysMLValidationContext): Measured | undefined => {
+  const resolved = context.resolve(type);
+  if (resolved?.kind === 'port-definition' || resolved?.kind === 'port-usage') {
+    return measureItems(resolved.spec.items, context);
+  }
+  // Ports may also be typed by a quantity (`28VDC`) or a unit (`W`) directly
+  return resolved ? undefined : (measureQuantity(type) ?? measureType(type.replace(/^~/, ''), context));
+};
+
+const measureEndpoint = (endpoint: string, context: SysMLValidationContext): Measured | undefined => {
+  const { node, port } = resolvePortEndpoint(endpoint, (id) => context.nodesById.has(id));
+  const spec = context.nodesById.get(node);
+  if (!spec) {
+    return undefined;
+  }
+  if (port !== undefined) {
+    const type = getSpecPorts(spec).find((candidate) => candidate.name === port)?.type;
+    return type !== undefined ? measurePortType(type, context) : undefined;
+  }
+  switch (spec.kind) {
+    case 'port-definition':
+    case 'port-usage':
+      return (
+        measureItems(spec.spec.items, context) ??
+        (spec.kind === 'port-usage' && spec.spec.definition !== undefined
+          ? measurePortType(spec.spec.definition, context)
+          : undefined)
+      );
+    case 'item-usage':
+    case 'item-definition':
+      return measureType(spec.spec.id, context);
+    default:
+      return undefined;
+  }
+};
+
+const connectingKinds = new Set<SysMLEdgeKind>([
+  'connector-as-usage',
+  'binding-connector',
+  'flow-connection',
+  'item-flow'
+]);
+
+const propertiesOf = (node: SysMLNodeSpec): SysMLPropertySpec[] =>
+  (['attributes', 'items', 'inputs', 'outputs'] as const).flatMap((field) => {
+    const properties = (node.spec as Partial<Record<typeof field, SysMLPropertySpec[]>>)[field];
+    return Array.isArray(properties) ? properties : [];
+  });
+
+const checkValue = (
+  elementId: string,
+  name: string,
+  value: string | undefined,
+  type: string | undefined,
+  context: SysMLValidationContext
+): SysMLValidationFinding[] => {
+  if (value === undefined) {
+    return [];
+  }
+  let quantity: SysMLQuantity | undefined;
+  try {
+    quantity = parseQuantity(value);
+  } catch (error) {
+    if (!(error instanceof SysMLUnitError)) {
+      throw error;
+    }
+    return [{ elementId, message: `${error.message} in '${name}'` }];
+  }
+  const measured = quantity && measureUnit(quantity.unit);
+  const expected = type !== undefined ? measureType(type, context) : undefined;
+  if (!measured || !expected || isSameDimension(measured.dimension, expected.dimension)) {
+    return [];
+  }
+  return [{ elementId, message: `'${name}' : ${type} cannot take ${value}` }];
+};
+
+/**
+ * Unknown units, values whose unit does not match the quantity kind of their
+ * type, item definitions whose unit and quantity kind disagree, and
+ * connectors or flows joining ports of different dimensions. Not part of
+ * `sysmlValidationRules`; add it to `validateModel`'s rules.
+ */
+export const unitConsistencyRule: SysMLValidationRule = {
+  id: 'sysml.unit-consistency',
+  name: 'Unit consistency',
+  description: 'Units must be known, and values, quantity kinds and connected ports must agree in dimension.',
+  severity: 'error',
+  validate: (context) => {
+    const values = context.model.nodes.flatMap((node) => {
+      const properties = propertiesOf(node).flatMap((property) =>
+        checkValue(node.spec.id, property.name, property.value, property.type, context)
+      );
+      switch (node.kind) {
+        case 'attribute-usage':
+          return [...properties, ...checkValue(node.spec.id, node.spec.name, node.spec.value, node.spec.type, context)];
+        case 'attribute-definition':
+          return [
+            ...properties,
+            ...checkValue(node.spec.id, node.spec.name, node.spec.defaultValue, node.spec.type, context)
+          ];
+        case 'item-definition':
+        case 'item-usage': {
+          const { unit, quantityKind } = node.spec;
+          if (unit === undefined) {
+            return properties;
+          }
+          const measured = measureUnit(unit);
+          if (!measured) {
+            return [
+              ...properties,
+              { elementId: node.spec.id, message: `Unknown unit '${unit}' in '${node.spec.name}'` }
+            ];
+          }
+          const expected = quantityKind !== undefined ? measureType(quantityKind, context) : undefined;
+          return expected && !isSameDimension(measured.dimension, expected.dimension)
+            ? [...properties, { elementId: node.spec.id, message: `Unit '${unit}' is not a unit of ${quantityKind}` }]
+            : properties;
+        }
+        default:
+          return properties;
+      }
+    });
+
+    const connections = [
+      ...context.model.relationships.filter((relationship) => connectingKinds.has(relationship.type)),
+      ...getConnectorRelationships(context.model.nodes)
+    ].flatMap((relationship) => {
+      const source = measureEndpoint(relationship.source, context);
+      const target = measureEndpoint(relationship.target, context);
+      if (!source || !target || isSameDimension(source.dimension, target.dimension)) {
+        return [];
+      }
+      return [
+        {
+          elementId: relationship.id,
+          message: `'${relationship.source}' (${source.label}) is connected to '${relationship.target}' (${target.label})`
+        }
+      ];
+    });
+
+    return [...values, ...connections];
+  }
+};
@@ -0,0 +1,250 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allowedRelationshipKinds,
+  validateModel,
+  sysmlValidationRules,
+  type SysMLValidationRule
+} from './validation';
+import type { SysMLModel } from './viewpoints';
+
+const ruleIds = (model: SysMLModel, externalReferences?: string[]) =>
+  validateModel(model, { externalReferences }).map((diagnostic) => [diagnostic.ruleId, diagnostic.elementId]);
+
+describe('Model Validation', () => {
+  it('should accept a well-formed model', () => {
+    const model: SysMLModel = {
+      nodes: [
+        { kind: 'package', spec: { id: 'pkg', name: 'Vehicles', members: ['vehicle-def', 'vehicle'] } },
+        { kind: 'part-definition', spec: { id: 'vehicle-def', name: 'Vehicle', attributes: [{ name: 'wheels', multiplicity: '4..*' }] } },
+        { kind: 'part-usage', spec: { id: 'vehicle', name: 'vehicle', definition: 'Vehicles::Vehicle' } },
+        { kind: 'requirement-definition', spec: { id: 'req', name: 'Mass' } }
+      ],
+      relationships: [{ id: 'rel', type: 'satisfy', source: 'vehicle', target: 'req' }]
+    };
+
+    expect(validateModel(model)).toEqual([]);
+  });
+
+  describe('Built-in rules', () => {
+    it('should report duplicate node and relationship ids', () => {
+      const model: SysMLModel = {
+        nodes: [
+          { kind: 'part-definition', spec: { id: 'a', name: 'A' } },
+          { kind: 'part-definition', spec: { id: 'a', name: 'B' } }
+        ],
+        relationships: [
+          { id: 'r', type: 'dependency', source: 'a', target: 'a' },
+          { id: 'r', type: 'dependency', source: 'a', target: 'a' }
+        ]
+      };
+
+      expect(ruleIds(model)).toEqual([
+        ['sysml.unique-ids', 'a'],
+        ['sysml.unique-ids', 'r']
+      ]);
+    });
+
+    it('should report relationships that reuse an element id', () => {
+      const diagnostics = validateModel({
+        nodes: [
+          { kind: 'part-definition', spec: { id: 'a', name: 'A' } },
+          { kind: 'part-definition', spec: { id: 'b', name: 'B' } }
+        ],
+        relationships: [{ id: 'a', type: 'dependency', source: 'a', target: 'b' }]
+      });
+
+      expect(diagnostics).toEqual([
+        {
+          severity: 'error',
+          ruleId: 'sysml.unique-ids',
+          elementId: 'a',
+          message: "Relationship id 'a' is also the id of an element"
+        }
+      ]);
+    });
+
+    it('should report dangling relationship endpoints', () => {
+      const diagnostics = validateModel({
+        nodes: [{ kind: 'part-definition', spec: { id: 'a', name: 'A' } }],
+        relationships: [{ id: 'r', type: 'dependency', source: 'a', target: 'missing' }]
+      });
+
+      expect(diagnostics).toEqual([
+        {
+          severity: 'error',
+          ruleId: 'sysml.relationship-endpoints',
+          elementId: 'r',
+          message: "dependency target 'missing' does not exist"
+        }
+      ]);
+    });
+
+    it('should check port endpoints against the ports of their part', () => {
+      const diagnostics = validateModel({
+        nodes: [
+          { kind: 'part-usage', spec: { id: 'tank', name: 'tank', ports: [{ name: 'fuelOut', direction: 'out' }] } },
+          { kind: 'part-usage', spec: { id: 'engine', name: 'engine', ports: [{ name: 'fuelIn', direction: 'in' }] } }
+        ],
+        relationships: [
+          { id: 'flow', type: 'flow-connection', source: 'tank.fuelOut', target: 'engine.fuelIn' },
+          { id: 'leak', type: 'flow-connection', source: 'tank.drain', target: 'pump.fuelIn' }
+        ]
+      });
+
+      expect(diagnostics.map((diagnostic) => [diagnostic.elementId, diagnostic.message])).toEqual([
+        ['leak', "flow-connection source 'tank' has no port 'drain'"],
+        ['leak', "flow-connection target 'pump.fuelIn' does not exist"]
+      ]);
+    });
+
+    it('should warn about unresolved references unless they are external', () => {
+      const model: SysMLModel = {
+        nodes: [
+          { kind: 'part-usage', spec: { id: 'p', name: 'p', definition: 'Missing' } },
+          { kind: 'attribute-usage', spec: { id: 'm', name: 'm', definition: 'ScalarValues::Real' } },
+          { kind: 'comment', spec: { id: 'c', body: 'note', annotatedElement: 'p' } }
+        ],
+        relationships: []
+      };
+
+      const diagnostics = validateModel(model, { externalReferences: ['ScalarValues::Real'] });
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ severity: 'warning', ruleId: 'sysml.reference-resolution', elementId: 'p' });
+    });
+
+    it('should resolve transition usages against nested state machine states', () => {
+      const model: SysMLModel = {
+        nodes: [
+          { kind: 'state-machine', spec: { id: 'sm', name: 'Modes', states: [{ id: 'off', name: 'Off' }, { id: 'on', name: 'On' }] } },
+          { kind: 'transition-usage', spec: { id: 't', name: 'start', source: 'off', target: 'On' } }
+        ],
+        relationships: []
+      };
+
+      expect(validateModel(model)).toEqual([]);
+    });
+
+    it('should report usages typed by the wrong kind of definition', () => {
+      const model: SysMLModel = {
+        nodes: [
+          { kind: 'port-definition', spec: { id: 'FuelPort', name: 'FuelPort' } },
+          { kind: 'part-definition', spec: { id: 'Engine', name: 'Engine' } },
+          { kind: 'part-usage', spec: { id: 'engine', name: 'engine', definition: 'FuelPort' } },
+          { kind: 'item-usage', spec: { id: 'spare', name: 'spare', definition: 'Engine' } }
+        ],
+        relationships: []
+      };
+
+      const diagnostics = validateModel(model);
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ ruleId: 'sysml.definition-usage-pairing', elementId: 'engine' });
+      expect(diagnostics[0].message).toContain('expected part-definition');
+    });
+
+    it('should check relationship endpoint kinds', () => {
+      const model: SysMLModel = {
+        nodes: [
+          { kind: 'part-usage', spec: { id: 'a', name: 'a' } },
+          { kind: 'part-usage', spec: { id: 'b', name: 'b' } },
+          { kind: 'part-definition', spec: { id: 'A', name: 'A' } },
+          { kind: 'state', spec: { id: 's1', name: 'S1' } },
+          { kind: 'state-usage', spec: { id: 's2', name: 's2' } }
+        ],
+        relationships: [
+          { id: 'satisfy', type: 'satisfy', source: 'a', target: 'b' },
+          { id: 'transition', type: 'transition', source: 'a', target: 's1' },
+          { id: 'ok', type: 'transition', source: 's1', target: 's2' },
+          { id: 'specialization', type: 'specialization', source: 'a', target: 'A' },
+          { id: 'typing', type: 'feature-typing', source: 'a', target: 'A' }
+        ]
+      };
+
+      expect(ruleIds(model)).toEqual([
+        ['sysml.relationship-kinds', 'satisfy'],
+        ['sysml.relationship-kinds', 'transition'],
+        ['sysml.relationship-kinds', 'specialization']
+      ]);
+    });
+
+    it('should validate property multiplicity syntax', () => {
+      const model: SysMLModel = {
+        nodes: [
+          {
+            kind: 'part-definition',
+            spec: {
+              id: 'A',
+              name: 'A',
+              attributes: ['1', '*', '0..1', '1..*', '2 .. 5', '5..2', '*..1', '1..', 'many'].map((multiplicity, index) => ({
+                name: `a${index}`,
+                multiplicity
+              }))
+            }
+          }
+        ],
+        relationships: []
+      };
+
+      expect(validateModel(model).map((diagnostic) => diagnostic.message)).toEqual([
+        "Property 'a5' has invalid multiplicity '[5..2]'",
+        "Property 'a6' has invalid multiplicity '[*..1]'",
+        "Property 'a7' has invalid multiplicity '[1..]'",
+        "Property 'a8' has invalid multiplicity '[many]'"
+      ]);
+    });
+
+    it('should report each specialization cycle once', () => {
+      const model: SysMLModel = {
+        nodes: ['A', 'B', 'C', 'D'].map((id) => ({ kind: 'part-definition' as const, spec: { id, name: id } })),
+        relationships: [
+          { id: 'r1', type: 'specialization', source: 'A', target: 'B' },
+          { id: 'r2', type: 'specialization', source: 'B', target: 'C' },
+          { id: 'r3', type: 'specialization', source: 'C', target: 'A' },
+          { id: 'r4', type: 'specialization', source: 'D', target: 'D' }
+        ]
+      };
+
+      expect(validateModel(model).map((diagnostic) => diagnostic.message)).toEqual([
+        'Specialization cycle: A -> B -> C -> A',
+        'Specialization cycle: D -> D'
+      ]);
+    });
+  });
+
+  describe('Connection rules', () => {
+    it('should only allow relationship kinds legal between the endpoint kinds', () => {
+      const partToRequirement = allowedRelationshipKinds('part-usage', 'requirement-usage');
+      expect(partToRequirement).toContain('satisfy');
+      expect(partToRequirement).not.toContain('verify');
+      expect(partToRequirement).not.toContain('transition');
+      expect(allowedRelationshipKinds('part-definition', 'part-usage')).not.toContain('specialization');
+      expect(allowedRelationshipKinds('state', 'state-usage')).toContain('transition');
+      expect(allowedRelationshipKinds('pseudo-state', 'state-usage')).toContain('transition');
+    });
+  });
+
+  describe('Custom rules', () => {
+    it('should run the given rules with their default severity', () => {
+      const namingRule: SysMLValidationRule = {
+        id: 'project.naming',
+        name: 'Definition naming',
+        description: 'Definitions start with an uppercase letter.',
+        severity: 'info',
+        validate: ({ model }) =>
+          model.nodes
+            .filter((node) => node.kind === 'part-definition' && !/^[A-Z]/.test(node.spec.name))
+            .map((node) => ({ elementId: node.spec.id, message: 'Definition names start uppercase' }))
+      };
+      const model: SysMLModel = {
+        nodes: [{ kind: 'part-definition', spec: { id: 'v', name: 'vehicle' } }],
+        relationships: [{ id: 'r', type: 'dependency', source: 'v', target: 'x' }]
+      };
+
+      expect(validateModel(model, { rules: [namingRule] })).toEqual([
+        { severity: 'info', ruleId: 'project.naming', elementId: 'v', message: 'Definition names start uppercase' }
+      ]);
+      expect(
+        validateModel(model, { rules: [...Object.values(sysmlValidationRules), namingRule] }).map((d) => d.ruleId)
+      ).toEqual(['sysml.relationship-endpoints', 'project.naming']);
+    });
+  });
+});
@@ -0,0 +1,532 @@
+import { sysmlEdgeKinds } from './notation';
+import { getSpecPorts, resolvePortEndpoint } from './ports';
+import type {
+  SysMLEdgeKind,
+  SysMLNodeKind,
+  SysMLNodeSpec,
+  SysMLProblemSeverity,
+  SysMLRelationshipSpec
+} from './types';
+import type { SysMLModel } from './viewpoints';
+
+export type SysMLValidationSeverity = SysMLProblemSeverity;
+
+export interface SysMLValidationDiagnostic {
+  severity: SysMLValidationSeverity;
+  ruleId: string;
+  /** Id of the offending node or relationship. */
+  elementId: string;
+  message: string;
+}
+
+/** A rule finding; the severity defaults to the rule's severity. */
+export interface SysMLValidationFinding {
+  elementId: string;
+  message: string;
+  severity?: SysMLValidationSeverity;
+}
+
+export interface SysMLValidationContext {
+  model: SysMLModel;
+  nodesById: Map<string, SysMLNodeSpec>;
+  /**
+   * Resolve a textual reference (`Vehicle`, `Vehicles::Vehicle`, an element id)
+   * to a node, by id, qualified name or unique simple name.
+   */
+  resolve: (reference: string) => SysMLNodeSpec | undefined;
+  /** Whether a reference names an element outside the model (see `externalReferences`). */
+  isExternal: (reference: string) => boolean;
+}
+
+export interface SysMLValidationRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: SysMLValidationSeverity;
+  validate: (context: SysMLValidationContext) => SysMLValidationFinding[];
+}
+
+export interface ValidateModelOptions {
+  /** Rules to run; defaults to every rule in `sysmlValidationRules`. */
+  rules?: SysMLValidationRule[];
+  /**
+   * Library elements referenced but not modelled (e.g. `Real`, `ISQ::MassValue`),
+   * which reference resolution accepts without a diagnostic.
+   */
+  externalReferences?: string[];
+}
+
+interface ReferenceField {
+  field: string;
+  /** Node kinds the reference may resolve to; any kind when omitted. */
+  kinds?: SysMLNodeKind[];
+}
+
+const requirementKinds: SysMLNodeKind[] = ['requirement-definition', 'requirement-usage'];
+const stateKinds: SysMLNodeKind[] = ['state', 'state-definition', 'state-usage'];
+// Transitions also start and end at pseudostates (initial, choice, history, ...)
+const vertexKinds: SysMLNodeKind[] = [...stateKinds, 'pseudo-state'];
+const useCaseKinds: SysMLNodeKind[] = ['use-case-definition', 'use-case-usage'];
+const verificationKinds: SysMLNodeKind[] = ['verification-case-definition', 'verification-case-usage'];
+const caseDefinitionKinds: SysMLNodeKind[] = [
+  'calculation-definition',
+  'analysis-case-definition',
+  'verification-case-definition',
+  'use-case-definition'
+];
+const behaviorKinds: SysMLNodeKind[] = [
+  'action-definition',
+  'action-usage',
+  'activity-control',
+  'calculation-definition',
+  'calculation-usage',
+  'perform-action',
+  'send-action',
+  'accept-action',
+  'assignment-action',
+  'if-action',
+  'for-loop-action',
+  'while-loop-action',
+  ...stateKinds
+];
+
+const typedBy = (...kinds: SysMLNodeKind[]): ReferenceField[] => [{ field: 'definition', kinds }];
+
+/**
+ * Spec fields that refer to other elements. `kinds` captures the SysML v2
+ * definition/usage pairing, including definitions that specialize the
+ * expected one (a part definition is an item definition, a case definition is
+ * a calculation definition, ...).
+ */
+const referenceFields: Partial<Record<SysMLNodeKind, ReferenceField[]>> = {
+  'part-usage': typedBy('part-definition'),
+  'attribute-usage': typedBy('attribute-definition'),
+  'port-usage': typedBy('port-definition'),
+  'item-usage': typedBy('item-definition', 'part-definition'),
+  'connection-usage': typedBy('connection-definition', 'interface-definition', 'allocation-definition'),
+  'interface-usage': typedBy('interface-definition'),
+  'allocation-usage': typedBy('allocation-definition'),
+  'reference-usage': [{ field: 'referencedElement' }],
+  'occurrence-usage': typedBy(
+    'occurrence-definition',
+    'item-definition',
+    'part-definition',
+    'action-definition',
+    'state-definition'
+  ),
+  'action-usage': typedBy('action-definition', 'state-definition', ...caseDefinitionKinds),
+  'calculation-usage': typedBy(...caseDefinitionKinds),
+  'perform-action': [
+    { field: 'performedAction', kinds: ['action-definition', 'action-usage', 'calculation-definition', 'calculation-usage'] }
+  ],
+  'state-usage': typedBy('state-definition'),
+  'transition-usage': [{ field: 'source' }, { field: 'target' }],
+  'exhibit-state': [{ field: 'exhibitedState', kinds: ['state-machine', ...stateKinds] }],
+  'requirement-usage': typedBy('requirement-definition', 'concern-definition'),
+  'constraint-usage': typedBy('constraint-definition', 'requirement-definition'),
+  'verification-case-definition': [{ field: 'verifiedRequirement', kinds: requirementKinds }],
+  'verification-case-usage': [
+    ...typedBy('verification-case-definition'),
+    { field: 'verifiedRequirement', kinds: requirementKinds }
+  ],
+  'analysis-case-usage': typedBy('analysis-case-definition'),
+  'use-case-usage': typedBy('use-case-definition'),
+  'concern-usage': typedBy('concern-definition'),
+  package: [{ field: 'members' }],
+  'library-package': [{ field: 'members' }],
+  'sequence-lifeline': [{ field: 'classifier' }],
+  'metadata-usage': [...typedBy('metadata-definition'), { field: 'annotatedElement' }],
+  comment: [{ field: 'annotatedElement' }],
+  documentation: [{ field: 'documentedElement' }]
+};
+
+interface EndpointKinds {
+  source?: (kind: SysMLNodeKind) => boolean;
+  target?: (kind: SysMLNodeKind) => boolean;
+  expected: string;
+}
+
+const isDefinitionKind = (kind: SysMLNodeKind) => kind.endsWith('-definition');
+const oneOf = (kinds: SysMLNodeKind[]) => (kind: SysMLNodeKind) => kinds.includes(kind);
+const notDefinition = (kind: SysMLNodeKind) => !isDefinitionKind(kind);
+
+const relationshipEndpointKinds: Partial<Record<SysMLEdgeKind, EndpointKinds>> = {
+  satisfy: { target: oneOf(requirementKinds), expected: 'a requirement target' },
+  verify: {
+    source: oneOf(verificationKinds),
+    target: oneOf(requirementKinds),
+    expected: 'a verification case source and a requirement target'
+  },
+  include: { source: oneOf(useCaseKinds), target: oneOf(useCaseKinds), expected: 'use cases at both ends' },
+  extend: { source: oneOf(useCaseKinds), target: oneOf(useCaseKinds), expected: 'use cases at both ends' },
+  transition: { source: oneOf(vertexKinds), target: oneOf(vertexKinds), expected: 'states at both ends' },
+  message: {
+    source: oneOf(['sequence-lifeline']),
+    target: oneOf(['sequence-lifeline']),
+    expected: 'lifelines at both ends'
+  },
+  'control-flow': { source: oneOf(behaviorKinds), target: oneOf(behaviorKinds), expected: 'actions at both ends' },
+  'action-flow': { source: oneOf(behaviorKinds), target: oneOf(behaviorKinds), expected: 'actions at both ends' },
+  definition: { source: notDefinition, target: isDefinitionKind, expected: 'a usage source and a definition target' },
+  'feature-typing': { target: isDefinitionKind, expected: 'a definition target' },
+  subsetting: { source: notDefinition, target: notDefinition, expected: 'usages at both ends' },
+  redefinition: { source: notDefinition, target: notDefinition, expected: 'usages at both ends' }
+};
+
+/** Whether a relationship of the given type may connect elements of the given kinds. */
+export const isRelationshipAllowed = (type: SysMLEdgeKind, sourceKind: SysMLNodeKind, targetKind: SysMLNodeKind) => {
+  if (type === 'specialization') {
+    return isDefinitionKind(sourceKind) === isDefinitionKind(targetKind);
+  }
+  const endpoints = relationshipEndpointKinds[type];
+  if (!endpoints) {
+    return true;
+  }
+  return (endpoints.source ? endpoints.source(sourceKind) : true) && (endpoints.target ? endpoints.target(targetKind) : true);
+};
+
+/** Relationship kinds that may connect a `sourceKind` element to a `targetKind` element. */
+export const allowedRelationshipKinds = (sourceKind: SysMLNodeKind, targetKind: SysMLNodeKind): SysMLEdgeKind[] =>
+  sysmlEdgeKinds.filter((type) => isRelationshipAllowed(type, sourceKind, targetKind));
+
+const multiplicityPattern = /^(\d+|\*)(?:\s*\.\.\s*(\d+|\*))?$/;
+
+// Rules
+
+export const uniqueIdsRule: SysMLValidationRule = {
+  id: 'sysml.unique-ids',
+  name: 'Unique ids',
+  description: 'Every node and every relationship must have a distinct id; nodes and relationships share one id space.',
+  severity: 'error',
+  validate: ({ model, nodesById }) => {
+    const relationshipIds = model.relationships.map((relationship) => relationship.id);
+    return findDuplicates([...model.nodes.map((node) => node.spec.id), ...relationshipIds]).map((id) => {
+      if (!nodesById.has(id)) {
+        return { elementId: id, message: `Duplicate relationship id '${id}'` };
+      }
+      if (relationshipIds.includes(id)) {
+        return { elementId: id, message: `Relationship id '${id}' is also the id of an element` };
+      }
+      return { elementId: id, message: `Duplicate element id '${id}'` };
+    });
+  }
+};
+
+export const relationshipEndpointsRule: SysMLValidationRule = {
+  id: 'sysml.relationship-endpoints',
+  name: 'Relationship endpoints',
+  description: 'Relationship sources and targets must be ids of nodes in the model, or ports of them (`partId.portName`).',
+  severity: 'error',
+  validate: ({ model, nodesById }) =>
+    model.relationships.flatMap((relationship) =>
+      (['source', 'target'] as const).flatMap((end) => {
+        const { node, port } = resolvePortEndpoint(relationship[end], (id) => nodesById.has(id));
+        const spec = nodesById.get(node);
+        if (!spec) {
+          return [{ elementId: relationship.id, message: `${relationship.type} ${end} '${relationship[end]}' does not exist` }];
+        }
+        if (port !== undefined && !getSpecPorts(spec).some((candidate) => candidate.name === port)) {
+          return [{ elementId: relationship.id, message: `${relationship.type} ${end} '${node}' has no port '${port}'` }];
+        }
+        return [];
+      })
+    )
+};
+
+export const referenceResolutionRule: SysMLValidationRule = {
+  id: 'sysml.reference-resolution',
+  name: 'Reference resolution',
+  description: 'Typing, annotation, membership and transition references must name elements in the model.',
+  severity: 'warning',
+  validate: (context) => {
+    const nestedStates = new Set(
+      context.model.nodes.flatMap((node) =>
+        node.kind === 'state-machine' ? node.spec.states.flatMap((state) => [state.id, state.name]) : []
+      )
+    );
+
+    return context.model.nodes.flatMap((node) =>
+      readReferences(node).flatMap(({ field, reference }) => {
+        if (context.resolve(reference) || context.isExternal(reference)) {
+          return [];
+        }
+        if (node.kind === 'transition-usage' && nestedStates.has(reference)) {
+          return [];
+        }
+        return [{ elementId: node.spec.id, message: `${field} '${reference}' does not resolve to an element` }];
+      })
+    );
+  }
+};
+
+export const definitionUsagePairingRule: SysMLValidationRule = {
+  id: 'sysml.definition-usage-pairing',
+  name: 'Definition/usage pairing',
+  description: 'Usages must be typed by a definition of the matching kind (a part usage by a part definition, ...).',
+  severity: 'error',
+  validate: (context) =>
+    context.model.nodes.flatMap((node) =>
+      readReferences(node).flatMap(({ field, reference, kinds }) => {
+        const resolved = context.resolve(reference);
+        if (!kinds || !resolved || kinds.includes(resolved.kind)) {
+          return [];
+        }
+        return [
+          {
+            elementId: node.spec.id,
+            message: `${node.kind} ${field} '${reference}' is a ${resolved.kind}; expected ${kinds.join(' or ')}`
+          }
+        ];
+      })
+    )
+};
+
+export const relationshipKindsRule: SysMLValidationRule = {
+  id: 'sysml.relationship-kinds',
+  name: 'Relationship endpoint kinds',
+  description: 'Relationship ends must be element kinds the relationship type can connect.',
+  severity: 'error',
+  validate: ({ model, nodesById }) =>
+    model.relationships.flatMap((relationship) => {
+      const nodeOf = (endpoint: string) => nodesById.get(resolvePortEndpoint(endpoint, (id) => nodesById.has(id)).node);
+      const source = nodeOf(relationship.source);
+      const target = nodeOf(relationship.target);
+      if (!source || !target) {
+        return [];
+      }
+
+      if (relationship.type === 'specialization' && isDefinitionKind(source.kind) !== isDefinitionKind(target.kind)) {
+        return [
+          {
+            elementId: relationship.id,
+            message: `specialization cannot connect ${source.kind} '${source.spec.id}' and ${target.kind} '${target.spec.id}'; expected two definitions or two usages`
+          }
+        ];
+      }
+
+      const endpoints = relationshipEndpointKinds[relationship.type];
+      if (!endpoints) {
+        return [];
+      }
+      const sourceValid = endpoints.source ? endpoints.source(source.kind) : true;
+      const targetValid = endpoints.target ? endpoints.target(target.kind) : true;
+      if (sourceValid && targetValid) {
+        return [];
+      }
+      return [
+        {
+          elementId: relationship.id,
+          message: `${relationship.type} cannot connect ${source.kind} '${source.spec.id}' to ${target.kind} '${target.spec.id}'; expected ${endpoints.expected}`
+        }
+      ];
+    })
+};
+
+export const multiplicitySyntaxRule: SysMLValidationRule = {
+  id: 'sysml.multiplicity-syntax',
+  name: 'Multiplicity syntax',
+  description: "Property multiplicities must be a bound or range such as '1', '*', '0..1' or '1..*'.",
+  severity: 'error',
+  validate: ({ model }) =>
+    model.nodes.flatMap((node) =>
+      Object.values<unknown>({ ...node.spec })
+        .filter(Array.isArray)
+        .flat()
+        .filter(
+          (entry): entry is { name: string; multiplicity: string } =>
+            typeof entry === 'object' && entry !== null && 'multiplicity' in entry && typeof entry.multiplicity === 'string'
+        )
+        .filter((property) => !isValidMultiplicity(property.multiplicity))
+        .map((property) => ({
+          elementId: node.spec.id,
+          message: `Property '${property.name}' has invalid multiplicity '[${property.multiplicity}]'`
+        }))
+    )
+};
+
+export const specializationCycleRule: SysMLValidationRule = {
+  id: 'sysml.specialization-cycle',
+  name: 'Cyclic specialization',
+  description: 'Specialization relationships must not form a cycle.',
+  severity: 'error',
+  validate: ({ model }) =>
+    findCycles(model.relationships.filter((relationship) => relationship.type === 'specialization')).map((cycle) => ({
+      elementId: cycle[0],
+      message: `Specialization cycle: ${[...cycle, cycle[0]].join(' -> ')}`
+    }))
+};
+
+export const sysmlValidationRules = {
+  uniqueIdsRule,
+  relationshipEndpointsRule,
+  referenceResolutionRule,
+  definitionUsagePairingRule,
+  relationshipKindsRule,
+  multiplicitySyntaxRule,
+  specializationCycleRule
+};
+
+/**
+ * Check a model against SysML v2 well-formedness rules.
+ *
+ * @example
+ * ```typescript
+ * const diagnostics = validateModel(model, { externalReferences: ['Real'] });
+ * const failed = diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+ *
+ * // Add a project rule alongside the built-in ones
+ * validateModel(model, { rules: [...Object.values(sysmlValidationRules), namingRule] });
+ * ```
+ */
+export const validateModel = (model: SysMLModel, options?: ValidateModelOptions): SysMLValidationDiagnostic[] => {
+  const context = createValidationContext(model, options?.externalReferences ?? []);
+  const rules = options?.rules ?? Object.values(sysmlValidationRules);
+
+  return rules.flatMap((rule) =>
+    rule.validate(context).map((finding) => ({
+      severity: finding.severity ?? rule.severity,
+      ruleId: rule.id,
+      elementId: finding.elementId,
+      message: finding.message
+    }))
+  );
+};
+
+function createValidationContext(model: SysMLModel, externalReferences: string[]): SysMLValidationContext {
+  const nodesById = new Map<string, SysMLNodeSpec>();
+  model.nodes.forEach((node) => {
+    if (!nodesById.has(node.spec.id)) {
+      nodesById.set(node.spec.id, node);
+    }
+  });
+
+  const parents = new Map<string, SysMLNodeSpec>();
+  model.nodes.forEach((node) => {
+    if (node.kind === 'package' || node.kind === 'library-package') {
+      (node.spec.members ?? []).forEach((memberId) => {
+        if (!parents.has(memberId) && memberId !== node.spec.id) {
+          parents.set(memberId, node);
+        }
+      });
+    }
+  });
+
+  const qualifiedNames = new Map<string, SysMLNodeSpec>();
+  const simpleNames = new Map<string, SysMLNodeSpec>();
+  model.nodes.forEach((node) => {
+    const name = nodeName(node);
+    if (name === undefined) {
+      return;
+    }
+    const path = [name];
+    const seen = new Set([node.spec.id]);
+    for (let parent = parents.get(node.spec.id); parent && !seen.has(parent.spec.id); parent = parents.get(parent.spec.id)) {
+      seen.add(parent.spec.id);
+      path.unshift(nodeName(parent) ?? parent.spec.id);
+    }
+    const qualified = path.join('::');
+    if (!qualifiedNames.has(qualified)) {
+      qualifiedNames.set(qualified, node);
+    }
+    if (!simpleNames.has(name)) {
+      simpleNames.set(name, node);
+    }
+  });
+
+  const external = new Set(externalReferences);
+
+  return {
+    model,
+    nodesById,
+    resolve: (reference) => {
+      const text = reference.replace(/^~/, '');
+      return (
+        nodesById.get(text) ??
+        qualifiedNames.get(text) ??
+        simpleNames.get(text) ??
+        [...qualifiedNames.entries()].find(([qualified]) => qualified.endsWith(`::${text}`))?.[1]
+      );
+    },
+    isExternal: (reference) => {
+      const text = reference.replace(/^~/, '');
+      return external.has(text) || [...external].some((name) => name.endsWith(`::${text}`));
+    }
+  };
+}
+
+function nodeName(node: SysMLNodeSpec): string | undefined {
+  return 'name' in node.spec ? node.spec.name : undefined;
+}
+
+function readReferences(node: SysMLNodeSpec): { field: string; reference: string; kinds?: SysMLNodeKind[] }[] {
+  const spec: Record<string, unknown> = { ...node.spec };
+  return (referenceFields[node.kind] ?? []).flatMap(({ field, kinds }) => {
+    const value = spec[field];
+    const references = Array.isArray(value) ? value : [value];
+    return references
+      .filter((reference): reference is string => typeof reference === 'string' && reference.length > 0)
+      .map((reference) => ({ field, reference, kinds }));
+  });
+}
+
+function findDuplicates(ids: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  ids.forEach((id) => {
+    if (seen.has(id)) {
+      duplicates.add(id);
+    }
+    seen.add(id);
+  });
+  return [...duplicates];
+}
+
+function isValidMultiplicity(multiplicity: string): boolean {
+  const match = multiplicityPattern.exec(multiplicity.trim());
+  if (!match) {
+    return false;
+  }
+  const [, lower, upper] = match;
+  if (upper === undefined) {
+    return true;
+  }
+  return lower !== '*' && (upper === '*' || Number(lower) <= Number(upper));
+}
+
+/**
+ * Find each elementary cycle once, reported from its first node in
+ * relationship order.
+ */
+function findCycles(relationships: SysMLRelationshipSpec[]): string[][] {
+  const graph = new Map<string, string[]>();
+  relationships.forEach(({ source, target }) => {
+    graph.set(source, [...(graph.get(source) ?? []), target]);
+  });
+
+  const cycles: string[][] = [];
+  const reported = new Set<string>();
+  const finished = new Set<string>();
+
+  const visit = (id: string, path: string[]) => {
+    const index = path.indexOf(id);
+    if (index !== -1) {
+      const cycle = path.slice(index);
+      const key = [...cycle].sort().join('\u0000');
+      if (!reported.has(key)) {
+        reported.add(key);
+        cycles.push(cycle);
+      }
+      return;
+    }
+    if (finished.has(id)) {
+      return;
+    }
+    path.push(id);
+    (graph.get(id) ?? []).forEach((target) => visit(target, path));
+    path.pop();
+    finished.add(id);
+  };
+
+  graph.forEach((_targets, id) => visit(id, []));
+  return cycles;
+}
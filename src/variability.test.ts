@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { createEdgesFromRelationships, createNodesFromSpecs } from './factories';
+import { parseSysML } from './parser';
+import {
+  attachConfiguration,
+  getVariationPoints,
+  resolveConfiguration,
+  SysMLConfigurationError
+} from './variability';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    {
+      kind: 'package',
+      spec: { id: 'vehicles', name: 'Vehicles', members: ['Vehicle', 'engine', 'v6', 'v8', 'Body', 'sedan', 'suv'] }
+    },
+    { kind: 'part-definition', spec: { id: 'Vehicle', name: 'Vehicle' } },
+    { kind: 'part-usage', spec: { id: 'engine', name: 'engine', isVariation: true } },
+    { kind: 'part-usage', spec: { id: 'v6', name: 'V6', parts: ['turbo'] } },
+    { kind: 'part-usage', spec: { id: 'turbo', name: 'turbo' } },
+    { kind: 'part-usage', spec: { id: 'v8', name: 'V8', ports: [{ name: 'intake' }] } },
+    { kind: 'part-definition', spec: { id: 'Body', name: 'Body', isVariation: true } },
+    { kind: 'part-definition', spec: { id: 'sedan', name: 'Sedan' } },
+    { kind: 'part-definition', spec: { id: 'suv', name: 'SUV' } }
+  ],
+  relationships: [
+    { id: 'm1', type: 'variant-membership', source: 'engine', target: 'v6' },
+    { id: 'm2', type: 'variant-membership', source: 'engine', target: 'v8' },
+    { id: 'm3', type: 'variant-membership', source: 'Body', target: 'sedan' },
+    { id: 'm4', type: 'variant-membership', source: 'Body', target: 'suv' },
+    { id: 'c1', type: 'composition', source: 'Vehicle', target: 'engine' },
+    { id: 'd1', type: 'dependency', source: 'suv', target: 'v8.intake' }
+  ]
+};
+
+const ids = (resolved: SysMLModel) => ({
+  nodes: resolved.nodes.map((node) => node.spec.id),
+  relationships: resolved.relationships.map((relationship) => relationship.id)
+});
+
+describe('Variability', () => {
+  it('should list variation points with their variants', () => {
+    expect(getVariationPoints(model)).toEqual([
+      {
+        id: 'engine',
+        name: 'engine',
+        variants: [
+          { id: 'v6', name: 'V6' },
+          { id: 'v8', name: 'V8' }
+        ]
+      },
+      {
+        id: 'Body',
+        name: 'Body',
+        variants: [
+          { id: 'sedan', name: 'Sedan' },
+          { id: 'suv', name: 'SUV' }
+        ]
+      }
+    ]);
+  });
+
+  it('should prune unselected variants, what they own and their relationships', () => {
+    const resolved = resolveConfiguration(model, { selections: { engine: 'V8' } });
+
+    expect(ids(resolved)).toEqual({
+      nodes: ['vehicles', 'Vehicle', 'engine', 'v8', 'Body', 'sedan', 'suv'],
+      relationships: ['m2', 'm3', 'm4', 'c1', 'd1']
+    });
+    expect(resolved.nodes[0].spec).toMatchObject({ members: ['Vehicle', 'engine', 'v8', 'Body', 'sedan', 'suv'] });
+    expect(resolved.nodes[2].spec).toEqual({ id: 'engine', name: 'engine' });
+    expect(getVariationPoints(resolved).map((point) => point.id)).toEqual(['Body']);
+  });
+
+  it('should drop relationships ending on ports of removed variants', () => {
+    const resolved = resolveConfiguration(model, { selections: { engine: 'v6', Body: 'SUV' } });
+
+    expect(ids(resolved)).toEqual({
+      nodes: ['vehicles', 'Vehicle', 'engine', 'v6', 'turbo', 'Body', 'suv'],
+      relationships: ['m1', 'm4', 'c1']
+    });
+    expect(getVariationPoints(resolved)).toEqual([]);
+  });
+
+  it('should drop removed variants from the substates and states of their owners', () => {
+    const resolved = resolveConfiguration(
+      {
+        nodes: [
+          { kind: 'part-usage', spec: { id: 'mode', name: 'mode', isVariation: true } },
+          { kind: 'state-usage', spec: { id: 'driving', name: 'driving', substates: ['eco', 'sport'] } },
+          { kind: 'state-usage', spec: { id: 'eco', name: 'eco' } },
+          { kind: 'state-usage', spec: { id: 'sport', name: 'sport' } },
+          {
+            kind: 'state-machine',
+            spec: { id: 'launch', name: 'Launch', states: [{ id: 'idle', name: 'idle' }, { id: 'boost', name: 'boost' }] }
+          }
+        ],
+        relationships: [
+          { id: 'm1', type: 'variant-membership', source: 'mode', target: 'eco' },
+          { id: 'm2', type: 'variant-membership', source: 'mode', target: 'sport' },
+          { id: 'm3', type: 'variant-membership', source: 'mode', target: 'boost' }
+        ]
+      },
+      { selections: { mode: 'eco' } }
+    );
+
+    expect(resolved.nodes.map((node) => node.spec)).toEqual([
+      { id: 'mode', name: 'mode' },
+      { id: 'driving', name: 'driving', substates: ['eco'] },
+      { id: 'eco', name: 'eco' },
+      { id: 'launch', name: 'Launch', states: [{ id: 'idle', name: 'idle' }] }
+    ]);
+  });
+
+  it('should reject unknown variation points and variants', () => {
+    expect(() => resolveConfiguration(model, { selections: { Wheels: 'alloy' } })).toThrow(
+      new SysMLConfigurationError("No variation point 'Wheels'")
+    );
+    expect(() => resolveConfiguration(model, { selections: { engine: 'sedan' } })).toThrow(
+      "'sedan' is not a variant of 'engine'"
+    );
+  });
+
+  it('should read variation points from the textual notation', () => {
+    const { model: parsed } = parseSysML(`
+      variation part def Body;
+      part def Sedan;
+      variant-membership from Body to Sedan;
+    `);
+
+    expect(getVariationPoints(parsed)).toEqual([{ id: 'Body', name: 'Body', variants: [{ id: 'Sedan', name: 'Sedan' }] }]);
+  });
+
+  it('should mark variation points and grey out unselected variants on the diagram', () => {
+    const { nodes, edges } = attachConfiguration(
+      createNodesFromSpecs(model.nodes),
+      createEdgesFromRelationships(model.relationships),
+      getVariationPoints(model),
+      { selections: { Body: 'sedan' } }
+    );
+    const byId = (id: string) => nodes.find((node) => node.id === id)!;
+
+    expect(byId('engine').data.variability).toEqual({ variation: 'unresolved' });
+    expect(byId('Body').data.variability).toEqual({ variation: 'resolved' });
+    expect(byId('sedan').data.variability).toEqual({ variant: 'selected' });
+    expect(byId('suv').data.variability).toEqual({ variant: 'unselected' });
+    expect(byId('suv').style).toMatchObject({ opacity: 0.35 });
+    expect(byId('v6').data.variability).toBeUndefined();
+    expect(edges.find((edge) => edge.id === 'm4')?.style).toEqual({ opacity: 0.35 });
+    expect(edges.find((edge) => edge.id === 'm3')?.style).toBeUndefined();
+  });
+});
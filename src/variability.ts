@@ -0,0 +1,205 @@
+import { getContainment } from './containment';
+import { resolvePortEndpoint } from './ports';
+import type {
+  SysMLEdgeData,
+  SysMLNodeSpec,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode,
+  SysMLVariabilityMarker
+} from './types';
+import type { SysMLModel } from './viewpoints';
+
+export interface SysMLVariant {
+  id: string;
+  name: string;
+}
+
+/** An element marked `variation` and the targets of its `variant-membership` relationships. */
+export interface SysMLVariationPoint {
+  id: string;
+  name: string;
+  variants: SysMLVariant[];
+}
+
+export interface SysMLConfiguration {
+  name?: string;
+  /** Selected variant by variation point; both are given by id or name. */
+  selections: Record<string, string>;
+}
+
+export class SysMLConfigurationError extends Error {}
+
+const nameOf = (node: SysMLNodeSpec) => ('name' in node.spec ? node.spec.name : node.spec.id);
+
+const isVariation = (node: SysMLNodeSpec) => 'isVariation' in node.spec && node.spec.isVariation === true;
+
+/** Variation points of a model, in declaration order, with their variants. */
+export const getVariationPoints = (model: SysMLModel): SysMLVariationPoint[] => {
+  const nodesById = new Map(model.nodes.map((node) => [node.spec.id, node]));
+  return model.nodes.filter(isVariation).map((node) => ({
+    id: node.spec.id,
+    name: nameOf(node),
+    variants: model.relationships
+      .filter((relationship) => relationship.type === 'variant-membership' && relationship.source === node.spec.id)
+      .map((relationship) => {
+        const variant = nodesById.get(relationship.target);
+        return { id: relationship.target, name: variant ? nameOf(variant) : relationship.target };
+      })
+  }));
+};
+
+/** Selected variant id by variation point id. */
+const selectVariants = (points: SysMLVariationPoint[], configuration: SysMLConfiguration) => {
+  const selected = new Map<string, string>();
+  Object.entries(configuration.selections).forEach(([key, choice]) => {
+    const point = points.find((candidate) => candidate.id === key) ?? points.find((candidate) => candidate.name === key);
+    if (!point) {
+      throw new SysMLConfigurationError(`No variation point '${key}'`);
+    }
+    const variant =
+      point.variants.find((candidate) => candidate.id === choice) ??
+      point.variants.find((candidate) => candidate.name === choice);
+    if (!variant) {
+      throw new SysMLConfigurationError(`'${choice}' is not a variant of '${point.name}'`);
+    }
+    selected.set(point.id, variant.id);
+  });
+  return selected;
+};
+
+const omitVariation = <Spec extends { isVariation?: boolean }>({ isVariation, ...spec }: Spec) => spec;
+
+const withoutVariation = (node: SysMLNodeSpec): SysMLNodeSpec => {
+  switch (node.kind) {
+    case 'part-definition':
+      return { kind: node.kind, spec: omitVariation(node.spec) };
+    case 'part-usage':
+      return { kind: node.kind, spec: omitVariation(node.spec) };
+    case 'action-definition':
+      return { kind: node.kind, spec: omitVariation(node.spec) };
+    case 'action-usage':
+      return { kind: node.kind, spec: omitVariation(node.spec) };
+    default:
+      return node;
+  }
+};
+
+// Drops removed elements from every owner list `getContainment` reads
+const withoutOwned = (node: SysMLNodeSpec, removed: Set<string>): SysMLNodeSpec => {
+  const keep = (id: string) => !removed.has(id);
+  switch (node.kind) {
+    case 'package':
+    case 'library-package':
+      return node.spec.members ? { ...node, spec: { ...node.spec, members: node.spec.members.filter(keep) } } : node;
+    case 'part-usage':
+      return node.spec.parts ? { ...node, spec: { ...node.spec, parts: node.spec.parts.filter(keep) } } : node;
+    case 'state-definition':
+    case 'state-usage':
+      return node.spec.substates ? { ...node, spec: { ...node.spec, substates: node.spec.substates.filter(keep) } } : node;
+    case 'state-machine':
+      return { ...node, spec: { ...node.spec, states: node.spec.states.filter((state) => keep(state.id)) } };
+    default:
+      return node;
+  }
+};
+
+/**
+ * Apply a configuration to a model: the variants a configuration does not
+ * select are removed with everything they own and every relationship that
+ * ends on them. Resolved variation points keep their `variant-membership`
+ * to the selected variant and are no longer marked `variation`; variation
+ * points without a selection are left as they are.
+ *
+ * @example
+ * ```typescript
+ * const sedan = resolveConfiguration(productLine, { selections: { Engine: 'v6', Body: 'sedan' } });
+ * ```
+ */
+export const resolveConfiguration = (model: SysMLModel, configuration: SysMLConfiguration): SysMLModel => {
+  const points = getVariationPoints(model);
+  const selected = selectVariants(points, configuration);
+
+  const removed = new Set(
+    points.flatMap((point) =>
+      selected.has(point.id)
+        ? point.variants.filter((variant) => variant.id !== selected.get(point.id)).map((variant) => variant.id)
+        : []
+    )
+  );
+  // Everything owned by a removed variant goes with it
+  const containment = getContainment(model);
+  const isRemoved = (id: string) => {
+    for (let current: string | undefined = id; current !== undefined; current = containment[current]) {
+      if (removed.has(current)) {
+        return true;
+      }
+    }
+    return false;
+  };
+  model.nodes.forEach((node) => {
+    if (isRemoved(node.spec.id)) {
+      removed.add(node.spec.id);
+    }
+  });
+
+  const nodeIds = new Set(model.nodes.map((node) => node.spec.id));
+  const keepsEnd = (endpoint: string) => !removed.has(resolvePortEndpoint(endpoint, (id) => nodeIds.has(id)).node);
+
+  return {
+    nodes: model.nodes
+      .filter((node) => !removed.has(node.spec.id))
+      .map((node) => withoutOwned(selected.has(node.spec.id) ? withoutVariation(node) : node, removed)),
+    relationships: model.relationships.filter(
+      (relationship) => keepsEnd(relationship.source) && keepsEnd(relationship.target)
+    )
+  };
+};
+
+const unselectedStyle = { opacity: 0.35, filter: 'grayscale(1)' };
+
+/**
+ * Show a configuration on a diagram: variation points are marked resolved or
+ * unresolved, and the variants it does not select are greyed out together
+ * with their `variant-membership` edges.
+ */
+export const attachConfiguration = (
+  nodes: SysMLReactFlowNode[],
+  edges: SysMLReactFlowEdge[],
+  variationPoints: SysMLVariationPoint[],
+  configuration: SysMLConfiguration
+): { nodes: SysMLReactFlowNode[]; edges: SysMLReactFlowEdge[] } => {
+  const selected = selectVariants(variationPoints, configuration);
+  const markers = new Map<string, SysMLVariabilityMarker>();
+  variationPoints.forEach((point) => {
+    const selection = selected.get(point.id);
+    markers.set(point.id, { ...markers.get(point.id), variation: selection ? 'resolved' : 'unresolved' });
+    if (selection) {
+      point.variants.forEach((variant) =>
+        markers.set(variant.id, {
+          ...markers.get(variant.id),
+          variant: variant.id === selection ? 'selected' : 'unselected'
+        })
+      );
+    }
+  });
+  const isUnselected = (id: string) => markers.get(id)?.variant === 'unselected';
+
+  return {
+    nodes: nodes.map((node) => {
+      const variability = markers.get(node.id);
+      if (!variability) {
+        return node;
+      }
+      return {
+        ...node,
+        data: { ...node.data, variability },
+        ...(isUnselected(node.id) && { style: { ...node.style, ...unselectedStyle } })
+      };
+    }),
+    edges: edges.map((edge) =>
+      (edge.data as SysMLEdgeData | undefined)?.kind === 'variant-membership' && isUnselected(edge.target)
+        ? { ...edge, style: { ...edge.style, opacity: unselectedStyle.opacity } }
+        : edge
+    )
+  };
+};
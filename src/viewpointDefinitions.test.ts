@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  loadViewpoint,
+  saveViewpoint,
+  sysmlViewpointSchema,
+  SysMLViewpointError,
+  validateViewpointDefinition,
+  type SysMLViewpointDefinition
+} from './viewpointDefinitions';
+import { realizeViewpoint, requirementViewpoint, sysmlViewpoints } from './viewpoints';
+import type { SysMLModel } from './viewpoints';
+
+const model: SysMLModel = {
+  nodes: [
+    { kind: 'requirement-usage', spec: { id: 'braking', name: 'Braking', status: 'approved' } },
+    { kind: 'requirement-usage', spec: { id: 'range', name: 'Range', status: 'draft' } },
+    { kind: 'part-definition', spec: { id: 'Brakes', name: 'Brakes', ports: [{ name: 'line' }] } },
+    { kind: 'part-definition', spec: { id: 'Battery', name: 'Battery' } },
+    { kind: 'part-definition', spec: { id: 'Pump', name: 'Pump' } }
+  ],
+  relationships: [
+    { id: 's1', type: 'satisfy', source: 'Brakes', target: 'braking' },
+    { id: 's2', type: 'satisfy', source: 'Battery', target: 'braking' },
+    { id: 'f1', type: 'flow-connection', source: 'Pump', target: 'Brakes.line' },
+    { id: 'f2', type: 'flow-connection', source: 'Battery', target: 'Pump' }
+  ]
+};
+
+const safetyViewpoint: SysMLViewpointDefinition = {
+  id: 'acme.safety',
+  name: 'Safety Viewpoint',
+  description: 'Approved requirements and the brake parts satisfying them.',
+  includeNodeKinds: ['requirement-usage', 'part-definition'],
+  includeEdgeKinds: ['satisfy', 'flow-connection'],
+  nodeFilter: 'status:approved or kind:part-definition',
+  relationshipFilter: { source: { type: 'name', pattern: 'B*' }, target: 'in:Nothing or id:braking,Brakes' },
+  layout: 'requirements',
+  style: {
+    nodes: { 'requirement-usage': { color: '#da1e28' } },
+    edges: { satisfy: { color: '#da1e28', opacity: 0.5 } }
+  },
+  stakeholders: ['Safety engineer'],
+  concerns: ['Is every safety requirement satisfied?']
+};
+
+describe('Viewpoint Definitions', () => {
+  it('should realize query filters like the equivalent filter functions', () => {
+    const view = realizeViewpoint(model, safetyViewpoint);
+
+    expect(view.nodes.map((node) => node.id)).toEqual(['braking', 'Brakes', 'Battery', 'Pump']);
+    expect(view.edges.map((edge) => edge.id)).toEqual(['s1', 's2']);
+    expect(
+      realizeViewpoint(model, {
+        ...safetyViewpoint,
+        nodeFilter: (spec) => spec.kind === 'part-definition' || spec.spec.id === 'braking',
+        relationshipFilter: (relationship) => relationship.target === 'braking'
+      }).edges.map((edge) => edge.id)
+    ).toEqual(['s1', 's2']);
+  });
+
+  it('should match relationships ending on a port through the part owning it', () => {
+    const view = realizeViewpoint(model, {
+      ...safetyViewpoint,
+      relationshipFilter: { target: 'id:Brakes' }
+    });
+
+    expect(view.edges.map((edge) => edge.id)).toEqual(['f1']);
+  });
+
+  it('should apply the style overrides of node and relationship kinds', () => {
+    const view = realizeViewpoint(model, safetyViewpoint);
+    const braking = view.nodes.find((node) => node.id === 'braking');
+    const brakes = view.nodes.find((node) => node.id === 'Brakes');
+
+    expect(braking?.data.accent).toBe('#da1e28');
+    expect(brakes?.data.accent).toBeUndefined();
+    expect(view.edges[0].data?.color).toBe('#da1e28');
+    expect(view.edges[0].style?.opacity).toBe(0.5);
+  });
+
+  it('should save and load definitions and the built-in viewpoints', () => {
+    expect(loadViewpoint(saveViewpoint(safetyViewpoint))).toEqual(safetyViewpoint);
+    Object.values(sysmlViewpoints).forEach((viewpoint) => {
+      expect(loadViewpoint(saveViewpoint(viewpoint))).toEqual(viewpoint);
+    });
+    expect(() => saveViewpoint({ ...requirementViewpoint, nodeFilter: () => true })).toThrow(
+      new SysMLViewpointError('Requirement Viewpoint filters with a function; use a query to save it')
+    );
+  });
+
+  it('should name the first problem of an invalid definition', () => {
+    const invalid = (changes: object) => () => validateViewpointDefinition({ ...safetyViewpoint, ...changes });
+
+    expect(invalid({ includeNodeKinds: ['part-usage', 'part'] })).toThrow(
+      'viewpoint.includeNodeKinds[1] cannot be "part"'
+    );
+    expect(invalid({ layout: 'grid' })).toThrow('viewpoint.layout cannot be "grid"');
+    expect(invalid({ nodeFilter: { type: 'kind', kinds: [] } })).toThrow('viewpoint.nodeFilter.kinds cannot be empty');
+    expect(invalid({ nodeFilter: { type: 'colour', value: 'red' } })).toThrow('viewpoint.nodeFilter is not a query');
+    expect(invalid({ relationshipFilter: { target: 'satisfy->(' } })).toThrow(
+      'viewpoint.relationshipFilter.target: Expected a condition but found end of query'
+    );
+    expect(invalid({ style: { edges: { satisfy: { color: 'red' } } } })).toThrow(
+      'viewpoint.style.edges.satisfy.color must match'
+    );
+    expect(invalid({ owner: 'Safety team' })).toThrow("viewpoint has unknown property 'owner'");
+    expect(() => validateViewpointDefinition({ id: 'empty' })).toThrow("viewpoint is missing 'name'");
+    expect(() => loadViewpoint('{ "id": ')).toThrow(/^Invalid JSON/);
+  });
+
+  it('should publish the kinds and layouts a definition can use', () => {
+    type PropertySchema = { items?: { enum: string[] }; enum?: string[] };
+    const properties = sysmlViewpointSchema.properties as Record<string, PropertySchema>;
+
+    expect(sysmlViewpointSchema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(properties.includeNodeKinds.items?.enum).toContain('requirement-usage');
+    expect(properties.includeEdgeKinds.items?.enum).toContain('satisfy');
+    expect(properties.layout.enum).toContain('stateMachine');
+    expect(JSON.parse(JSON.stringify(sysmlViewpointSchema))).toEqual(sysmlViewpointSchema);
+  });
+});
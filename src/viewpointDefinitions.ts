@@ -0,0 +1,316 @@
+import { recommendedLayoutNames } from './layoutNames';
+import { sysmlEdgeKinds, sysmlNodeSyntax } from './notation';
+import { resolvePortEndpoint } from './ports';
+import { parseQuery, runQuery, SysMLQueryError, type SysMLQuery } from './query';
+import type { SysMLModel, SysMLViewpoint } from './viewpoints';
+
+/**
+ * Relationships are kept when their source and target elements match the
+ * queries; relationships ending on a port match through the part owning it.
+ */
+export interface SysMLRelationshipFilter {
+  source?: SysMLQuery | string;
+  target?: SysMLQuery | string;
+}
+
+/**
+ * JSON-serializable form of a `SysMLViewpoint`: the filters are queries (see
+ * `parseQuery`) instead of functions, so definitions can be stored, shared
+ * between tools and checked against `sysmlViewpointSchema`.
+ */
+export interface SysMLViewpointDefinition extends Omit<SysMLViewpoint, 'nodeFilter' | 'relationshipFilter'> {
+  /** Elements of the included kinds must also match this query. */
+  nodeFilter?: SysMLQuery | string;
+  relationshipFilter?: SysMLRelationshipFilter;
+}
+
+export class SysMLViewpointError extends Error {}
+
+type JSONSchema = { [keyword: string]: unknown };
+
+const text = { type: 'string', minLength: 1 };
+const textList = { type: 'array', items: text };
+const nonEmptyTextList = { ...textList, minItems: 1 };
+const queryRef = { $ref: '#/$defs/query' };
+
+const queryForm = (type: SysMLQuery['type'], properties: Record<string, JSONSchema>, required: string[]) => ({
+  type: 'object',
+  properties: { type: { const: type }, ...properties },
+  required: ['type', ...required],
+  additionalProperties: false
+});
+
+const styleByKind = (kinds: string[]) => ({
+  type: 'object',
+  propertyNames: { enum: kinds },
+  additionalProperties: { $ref: '#/$defs/elementStyle' }
+});
+
+/** JSON Schema (draft 2020-12) of `SysMLViewpointDefinition`. */
+export const sysmlViewpointSchema: JSONSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'SysML viewpoint',
+  description: 'Node and relationship kinds, filters, layout and styling of the views of a SysML model.',
+  type: 'object',
+  properties: {
+    id: text,
+    name: text,
+    description: { type: 'string' },
+    includeNodeKinds: { type: 'array', items: { enum: Object.keys(sysmlNodeSyntax) } },
+    includeEdgeKinds: { type: 'array', items: { enum: sysmlEdgeKinds } },
+    nodeFilter: queryRef,
+    relationshipFilter: {
+      type: 'object',
+      properties: { source: queryRef, target: queryRef },
+      additionalProperties: false
+    },
+    portDisplay: { enum: ['compartment', 'boundary'] },
+    layout: { enum: recommendedLayoutNames },
+    style: {
+      type: 'object',
+      properties: { nodes: styleByKind(Object.keys(sysmlNodeSyntax)), edges: styleByKind(sysmlEdgeKinds) },
+      additionalProperties: false
+    },
+    stakeholders: textList,
+    concerns: textList
+  },
+  required: ['id', 'name', 'description', 'includeNodeKinds'],
+  additionalProperties: false,
+  $defs: {
+    elementStyle: {
+      type: 'object',
+      properties: {
+        color: { type: 'string', pattern: '^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$' },
+        opacity: { type: 'number', minimum: 0, maximum: 1 }
+      },
+      additionalProperties: false
+    },
+    query: {
+      description: 'A query as data, or in its text form such as `kind:part-* satisfy->(in:Requirements)`.',
+      oneOf: [
+        text,
+        queryForm('kind', { kinds: nonEmptyTextList }, ['kinds']),
+        queryForm('stereotype', { value: text }, ['value']),
+        queryForm('tag', { key: text, value: text }, ['key']),
+        queryForm('status', { value: text }, ['value']),
+        queryForm('name', { pattern: text }, ['pattern']),
+        queryForm('id', { ids: nonEmptyTextList }, ['ids']),
+        queryForm('in', { owner: text }, ['owner']),
+        queryForm(
+          'related',
+          {
+            kinds: nonEmptyTextList,
+            direction: { enum: ['out', 'in', 'both'] },
+            hops: { type: 'integer', minimum: 1 },
+            target: queryRef
+          },
+          ['direction', 'target']
+        ),
+        queryForm('and', { queries: { type: 'array', items: queryRef, minItems: 1 } }, ['queries']),
+        queryForm('or', { queries: { type: 'array', items: queryRef, minItems: 1 } }, ['queries']),
+        queryForm('not', { query: queryRef }, ['query'])
+      ]
+    }
+  }
+};
+
+const typeNames: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  array: 'an array',
+  object: 'an object'
+};
+
+const hasType = (value: unknown, type: unknown) => {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+const resolve = (schema: JSONSchema): JSONSchema => {
+  if (typeof schema.$ref !== 'string') {
+    return schema;
+  }
+  const defs = sysmlViewpointSchema.$defs as Record<string, JSONSchema>;
+  return defs[schema.$ref.replace('#/$defs/', '')];
+};
+
+// The first problem of a value against the subset of JSON Schema used by
+// `sysmlViewpointSchema`, or undefined when there is none
+const check = (value: unknown, schemaOrRef: JSONSchema, path: string): string | undefined => {
+  const schema = resolve(schemaOrRef);
+  if (Array.isArray(schema.oneOf)) {
+    const forms = schema.oneOf as JSONSchema[];
+    // Forms of an object are told apart by their `type` property
+    const type = hasType(value, 'object') ? (value as { type?: unknown }).type : undefined;
+    const form = forms.find((candidate) =>
+      type === undefined
+        ? hasType(value, candidate.type)
+        : (candidate.properties as Record<string, JSONSchema> | undefined)?.type?.const === type
+    );
+    // Only queries have alternative forms
+    return form ? check(value, form, path) : `${path} is not a query`;
+  }
+  if (schema.type !== undefined && !hasType(value, schema.type)) {
+    return `${path} must be ${typeNames[schema.type as string]}`;
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    return `${path} must be ${JSON.stringify(schema.const)}`;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return `${path} cannot be ${JSON.stringify(value)}`;
+  }
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      return `${path} cannot be empty`;
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      return `${path} must match ${schema.pattern}`;
+    }
+  }
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      return `${path} must be at least ${schema.minimum}`;
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      return `${path} must be at most ${schema.maximum}`;
+    }
+  }
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      return `${path} cannot be empty`;
+    }
+    const items = schema.items as JSONSchema | undefined;
+    for (let index = 0; items && index < value.length; index += 1) {
+      const problem = check(value[index], items, `${path}[${index}]`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+  if (hasType(value, 'object')) {
+    // Undefined properties are left out of JSON
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, entry]) => entry !== undefined);
+    const properties = (schema.properties ?? {}) as Record<string, JSONSchema>;
+    const missing = ((schema.required ?? []) as string[]).find((key) => !entries.some(([name]) => name === key));
+    if (missing) {
+      return `${path} is missing '${missing}'`;
+    }
+    for (const [key, entry] of entries) {
+      const names = schema.propertyNames as JSONSchema | undefined;
+      const keyProblem = names && check(key, names, `${path} key`);
+      if (keyProblem) {
+        return keyProblem;
+      }
+      const entrySchema = Object.prototype.hasOwnProperty.call(properties, key)
+        ? properties[key]
+        : (schema.additionalProperties as JSONSchema | false | undefined);
+      if (entrySchema === false) {
+        return `${path} has unknown property '${key}'`;
+      }
+      const problem = entrySchema && check(entry, entrySchema, `${path}.${key}`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+  return undefined;
+};
+
+const checkQuerySyntax = (query: SysMLQuery | string | undefined, path: string) => {
+  if (typeof query !== 'string') {
+    return;
+  }
+  try {
+    parseQuery(query);
+  } catch (failure) {
+    if (failure instanceof SysMLQueryError) {
+      throw new SysMLViewpointError(`${path}: ${failure.message}`);
+    }
+    throw failure;
+  }
+};
+
+/**
+ * Check a value against `sysmlViewpointSchema`, including the syntax of
+ * queries given as text.
+ *
+ * @throws SysMLViewpointError naming the first problem and where it is,
+ * e.g. `viewpoint.includeNodeKinds[1] cannot be "part"`
+ */
+export const validateViewpointDefinition = (value: unknown): SysMLViewpointDefinition => {
+  const problem = check(value, sysmlViewpointSchema, 'viewpoint');
+  if (problem) {
+    throw new SysMLViewpointError(problem);
+  }
+  const definition = value as SysMLViewpointDefinition;
+  checkQuerySyntax(definition.nodeFilter, 'viewpoint.nodeFilter');
+  checkQuerySyntax(definition.relationshipFilter?.source, 'viewpoint.relationshipFilter.source');
+  checkQuerySyntax(definition.relationshipFilter?.target, 'viewpoint.relationshipFilter.target');
+  return definition;
+};
+
+/** Read a viewpoint definition from JSON text, such as one written by `saveViewpoint`. */
+export const loadViewpoint = (json: string): SysMLViewpointDefinition => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (failure) {
+    throw new SysMLViewpointError(`Invalid JSON: ${(failure as Error).message}`);
+  }
+  return validateViewpointDefinition(value);
+};
+
+/**
+ * Write a viewpoint as JSON text. Viewpoints filtering with functions cannot
+ * be saved; give their filters as queries instead.
+ */
+export const saveViewpoint = (viewpoint: SysMLViewpoint | SysMLViewpointDefinition): string => {
+  if (typeof viewpoint.nodeFilter === 'function' || typeof viewpoint.relationshipFilter === 'function') {
+    throw new SysMLViewpointError(`${viewpoint.name} filters with a function; use a query to save it`);
+  }
+  return JSON.stringify(validateViewpointDefinition(viewpoint), null, 2);
+};
+
+/**
+ * The function-based form of a viewpoint: query filters of a definition
+ * become filters selecting what the queries match in the model.
+ */
+export const compileViewpoint = (
+  model: SysMLModel,
+  viewpoint: SysMLViewpoint | SysMLViewpointDefinition
+): SysMLViewpoint => {
+  const { nodeFilter, relationshipFilter, ...rest } = viewpoint;
+  const ids = new Set(model.nodes.map((node) => node.spec.id));
+  const selects = (query: SysMLQuery | string | undefined) => {
+    if (query === undefined) {
+      return () => true;
+    }
+    const selected = new Set(runQuery(model, query));
+    return (endpoint: string) => selected.has(resolvePortEndpoint(endpoint, (id) => ids.has(id)).node);
+  };
+
+  const compiled: SysMLViewpoint = { ...rest };
+  if (typeof nodeFilter === 'function') {
+    compiled.nodeFilter = nodeFilter;
+  } else if (nodeFilter !== undefined) {
+    const isSelected = selects(nodeFilter);
+    compiled.nodeFilter = (spec) => isSelected(spec.spec.id);
+  }
+  if (typeof relationshipFilter === 'function') {
+    compiled.relationshipFilter = relationshipFilter;
+  } else if (relationshipFilter !== undefined) {
+    const isSource = selects(relationshipFilter.source);
+    const isTarget = selects(relationshipFilter.target);
+    compiled.relationshipFilter = (relationship) => isSource(relationship.source) && isTarget(relationship.target);
+  }
+  return compiled;
+};
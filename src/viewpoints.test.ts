@@ -8,7 +8,8 @@ import {
   stateViewpoint,
   requirementViewpoint
 } from './viewpoints';
-import type { SysMLModel } from './viewpoints';
+import type { SysMLNodeKind } from './types';
+import type { SysMLModel, SysMLViewpoint } from './viewpoints';
 
 describe('Viewpoints', () => {
   const sampleModel: SysMLModel = {
@@ -94,6 +95,12 @@ describe('Viewpoints', () => {
     ]
   };
 
+  // Relationships are only shown when both ends are: also show the kinds at their other end
+  const withEndKinds = (viewpoint: SysMLViewpoint, ...kinds: SysMLNodeKind[]): SysMLViewpoint => ({
+    ...viewpoint,
+    includeNodeKinds: [...viewpoint.includeNodeKinds, ...kinds]
+  });
+
   describe('Structural Definition Viewpoint', () => {
     it('should filter nodes to include only structural definitions', () => {
       const view = realizeViewpoint(sampleModel, structuralDefinitionViewpoint);
@@ -107,10 +114,11 @@ describe('Viewpoints', () => {
     });
 
     it('should filter edges to include only definition relationships', () => {
-      const view = realizeViewpoint(sampleModel, structuralDefinitionViewpoint);
+      const view = realizeViewpoint(sampleModel, withEndKinds(structuralDefinitionViewpoint, 'part-usage'));
 
       const edgeTypes = view.edges.map(e => e.data?.kind);
       expect(edgeTypes).toContain('definition');
+      expect(edgeTypes).not.toContain('allocate');
       expect(edgeTypes).not.toContain('control-flow');
       expect(edgeTypes).not.toContain('message');
     });
@@ -128,7 +136,7 @@ describe('Viewpoints', () => {
     });
 
     it('should filter edges for usage relationships', () => {
-      const view = realizeViewpoint(sampleModel, usageStructureViewpoint);
+      const view = realizeViewpoint(sampleModel, withEndKinds(usageStructureViewpoint, 'part-definition'));
 
       const edgeTypes = view.edges.map(e => e.data?.kind);
       expect(edgeTypes).toContain('definition');
@@ -204,7 +212,7 @@ describe('Viewpoints', () => {
     });
 
     it('should filter edges for requirement relationships', () => {
-      const view = realizeViewpoint(sampleModel, requirementViewpoint);
+      const view = realizeViewpoint(sampleModel, withEndKinds(requirementViewpoint, 'part-definition'));
 
       const edgeTypes = view.edges.map(e => e.data?.kind);
       expect(edgeTypes).toContain('satisfy');
@@ -212,6 +220,93 @@ describe('Viewpoints', () => {
     });
   });
 
+  describe('Context Expansion', () => {
+    const chainModel: SysMLModel = {
+      nodes: [
+        { kind: 'part-usage', spec: { id: 'brakes', name: 'brakes' } },
+        { kind: 'action-usage', spec: { id: 'clamp', name: 'clamp' } },
+        { kind: 'action-usage', spec: { id: 'release', name: 'release' } },
+        { kind: 'requirement-usage', spec: { id: 'stop', name: 'Stop' } },
+        { kind: 'requirement-usage', spec: { id: 'park', name: 'Park' } }
+      ],
+      relationships: [
+        { id: 'p1', type: 'allocate', source: 'brakes', target: 'clamp' },
+        { id: 's1', type: 'satisfy', source: 'clamp', target: 'stop' },
+        { id: 'p2', type: 'allocate', source: 'clamp', target: 'release' },
+        { id: 's2', type: 'satisfy', source: 'release', target: 'park' }
+      ]
+    };
+    const partsAndRequirements = {
+      ...requirementViewpoint,
+      includeNodeKinds: ['part-usage' as const, 'requirement-usage' as const],
+      includeEdgeKinds: [...(requirementViewpoint.includeEdgeKinds ?? []), 'allocate' as const]
+    };
+
+    it('should leave out relationships with an end outside the view', () => {
+      const view = realizeViewpoint(sampleModel, usageStructureViewpoint);
+      const ids = new Set(view.nodes.map((node) => node.id));
+
+      expect(view.edges.map((edge) => edge.id)).toEqual(['rel-3']);
+      expect(view.edges.every((edge) => ids.has(edge.source) && ids.has(edge.target))).toBe(true);
+      expect(realizeViewpoint(sampleModel, requirementViewpoint).edges).toEqual([]);
+    });
+
+    it('should add greyed out neighbors up to the given number of hops', () => {
+      const view = realizeViewpoint(chainModel, { ...behaviorControlViewpoint, includeEdgeKinds: ['allocate'] }, {
+        contextHops: 1
+      });
+
+      expect(view.nodes.map((node) => [node.id, node.data.context ?? false])).toEqual([
+        ['clamp', false],
+        ['release', false],
+        ['brakes', true]
+      ]);
+      expect(view.nodes[2].style).toEqual({ opacity: 0.45, filter: 'grayscale(1)' });
+      expect(view.edges.map((edge) => edge.id)).toEqual(['p1', 'p2']);
+      expect(
+        realizeViewpoint(chainModel, requirementViewpoint, { contextHops: 2 }).nodes.map((node) => node.id)
+      ).toEqual(['stop', 'park', 'clamp', 'release']);
+    });
+
+    it('should derive edges through elements left out of the view', () => {
+      const view = realizeViewpoint(chainModel, partsAndRequirements, { derivedEdgeDepth: 1 });
+
+      expect(view.edges).toHaveLength(1);
+      expect(view.edges[0]).toMatchObject({
+        id: 'derived:brakes->stop',
+        source: 'brakes',
+        target: 'stop',
+        data: { kind: 'dependency', label: 'via clamp', derived: { via: ['clamp'] } }
+      });
+      expect(
+        realizeViewpoint(chainModel, partsAndRequirements, { derivedEdgeDepth: 2 }).edges.map((edge) => edge.id)
+      ).toEqual(['derived:brakes->stop', 'derived:brakes->park']);
+      expect(realizeViewpoint(chainModel, partsAndRequirements).edges).toEqual([]);
+    });
+
+    it('should derive edges only along the relationship kinds of the viewpoint', () => {
+      const allocations = { ...partsAndRequirements, includeEdgeKinds: ['allocate' as const] };
+
+      expect(realizeViewpoint(chainModel, allocations, { derivedEdgeDepth: 2 }).edges).toEqual([]);
+    });
+
+    it('should derive one edge between elements joined both ways round', () => {
+      // brakes reaches stop through clamp, and stop reaches brakes through release
+      const loop = [
+        ...chainModel.relationships.slice(0, 2),
+        { id: 'r1', type: 'refine' as const, source: 'stop', target: 'release' },
+        { id: 'p3', type: 'allocate' as const, source: 'release', target: 'brakes' }
+      ];
+      const derivedIds = (relationships: SysMLModel['relationships']) =>
+        realizeViewpoint({ ...chainModel, relationships }, partsAndRequirements, { derivedEdgeDepth: 1 }).edges.map(
+          (edge) => edge.id
+        );
+
+      expect(derivedIds(loop)).toEqual(['derived:brakes->stop']);
+      expect(derivedIds([...loop, { id: 'd1', type: 'dependency', source: 'stop', target: 'brakes' }])).toEqual(['d1']);
+    });
+  });
+
   describe('Custom Positions', () => {
     it('should apply custom positions to materialized nodes', () => {
       const positions = {
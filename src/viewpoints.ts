@@ -4,9 +4,15 @@ import type {
   SysMLEdgeKind,
   SysMLNodeKind,
   SysMLNodeSpec,
+  SysMLReactFlowEdge,
+  SysMLReactFlowNode,
   SysMLRelationshipSpec
 } from './types';
-import { createEdgesFromRelationships, createNodesFromSpecs } from './factories';
+import { collapseContainers, getContainment, nestNodes } from './containment';
+import { createEdgesFromRelationships, createNodesFromSpecs, createRelationshipEdge } from './factories';
+import { attachEdgesToPorts, getConnectorRelationships, placePortsOnBoundary, resolvePortEndpoint } from './ports';
+import { compileViewpoint, type SysMLViewpointDefinition } from './viewpointDefinitions';
+import type { recommendedLayouts } from './layout';
 
 export interface SysMLModel {
   nodes: SysMLNodeSpec[];
@@ -21,35 +27,257 @@ export interface SysMLViewpoint {
   includeEdgeKinds?: SysMLEdgeKind[];
   nodeFilter?: (spec: SysMLNodeSpec) => boolean;
   relationshipFilter?: (relationship: SysMLRelationshipSpec) => boolean;
+  /**
+   * `boundary` draws ports as squares on the node border and interface and
+   * connection usages as connectors between their ends (default `compartment`).
+   */
+  portDisplay?: 'compartment' | 'boundary';
+  /** Recommended layout for views of the viewpoint (see `recommendedLayouts`). */
+  layout?: keyof typeof recommendedLayouts;
+  style?: SysMLViewStyle;
+  /** Who the viewpoint is meant for, e.g. `Safety engineer`. */
+  stakeholders?: string[];
+  /** The questions it answers, e.g. `Is every hazard mitigated?`. */
+  concerns?: string[];
+}
+
+/** Appearance overrides of one node or relationship kind. */
+export interface SysMLElementStyle {
+  /** Accent color of nodes and stroke color of relationships, as `#rgb` or `#rrggbb`. */
+  color?: string;
+  opacity?: number;
+}
+
+/** Appearance overrides of a viewpoint, by node and relationship kind. */
+export interface SysMLViewStyle {
+  nodes?: Partial<Record<SysMLNodeKind, SysMLElementStyle>>;
+  edges?: Partial<Record<SysMLEdgeKind, SysMLElementStyle>>;
 }
 
 export interface ViewMaterializationOptions {
+  /** Node positions; relative to the owner for nested nodes. */
   positions?: Record<string, Partial<XYPosition>>;
+  /**
+   * Render package members, parts, substates and state machine states inside
+   * their owner (see `nestNodes`) instead of as compartment lists.
+   */
+  nested?: boolean;
+  /** Containers to render collapsed when `nested`. */
+  collapsed?: string[];
+  /**
+   * Also show the elements up to this many of the viewpoint's relationships
+   * away from its elements, greyed out as context (default 0).
+   */
+  contextHops?: number;
+  /**
+   * Join shown elements related through up to this many elements left out
+   * of the view by derived edges, e.g. a part and the requirement satisfied
+   * by an action it performs (default 0, none). Chains only follow the
+   * relationships the viewpoint includes, and two elements are joined by at
+   * most one edge, whichever way their chains run.
+   */
+  derivedEdgeDepth?: number;
 }
 
+const withOverrides = <T extends { style?: object }>(element: T, override: SysMLElementStyle | undefined) =>
+  override?.opacity === undefined ? element : { ...element, style: { ...element.style, opacity: override.opacity } };
+
+const applyViewStyle = (nodes: SysMLReactFlowNode[], edges: SysMLReactFlowEdge[], style: SysMLViewStyle) => ({
+  nodes: nodes.map((node) => {
+    const override = style.nodes?.[node.data.kind];
+    const accented = override?.color ? { ...node, data: { ...node.data, accent: override.color } } : node;
+    return withOverrides(accented, override);
+  }),
+  edges: edges.map((edge) => {
+    const override = edge.data && style.edges?.[edge.data.kind];
+    const colored = edge.data && override?.color ? { ...edge, data: { ...edge.data, color: override.color } } : edge;
+    return withOverrides(colored, override);
+  })
+});
+
+const contextStyle = { opacity: 0.45, filter: 'grayscale(1)' };
+
+const nameOf = (spec: SysMLNodeSpec) => ('name' in spec.spec ? spec.spec.name : spec.spec.id);
+
+// Elements up to `hops` relationships away from the shown ones, in model order
+const getContextSpecs = (
+  model: SysMLModel,
+  shown: Set<string>,
+  links: Array<{ source: string; target: string }>,
+  hops: number
+) => {
+  const reached = new Set(shown);
+  let frontier = shown;
+  for (let hop = 0; hop < hops && frontier.size > 0; hop += 1) {
+    const next = new Set<string>();
+    links.forEach(({ source, target }) => {
+      if (frontier.has(source) && !reached.has(target)) {
+        next.add(target);
+      }
+      if (frontier.has(target) && !reached.has(source)) {
+        next.add(source);
+      }
+    });
+    next.forEach((id) => reached.add(id));
+    frontier = next;
+  }
+  return model.nodes.filter((spec) => reached.has(spec.spec.id) && !shown.has(spec.spec.id));
+};
+
+// Elements related either way round share a key
+const pairKey = (a: string, b: string) => (a < b ? `${a}<->${b}` : `${b}<->${a}`);
+
+// Shortest chains along `relationships` from each shown element through at
+// most `depth` hidden elements to another shown element it is not already
+// related to
+const getDerivedRelationships = (
+  model: SysMLModel,
+  relationships: SysMLRelationshipSpec[],
+  shown: Set<string>,
+  hidden: Set<string>,
+  related: Set<string>,
+  depth: number,
+  endpoint: (value: string) => string
+) => {
+  const outgoing = new Map<string, string[]>();
+  relationships.forEach((relationship) => {
+    const source = endpoint(relationship.source);
+    outgoing.set(source, [...(outgoing.get(source) ?? []), endpoint(relationship.target)]);
+  });
+  const names = new Map(model.nodes.map((spec) => [spec.spec.id, nameOf(spec)]));
+
+  const derived: Array<{ relationship: SysMLRelationshipSpec; via: string[] }> = [];
+  shown.forEach((start) => {
+    const visited = new Set([start]);
+    let paths = [[start]];
+    while (paths.length > 0) {
+      const next: string[][] = [];
+      paths.forEach((path) => {
+        (outgoing.get(path[path.length - 1]) ?? []).forEach((target) => {
+          const key = pairKey(start, target);
+          if (path.length > 1 && shown.has(target) && target !== start && !related.has(key)) {
+            const via = path.slice(1);
+            related.add(key);
+            derived.push({
+              relationship: {
+                id: `derived:${start}->${target}`,
+                type: 'dependency',
+                source: start,
+                target,
+                label: `via ${via.map((id) => names.get(id) ?? id).join(', ')}`
+              },
+              via
+            });
+          } else if (hidden.has(target) && !visited.has(target) && path.length <= depth) {
+            visited.add(target);
+            next.push([...path, target]);
+          }
+        });
+      });
+      paths = next;
+    }
+  });
+  return derived;
+};
+
+/**
+ * Nodes and edges of a model shown by a viewpoint. The viewpoint is given
+ * with function filters or as a serializable definition with query filters
+ * (see `SysMLViewpointDefinition`).
+ */
 export const realizeViewpoint = (
   model: SysMLModel,
-  viewpoint: SysMLViewpoint,
+  definition: SysMLViewpoint | SysMLViewpointDefinition,
   options?: ViewMaterializationOptions
 ) => {
-  const nodes = createNodesFromSpecs(
-    model.nodes.filter(
-      (spec) =>
-        viewpoint.includeNodeKinds.includes(spec.kind) &&
-        (viewpoint.nodeFilter ? viewpoint.nodeFilter(spec) : true)
-    ),
-    options?.positions ?? {}
+  const viewpoint = compileViewpoint(model, definition);
+  const specs = model.nodes.filter(
+    (spec) =>
+      viewpoint.includeNodeKinds.includes(spec.kind) &&
+      (viewpoint.nodeFilter ? viewpoint.nodeFilter(spec) : true)
   );
 
-  const edges = createEdgesFromRelationships(
-    model.relationships.filter((relationship) => {
-      const kindIncluded = viewpoint.includeEdgeKinds
-        ? viewpoint.includeEdgeKinds.includes(relationship.type)
-        : true;
-      const passesFilter = viewpoint.relationshipFilter ? viewpoint.relationshipFilter(relationship) : true;
-      return kindIncluded && passesFilter;
-    })
+  if (options?.nested && viewpoint.includeNodeKinds.includes('state')) {
+    // States declared inline in a state machine become nodes of their own
+    const ids = new Set(model.nodes.map((spec) => spec.spec.id));
+    specs.forEach((spec) => {
+      if (spec.kind === 'state-machine') {
+        spec.spec.states
+          .filter((state) => !ids.has(state.id))
+          .forEach((state) => specs.push({ kind: 'state', spec: state }));
+      }
+    });
+  }
+
+  const modelIds = new Set(model.nodes.map((spec) => spec.spec.id));
+  const endpoint = (value: string) => resolvePortEndpoint(value, (id) => modelIds.has(id)).node;
+  const relationships = model.relationships.filter((relationship) => {
+    const kindIncluded = viewpoint.includeEdgeKinds
+      ? viewpoint.includeEdgeKinds.includes(relationship.type)
+      : true;
+    const passesFilter = viewpoint.relationshipFilter ? viewpoint.relationshipFilter(relationship) : true;
+    return kindIncluded && passesFilter;
+  });
+
+  const contextSpecs = options?.contextHops
+    ? getContextSpecs(
+        model,
+        new Set(specs.map((spec) => spec.spec.id)),
+        relationships.map((relationship) => ({
+          source: endpoint(relationship.source),
+          target: endpoint(relationship.target)
+        })),
+        options.contextHops
+      )
+    : [];
+  const contextIds = new Set(contextSpecs.map((spec) => spec.spec.id));
+  specs.push(...contextSpecs);
+  const specIds = new Set(specs.map((spec) => spec.spec.id));
+
+  const boundaryPorts = viewpoint.portDisplay === 'boundary';
+  // Interface and connection usages joining two ends are drawn as connectors
+  const connectors = boundaryPorts ? getConnectorRelationships(specs) : [];
+  const connectorIds = new Set(connectors.map((connector) => connector.id));
+  const nodeSpecs = specs.filter((spec) => !connectorIds.has(spec.spec.id));
+
+  const createdNodes = createNodesFromSpecs(nodeSpecs, options?.positions ?? {}).map((node) =>
+    contextIds.has(node.id)
+      ? { ...node, data: { ...node.data, context: true }, style: { ...node.style, ...contextStyle } }
+      : node
   );
+  const placedNodes = boundaryPorts ? placePortsOnBoundary(createdNodes) : createdNodes;
+  const shown = new Set(placedNodes.map((node) => node.id));
+
+  // Relationships with an end outside the view are left out
+  const attachedEdges = attachEdgesToPorts(placedNodes, createEdgesFromRelationships([...relationships, ...connectors]))
+    .filter((edge) => shown.has(edge.source) && shown.has(edge.target));
+
+  const derived = options?.derivedEdgeDepth
+    ? getDerivedRelationships(
+        model,
+        relationships,
+        shown,
+        new Set(Array.from(modelIds).filter((id) => !specIds.has(id))),
+        new Set(attachedEdges.map((edge) => pairKey(edge.source, edge.target))),
+        options.derivedEdgeDepth,
+        endpoint
+      )
+    : [];
+  const placedEdges = [
+    ...attachedEdges,
+    ...derived.map(({ relationship, via }) => {
+      const edge = createRelationshipEdge(relationship);
+      return { ...edge, data: { kind: relationship.type, ...edge.data, derived: { via } } };
+    })
+  ];
+  const { nodes, edges } = viewpoint.style
+    ? applyViewStyle(placedNodes, placedEdges, viewpoint.style)
+    : { nodes: placedNodes, edges: placedEdges };
+
+  if (options?.nested) {
+    const nestedNodes = nestNodes(nodes, getContainment({ nodes: nodeSpecs }), { positions: options.positions });
+    return collapseContainers(nestedNodes, edges, options.collapsed ?? []);
+  }
 
   return { nodes, edges };
 };
@@ -69,7 +297,8 @@ export const structuralDefinitionViewpoint: SysMLViewpoint = {
     'constraint-definition',
     'calculation-definition'
   ],
-  includeEdgeKinds: ['specialization', 'definition', 'dependency', 'flow-connection']
+  includeEdgeKinds: ['specialization', 'definition', 'dependency', 'flow-connection'],
+  layout: 'bdd'
 };
 
 export const usageStructureViewpoint: SysMLViewpoint = {
@@ -77,7 +306,19 @@ export const usageStructureViewpoint: SysMLViewpoint = {
   name: 'Usage Structure Viewpoint',
   description: 'Shows part, port, action, and item usages mapped back to their definitions.',
   includeNodeKinds: ['part-usage', 'port-usage', 'action-usage', 'item-usage'],
-  includeEdgeKinds: ['definition', 'dependency', 'allocate', 'action-flow', 'flow-connection']
+  includeEdgeKinds: ['definition', 'dependency', 'allocate', 'action-flow', 'flow-connection'],
+  layout: 'bdd'
+};
+
+export const internalBlockViewpoint: SysMLViewpoint = {
+  id: 'sysml.internalBlock',
+  name: 'Internal Block Viewpoint',
+  description:
+    'Parts with their ports on the part boundary, joined by interface and connection usages, binding connectors and flows.',
+  includeNodeKinds: ['part-usage', 'interface-usage', 'connection-usage', 'item-usage'],
+  includeEdgeKinds: ['binding-connector', 'connector-as-usage', 'flow-connection', 'item-flow'],
+  portDisplay: 'boundary',
+  layout: 'ibd'
 };
 
 export const behaviorControlViewpoint: SysMLViewpoint = {
@@ -85,23 +326,34 @@ export const behaviorControlViewpoint: SysMLViewpoint = {
   name: 'Behavior & Control Viewpoint',
   description: 'Captures actions and control nodes with their control and action flows.',
   includeNodeKinds: ['action-definition', 'action-usage', 'activity-control', 'perform-action'],
-  includeEdgeKinds: ['control-flow', 'action-flow', 'dependency']
+  includeEdgeKinds: ['control-flow', 'action-flow', 'dependency'],
+  layout: 'activity'
 };
 
 export const interactionViewpoint: SysMLViewpoint = {
   id: 'sysml.interaction',
   name: 'Interaction Viewpoint',
-  description: 'Sequence lifelines and messages for interaction scenarios.',
-  includeNodeKinds: ['sequence-lifeline', 'interaction'],
-  includeEdgeKinds: ['message', 'succession']
+  description: 'Sequence lifelines, messages and combined fragments for interaction scenarios.',
+  includeNodeKinds: ['sequence-lifeline', 'sequence-fragment', 'interaction'],
+  includeEdgeKinds: ['message', 'succession'],
+  layout: 'sequence'
 };
 
 export const stateViewpoint: SysMLViewpoint = {
   id: 'sysml.state',
   name: 'State Viewpoint',
   description: 'State machines, states, and transitions as described in SysML v2 Module 5.',
-  includeNodeKinds: ['state-machine', 'state', 'state-definition', 'state-usage', 'transition-usage', 'exhibit-state'],
-  includeEdgeKinds: ['transition', 'succession', 'succession-as-usage']
+  includeNodeKinds: [
+    'state-machine',
+    'state',
+    'state-definition',
+    'state-usage',
+    'pseudo-state',
+    'transition-usage',
+    'exhibit-state'
+  ],
+  includeEdgeKinds: ['transition', 'succession', 'succession-as-usage'],
+  layout: 'stateMachine'
 };
 
 export const requirementViewpoint: SysMLViewpoint = {
@@ -113,7 +365,8 @@ export const requirementViewpoint: SysMLViewpoint = {
     'constraint-definition', 'constraint-usage',
     'concern-definition', 'concern-usage'
   ],
-  includeEdgeKinds: ['satisfy', 'refine', 'verify', 'dependency', 'composition', 'specialization']
+  includeEdgeKinds: ['satisfy', 'refine', 'verify', 'dependency', 'composition', 'specialization'],
+  layout: 'requirements'
 };
 
 export const useCaseViewpoint: SysMLViewpoint = {
@@ -121,7 +374,8 @@ export const useCaseViewpoint: SysMLViewpoint = {
   name: 'Use Case Viewpoint',
   description: 'Use case definitions and usages with include/extend relationships.',
   includeNodeKinds: ['use-case-definition', 'use-case-usage', 'part-usage'],
-  includeEdgeKinds: ['include', 'extend', 'association', 'dependency']
+  includeEdgeKinds: ['include', 'extend', 'association', 'dependency'],
+  layout: 'useCase'
 };
 
 export const verificationViewpoint: SysMLViewpoint = {
@@ -133,12 +387,14 @@ export const verificationViewpoint: SysMLViewpoint = {
     'analysis-case-definition', 'analysis-case-usage',
     'requirement-definition', 'requirement-usage'
   ],
-  includeEdgeKinds: ['verify', 'satisfy', 'refine', 'dependency']
+  includeEdgeKinds: ['verify', 'satisfy', 'refine', 'dependency'],
+  layout: 'requirements'
 };
 
 export const sysmlViewpoints = {
   structuralDefinitionViewpoint,
   usageStructureViewpoint,
+  internalBlockViewpoint,
   behaviorControlViewpoint,
   interactionViewpoint,
   stateViewpoint,